@@ -5,6 +5,8 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/Home";
 import Results from "@/pages/Results";
+import Trips from "@/pages/Trips";
+import ImportTrip from "@/pages/ImportTrip";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -12,6 +14,9 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/results" component={Results} />
+      <Route path="/trips" component={Trips} />
+      <Route path="/trips/import" component={ImportTrip} />
+      <Route path="/trips/:id" component={Results} />
       <Route component={NotFound} />
     </Switch>
   );
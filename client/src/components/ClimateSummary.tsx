@@ -0,0 +1,37 @@
+import { CloudSun, Droplets, Sun, Thermometer } from "lucide-react";
+import type { ClimateNormals } from "@shared/schema";
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+interface ClimateSummaryProps {
+  climate: ClimateNormals;
+  className?: string;
+}
+
+export function ClimateSummary({ climate, className = "text-muted-foreground" }: ClimateSummaryProps) {
+  return (
+    <div className={`text-sm space-y-1 ${className}`}>
+      <p className="flex items-center gap-1.5 font-medium">
+        <CloudSun className="w-4 h-4" />
+        Typical {MONTH_LABELS[climate.month - 1]} weather: {climate.summary}
+      </p>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <span className="flex items-center gap-1">
+          <Thermometer className="w-3.5 h-3.5" />
+          {climate.avg_low_c}–{climate.avg_high_c}°C
+        </span>
+        <span className="flex items-center gap-1">
+          <Droplets className="w-3.5 h-3.5" />
+          {climate.rainfall_mm} mm rain · {climate.humidity_pct}% humidity
+        </span>
+        <span className="flex items-center gap-1">
+          <Sun className="w-3.5 h-3.5" />
+          {climate.daylight_hours} h daylight
+        </span>
+      </div>
+      {climate.distance_km > 50 && (
+        <p className="text-xs opacity-80">Based on normals for {climate.station}, {climate.distance_km} km away</p>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,11 @@ export function Layout({ children }: { children: React.ReactNode }) {
             </span>
           </Link>
           
+          <Link href="/trips" className="md:hidden text-sm font-medium text-muted-foreground hover:text-primary transition-colors">
+            My Trips
+          </Link>
           <nav className="hidden md:flex items-center gap-6 text-sm font-medium text-muted-foreground">
+            <Link href="/trips" className="hover:text-primary transition-colors">My Trips</Link>
             <a href="#" className="hover:text-primary transition-colors">How it works</a>
             <a href="#" className="hover:text-primary transition-colors">Examples</a>
             <a href="#" className="hover:text-primary transition-colors">About</a>
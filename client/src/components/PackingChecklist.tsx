@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState } from "react";
+import { AlertCircle, Check, Loader2, Plus, RotateCcw, X } from "lucide-react";
+import { useSavePackingChecklist } from "@/hooks/use-trips";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  PACKING_CATEGORIES,
+  PACKING_CATEGORY_LABELS,
+  countPacked,
+  createPackingChecklist,
+} from "@shared/packing-checklist";
+import type {
+  PackingCategory,
+  PackingChecklist as Checklist,
+  PackingChecklistItem,
+  StoredTrip,
+} from "@shared/schema";
+
+// Edits are batched so typing or ticking quickly sends one save
+const SAVE_DELAY_MS = 600;
+const MAX_QUANTITY = 99;
+// The server rejects a category with more items than this
+const MAX_ITEMS_PER_CATEGORY = 100;
+
+interface PackingChecklistProps {
+  trip: StoredTrip;
+}
+
+interface ChecklistRowProps {
+  item: PackingChecklistItem;
+  onChange: (updates: Partial<PackingChecklistItem>) => void;
+  onRemove: () => void;
+}
+
+function ChecklistRow({ item, onChange, onRemove }: ChecklistRowProps) {
+  const [label, setLabel] = useState(item.label);
+
+  useEffect(() => setLabel(item.label), [item.label]);
+
+  // Blank names are not saved; the previous name comes back instead
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (!trimmed) setLabel(item.label);
+    else if (trimmed !== item.label) onChange({ label: trimmed });
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <Checkbox
+        checked={item.checked}
+        onCheckedChange={(checked) => onChange({ checked: checked === true })}
+        aria-label={`Packed ${item.label}`}
+      />
+      <Input
+        value={label}
+        maxLength={100}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        className={cn(
+          "h-8 flex-1 border-transparent bg-transparent px-2 shadow-none hover:border-input focus-visible:border-input",
+          item.checked && "line-through text-muted-foreground",
+        )}
+        aria-label="Item name"
+      />
+      <Input
+        type="number"
+        min={1}
+        max={MAX_QUANTITY}
+        value={item.quantity}
+        onChange={(e) => {
+          const quantity = Math.round(Number(e.target.value));
+          if (quantity >= 1) onChange({ quantity: Math.min(MAX_QUANTITY, quantity) });
+        }}
+        className="h-8 w-16 px-2 font-mono"
+        aria-label={`Quantity of ${item.label}`}
+      />
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onRemove} aria-label={`Remove ${item.label}`}>
+        <X className="w-4 h-4" />
+      </Button>
+    </li>
+  );
+}
+
+interface AddItemFormProps {
+  isFull: boolean;
+  onAdd: (label: string) => void;
+}
+
+function AddItemForm({ isFull, onAdd }: AddItemFormProps) {
+  const [label, setLabel] = useState("");
+
+  return (
+    <form
+      className="flex items-center gap-2 pt-1"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isFull || !label.trim()) return;
+        onAdd(label.trim());
+        setLabel("");
+      }}
+    >
+      <Input
+        value={label}
+        maxLength={100}
+        onChange={(e) => setLabel(e.target.value)}
+        placeholder={isFull ? `Up to ${MAX_ITEMS_PER_CATEGORY} items per list` : "Add an item"}
+        disabled={isFull}
+        className="h-8 flex-1"
+      />
+      <Button type="submit" variant="outline" size="sm" disabled={isFull || !label.trim()}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * The trip's packing list as an editable checklist. Starts from the suggested
+ * packing_list and saves the traveler's ticks and edits with the trip.
+ */
+export function PackingChecklist({ trip }: PackingChecklistProps) {
+  const [checklist, setChecklist] = useState<Checklist>(
+    () => trip.packingChecklist ?? createPackingChecklist(trip.response.packing_list),
+  );
+  const [isDirty, setIsDirty] = useState(false);
+  const saveChecklist = useSavePackingChecklist(trip.id);
+  const { mutate } = saveChecklist;
+  const latest = useRef(checklist);
+  latest.current = checklist;
+  const hasPendingSave = useRef(isDirty);
+  hasPendingSave.current = isDirty;
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timer = setTimeout(() => {
+      setIsDirty(false);
+      mutate(latest.current);
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [checklist, isDirty, mutate]);
+
+  // Leaving the page inside the save delay would otherwise drop the last edits
+  useEffect(
+    () => () => {
+      if (hasPendingSave.current) mutate(latest.current);
+    },
+    [mutate],
+  );
+
+  const update = (category: PackingCategory, items: PackingChecklistItem[]) => {
+    setChecklist((prev) => ({ ...prev, [category]: items }));
+    setIsDirty(true);
+  };
+
+  const updateItem = (category: PackingCategory, id: string, updates: Partial<PackingChecklistItem>) =>
+    update(
+      category,
+      checklist[category].map((item) => (item.id === id ? { ...item, ...updates } : item)),
+    );
+
+  const reset = () => {
+    setChecklist(createPackingChecklist(trip.response.packing_list));
+    setIsDirty(true);
+  };
+
+  const overall = countPacked(PACKING_CATEGORIES.flatMap((category) => checklist[category]));
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className="font-medium">
+            {overall.packed} of {overall.total} packed
+          </span>
+          <span className="flex items-center gap-3 text-muted-foreground">
+            {isDirty || saveChecklist.isPending ? (
+              <span className="flex items-center gap-1">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Saving...
+              </span>
+            ) : saveChecklist.isError ? (
+              <span className="flex items-center gap-1 text-destructive">
+                <AlertCircle className="w-3 h-3" />
+                Not saved
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-destructive hover:text-destructive"
+                  onClick={() => mutate(latest.current)}
+                >
+                  Retry
+                </Button>
+              </span>
+            ) : saveChecklist.isSuccess ? (
+              <span className="flex items-center gap-1">
+                <Check className="w-3 h-3" />
+                Saved
+              </span>
+            ) : null}
+            <Button variant="ghost" size="sm" onClick={reset}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset to suggestions
+            </Button>
+          </span>
+        </div>
+        <Progress value={overall.total ? (overall.packed / overall.total) * 100 : 0} className="h-2" />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        {PACKING_CATEGORIES.map((category) => {
+          const items = checklist[category];
+          const progress = countPacked(items);
+          return (
+            <div key={category} className="space-y-3">
+              <div className="flex items-baseline justify-between gap-2">
+                <h3 className="font-semibold text-lg">{PACKING_CATEGORY_LABELS[category]}</h3>
+                <span className="text-sm text-muted-foreground font-mono">
+                  {progress.packed}/{progress.total}
+                </span>
+              </div>
+              <Progress
+                value={progress.total ? (progress.packed / progress.total) * 100 : 0}
+                className="h-1.5"
+              />
+              <ul className="space-y-1">
+                {items.map((item) => (
+                  <ChecklistRow
+                    key={item.id}
+                    item={item}
+                    onChange={(updates) => updateItem(category, item.id, updates)}
+                    onRemove={() =>
+                      update(
+                        category,
+                        items.filter((entry) => entry.id !== item.id),
+                      )
+                    }
+                  />
+                ))}
+              </ul>
+              <AddItemForm
+                isFull={items.length >= MAX_ITEMS_PER_CATEGORY}
+                onAdd={(label) =>
+                  update(category, [
+                    ...items,
+                    { id: `${category}-${crypto.randomUUID()}`, label, quantity: 1, checked: false },
+                  ])
+                }
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useRegenerateDay } from "@/hooks/use-trips";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface RegenerateDayButtonProps {
+  tripId: string;
+  day: number;
+}
+
+export function RegenerateDayButton({ tripId, day }: RegenerateDayButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [guidance, setGuidance] = useState("");
+  const regenerateDay = useRegenerateDay(tripId);
+
+  const submit = () => {
+    regenerateDay.mutate(
+      { day, guidance: guidance.trim() },
+      {
+        onSuccess: () => {
+          setOpen(false);
+          setGuidance("");
+        },
+      },
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={regenerateDay.isPending}>
+          {regenerateDay.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Regenerate this day
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <Label htmlFor={`regenerate-day-${day}`}>What should change? (Optional)</Label>
+        <Input
+          id={`regenerate-day-${day}`}
+          value={guidance}
+          maxLength={300}
+          placeholder='e.g. "less walking", "more food"'
+          onChange={(e) => setGuidance(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submit();
+          }}
+        />
+        <Button className="w-full" onClick={submit} disabled={regenerateDay.isPending}>
+          {regenerateDay.isPending ? "Regenerating..." : `Regenerate Day ${day}`}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { ChevronDown } from "lucide-react";
+import type { DestinationRecommendationResponse, ScoreBreakdown } from "@shared/schema";
+import { V3_INDEX_LABELS, V3_WEIGHTS } from "@shared/scoring";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+type DestinationOption = DestinationRecommendationResponse["options"][number];
+
+const METRIC_LABELS: Array<{ key: keyof DestinationOption["metrics"]; label: string }> = [
+  { key: "total_score", label: "Overall" },
+  { key: "vibe_fit", label: "Vibe fit" },
+  { key: "affordability", label: "Affordability" },
+  { key: "travel_convenience", label: "Travel convenience" },
+  { key: "safety_accessibility", label: "Safety & accessibility" },
+];
+
+interface ScoreExplanationProps {
+  option: DestinationOption;
+}
+
+export function ScoreExplanation({ option }: ScoreExplanationProps) {
+  const [open, setOpen] = useState(false);
+  const breakdown = option.score_breakdown;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-3 border-t pt-3">
+      <CollapsibleTrigger className="flex items-center gap-1 text-sm font-medium text-primary hover:underline">
+        Why this score?
+        <ChevronDown className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 pt-3 text-sm">
+        <ul className="space-y-2">
+          {METRIC_LABELS.map(({ key, label }) => (
+            <li key={key}>
+              <div className="flex justify-between font-medium">
+                <span>{label}</span>
+                <span className="font-mono">{option.metrics[key]}/10</span>
+              </div>
+              {option.metric_rationales[key] && (
+                <p className="text-muted-foreground">{option.metric_rationales[key]}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {breakdown && (
+          <div className="space-y-2">
+            <p className="font-medium">V3 score breakdown</p>
+            {(Object.keys(V3_WEIGHTS) as Array<keyof ScoreBreakdown>).map((index) => {
+              const value = breakdown[index];
+              return (
+                <div key={index} className="grid grid-cols-[1fr_auto] items-center gap-x-3 gap-y-1">
+                  <span className="text-muted-foreground">
+                    {V3_INDEX_LABELS[index]} ({Math.round(V3_WEIGHTS[index] * 100)}%)
+                  </span>
+                  <span className="font-mono text-right">{value === null ? "n/a" : `${value}/10`}</span>
+                  <div className="col-span-2 h-1.5 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary"
+                      style={{ width: `${value === null ? 0 : value * 10}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
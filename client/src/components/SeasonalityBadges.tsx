@@ -0,0 +1,47 @@
+import { AlertTriangle } from "lucide-react";
+import type { SeasonalRisk, SeasonalityWarning } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+const RISK_BADGE_LABELS: Record<SeasonalRisk, string> = {
+  monsoon: "Rainy season",
+  hurricane: "Storm season",
+  extreme_heat: "Extreme heat",
+  high_season: "Peak season",
+  no_snow: "Snow unlikely",
+};
+
+interface SeasonalityBadgesProps {
+  warnings: SeasonalityWarning[];
+  // Lists each warning's full message under the badges
+  showMessages?: boolean;
+  className?: string;
+}
+
+export function SeasonalityBadges({ warnings, showMessages = false, className = "" }: SeasonalityBadgesProps) {
+  if (!warnings.length) return null;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <div className="flex flex-wrap gap-1.5">
+        {warnings.map((warning, i) => (
+          <Badge
+            key={`${warning.risk}-${i}`}
+            variant={warning.risk === "high_season" ? "secondary" : "destructive"}
+            title={warning.message}
+            className="gap-1"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            {RISK_BADGE_LABELS[warning.risk]}
+          </Badge>
+        ))}
+      </div>
+      {showMessages && (
+        <ul className="text-sm space-y-0.5">
+          {warnings.map((warning, i) => (
+            <li key={`${warning.risk}-${i}`}>{warning.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,48 +1,336 @@
-import { useMutation } from "@tanstack/react-query";
-import { api, type TripRequest, type TripResponse } from "@shared/routes";
+import { useCallback, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import {
+  tripStreamEventSchema,
+  type DailyPlan,
+  type PackingChecklist,
+  type StoredTrip,
+  type TripExport,
+  type TripRequest,
+  type TripResponse,
+} from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 
+export const PENDING_TRIP_REQUEST_KEY = "pendingTripRequest";
+
+export type PartialTrip = Partial<Omit<TripResponse, "daily_itinerary">> & {
+  daily_itinerary: DailyPlan[];
+};
+
+export type TripStreamStatus = "idle" | "streaming" | "done" | "error";
+
 export function useGenerateTrip() {
+  const [, setLocation] = useLocation();
+
+  return useCallback(
+    (data: TripRequest) => {
+      // Results picks the request up and streams the itinerary in as it is generated
+      sessionStorage.setItem(PENDING_TRIP_REQUEST_KEY, JSON.stringify(data));
+      setLocation("/results");
+    },
+    [setLocation],
+  );
+}
+
+export function useTrips() {
+  return useQuery({
+    queryKey: [api.trips.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.trips.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load trips");
+      return api.trips.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useDeleteTrip() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(buildUrl(api.trips.delete.path, { id }), {
+        method: api.trips.delete.method,
+        credentials: "include",
+      });
+      if (!res.ok && res.status !== 404) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to delete trip");
+      }
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: [api.trips.list.path] });
+      queryClient.removeQueries({ queryKey: [api.trips.get.path, id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useImportTrip() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
   return useMutation({
-    mutationFn: async (data: TripRequest) => {
-      // Simulate API delay for better UX if it's too fast, 
-      // but OpenAI usually takes a few seconds anyway.
-      const res = await fetch(api.trips.generate.path, {
-        method: api.trips.generate.method,
+    mutationFn: async (data: TripExport) => {
+      const res = await fetch(api.trips.import.path, {
+        method: api.trips.import.method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to import trip");
+      }
+      return api.trips.import.responses[201].parse(await res.json());
+    },
+    onSuccess: (trip) => {
+      queryClient.setQueryData([api.trips.get.path, trip.id], trip);
+      queryClient.invalidateQueries({ queryKey: [api.trips.list.path] });
+      toast({
+        title: "Trip Imported",
+        description: `Your ${trip.response.destination} itinerary is saved to My Trips.`,
+      });
+      setLocation(`/trips/${trip.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
       });
+    },
+  });
+}
+
+export function useSavePackingChecklist(tripId: string) {
+  const { toast } = useToast();
 
+  return useMutation({
+    mutationFn: async (checklist: PackingChecklist) => {
+      const res = await fetch(buildUrl(api.trips.updatePackingChecklist.path, { id: tripId }), {
+        method: api.trips.updatePackingChecklist.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(checklist),
+        credentials: "include",
+      });
       if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.message || "Failed to generate itinerary");
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to save packing checklist");
       }
+      return api.trips.updatePackingChecklist.responses[200].parse(await res.json());
+    },
+    onSuccess: (checklist) => {
+      queryClient.setQueryData<StoredTrip | null>([api.trips.get.path, tripId], (trip) =>
+        trip ? { ...trip, packingChecklist: checklist } : trip,
+      );
+    },
+    onError: (error) => {
+      toast({
+        title: "Checklist Not Saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRegenerateDay(tripId: string) {
+  const { toast } = useToast();
 
-      // Validate response with Zod schema from shared routes
-      return api.trips.generate.responses[200].parse(await res.json());
+  return useMutation({
+    mutationFn: async ({ day, guidance }: { day: number; guidance?: string }) => {
+      const res = await fetch(buildUrl(api.trips.regenerateDay.path, { id: tripId, day }), {
+        method: api.trips.regenerateDay.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ guidance: guidance || undefined }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to regenerate day");
+      }
+      return api.trips.regenerateDay.responses[200].parse(await res.json());
     },
-    onSuccess: (data) => {
-      // Store result in sessionStorage to persist across simple navigations
-      // without needing a complex global store for this MVP
-      sessionStorage.setItem("lastTripResult", JSON.stringify(data));
-      
+    onSuccess: (day) => {
+      queryClient.setQueryData<StoredTrip | null>([api.trips.get.path, tripId], (trip) =>
+        trip
+          ? {
+              ...trip,
+              response: {
+                ...trip.response,
+                daily_itinerary: trip.response.daily_itinerary.map((entry) =>
+                  entry.day === day.day ? day : entry,
+                ),
+              },
+            }
+          : trip,
+      );
+      // The server re-checks the whole plan after a regeneration; refetch for its new warnings
+      queryClient.invalidateQueries({ queryKey: [api.trips.get.path, tripId] });
       toast({
-        title: "Itinerary Ready!",
-        description: "Your personalized travel plan has been generated.",
+        title: `Day ${day.day} Updated`,
+        description: "Here's a fresh plan for that day.",
       });
-      
-      setLocation("/results");
     },
-    onError: (error: Error) => {
+    onError: (error) => {
       toast({
-        title: "Generation Failed",
+        title: "Regeneration Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 }
+
+export function useTrip(id: string | undefined) {
+  return useQuery({
+    queryKey: [api.trips.get.path, id],
+    enabled: !!id,
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.trips.get.path, { id: id! }), {
+        credentials: "include",
+      });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to load trip");
+      return api.trips.get.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useTripStream() {
+  const { toast } = useToast();
+  const [trip, setTrip] = useState<PartialTrip | null>(null);
+  const [tripId, setTripId] = useState<string | null>(null);
+  const [request, setRequest] = useState<TripRequest | null>(null);
+  const [status, setStatus] = useState<TripStreamStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  // Why the streamed draft is being regenerated; null while it stands
+  const [revision, setRevision] = useState<string[] | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const fail = useCallback(
+    (message: string) => {
+      setStatus("error");
+      setError(message);
+      toast({
+        title: "Generation Failed",
+        description: message,
+        variant: "destructive",
+      });
+    },
+    [toast],
+  );
+
+  const start = useCallback(
+    async (data: TripRequest) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setTrip({ daily_itinerary: [] });
+      setTripId(null);
+      setRequest(data);
+      setStatus("streaming");
+      setError(null);
+      setRevision(null);
+      let revised = false;
+
+      try {
+        const res = await fetch(api.trips.generateStream.path, {
+          method: api.trips.generateStream.method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(data),
+          signal: controller.signal,
+        });
+
+        if (!res.ok || !res.body) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body.message || "Failed to generate itinerary");
+        }
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          const frames = buffer.split("\n\n");
+          buffer = frames.pop() || "";
+          for (const frame of frames) {
+            const data = frame
+              .split("\n")
+              .filter((line) => line.startsWith("data: "))
+              .map((line) => line.slice(6))
+              .join("");
+            if (!data) continue;
+
+            const event = tripStreamEventSchema.parse(JSON.parse(data));
+            switch (event.type) {
+              case "overview":
+              case "extras": {
+                const { type: _type, ...fields } = event;
+                setTrip((prev) => ({ daily_itinerary: [], ...prev, ...fields }));
+                break;
+              }
+              case "day":
+                setTrip((prev) => ({
+                  ...prev,
+                  daily_itinerary: [...(prev?.daily_itinerary || []), event.day],
+                }));
+                break;
+              case "revising":
+                revised = true;
+                setRevision(event.reasons);
+                break;
+              case "done":
+                queryClient.setQueryData([api.trips.get.path, event.trip.id], event.trip);
+                queryClient.invalidateQueries({ queryKey: [api.trips.list.path] });
+                // The saved plan replaces the streamed draft, which may differ after a revision
+                setTrip(event.trip.response);
+                setTripId(event.trip.id);
+                setStatus("done");
+                toast(
+                  revised
+                    ? {
+                        title: "Itinerary Revised",
+                        description: "The first draft missed part of your request, so the plan was regenerated.",
+                      }
+                    : {
+                        title: "Itinerary Ready!",
+                        description: "Your personalized travel plan has been generated.",
+                      },
+                );
+                return;
+              case "error":
+                fail(event.message);
+                return;
+            }
+          }
+        }
+
+        fail("The itinerary stream ended unexpectedly. Please try again.");
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        fail(err instanceof Error ? err.message : "Failed to generate itinerary");
+      }
+    },
+    [fail, toast],
+  );
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { trip, tripId, request, status, error, revision, start, stop };
+}
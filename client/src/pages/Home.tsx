@@ -2,11 +2,21 @@ import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { api } from "@shared/routes";
-import { tripRequestSchema, type TripRequest } from "@shared/schema";
+import {
+  tripRequestSchema,
+  type DestinationRecommendationResponse,
+  type Place,
+  type TripRequest,
+} from "@shared/schema";
+import { findCountryInLocation, getCountryFromLocation } from "@shared/countries";
+import { CURRENCIES } from "@shared/currencies";
 import { useGenerateTrip } from "@/hooks/use-trips";
 import { useToast } from "@/hooks/use-toast";
 import { Layout } from "@/components/Layout";
 import { WizardStep } from "@/components/WizardStep";
+import { ScoreExplanation } from "@/components/ScoreExplanation";
+import { ClimateSummary } from "@/components/ClimateSummary";
+import { SeasonalityBadges } from "@/components/SeasonalityBadges";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -32,136 +42,14 @@ function toLocalDateString(date: Date): string {
 
 type TripType = "domestic" | "international";
 type TripGoal = "need_recommendation" | "know_destination";
-type ComfortLevel = "low" | "medium" | "premium";
 
-type LocationSuggestion = {
-  city: string;
-  country: string;
-  displayName: string;
-};
-
-type DestinationOption = {
-  destination: string;
-  country: string;
-  summary: string;
-  estimated_budget: {
-    low: number;
-    high: number;
-    currency: string;
-  };
-  metrics: {
-    vibe_fit: number;
-    affordability: number;
-    travel_convenience: number;
-    safety_accessibility: number;
-    total_score: number;
-  };
-};
+type DestinationOption = DestinationRecommendationResponse["options"][number];
 
 type CompanionOption = {
   value: string;
   label: string;
 };
 
-const CURRENCY_TO_INR: Record<string, number> = {
-  INR: 1,
-  USD: 83,
-  EUR: 90,
-  GBP: 105,
-  JPY: 0.56,
-  AUD: 54,
-  CAD: 61,
-};
-
-const CURRENCY_STRENGTH: Record<string, "weak" | "medium" | "strong"> = {
-  INR: "weak",
-  JPY: "weak",
-  AUD: "medium",
-  CAD: "medium",
-  USD: "strong",
-  EUR: "strong",
-  GBP: "strong",
-};
-
-const COUNTRY_ALIASES: Record<string, string> = {
-  "The Netherlands": "Netherlands",
-  Holland: "Netherlands",
-  "United States of America": "United States",
-  USA: "United States",
-  "U.S.A.": "United States",
-  UK: "United Kingdom",
-  "U.K.": "United Kingdom",
-  UAE: "United Arab Emirates",
-};
-
-const COUNTRY_REGION: Record<string, "asia" | "europe" | "oceania" | "north_america" | "south_america" | "africa" | "middle_east"> = {
-  Netherlands: "europe",
-  India: "asia",
-  Australia: "oceania",
-  "New Zealand": "oceania",
-  "United States": "north_america",
-  Canada: "north_america",
-  "United Kingdom": "europe",
-  Germany: "europe",
-  France: "europe",
-  Italy: "europe",
-  Spain: "europe",
-  Japan: "asia",
-  Singapore: "asia",
-  Indonesia: "asia",
-  Thailand: "asia",
-  Malaysia: "asia",
-  Vietnam: "asia",
-  Philippines: "asia",
-  "United Arab Emirates": "middle_east",
-};
-
-const COUNTRY_CURRENCY: Record<string, string> = {
-  India: "INR",
-  Netherlands: "EUR",
-  Germany: "EUR",
-  France: "EUR",
-  Italy: "EUR",
-  Spain: "EUR",
-  "United Kingdom": "GBP",
-  "United States": "USD",
-  Canada: "CAD",
-  Australia: "AUD",
-  Japan: "JPY",
-  Singapore: "USD",
-  "United Arab Emirates": "USD",
-};
-
-const REGION_DEFAULT_CURRENCY: Record<string, string> = {
-  asia: "INR",
-  europe: "EUR",
-  oceania: "AUD",
-  north_america: "USD",
-  south_america: "USD",
-  africa: "USD",
-  middle_east: "USD",
-  global: "INR",
-};
-
-const DOMESTIC_COST_MULTIPLIER_BY_COUNTRY: Record<string, number> = {
-  Netherlands: 1.25,
-  India: 0.85,
-  Australia: 1.35,
-  "New Zealand": 1.35,
-  "United States": 1.4,
-  Canada: 1.3,
-  "United Kingdom": 1.3,
-  Singapore: 1.35,
-  Japan: 1.25,
-};
-
-function normalizeCountryName(country?: string): string | undefined {
-  if (!country) return undefined;
-  const trimmed = country.trim();
-  if (!trimmed) return undefined;
-  return COUNTRY_ALIASES[trimmed] || trimmed;
-}
-
 const COMPANION_SIZE: Record<string, number> = {
   Solo: 1,
   Couple: 2,
@@ -171,121 +59,8 @@ const COMPANION_SIZE: Record<string, number> = {
   "Senior Citizen Friendly": 2,
 };
 
-function getCountryFromLocation(location: string): string | undefined {
-  const parts = location.split(",").map((part) => part.trim()).filter(Boolean);
-  if (!parts.length) return undefined;
-  return normalizeCountryName(parts[parts.length - 1]);
-}
-
-function getRegionFromCountry(
-  country?: string,
-): "asia" | "oceania" | "europe" | "north_america" | "south_america" | "africa" | "middle_east" | "global" {
-  if (!country) return "global";
-  return COUNTRY_REGION[country] || "global";
-}
-
 function getSuggestedCurrencyFromLocation(location: string): string {
-  const country = getCountryFromLocation(location);
-  if (country && COUNTRY_CURRENCY[country]) {
-    return COUNTRY_CURRENCY[country];
-  }
-  const region = getRegionFromCountry(country);
-  return REGION_DEFAULT_CURRENCY[region] || "INR";
-}
-
-function getInternationalOriginMultiplier(country?: string): number {
-  const region = getRegionFromCountry(country);
-  switch (region) {
-    case "oceania":
-      return 1.15;
-    case "europe":
-      return 1.18;
-    case "north_america":
-      return 1.2;
-    case "middle_east":
-      return 1.05;
-    case "africa":
-      return 1.0;
-    case "south_america":
-      return 1.1;
-    case "asia":
-      return 1.0;
-    case "global":
-    default:
-      return 1.1;
-  }
-}
-
-function getCurrencyStrengthMultiplier(currency: string): number {
-  const strength = CURRENCY_STRENGTH[currency] ?? "medium";
-  if (strength === "strong") return 0.9;
-  if (strength === "weak") return 1.1;
-  return 1.0;
-}
-
-function estimateBudgetRangeInInr({
-  days,
-  numberOfPeople,
-  tripType,
-  currency,
-  startLocation,
-  comfortLevel,
-  includesFlights,
-  maxFlightHours,
-}: {
-  days: number;
-  numberOfPeople: number;
-  tripType: TripType;
-  currency: string;
-  startLocation: string;
-  comfortLevel: ComfortLevel;
-  includesFlights: boolean;
-  maxFlightHours: number;
-}): { low: number; high: number } {
-  const travelers = Math.max(1, numberOfPeople);
-  const domestic = tripType === "domestic";
-  const originCountry = getCountryFromLocation(startLocation);
-
-  const perDayLow = domestic ? 1200 : 2500;
-  const perDayHigh = domestic ? 3000 : 6500;
-  const fixedLow = domestic ? 3000 : 12000;
-  const fixedHigh = domestic ? 8000 : 30000;
-
-  const baseLow = travelers * (days * perDayLow + fixedLow);
-  const baseHigh = travelers * (days * perDayHigh + fixedHigh);
-
-  const geoMultiplier = domestic
-    ? DOMESTIC_COST_MULTIPLIER_BY_COUNTRY[originCountry || ""] || 1
-    : getInternationalOriginMultiplier(originCountry);
-  const currencyMultiplier = domestic ? 1 : getCurrencyStrengthMultiplier(currency);
-  const comfortMultiplier =
-    comfortLevel === "low" ? 0.85 : comfortLevel === "premium" ? 1.35 : 1;
-  const flightBudgetMultiplier = includesFlights ? 1 : 0.78;
-  const flightDurationMultiplier =
-    tripType === "international" ? (maxFlightHours <= 6 ? 0.9 : maxFlightHours >= 12 ? 1.1 : 1) : 1;
-
-  const low = Math.round(
-    baseLow *
-      geoMultiplier *
-      currencyMultiplier *
-      comfortMultiplier *
-      flightBudgetMultiplier *
-      flightDurationMultiplier,
-  );
-  const high = Math.round(
-    baseHigh *
-      geoMultiplier *
-      currencyMultiplier *
-      comfortMultiplier *
-      flightBudgetMultiplier *
-      flightDurationMultiplier,
-  );
-  return { low, high };
-}
-
-function convertInrToCurrency(amountInInr: number, currency: string): number {
-  const rate = CURRENCY_TO_INR[currency] ?? 1;
-  return amountInInr / rate;
+  return findCountryInLocation(location)?.currency || "INR";
 }
 
 function formatAmount(amount: number, currency: string): string {
@@ -300,46 +75,25 @@ function formatAmount(amount: number, currency: string): string {
   }
 }
 
-function getBudgetGuidanceNote({
-  currency,
-  tripType,
-  startLocation,
-}: {
-  currency: string;
-  tripType: TripType;
-  startLocation: string;
-}): string {
-  const strength = CURRENCY_STRENGTH[currency] ?? "medium";
-  const country = getCountryFromLocation(startLocation);
-
-  if (tripType === "domestic") {
-    return `For ${country || "your country"}, consider off-peak dates and budget-friendly domestic routes to stretch value.`;
-  }
-  if (strength === "weak") {
-    return `From ${country || "your origin"}, prioritize geographically nearby and value-focused international options, and consider off-peak travel.`;
-  }
-  if (strength === "strong") {
-    return `Your selected currency has strong purchasing power. From ${country || "your origin"}, compare nearby-value and premium international options while keeping the trip practical.`;
-  }
-  return `From ${country || "your origin"}, balance route distance, seasonality, and flight costs to stay within budget.`;
-}
-
-function deriveBudgetTierFromRange(
-  budgetInInr: number,
-  rangeInInr: { low: number; high: number },
-): ComfortLevel {
-  if (budgetInInr < rangeInInr.low) return "low";
-  if (budgetInInr > rangeInInr.high) return "premium";
-  return "medium";
+// City on the first line, region and country below so same-named cities can be told apart
+function SuggestionLabel({ place }: { place: Place }) {
+  return (
+    <>
+      <span className="block font-medium">{place.city}</span>
+      <span className="block text-xs text-muted-foreground">
+        {[place.region, place.country].filter(Boolean).join(", ")}
+      </span>
+    </>
+  );
 }
 
 export default function Home() {
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(0);
-  const [locationSuggestions, setLocationSuggestions] = useState<LocationSuggestion[]>([]);
+  const [locationSuggestions, setLocationSuggestions] = useState<Place[]>([]);
   const [isLocationLoading, setIsLocationLoading] = useState(false);
   const [showLocationSuggestions, setShowLocationSuggestions] = useState(false);
-  const [destinationSuggestions, setDestinationSuggestions] = useState<LocationSuggestion[]>([]);
+  const [destinationSuggestions, setDestinationSuggestions] = useState<Place[]>([]);
   const [isDestinationLoading, setIsDestinationLoading] = useState(false);
   const [showDestinationSuggestions, setShowDestinationSuggestions] = useState(false);
   const [isAnalysingBasics, setIsAnalysingBasics] = useState(false);
@@ -475,8 +229,6 @@ export default function Home() {
       setBudgetFeedback(null);
       setAllowProceedAnyway(false);
 
-      await new Promise((resolve) => setTimeout(resolve, 700));
-
       const values = form.getValues();
       const tripDays = Math.max(
         1,
@@ -485,52 +237,52 @@ export default function Home() {
             (1000 * 60 * 60 * 24),
         ),
       );
-      const budgetInInr = values.budget_amount * (CURRENCY_TO_INR[values.currency] ?? 1);
-      const effectiveTripType: TripType =
-        values.trip_goal === "know_destination" && values.destination_location
-          ? (getCountryFromLocation(values.location) === getCountryFromLocation(values.destination_location)
-              ? "domestic"
-              : "international")
-          : values.trip_type;
-      const recommendedRangeInInr = estimateBudgetRangeInInr({
-        days: tripDays,
-        numberOfPeople: values.number_of_people,
-        tripType: effectiveTripType,
-        currency: values.currency,
-        startLocation: values.location,
-        comfortLevel: values.comfort_level,
-        includesFlights: values.includes_flights,
-        maxFlightHours: values.max_flight_hours ?? 8,
-      });
-      const lowInSelectedCurrency = convertInrToCurrency(
-        recommendedRangeInInr.low,
-        values.currency,
-      );
-      const highInSelectedCurrency = convertInrToCurrency(
-        recommendedRangeInInr.high,
-        values.currency,
-      );
-      const guidanceNote = getBudgetGuidanceNote({
-        currency: values.currency,
-        tripType: effectiveTripType,
-        startLocation: values.location,
-      });
-      const derivedComfortLevel = deriveBudgetTierFromRange(budgetInInr, recommendedRangeInInr);
-      form.setValue("comfort_level", derivedComfortLevel, { shouldValidate: true });
-
-      if (budgetInInr < recommendedRangeInInr.low) {
-        const closeToRange = budgetInInr >= recommendedRangeInInr.low * 0.75;
-        const tooInsufficientWithFlights =
-          values.includes_flights && budgetInInr < recommendedRangeInInr.low * 0.9;
-        setBudgetFeedback(
-          `Your budget looks low for this setup. A more realistic range is ${formatAmount(lowInSelectedCurrency, values.currency)} to ${formatAmount(highInSelectedCurrency, values.currency)} for ${tripDays} day(s), ${values.number_of_people} traveler(s), and ${effectiveTripType} travel. ${guidanceNote}`,
-        );
-        setAllowProceedAnyway(closeToRange && !tooInsufficientWithFlights);
-        setIsAnalysingBasics(false);
-        window.scrollTo({ top: 0, behavior: "smooth" });
+      try {
+        const response = await fetch(api.budget.estimate.path, {
+          method: api.budget.estimate.method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            trip_type: values.trip_type,
+            location: values.location,
+            destination_location:
+              values.trip_goal === "know_destination" ? values.destination_location : undefined,
+            origin_place: values.origin_place,
+            destination_place:
+              values.trip_goal === "know_destination" ? values.destination_place : undefined,
+            days: tripDays,
+            number_of_people: values.number_of_people,
+            budget_amount: values.budget_amount,
+            currency: values.currency,
+            includes_flights: values.includes_flights,
+            max_flight_hours: values.max_flight_hours,
+            comfort_level: values.comfort_level,
+          }),
+        });
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.message || "Failed to estimate budget");
+        }
+        const estimate = api.budget.estimate.responses[200].parse(await response.json());
+        form.setValue("comfort_level", estimate.comfort_level, { shouldValidate: true });
+
+        if (estimate.budget_status === "below_range") {
+          setBudgetFeedback(
+            `Your budget looks low for this setup. A more realistic range is ${formatAmount(estimate.recommended_range.low, estimate.currency)} to ${formatAmount(estimate.recommended_range.high, estimate.currency)} for ${tripDays} day(s), ${values.number_of_people} traveler(s), and ${estimate.trip_type} travel. ${estimate.guidance}`,
+          );
+          setAllowProceedAnyway(estimate.can_proceed);
+          window.scrollTo({ top: 0, behavior: "smooth" });
+          return;
+        }
+      } catch (error) {
+        toast({
+          title: "Budget Check Failed",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
         return;
+      } finally {
+        setIsAnalysingBasics(false);
       }
-      setIsAnalysingBasics(false);
     }
 
     setCurrentStep((prev) => Math.min(prev + 1, STEPS.length - 1));
@@ -590,14 +342,15 @@ export default function Home() {
         });
         return;
       }
-      generateTrip.mutate({
+      generateTrip({
         ...data,
         trip_goal: "know_destination",
         destination_location: selectedDestination,
+        destination_place: undefined,
       });
       return;
     }
-    generateTrip.mutate(data);
+    generateTrip(data);
   };
 
   const EMOTIONAL_GOALS = [
@@ -627,7 +380,12 @@ export default function Home() {
     { value: "Friends Group", label: "Friends Group" },
     { value: "Senior Citizen Friendly", label: "Senior Citizen Friendly" },
   ];
-  const CURRENCIES = ["USD", "EUR", "GBP", "JPY", "AUD", "CAD", "INR"];
+  const LAUNDRY_OPTIONS = [
+    { value: "none", label: "No laundry" },
+    { value: "3", label: "Every 3 days" },
+    { value: "5", label: "Every 5 days" },
+    { value: "7", label: "Every week" },
+  ];
   const todayDateString = toLocalDateString(todayDate);
   const tripGoalValue = form.watch("trip_goal");
   const startDateValue = form.watch("startDate");
@@ -646,6 +404,7 @@ export default function Home() {
   const currencyValue = form.watch("currency");
   const budgetAmountValue = form.watch("budget_amount");
   const companionsValue = form.watch("companions");
+  const laundryEveryDaysValue = form.watch("laundry_every_days");
   const includesFlightsValue = form.watch("includes_flights");
   const maxFlightHoursValue = form.watch("max_flight_hours");
   const numberOfPeopleValue = form.watch("number_of_people");
@@ -674,14 +433,14 @@ export default function Home() {
     const timeout = setTimeout(async () => {
       try {
         setIsLocationLoading(true);
-        const res = await fetch(`/api/location-suggestions?query=${encodeURIComponent(query)}`, {
+        const res = await fetch(`${api.locations.suggest.path}?query=${encodeURIComponent(query)}`, {
           signal: controller.signal,
         });
         if (!res.ok) {
           setLocationSuggestions([]);
           return;
         }
-        const data = (await res.json()) as { suggestions: LocationSuggestion[] };
+        const data = (await res.json()) as { suggestions: Place[] };
         setLocationSuggestions(data.suggestions || []);
         setShowLocationSuggestions((data.suggestions || []).length > 0);
       } catch {
@@ -713,14 +472,14 @@ export default function Home() {
     const timeout = setTimeout(async () => {
       try {
         setIsDestinationLoading(true);
-        const res = await fetch(`/api/location-suggestions?query=${encodeURIComponent(query)}`, {
+        const res = await fetch(`${api.locations.suggest.path}?query=${encodeURIComponent(query)}`, {
           signal: controller.signal,
         });
         if (!res.ok) {
           setDestinationSuggestions([]);
           return;
         }
-        const data = (await res.json()) as { suggestions: LocationSuggestion[] };
+        const data = (await res.json()) as { suggestions: Place[] };
         setDestinationSuggestions(data.suggestions || []);
         setShowDestinationSuggestions((data.suggestions || []).length > 0);
       } catch {
@@ -927,6 +686,7 @@ export default function Home() {
                         onChange={(e) => {
                           skipNextLocationSearchRef.current = false;
                           locationField.onChange(e);
+                          form.setValue("origin_place", undefined);
                           setShowLocationSuggestions(true);
                         }}
                       />
@@ -938,6 +698,7 @@ export default function Home() {
                           onClick={() => {
                             skipNextLocationSearchRef.current = false;
                             form.setValue("location", "", { shouldValidate: true });
+                            form.setValue("origin_place", undefined);
                             setLocationSuggestions([]);
                             setShowLocationSuggestions(false);
                           }}
@@ -952,18 +713,19 @@ export default function Home() {
                         <div className="absolute top-full mt-1 z-[120] w-full rounded-md border bg-popover shadow-md max-h-60 overflow-auto">
                           {locationSuggestions.map((suggestion) => (
                             <button
-                              key={suggestion.displayName}
+                              key={`${suggestion.displayName}:${suggestion.latitude},${suggestion.longitude}`}
                               type="button"
                               className="block w-full text-left px-3 py-2 hover:bg-accent hover:text-accent-foreground"
                               onMouseDown={(e) => e.preventDefault()}
                               onClick={() => {
                                 skipNextLocationSearchRef.current = true;
                                 form.setValue("location", suggestion.displayName, { shouldValidate: true });
+                                form.setValue("origin_place", suggestion);
                                 setShowLocationSuggestions(false);
                                 setLocationSuggestions([]);
                               }}
                             >
-                              {suggestion.city}, {suggestion.country}
+                              <SuggestionLabel place={suggestion} />
                             </button>
                           ))}
                         </div>
@@ -992,6 +754,7 @@ export default function Home() {
                           onChange={(e) => {
                             skipNextDestinationSearchRef.current = false;
                             destinationField.onChange(e);
+                            form.setValue("destination_place", undefined);
                             setShowDestinationSuggestions(true);
                           }}
                         />
@@ -1003,6 +766,7 @@ export default function Home() {
                             onClick={() => {
                               skipNextDestinationSearchRef.current = false;
                               form.setValue("destination_location", "", { shouldValidate: true });
+                              form.setValue("destination_place", undefined);
                               setDestinationSuggestions([]);
                               setShowDestinationSuggestions(false);
                             }}
@@ -1017,18 +781,19 @@ export default function Home() {
                           <div className="absolute top-full mt-1 z-[120] w-full rounded-md border bg-popover shadow-md max-h-60 overflow-auto">
                             {destinationSuggestions.map((suggestion) => (
                               <button
-                                key={suggestion.displayName}
+                                key={`${suggestion.displayName}:${suggestion.latitude},${suggestion.longitude}`}
                                 type="button"
                                 className="block w-full text-left px-3 py-2 hover:bg-accent hover:text-accent-foreground"
                                 onMouseDown={(e) => e.preventDefault()}
                                 onClick={() => {
                                   skipNextDestinationSearchRef.current = true;
                                   form.setValue("destination_location", suggestion.displayName, { shouldValidate: true });
+                                  form.setValue("destination_place", suggestion);
                                   setShowDestinationSuggestions(false);
                                   setDestinationSuggestions([]);
                                 }}
                               >
-                                {suggestion.city}, {suggestion.country}
+                                <SuggestionLabel place={suggestion} />
                               </button>
                             ))}
                           </div>
@@ -1166,14 +931,16 @@ export default function Home() {
                         onValueChange={(val) =>
                           form.setValue("currency", val, { shouldValidate: true })
                         }
-                        defaultValue={form.getValues("currency")}
+                        value={currencyValue}
                       >
                         <SelectTrigger id="currency" className="h-12">
                           <SelectValue placeholder="Select Currency" />
                         </SelectTrigger>
                         <SelectContent>
-                          {CURRENCIES.map(c => (
-                            <SelectItem key={c} value={c}>{c}</SelectItem>
+                          {CURRENCIES.map((currency) => (
+                            <SelectItem key={currency.code} value={currency.code}>
+                              {currency.code} — {currency.name}
+                            </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
@@ -1241,6 +1008,34 @@ export default function Home() {
                     )}
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="laundry_every_days">Laundry During the Trip</Label>
+                      <Select
+                        onValueChange={(val) =>
+                          form.setValue("laundry_every_days", val === "none" ? undefined : Number(val), {
+                            shouldValidate: true,
+                          })
+                        }
+                        value={laundryEveryDaysValue ? String(laundryEveryDaysValue) : "none"}
+                      >
+                        <SelectTrigger id="laundry_every_days" className="h-12">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LAUNDRY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Clothes counts in your packing list cover one laundry cycle.
+                      </p>
+                    </div>
+                  </div>
+
                   {budgetFeedback && (
                     <Alert variant="destructive">
                       <AlertTitle>Budget May Be Insufficient</AlertTitle>
@@ -1475,17 +1270,19 @@ export default function Home() {
                   );
                   const isSelected = selectedDestination === destinationLabel;
                   return (
-                    <button
+                    <div
                       key={`${destinationLabel}-${index}`}
-                      type="button"
-                      className={`w-full text-left rounded-lg border p-4 transition ${
+                      className={`rounded-lg border p-4 transition ${
                         isSelected
                           ? "border-primary bg-primary/5"
                           : "border-input hover:border-primary/40"
                       }`}
-                      onClick={() => setSelectedDestination(destinationLabel)}
                     >
-                      <div className="flex items-start justify-between gap-4">
+                      <button
+                        type="button"
+                        className="w-full text-left flex items-start justify-between gap-4"
+                        onClick={() => setSelectedDestination(destinationLabel)}
+                      >
                         <div>
                           <p className="text-sm text-muted-foreground">Rank #{index + 1}</p>
                           <p className="text-lg font-semibold">{destinationLabel}</p>
@@ -1494,15 +1291,35 @@ export default function Home() {
                             Budget: {formatAmount(option.estimated_budget.low, option.estimated_budget.currency)} -{" "}
                             {formatAmount(option.estimated_budget.high, option.estimated_budget.currency)}
                           </p>
+                          {option.estimated_flight_hours !== undefined && (
+                            <p
+                              className={`text-sm ${
+                                option.exceeds_flight_limit ? "text-destructive" : "text-muted-foreground"
+                              }`}
+                            >
+                              {option.estimated_flight_hours === 0
+                                ? "No flight needed"
+                                : `~${option.estimated_flight_hours} h flight`}
+                              {option.exceeds_flight_limit && ` (over your ${maxFlightHoursValue} h limit)`}
+                            </p>
+                          )}
+                          {option.climate && (
+                            <ClimateSummary climate={option.climate} className="text-muted-foreground mt-2" />
+                          )}
+                          {option.seasonality_warnings && (
+                            <SeasonalityBadges warnings={option.seasonality_warnings} className="mt-2" />
+                          )}
                         </div>
                         <div className="text-right text-sm">
                           <p className="font-semibold">Score {option.metrics.total_score}/10</p>
                           <p className="text-muted-foreground">Vibe {option.metrics.vibe_fit}/10</p>
                           <p className="text-muted-foreground">Affordable {option.metrics.affordability}/10</p>
                           <p className="text-muted-foreground">Convenience {option.metrics.travel_convenience}/10</p>
+                          <p className="text-muted-foreground">Safety {option.metrics.safety_accessibility}/10</p>
                         </div>
-                      </div>
-                    </button>
+                      </button>
+                      <ScoreExplanation option={option} />
+                    </div>
                   );
                 })}
               </div>
@@ -1514,7 +1331,7 @@ export default function Home() {
               type="button" 
               variant="outline" 
               onClick={prevStep}
-              disabled={currentStep === 0 || generateTrip.isPending || isAnalysingBasics}
+              disabled={currentStep === 0 || isAnalysingBasics}
               className="w-32"
             >
               Back
@@ -1539,7 +1356,7 @@ export default function Home() {
             ) : (
               <Button 
                 type="submit" 
-                disabled={generateTrip.isPending || isFindingDestinations}
+                disabled={isFindingDestinations}
                 className="w-40 bg-accent hover:bg-accent/90 text-accent-foreground font-semibold shadow-lg shadow-accent/20 transition-all hover:-translate-y-0.5"
               >
                 {isFindingDestinations ? (
@@ -1547,11 +1364,6 @@ export default function Home() {
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Finding...
                   </>
-                ) : generateTrip.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Planning...
-                  </>
                 ) : currentStep === 2 && tripGoalValue === "need_recommendation" && destinationOptions.length === 0 ? (
                   "Find Destinations"
                 ) : currentStep === 2 && tripGoalValue === "need_recommendation" ? (
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Layout } from "@/components/Layout";
+import { useImportTrip } from "@/hooks/use-trips";
+import { tripExportSchema, type TripExport } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, ArrowLeft, Calendar, FileUp, Loader2, MapPin, Users } from "lucide-react";
+
+// Enough of the zod issues to fix a hand-edited file without flooding the page
+const MAX_ISSUES = 5;
+
+type ParsedFile =
+  | { status: "valid"; fileName: string; trip: TripExport }
+  | { status: "invalid"; fileName: string; issues: string[] };
+
+function formatDate(value: string): string {
+  try {
+    return format(parseISO(value), "d MMM yyyy");
+  } catch {
+    return value;
+  }
+}
+
+function parseTripFile(fileName: string, text: string): ParsedFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { status: "invalid", fileName, issues: ["This file isn't valid JSON."] };
+  }
+
+  const result = tripExportSchema.safeParse(json);
+  if (result.success) return { status: "valid", fileName, trip: result.data };
+  return {
+    status: "invalid",
+    fileName,
+    issues: result.error.errors
+      .slice(0, MAX_ISSUES)
+      .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message)),
+  };
+}
+
+export default function ImportTrip() {
+  const importTrip = useImportTrip();
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setParsed(parseTripFile(file.name, await file.text()));
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto space-y-8">
+        <Link href="/trips">
+          <Button variant="ghost" className="pl-0 hover:pl-2 transition-all">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to My Trips
+          </Button>
+        </Link>
+
+        <div className="space-y-2">
+          <h1 className="text-4xl font-display font-bold">Import a Trip</h1>
+          <p className="text-muted-foreground">
+            Open a trip someone shared with you. Use the JSON file from "Export" on any trip page.
+          </p>
+        </div>
+
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            readFile(e.dataTransfer.files[0]);
+          }}
+          className={cn(
+            "flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed p-12 text-center cursor-pointer transition-colors",
+            isDragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50",
+          )}
+        >
+          <FileUp className="w-10 h-10 text-primary" />
+          <span className="font-medium">Drop a trip file here or click to choose one</span>
+          <span className="text-sm text-muted-foreground">.json exports only</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={(e) => {
+              readFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {parsed?.status === "invalid" && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{parsed.fileName} can't be imported</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {parsed.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {parsed?.status === "valid" && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <h2 className="text-2xl font-display font-bold">{parsed.trip.response.destination}</h2>
+                <Badge variant="secondary" className="uppercase tracking-widest text-xs">
+                  {parsed.trip.response.trip_theme}
+                </Badge>
+              </div>
+              <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                  <Calendar className="w-4 h-4" />
+                  {formatDate(parsed.trip.request.startDate)} – {formatDate(parsed.trip.request.endDate)}
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <Users className="w-4 h-4" />
+                  {parsed.trip.request.number_of_people} traveler(s)
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <MapPin className="w-4 h-4" />
+                  From {parsed.trip.request.location}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {parsed.trip.response.daily_itinerary.length} day(s) planned · exported{" "}
+                {formatDate(parsed.trip.exported_at)}
+              </p>
+              <Button onClick={() => importTrip.mutate(parsed.trip)} disabled={importTrip.isPending}>
+                {importTrip.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import and Open
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
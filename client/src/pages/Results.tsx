@@ -1,44 +1,155 @@
 import { useEffect, useState } from "react";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useRoute } from "wouter";
 import { Layout } from "@/components/Layout";
-import { TripResponse } from "@shared/schema";
+import { RegenerateDayButton } from "@/components/RegenerateDayButton";
+import { ClimateSummary } from "@/components/ClimateSummary";
+import { SeasonalityBadges } from "@/components/SeasonalityBadges";
+import { PackingChecklist } from "@/components/PackingChecklist";
+import {
+  PENDING_TRIP_REQUEST_KEY,
+  useTrip,
+  useTripStream,
+  type PartialTrip,
+} from "@/hooks/use-trips";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { MapPin, Calendar, CheckSquare, FileText, ArrowLeft, Sun, Moon, Coffee } from "lucide-react";
+import type { Activity, BudgetBreakdown, EntryRequirements, TripRequest } from "@shared/schema";
+import { formatClockTime } from "@shared/activities";
+import { api, buildUrl } from "@shared/routes";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Calendar, CalendarPlus, CheckSquare, FileDown, FileText, ListChecks, ArrowLeft, Sun, Moon, Coffee, Loader2, MapPin, RotateCcw, Clock, Ticket, Wallet, AlertTriangle } from "lucide-react";
 import { motion } from "framer-motion";
 
 export default function Results() {
-  const [trip, setTrip] = useState<TripResponse | null>(null);
   const [, setLocation] = useLocation();
+  const [isTripRoute, params] = useRoute("/trips/:id");
+  const routeTripId = isTripRoute ? params.id : undefined;
+  const savedTrip = useTrip(routeTripId);
+  const [packingView, setPackingView] = useState<"checklist" | "overview">("checklist");
+  const stream = useTripStream();
+  const { start, stop, tripId: streamedTripId } = stream;
 
   useEffect(() => {
-    const saved = sessionStorage.getItem("lastTripResult");
-    if (!saved) {
+    if (routeTripId) return;
+
+    const pending = sessionStorage.getItem(PENDING_TRIP_REQUEST_KEY);
+    if (!pending) {
       setLocation("/");
       return;
     }
+    sessionStorage.removeItem(PENDING_TRIP_REQUEST_KEY);
     try {
-      setTrip(JSON.parse(saved));
+      start(JSON.parse(pending));
+      return stop;
     } catch (e) {
-      console.error("Failed to parse trip data", e);
+      console.error("Failed to parse pending trip request", e);
       setLocation("/");
     }
-  }, [setLocation]);
+  }, [routeTripId, setLocation, start, stop]);
+
+  // Once the trip is stored, swap /results for its permanent URL
+  useEffect(() => {
+    if (streamedTripId && !routeTripId) {
+      setLocation(`/trips/${streamedTripId}`, { replace: true });
+    }
+  }, [streamedTripId, routeTripId, setLocation]);
+
+  const trip: PartialTrip | null | undefined = routeTripId
+    ? savedTrip.data?.response
+    : stream.trip;
+  const isStreaming = !routeTripId && stream.status === "streaming";
+  // The stream broke off; whatever arrived is shown as an incomplete plan
+  const streamFailed = !routeTripId && stream.status === "error";
+  const retry = stream.request ? () => start(stream.request!) : undefined;
+  const request = routeTripId ? savedTrip.data?.request : stream.request;
+  const currency = request?.currency;
+
+  if (routeTripId && savedTrip.isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center gap-3 py-24 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading your trip...
+        </div>
+      </Layout>
+    );
+  }
+
+  if (routeTripId && !trip) {
+    return (
+      <TripUnavailable
+        title="Trip not found"
+        message={
+          savedTrip.error
+            ? savedTrip.error.message
+            : "This trip doesn't exist or has been removed."
+        }
+      />
+    );
+  }
 
   if (!trip) return null;
 
+  if (stream.status === "error" && !trip.trip_theme) {
+    return <TripUnavailable title="We couldn't finish your trip" message={stream.error} onRetry={retry} />;
+  }
+
   return (
     <Layout>
       <div className="max-w-4xl mx-auto space-y-8">
-        <Link href="/">
-          <Button variant="ghost" className="pl-0 hover:pl-2 transition-all">
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Create Another Trip
-          </Button>
-        </Link>
+        <div className="flex items-center justify-between gap-4">
+          <Link href="/">
+            <Button variant="ghost" className="pl-0 hover:pl-2 transition-all">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Create Another Trip
+            </Button>
+          </Link>
+          {routeTripId && (
+            <div className="flex flex-wrap justify-end gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <FileDown className="mr-2 h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <a href={buildUrl(api.trips.pdf.path, { id: routeTripId })} download>
+                      PDF document
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={buildUrl(api.trips.exportMarkdown.path, { id: routeTripId })} download>
+                      Markdown
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={buildUrl(api.trips.exportJson.path, { id: routeTripId })} download>
+                      JSON (for importing)
+                    </a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="outline" asChild>
+                <a href={buildUrl(api.trips.calendar.path, { id: routeTripId })} download>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Add to calendar
+                </a>
+              </Button>
+            </div>
+          )}
+        </div>
 
         {/* Hero Header */}
         <motion.div 
@@ -47,19 +158,36 @@ export default function Results() {
           className="relative rounded-3xl overflow-hidden bg-primary text-primary-foreground p-8 md:p-12 shadow-xl shadow-primary/20"
         >
           <div className="relative z-10 space-y-4">
-            <Badge variant="secondary" className="bg-white/20 hover:bg-white/30 text-white border-0 uppercase tracking-widest text-xs">
-              {trip.trip_theme}
-            </Badge>
-            <h1 className="text-4xl md:text-6xl font-display font-bold text-white leading-tight">
-              {trip.destination}
-            </h1>
-            <div className="flex flex-wrap gap-2 pt-2">
-              {trip.why_it_matches_you.map((reason, i) => (
-                <Badge key={i} variant="outline" className="border-white/30 text-white bg-transparent">
-                  {reason}
+            {trip.trip_theme ? (
+              <>
+                <Badge variant="secondary" className="bg-white/20 hover:bg-white/30 text-white border-0 uppercase tracking-widest text-xs">
+                  {trip.trip_theme}
                 </Badge>
-              ))}
-            </div>
+                <h1 className="text-4xl md:text-6xl font-display font-bold text-white leading-tight">
+                  {trip.destination}
+                </h1>
+                {trip.climate && <ClimateSummary climate={trip.climate} className="text-white/90" />}
+                {trip.seasonality_warnings && (
+                  <SeasonalityBadges warnings={trip.seasonality_warnings} showMessages className="text-white/90" />
+                )}
+                <div className="flex flex-wrap gap-2 pt-2">
+                  {(trip.why_it_matches_you || []).map((reason, i) => (
+                    <Badge key={i} variant="outline" className="border-white/30 text-white bg-transparent">
+                      {reason}
+                    </Badge>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-white/80 text-sm uppercase tracking-widest">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Planning your trip...
+                </div>
+                <Skeleton className="h-14 w-2/3 bg-white/20" />
+                <Skeleton className="h-6 w-1/2 bg-white/10" />
+              </div>
+            )}
           </div>
           
           {/* Decorative Background Pattern */}
@@ -67,8 +195,55 @@ export default function Results() {
           <div className="absolute bottom-0 left-0 w-48 h-48 bg-accent/20 rounded-full blur-2xl translate-y-1/2 -translate-x-1/4" />
         </motion.div>
 
+        {streamFailed && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This plan is incomplete</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                {stream.error} Only the parts below arrived before generation stopped, and the trip was not saved.
+              </p>
+              {retry && (
+                <Button variant="outline" size="sm" onClick={retry}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Try again
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isStreaming && stream.revision && (
+          <Alert>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <AlertTitle>Reworking this plan</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>The first draft didn't fully match your request, so it is being regenerated. The days below may change before the trip is saved.</p>
+              <ul className="list-disc pl-4 space-y-1">
+                {stream.revision.map((reason, i) => (
+                  <li key={i}>{reason}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {trip.warnings && trip.warnings.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This plan doesn't fully match your request</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {trip.warnings.map((warning, i) => (
+                  <li key={`${warning.constraint}-${i}`}>{warning.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Tabs defaultValue="itinerary" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 h-14 bg-white border shadow-sm rounded-xl p-1 mb-8">
+          <TabsList className="grid w-full grid-cols-4 h-14 bg-white border shadow-sm rounded-xl p-1 mb-8">
             <TabsTrigger value="itinerary" className="rounded-lg data-[state=active]:bg-primary/10 data-[state=active]:text-primary font-medium">
               <Calendar className="w-4 h-4 mr-2" />
               Itinerary
@@ -81,6 +256,10 @@ export default function Results() {
               <FileText className="w-4 h-4 mr-2" />
               Docs
             </TabsTrigger>
+            <TabsTrigger value="budget" className="rounded-lg data-[state=active]:bg-primary/10 data-[state=active]:text-primary font-medium">
+              <Wallet className="w-4 h-4 mr-2" />
+              Budget
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="itinerary" className="space-y-6">
@@ -95,12 +274,15 @@ export default function Results() {
                   <CardHeader className="bg-muted/30 pb-4">
                     <div className="flex justify-between items-center">
                       <CardTitle className="font-display text-2xl">Day {day.day}</CardTitle>
-                      <Badge variant={
-                        day.energy_level === 'high' ? 'destructive' : 
-                        day.energy_level === 'medium' ? 'default' : 'secondary'
-                      }>
-                        {day.energy_level} Energy
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {routeTripId && <RegenerateDayButton tripId={routeTripId} day={day.day} />}
+                        <Badge variant={
+                          day.energy_level === 'high' ? 'destructive' : 
+                          day.energy_level === 'medium' ? 'default' : 'secondary'
+                        }>
+                          {day.energy_level} Energy
+                        </Badge>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="grid md:grid-cols-3 gap-6 pt-6">
@@ -108,90 +290,124 @@ export default function Results() {
                       <div className="flex items-center gap-2 text-primary font-semibold">
                         <Coffee className="w-4 h-4" /> Morning
                       </div>
-                      <p className="text-muted-foreground text-sm leading-relaxed whitespace-pre-line">{day.plan.morning}</p>
+                      <ActivityList activities={day.plan.morning} currency={currency} />
                     </div>
                     <div className="space-y-3">
                       <div className="flex items-center gap-2 text-accent font-semibold">
                         <Sun className="w-4 h-4" /> Afternoon
                       </div>
-                      <p className="text-muted-foreground text-sm leading-relaxed whitespace-pre-line">{day.plan.afternoon}</p>
+                      <ActivityList activities={day.plan.afternoon} currency={currency} />
                     </div>
                     <div className="space-y-3">
                       <div className="flex items-center gap-2 text-indigo-500 font-semibold">
                         <Moon className="w-4 h-4" /> Evening
                       </div>
-                      <p className="text-muted-foreground text-sm leading-relaxed whitespace-pre-line">{day.plan.evening}</p>
+                      <ActivityList activities={day.plan.evening} currency={currency} />
                     </div>
                   </CardContent>
                 </Card>
               </motion.div>
             ))}
+            {isStreaming && (
+              <Card className="border-dashed">
+                <CardContent className="flex items-center gap-3 py-6 text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Planning day {trip.daily_itinerary.length + 1}...
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           <TabsContent value="packing">
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
                 <CardTitle>Essential Packing List</CardTitle>
+                {savedTrip.data && trip.packing_list && (
+                  <div className="flex rounded-lg bg-muted p-1">
+                    <Button
+                      variant={packingView === "checklist" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setPackingView("checklist")}
+                    >
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      Checklist
+                    </Button>
+                    <Button
+                      variant={packingView === "overview" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setPackingView("overview")}
+                    >
+                      Overview
+                    </Button>
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
-                <div className="grid md:grid-cols-2 gap-8">
-                  <div className="space-y-4">
-                    <h3 className="font-semibold text-lg flex items-center gap-2">
-                      <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">👕</span>
-                      Clothes
-                    </h3>
-                    <ul className="space-y-2">
-                      <li className="flex justify-between text-sm border-b border-dashed pb-1">
-                        <span>Tops</span>
-                        <span className="font-mono font-bold text-primary">{trip.packing_list.clothes.tops}</span>
-                      </li>
-                      <li className="flex justify-between text-sm border-b border-dashed pb-1">
-                        <span>Bottoms</span>
-                        <span className="font-mono font-bold text-primary">{trip.packing_list.clothes.bottoms}</span>
-                      </li>
-                      <li className="flex justify-between text-sm border-b border-dashed pb-1">
-                        <span>Outerwear</span>
-                        <span className="font-mono font-bold text-primary">{trip.packing_list.clothes.outerwear}</span>
-                      </li>
-                    </ul>
-                  </div>
+                {!trip.packing_list ? (
+                  <PendingSection label="Building your packing list..." failed={streamFailed} />
+                ) : savedTrip.data && packingView === "checklist" ? (
+                  <PackingChecklist trip={savedTrip.data} />
+                ) : (
+                  <div className="grid md:grid-cols-2 gap-8">
+                    <div className="space-y-4">
+                      <h3 className="font-semibold text-lg flex items-center gap-2">
+                        <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">👕</span>
+                        Clothes
+                        <span className="text-sm font-normal text-muted-foreground">per person</span>
+                      </h3>
+                      <ul className="space-y-2">
+                        <li className="flex justify-between text-sm border-b border-dashed pb-1">
+                          <span>Tops</span>
+                          <span className="font-mono font-bold text-primary">{trip.packing_list.clothes.tops}</span>
+                        </li>
+                        <li className="flex justify-between text-sm border-b border-dashed pb-1">
+                          <span>Bottoms</span>
+                          <span className="font-mono font-bold text-primary">{trip.packing_list.clothes.bottoms}</span>
+                        </li>
+                        <li className="flex justify-between text-sm border-b border-dashed pb-1">
+                          <span>Outerwear</span>
+                          <span className="font-mono font-bold text-primary">{trip.packing_list.clothes.outerwear}</span>
+                        </li>
+                      </ul>
+                    </div>
 
-                  <div className="space-y-4">
-                    <h3 className="font-semibold text-lg flex items-center gap-2">
-                      <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">👟</span>
-                      Shoes
-                    </h3>
-                    <div className="flex flex-wrap gap-2">
-                      {trip.packing_list.shoes.map((item, i) => (
-                        <Badge key={i} variant="secondary">{item}</Badge>
-                      ))}
+                    <div className="space-y-4">
+                      <h3 className="font-semibold text-lg flex items-center gap-2">
+                        <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">👟</span>
+                        Shoes
+                      </h3>
+                      <div className="flex flex-wrap gap-2">
+                        {trip.packing_list.shoes.map((item, i) => (
+                          <Badge key={i} variant="secondary">{item}</Badge>
+                        ))}
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="space-y-4">
-                    <h3 className="font-semibold text-lg flex items-center gap-2">
-                      <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">👓</span>
-                      Accessories
-                    </h3>
-                    <div className="flex flex-wrap gap-2">
-                      {trip.packing_list.accessories.map((item, i) => (
-                        <Badge key={i} variant="outline">{item}</Badge>
-                      ))}
+                    <div className="space-y-4">
+                      <h3 className="font-semibold text-lg flex items-center gap-2">
+                        <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">👓</span>
+                        Accessories
+                      </h3>
+                      <div className="flex flex-wrap gap-2">
+                        {trip.packing_list.accessories.map((item, i) => (
+                          <Badge key={i} variant="outline">{item}</Badge>
+                        ))}
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="space-y-4">
-                    <h3 className="font-semibold text-lg flex items-center gap-2">
-                      <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">🎒</span>
-                      Misc
-                    </h3>
-                    <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
-                      {trip.packing_list.misc.map((item, i) => (
-                        <li key={i}>{item}</li>
-                      ))}
-                    </ul>
+                    <div className="space-y-4">
+                      <h3 className="font-semibold text-lg flex items-center gap-2">
+                        <span className="w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm">🎒</span>
+                        Misc
+                      </h3>
+                      <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+                        {trip.packing_list.misc.map((item, i) => (
+                          <li key={i}>{item}</li>
+                        ))}
+                      </ul>
+                    </div>
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -202,16 +418,38 @@ export default function Results() {
                 <CardTitle>Required Documents</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid gap-4">
-                  {trip.documents.map((doc, i) => (
-                    <div key={i} className="flex items-center p-4 bg-muted/30 rounded-lg border">
-                      <div className="p-2 bg-white rounded-md shadow-sm mr-4">
-                        <FileText className="w-6 h-6 text-primary" />
+                {!trip.documents ? (
+                  <PendingSection label="Checking travel documents..." failed={streamFailed} />
+                ) : (
+                  <div className="grid gap-4">
+                    {trip.documents.map((doc, i) => (
+                      <div key={i} className="flex items-center p-4 bg-muted/30 rounded-lg border">
+                        <div className="p-2 bg-white rounded-md shadow-sm mr-4">
+                          <FileText className="w-6 h-6 text-primary" />
+                        </div>
+                        <span className="font-medium text-foreground">{doc}</span>
                       </div>
-                      <span className="font-medium text-foreground">{doc}</span>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                    {trip.entry_requirements && <EntryRulesNote entry={trip.entry_requirements} />}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="budget">
+            <Card>
+              <CardHeader>
+                <CardTitle>Budget Breakdown</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {trip.budget_breakdown && request ? (
+                  <BudgetSummary breakdown={trip.budget_breakdown} request={request} />
+                ) : !trip.packing_list ? (
+                  <PendingSection label="Estimating costs..." failed={streamFailed} />
+                ) : (
+                  <p className="text-muted-foreground">No cost estimate is available for this trip.</p>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -220,3 +458,188 @@ export default function Results() {
     </Layout>
   );
 }
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function formatCost(amount: number, currency?: string): string {
+  if (!amount) return "Free";
+  if (!currency) return String(amount);
+  try {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString("en-IN")}`;
+  }
+}
+
+function ActivityList({ activities, currency }: { activities: Activity[]; currency?: string }) {
+  return (
+    <ul className="space-y-4">
+      {activities.map((activity, i) => (
+        <li key={i} className="space-y-1 text-sm">
+          <div className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+            <Clock className="w-3 h-3" />
+            {formatClockTime(activity.start_time)} · {formatDuration(activity.duration_minutes)}
+          </div>
+          <p className="font-medium text-foreground leading-snug">{activity.title}</p>
+          {activity.place_name && (
+            <p className="flex items-center gap-1 text-muted-foreground">
+              <MapPin className="w-3 h-3 shrink-0" />
+              {activity.place_name}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-1.5 pt-1">
+            {activity.category !== "other" && (
+              <Badge variant="outline" className="capitalize">{activity.category}</Badge>
+            )}
+            <Badge variant="secondary">{formatCost(activity.estimated_cost, currency)}</Badge>
+            {activity.booking_required && (
+              <Badge variant="default" className="gap-1">
+                <Ticket className="w-3 h-3" />
+                Book ahead
+              </Badge>
+            )}
+          </div>
+          {activity.notes && <p className="text-muted-foreground text-xs">{activity.notes}</p>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function BudgetSummary({ breakdown, request }: { breakdown: BudgetBreakdown; request: TripRequest }) {
+  const format = (amount: number) => formatCost(amount, breakdown.currency);
+  const rows = [
+    {
+      label: "Flights",
+      amount: breakdown.flights,
+      detail: request.includes_flights ? "Included in your budget" : "Not counted against your budget",
+    },
+    {
+      label: "Lodging",
+      amount: breakdown.lodging_per_night * breakdown.nights,
+      detail: `${format(breakdown.lodging_per_night)} × ${breakdown.nights} night(s)`,
+    },
+    {
+      label: "Food",
+      amount: breakdown.food_per_day * Math.max(1, Math.round(request.days)),
+      detail: `${format(breakdown.food_per_day)} × ${Math.max(1, Math.round(request.days))} day(s)`,
+    },
+    { label: "Activities", amount: breakdown.activities },
+    { label: "Local transport", amount: breakdown.local_transport },
+    { label: "Buffer", amount: breakdown.buffer, detail: "Contingency for surprises" },
+  ];
+  const counted = request.includes_flights ? breakdown.total : breakdown.total - breakdown.flights;
+  const usedPercent = request.budget_amount > 0 ? (counted / request.budget_amount) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      {breakdown.over_budget && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Over budget</AlertTitle>
+          <AlertDescription>
+            This plan is estimated at {format(breakdown.over_budget_by)} more than your budget of{" "}
+            {format(request.budget_amount)}.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ul className="space-y-3">
+        {rows.map((row) => (
+          <li key={row.label} className="flex justify-between gap-4 text-sm border-b border-dashed pb-2">
+            <div>
+              <p className="font-medium">{row.label}</p>
+              {row.detail && <p className="text-xs text-muted-foreground">{row.detail}</p>}
+            </div>
+            <span className="font-mono font-bold text-primary">{format(row.amount)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <div className="flex justify-between font-semibold">
+          <span>Estimated total</span>
+          <span className="font-mono">{format(breakdown.total)}</span>
+        </div>
+        <Progress value={Math.min(100, usedPercent)} className={breakdown.over_budget ? "bg-destructive/20" : ""} />
+        <p className="text-xs text-muted-foreground">
+          {Math.round(usedPercent)}% of your {format(request.budget_amount)} budget
+          {request.includes_flights ? "" : " (excluding flights)"}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const ENTRY_CONFIDENCE_LABELS: Record<EntryRequirements["confidence"], string> = {
+  high: "High confidence",
+  medium: "Medium confidence",
+  low: "Low confidence",
+};
+
+function EntryRulesNote({ entry }: { entry: EntryRequirements }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <Badge variant={entry.confidence === "high" ? "secondary" : "outline"}>
+        {ENTRY_CONFIDENCE_LABELS[entry.confidence]}
+      </Badge>
+      <span>
+        {entry.requirement
+          ? `Entry rules for ${entry.passport_country} passports to ${entry.destination_country}, last updated ${entry.rules_as_of} (v${entry.rules_version}).`
+          : `No entry rule on file for ${entry.passport_country} passports to ${entry.destination_country}.`}{" "}
+        Rules change often; confirm with the embassy or official government site before booking.
+      </span>
+    </div>
+  );
+}
+
+function TripUnavailable({
+  title,
+  message,
+  onRetry,
+}: {
+  title: string;
+  message: string | null;
+  onRetry?: () => void;
+}) {
+  return (
+    <Layout>
+      <div className="max-w-xl mx-auto text-center space-y-6 py-16">
+        <h1 className="text-3xl font-display font-bold">{title}</h1>
+        <p className="text-muted-foreground">{message}</p>
+        <div className="flex justify-center gap-3">
+          {onRetry && (
+            <Button variant="outline" onClick={onRetry}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Try again
+            </Button>
+          )}
+          <Link href="/">
+            <Button>Back to the planner</Button>
+          </Link>
+        </div>
+      </div>
+    </Layout>
+  );
+}
+
+function PendingSection({ label, failed }: { label: string; failed?: boolean }) {
+  if (failed) {
+    return <p className="py-6 text-muted-foreground">This section wasn't generated before the plan stopped.</p>;
+  }
+  return (
+    <div className="flex items-center gap-3 py-6 text-muted-foreground">
+      <Loader2 className="w-4 h-4 animate-spin" />
+      {label}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Layout } from "@/components/Layout";
+import { useDeleteTrip, useTrips } from "@/hooks/use-trips";
+import type { StoredTrip } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Calendar, Loader2, MapPin, Search, Trash2, Upload, Users, Wallet } from "lucide-react";
+
+type SortOrder = "newest" | "oldest";
+
+function formatDate(value: string): string {
+  try {
+    return format(parseISO(value), "d MMM yyyy");
+  } catch {
+    return value;
+  }
+}
+
+function formatBudget(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString("en-IN")}`;
+  }
+}
+
+function matchesSearch(trip: StoredTrip, query: string): boolean {
+  const haystack = [
+    trip.response.destination,
+    trip.response.trip_theme,
+    trip.request.location,
+    trip.request.destination_location || "",
+  ]
+    .join(" ")
+    .toLowerCase();
+  return haystack.includes(query);
+}
+
+export default function Trips() {
+  const { data: trips, isLoading, error } = useTrips();
+  const deleteTrip = useDeleteTrip();
+  const [search, setSearch] = useState("");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+
+  const visibleTrips = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = (trips || []).filter((trip) => !query || matchesSearch(trip, query));
+    return filtered.sort((a, b) => {
+      const diff = Date.parse(b.createdAt) - Date.parse(a.createdAt);
+      return sortOrder === "newest" ? diff : -diff;
+    });
+  }, [trips, search, sortOrder]);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-display font-bold">Your Trips</h1>
+            <p className="text-muted-foreground">Every itinerary you've generated, ready to revisit.</p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/trips/import">
+              <Button variant="outline">
+                <Upload className="mr-2 h-4 w-4" />
+                Import Trip
+              </Button>
+            </Link>
+            <Link href="/">
+              <Button>Plan a New Trip</Button>
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by destination, theme or starting city"
+              className="pl-9 h-12"
+            />
+          </div>
+          <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+            <SelectTrigger className="h-12 sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="oldest">Oldest first</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-3 py-16 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading your trips...
+          </div>
+        ) : error ? (
+          <p className="text-center text-destructive py-16">{error.message}</p>
+        ) : visibleTrips.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="py-16 text-center text-muted-foreground">
+              {trips?.length
+                ? "No trips match your search."
+                : "You haven't generated any trips yet."}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {visibleTrips.map((trip) => (
+              <Card key={trip.id} className="hover:shadow-lg transition-shadow duration-300">
+                <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-6">
+                  <div className="flex-1 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h2 className="text-2xl font-display font-bold">{trip.response.destination}</h2>
+                      <Badge variant="secondary" className="uppercase tracking-widest text-xs">
+                        {trip.response.trip_theme}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1.5">
+                        <Calendar className="w-4 h-4" />
+                        {formatDate(trip.request.startDate)} – {formatDate(trip.request.endDate)}
+                      </span>
+                      <span className="flex items-center gap-1.5">
+                        <Users className="w-4 h-4" />
+                        {trip.request.number_of_people} traveler(s)
+                      </span>
+                      <span className="flex items-center gap-1.5">
+                        <Wallet className="w-4 h-4" />
+                        {formatBudget(trip.request.budget_amount, trip.request.currency)}
+                      </span>
+                      <span className="flex items-center gap-1.5">
+                        <MapPin className="w-4 h-4" />
+                        From {trip.request.location}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Link href={`/trips/${trip.id}`}>
+                      <Button variant="outline">Open</Button>
+                    </Link>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" aria-label="Delete trip">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this trip?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Your {trip.response.destination} itinerary will be removed permanently.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteTrip.mutate(trip.id)}>
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
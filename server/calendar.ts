@@ -0,0 +1,258 @@
+import type { Activity, StoredTrip } from "@shared/schema";
+import type { DaySlot } from "@shared/activities";
+import {
+  PACKING_CATEGORIES,
+  PACKING_CATEGORY_LABELS,
+  createPackingChecklist,
+  formatPackingItem,
+} from "@shared/packing-checklist";
+import { searchCities } from "./geocoding";
+
+const PRODUCT_ID = "-//Travel Taste Matcher//Itinerary//EN";
+const UID_DOMAIN = "travel-taste-matcher";
+const SLOTS: DaySlot[] = ["morning", "afternoon", "evening"];
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// RFC 5545 caps content lines at 75 octets; longer lines continue after CRLF + space
+const MAX_LINE_OCTETS = 75;
+
+// Reminder due times on days counted back from departure; floating, so they follow the traveler's own zone
+const DOCUMENTS_DUE = { daysBefore: 7, time: "09:00" };
+const PACKING_DUE = { daysBefore: 1, time: "18:00" };
+
+type LocalDateTime = { date: Date; time: string };
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  Array.from(line).forEach((char) => {
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  });
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// Dates are kept at UTC midnight so day arithmetic never crosses a DST change
+function toDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/** Wall-clock date and time with no zone, e.g. 20260314T093000. */
+function formatLocal({ date, time }: LocalDateTime, plusMinutes = 0): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const local = new Date(date.getTime() + (hours * 60 + minutes + plusMinutes) * MINUTE_MS);
+  return (
+    `${local.getUTCFullYear()}${pad(local.getUTCMonth() + 1)}${pad(local.getUTCDate())}` +
+    `T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`
+  );
+}
+
+function formatUtc(date: Date): string {
+  return `${date.toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/** UTC offset in minutes of an IANA zone at an instant. */
+function getUtcOffsetMinutes(timezone: string, instant: Date): number {
+  const label = new Intl.DateTimeFormat("en-US", { timeZone: timezone, timeZoneName: "longOffset" })
+    .formatToParts(instant)
+    .find((part) => part.type === "timeZoneName")?.value;
+  const match = label?.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A VTIMEZONE covering only the trip's dates: one observance per offset in
+ * effect, so a DST change mid-trip is honoured without bundling tz rules.
+ * Changes take effect from midnight of the day they happen on.
+ */
+function buildTimezone(timezone: string, firstDay: Date, dayCount: number): string[] {
+  const observances: Array<{ start: Date; offset: number }> = [];
+  for (let day = 0; day <= dayCount; day += 1) {
+    const noon = new Date(addDays(firstDay, day).getTime() + 12 * 60 * MINUTE_MS);
+    const offset = getUtcOffsetMinutes(timezone, noon);
+    if (!observances.length || observances[observances.length - 1].offset !== offset) {
+      observances.push({ start: addDays(firstDay, day), offset });
+    }
+  }
+  const standardOffset = Math.min(...observances.map((observance) => observance.offset));
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timezone}`,
+    ...observances.flatMap((observance, i) => {
+      const kind = observance.offset > standardOffset ? "DAYLIGHT" : "STANDARD";
+      const previous = i > 0 ? observances[i - 1].offset : observance.offset;
+      return [
+        `BEGIN:${kind}`,
+        // The first observance starts early enough to cover every event
+        `DTSTART:${i === 0 ? "19700101T000000" : formatLocal({ date: observance.start, time: "00:00" })}`,
+        `TZOFFSETFROM:${formatOffset(previous)}`,
+        `TZOFFSETTO:${formatOffset(observance.offset)}`,
+        `END:${kind}`,
+      ];
+    }),
+    "END:VTIMEZONE",
+  ];
+}
+
+function describeActivity(activity: Activity, currency: string): string {
+  return [
+    activity.notes,
+    `Category: ${activity.category}`,
+    activity.estimated_cost > 0 ? `Estimated cost: ${activity.estimated_cost} ${currency} per person` : "",
+    activity.booking_required ? "Booking required" : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function buildTodo(
+  uid: string,
+  stamp: string,
+  due: string,
+  summary: string,
+  description: string,
+): string[] {
+  return [
+    "BEGIN:VTODO",
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    due,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(summary)}`,
+    "TRIGGER;RELATED=END:PT0M",
+    "END:VALARM",
+    "END:VTODO",
+  ];
+}
+
+/** The zone events are pinned to: the chosen destination's, else the destination city's. */
+function getDestinationTimezone(trip: StoredTrip): string | undefined {
+  const chosen =
+    trip.request.trip_goal === "know_destination" ? trip.request.destination_place?.timezone : undefined;
+  const timezone = chosen || searchCities(trip.response.destination, 1)[0]?.timezone;
+  return timezone && isValidTimezone(timezone) ? timezone : undefined;
+}
+
+/**
+ * The itinerary as an iCalendar file: one VEVENT per activity on startDate
+ * plus the day offset, in the destination's time zone (floating local times
+ * when it is unknown), and VTODOs with alarms for documents and packing
+ * ahead of departure.
+ */
+export function buildTripCalendar(trip: StoredTrip, now = new Date()): string {
+  const { request, response } = trip;
+  const start = new Date(request.startDate);
+  const firstDay = toDay(Number.isNaN(start.getTime()) ? now : start);
+  const timezone = getDestinationTimezone(trip);
+  const stamp = formatUtc(now);
+  const zoned = (property: string, value: string) =>
+    timezone ? `${property};TZID=${timezone}:${value}` : `${property}:${value}`;
+
+  const events = response.daily_itinerary.flatMap((day) => {
+    const date = addDays(firstDay, day.day - 1);
+    return SLOTS.flatMap((slot) =>
+      day.plan[slot].flatMap((activity, i) => {
+        const begins = { date, time: activity.start_time };
+        return [
+          "BEGIN:VEVENT",
+          `UID:${trip.id}-day${day.day}-${slot}-${i}@${UID_DOMAIN}`,
+          `DTSTAMP:${stamp}`,
+          zoned("DTSTART", formatLocal(begins)),
+          ...(activity.duration_minutes > 0
+            ? [zoned("DTEND", formatLocal(begins, activity.duration_minutes))]
+            : []),
+          `SUMMARY:${escapeText(activity.title)}`,
+          `LOCATION:${escapeText([activity.place_name, response.destination].filter(Boolean).join(", "))}`,
+          `DESCRIPTION:${escapeText(describeActivity(activity, request.currency))}`,
+          `CATEGORIES:${escapeText(activity.category)}`,
+          "END:VEVENT",
+        ];
+      }),
+    );
+  });
+
+  // The traveler's edited checklist, with what they have already packed ticked off
+  const checklist = trip.packingChecklist ?? createPackingChecklist(response.packing_list);
+  const packingSections = PACKING_CATEGORIES.filter((category) => checklist[category].length).map((category) =>
+    [
+      PACKING_CATEGORY_LABELS[category],
+      ...checklist[category].map((item) => `- ${item.checked ? "[x]" : "[ ]"} ${formatPackingItem(item)}`),
+    ].join("\n"),
+  );
+  const reminders = [
+    ...(response.documents.length
+      ? buildTodo(
+          `${trip.id}-documents@${UID_DOMAIN}`,
+          stamp,
+          `DUE:${formatLocal({ date: addDays(firstDay, -DOCUMENTS_DUE.daysBefore), time: DOCUMENTS_DUE.time })}`,
+          `Check travel documents for ${response.destination}`,
+          response.documents.map((document) => `- ${document}`).join("\n"),
+        )
+      : []),
+    ...buildTodo(
+      `${trip.id}-packing@${UID_DOMAIN}`,
+      stamp,
+      `DUE:${formatLocal({ date: addDays(firstDay, -PACKING_DUE.daysBefore), time: PACKING_DUE.time })}`,
+      `Pack for ${response.destination}`,
+      packingSections.join("\n\n"),
+    ),
+  ];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(response.trip_theme || response.destination)}`,
+    ...(timezone
+      ? [`X-WR-TIMEZONE:${timezone}`, ...buildTimezone(timezone, firstDay, response.daily_itinerary.length)]
+      : []),
+    ...events,
+    ...reminders,
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,189 @@
+import type { ClimateNormals, TripRequest, TripResponse } from "@shared/schema";
+import { getCountryByCode } from "@shared/countries";
+import { CLIMATE_ROWS } from "./data/climate";
+import { greatCircleKm, locateOrigin, type Coordinates } from "./flight-time";
+import { locateCountry, searchCities } from "./geocoding";
+
+type ClimateStation = Coordinates & {
+  name: string;
+  countryCode: string;
+  beach: boolean;
+  highC: number[];
+  lowC: number[];
+  rainfallMm: number[];
+  humidityPct: number[];
+};
+
+type SettingPreference = TripRequest["setting_preference"][number];
+
+const STATIONS: ClimateStation[] = CLIMATE_ROWS.map(
+  ([name, countryCode, latitude, longitude, beach, highC, lowC, rainfallMm, humidityPct]) => ({
+    name,
+    countryCode,
+    latitude,
+    longitude,
+    beach,
+    highC,
+    lowC,
+    rainfallMm,
+    humidityPct,
+  }),
+);
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// Beyond this a station's normals say little about the place asked for
+const MAX_STATION_KM = 300;
+const EARTH_TILT_DEGREES = 23.44;
+// Day of the year in the middle of each month, used for daylight
+const MID_MONTH_DAYS = [15, 46, 74, 105, 135, 166, 196, 227, 258, 288, 319, 349];
+const MAX_CLIMATE_HINTS = 6;
+
+// Settings the weather can make or break in a given month
+const SETTING_CLIMATE_FIT: Partial<
+  Record<SettingPreference, (station: ClimateStation, normals: ClimateNormals) => boolean>
+> = {
+  beaches: (station, normals) => station.beach && normals.avg_high_c >= 26 && normals.rainfall_mm < 150,
+  snowy_landscape: (_station, normals) => normals.avg_high_c <= 3 && normals.rainfall_mm >= 10,
+  desert: (_station, normals) => normals.rainfall_mm < 20 && normals.avg_high_c <= 35,
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function monthName(month: number): string {
+  return MONTH_NAMES[month - 1] || "";
+}
+
+/** Month (1-12) the trip starts in; the current month when the date is unreadable. */
+export function getTravelMonth(input: Pick<TripRequest, "startDate">): number {
+  const start = new Date(input.startDate);
+  return Number.isNaN(start.getTime()) ? new Date().getMonth() + 1 : start.getUTCMonth() + 1;
+}
+
+/** Hours from sunrise to sunset in the middle of the month, from the sun's declination. */
+export function daylightHours(latitude: number, month: number): number {
+  const day = MID_MONTH_DAYS[month - 1];
+  const declination = toRadians(EARTH_TILT_DEGREES) * Math.sin((2 * Math.PI * (284 + day)) / 365);
+  const cosHourAngle = -Math.tan(toRadians(latitude)) * Math.tan(declination);
+  // Polar night and midnight sun
+  if (cosHourAngle >= 1) return 0;
+  if (cosHourAngle <= -1) return 24;
+  const hours = (2 * Math.acos(cosHourAngle) * 180) / Math.PI / 15;
+  return Number(hours.toFixed(1));
+}
+
+function describeClimate(highC: number, rainfallMm: number, humidityPct: number): string {
+  const temperature =
+    highC <= 0
+      ? "Freezing"
+      : highC <= 10
+        ? "Cold"
+        : highC <= 17
+          ? "Cool"
+          : highC <= 24
+            ? "Mild"
+            : highC <= 31
+              ? "Warm"
+              : "Hot";
+  const humid = highC > 24 && humidityPct >= 75 ? " and humid" : "";
+  const rain =
+    highC <= 3 && rainfallMm >= 10
+      ? "snow likely"
+      : rainfallMm < 20
+        ? "dry"
+        : rainfallMm < 80
+          ? "some rain"
+          : rainfallMm < 200
+            ? "wet"
+            : "very wet";
+  return `${temperature}${humid}, ${rain}`;
+}
+
+function toNormals(station: ClimateStation, month: number, distanceKm: number): ClimateNormals {
+  const index = month - 1;
+  return {
+    station: station.name,
+    country_code: station.countryCode,
+    distance_km: Math.round(distanceKm),
+    month,
+    avg_high_c: station.highC[index],
+    avg_low_c: station.lowC[index],
+    rainfall_mm: station.rainfallMm[index],
+    humidity_pct: station.humidityPct[index],
+    daylight_hours: daylightHours(station.latitude, month),
+    summary: describeClimate(station.highC[index], station.rainfallMm[index], station.humidityPct[index]),
+  };
+}
+
+/** Normals from the nearest station, or undefined when none is within range. */
+export function getClimateNormals(point: Coordinates, month: number): ClimateNormals | undefined {
+  let nearest: ClimateStation | undefined;
+  let nearestKm = Infinity;
+  STATIONS.forEach((station) => {
+    const km = greatCircleKm(point, station);
+    if (km < nearestKm) {
+      nearest = station;
+      nearestKm = km;
+    }
+  });
+  return nearest && nearestKm <= MAX_STATION_KM ? toNormals(nearest, month, nearestKm) : undefined;
+}
+
+export function formatClimate(normals: ClimateNormals): string {
+  return `${normals.summary.toLowerCase()}: highs around ${normals.avg_high_c}°C, lows around ${normals.avg_low_c}°C, ${normals.rainfall_mm} mm of rain, ${normals.humidity_pct}% humidity, ${normals.daylight_hours} h of daylight`;
+}
+
+/**
+ * Places from the dataset whose weather in the travel month suits the
+ * traveler's weather-dependent settings, nearest to the origin first and
+ * kept to the requested side of the border.
+ */
+export function buildClimateHints(input: TripRequest, month: number): string {
+  const origin = locateOrigin(input);
+  const originCode = input.origin_place?.country_code || locateCountry(input.location)?.code;
+  const candidates = STATIONS.filter((station) => {
+    if (!originCode) return true;
+    const isDomestic = station.countryCode === originCode;
+    return input.trip_type === "domestic" ? isDomestic : !isDomestic;
+  }).sort((a, b) => (origin ? greatCircleKm(origin, a) - greatCircleKm(origin, b) : 0));
+
+  const lines = input.setting_preference.flatMap((setting) => {
+    const fits = SETTING_CLIMATE_FIT[setting];
+    if (!fits) return [];
+    const matches = candidates
+      .map((station) => ({ station, normals: toNormals(station, month, 0) }))
+      .filter(({ station, normals }) => fits(station, normals))
+      .slice(0, MAX_CLIMATE_HINTS)
+      .map(({ normals }) => {
+        const country = getCountryByCode(normals.country_code)?.name || normals.country_code;
+        return `${normals.station}, ${country} (${normals.avg_high_c}°C, ${normals.rainfall_mm} mm)`;
+      });
+    return [`- ${setting}: ${matches.length ? matches.join("; ") : "no place in the dataset fits this month"}`];
+  });
+  return lines.length
+    ? `Climate normals that suit the weather-dependent settings in ${monthName(month)}:\n${lines.join("\n")}`
+    : "";
+}
+
+/** Attaches the normals for the trip's destination in the month it starts. */
+export function applyClimate(trip: TripResponse, input: TripRequest): TripResponse {
+  const point =
+    (input.trip_goal === "know_destination" ? input.destination_place : undefined) ||
+    searchCities(trip.destination, 1)[0];
+  return { ...trip, climate: point && getClimateNormals(point, getTravelMonth(input)) };
+}
@@ -0,0 +1,668 @@
+/**
+ * Major commercial airports for flight-time estimates, modelled on the
+ * OurAirports large/medium airport export. Each country's busiest airport is
+ * listed first so it can stand in when a destination cannot be placed more
+ * precisely.
+ */
+export type AirportRow = [
+  iata: string,
+  name: string,
+  city: string,
+  countryCode: string,
+  latitude: number,
+  longitude: number,
+];
+
+// prettier-ignore
+export const AIRPORT_ROWS: AirportRow[] = [
+  // India
+  ["DEL", "Indira Gandhi International", "Delhi", "IN", 28.5562, 77.1],
+  ["BOM", "Chhatrapati Shivaji Maharaj International", "Mumbai", "IN", 19.0896, 72.8656],
+  ["BLR", "Kempegowda International", "Bengaluru", "IN", 13.1986, 77.7066],
+  ["MAA", "Chennai International", "Chennai", "IN", 12.9941, 80.1709],
+  ["HYD", "Rajiv Gandhi International", "Hyderabad", "IN", 17.2403, 78.4294],
+  ["CCU", "Netaji Subhas Chandra Bose International", "Kolkata", "IN", 22.6547, 88.4467],
+  ["COK", "Cochin International", "Kochi", "IN", 10.152, 76.4019],
+  ["AMD", "Sardar Vallabhbhai Patel International", "Ahmedabad", "IN", 23.0772, 72.6347],
+  ["PNQ", "Pune Airport", "Pune", "IN", 18.5821, 73.9197],
+  ["GOI", "Dabolim Airport", "Goa", "IN", 15.3808, 73.8314],
+  ["GOX", "Manohar International", "Mopa", "IN", 15.7442, 73.8606],
+  ["JAI", "Jaipur International", "Jaipur", "IN", 26.8242, 75.8122],
+  ["TRV", "Trivandrum International", "Thiruvananthapuram", "IN", 8.4821, 76.9201],
+  ["CCJ", "Calicut International", "Kozhikode", "IN", 11.1368, 75.9553],
+  ["LKO", "Chaudhary Charan Singh International", "Lucknow", "IN", 26.7606, 80.8893],
+  ["GAU", "Lokpriya Gopinath Bordoloi International", "Guwahati", "IN", 26.1061, 91.5859],
+  ["ATQ", "Sri Guru Ram Dass Jee International", "Amritsar", "IN", 31.7096, 74.7973],
+  ["IXC", "Chandigarh International", "Chandigarh", "IN", 30.6735, 76.7885],
+  ["SXR", "Sheikh ul-Alam International", "Srinagar", "IN", 33.9871, 74.7742],
+  ["IXL", "Kushok Bakula Rimpochee", "Leh", "IN", 34.1359, 77.5465],
+  ["KUU", "Bhuntar Airport", "Kullu", "IN", 31.8767, 77.1544],
+  ["IXB", "Bagdogra International", "Siliguri", "IN", 26.6812, 88.3286],
+  ["IXZ", "Veer Savarkar International", "Port Blair", "IN", 11.6412, 92.7297],
+  ["UDR", "Maharana Pratap Airport", "Udaipur", "IN", 24.6177, 73.8961],
+  ["VNS", "Lal Bahadur Shastri International", "Varanasi", "IN", 25.4524, 82.8593],
+  ["BBI", "Biju Patnaik International", "Bhubaneswar", "IN", 20.2444, 85.8178],
+  ["IXE", "Mangaluru International", "Mangaluru", "IN", 12.9613, 74.8901],
+  ["CJB", "Coimbatore International", "Coimbatore", "IN", 11.03, 77.0434],
+  ["NAG", "Dr. Babasaheb Ambedkar International", "Nagpur", "IN", 21.0922, 79.0472],
+  ["DED", "Jolly Grant Airport", "Dehradun", "IN", 30.1897, 78.1803],
+  ["IDR", "Devi Ahilya Bai Holkar Airport", "Indore", "IN", 22.7218, 75.8011],
+  ["PAT", "Jay Prakash Narayan Airport", "Patna", "IN", 25.5913, 85.088],
+  ["VTZ", "Visakhapatnam International", "Visakhapatnam", "IN", 17.7212, 83.2245],
+  ["JDH", "Jodhpur Airport", "Jodhpur", "IN", 26.2511, 73.0489],
+
+  // South and Central Asia
+  ["KHI", "Jinnah International", "Karachi", "PK", 24.9065, 67.1608],
+  ["LHE", "Allama Iqbal International", "Lahore", "PK", 31.5216, 74.4036],
+  ["ISB", "Islamabad International", "Islamabad", "PK", 33.5491, 72.8257],
+  ["DAC", "Hazrat Shahjalal International", "Dhaka", "BD", 23.8433, 90.3978],
+  ["CGP", "Shah Amanat International", "Chittagong", "BD", 22.2496, 91.8133],
+  ["KTM", "Tribhuvan International", "Kathmandu", "NP", 27.6966, 85.3591],
+  ["PKR", "Pokhara International", "Pokhara", "NP", 28.2009, 83.9821],
+  ["PBH", "Paro International", "Paro", "BT", 27.4032, 89.4246],
+  ["CMB", "Bandaranaike International", "Colombo", "LK", 7.1808, 79.8841],
+  ["MLE", "Velana International", "Male", "MV", 4.1918, 73.5291],
+  ["GAN", "Gan International", "Addu City", "MV", -0.6933, 73.1556],
+  ["KBL", "Hamid Karzai International", "Kabul", "AF", 34.5659, 69.2123],
+  ["ALA", "Almaty International", "Almaty", "KZ", 43.3521, 77.0405],
+  ["NQZ", "Nursultan Nazarbayev International", "Astana", "KZ", 51.0222, 71.4669],
+  ["TAS", "Islam Karimov Tashkent International", "Tashkent", "UZ", 41.2579, 69.2812],
+  ["SKD", "Samarkand International", "Samarkand", "UZ", 39.7005, 66.9838],
+  ["FRU", "Manas International", "Bishkek", "KG", 43.0613, 74.4776],
+  ["DYU", "Dushanbe International", "Dushanbe", "TJ", 38.5433, 68.825],
+  ["ASB", "Ashgabat International", "Ashgabat", "TM", 37.9868, 58.361],
+  ["TBS", "Tbilisi International", "Tbilisi", "GE", 41.6692, 44.9547],
+  ["BUS", "Batumi International", "Batumi", "GE", 41.6103, 41.5997],
+  ["EVN", "Zvartnots International", "Yerevan", "AM", 40.1473, 44.3959],
+  ["GYD", "Heydar Aliyev International", "Baku", "AZ", 40.4675, 50.0467],
+  ["ULN", "Chinggis Khaan International", "Ulaanbaatar", "MN", 47.6469, 106.8198],
+
+  // East Asia
+  ["HND", "Haneda Airport", "Tokyo", "JP", 35.5494, 139.7798],
+  ["NRT", "Narita International", "Tokyo", "JP", 35.772, 140.3929],
+  ["KIX", "Kansai International", "Osaka", "JP", 34.4347, 135.244],
+  ["ITM", "Osaka Itami", "Osaka", "JP", 34.7855, 135.4382],
+  ["NGO", "Chubu Centrair International", "Nagoya", "JP", 34.8584, 136.8049],
+  ["CTS", "New Chitose Airport", "Sapporo", "JP", 42.7752, 141.6923],
+  ["FUK", "Fukuoka Airport", "Fukuoka", "JP", 33.5859, 130.4507],
+  ["OKA", "Naha Airport", "Naha", "JP", 26.1958, 127.646],
+  ["HIJ", "Hiroshima Airport", "Hiroshima", "JP", 34.4361, 132.9194],
+  ["SDJ", "Sendai Airport", "Sendai", "JP", 38.1397, 140.917],
+  ["KMQ", "Komatsu Airport", "Kanazawa", "JP", 36.3946, 136.4068],
+  ["ICN", "Incheon International", "Seoul", "KR", 37.4602, 126.4407],
+  ["GMP", "Gimpo International", "Seoul", "KR", 37.5583, 126.7906],
+  ["PUS", "Gimhae International", "Busan", "KR", 35.1795, 128.9382],
+  ["CJU", "Jeju International", "Jeju", "KR", 33.5113, 126.493],
+  ["FNJ", "Pyongyang Sunan International", "Pyongyang", "KP", 39.2241, 125.67],
+  ["PEK", "Beijing Capital International", "Beijing", "CN", 40.0799, 116.6031],
+  ["PKX", "Beijing Daxing International", "Beijing", "CN", 39.5098, 116.4105],
+  ["PVG", "Shanghai Pudong International", "Shanghai", "CN", 31.1443, 121.8083],
+  ["SHA", "Shanghai Hongqiao International", "Shanghai", "CN", 31.1979, 121.3363],
+  ["CAN", "Guangzhou Baiyun International", "Guangzhou", "CN", 23.3924, 113.2988],
+  ["SZX", "Shenzhen Bao'an International", "Shenzhen", "CN", 22.6393, 113.8107],
+  ["CTU", "Chengdu Shuangliu International", "Chengdu", "CN", 30.5785, 103.9471],
+  ["TFU", "Chengdu Tianfu International", "Chengdu", "CN", 30.3125, 104.4442],
+  ["CKG", "Chongqing Jiangbei International", "Chongqing", "CN", 29.7192, 106.6417],
+  ["KMG", "Kunming Changshui International", "Kunming", "CN", 25.1019, 102.9292],
+  ["XIY", "Xi'an Xianyang International", "Xi'an", "CN", 34.4471, 108.7516],
+  ["HGH", "Hangzhou Xiaoshan International", "Hangzhou", "CN", 30.2295, 120.4344],
+  ["NKG", "Nanjing Lukou International", "Nanjing", "CN", 31.742, 118.862],
+  ["WUH", "Wuhan Tianhe International", "Wuhan", "CN", 30.7838, 114.2081],
+  ["XMN", "Xiamen Gaoqi International", "Xiamen", "CN", 24.544, 118.1277],
+  ["TAO", "Qingdao Jiaodong International", "Qingdao", "CN", 36.3614, 120.0881],
+  ["HRB", "Harbin Taiping International", "Harbin", "CN", 45.6234, 126.2503],
+  ["TSN", "Tianjin Binhai International", "Tianjin", "CN", 39.1244, 117.3462],
+  ["KWL", "Guilin Liangjiang International", "Guilin", "CN", 25.2181, 110.0392],
+  ["SYX", "Sanya Phoenix International", "Sanya", "CN", 18.3029, 109.4122],
+  ["LXA", "Lhasa Gonggar Airport", "Lhasa", "CN", 29.2978, 90.9119],
+  ["LJG", "Lijiang Sanyi International", "Lijiang", "CN", 26.6796, 100.2461],
+  ["URC", "Urumqi Diwopu International", "Urumqi", "CN", 43.9071, 87.4742],
+  ["HKG", "Hong Kong International", "Hong Kong", "HK", 22.308, 113.9185],
+  ["MFM", "Macau International", "Macau", "MO", 22.1496, 113.5916],
+  ["TPE", "Taiwan Taoyuan International", "Taipei", "TW", 25.0797, 121.2342],
+  ["TSA", "Taipei Songshan Airport", "Taipei", "TW", 25.0694, 121.5525],
+  ["KHH", "Kaohsiung International", "Kaohsiung", "TW", 22.5771, 120.35],
+
+  // Southeast Asia
+  ["BKK", "Suvarnabhumi Airport", "Bangkok", "TH", 13.69, 100.7501],
+  ["DMK", "Don Mueang International", "Bangkok", "TH", 13.9126, 100.6068],
+  ["HKT", "Phuket International", "Phuket", "TH", 8.1132, 98.3169],
+  ["CNX", "Chiang Mai International", "Chiang Mai", "TH", 18.7668, 98.9626],
+  ["KBV", "Krabi International", "Krabi", "TH", 8.0992, 98.9862],
+  ["USM", "Samui International", "Ko Samui", "TH", 9.5478, 100.0623],
+  ["CEI", "Mae Fah Luang Chiang Rai International", "Chiang Rai", "TH", 19.9523, 99.8829],
+  ["UTP", "U-Tapao International", "Pattaya", "TH", 12.6799, 101.005],
+  ["SGN", "Tan Son Nhat International", "Ho Chi Minh City", "VN", 10.8188, 106.6519],
+  ["HAN", "Noi Bai International", "Hanoi", "VN", 21.2212, 105.8072],
+  ["DAD", "Da Nang International", "Da Nang", "VN", 16.0439, 108.1994],
+  ["CXR", "Cam Ranh International", "Nha Trang", "VN", 11.9982, 109.2194],
+  ["PQC", "Phu Quoc International", "Phu Quoc", "VN", 10.1698, 103.9931],
+  ["HUI", "Phu Bai International", "Hue", "VN", 16.4015, 107.7026],
+  ["VDO", "Van Don International", "Ha Long", "VN", 21.1178, 107.4142],
+  ["KTI", "Techo International", "Phnom Penh", "KH", 11.3574, 104.9135],
+  ["SAI", "Siem Reap-Angkor International", "Siem Reap", "KH", 13.3686, 104.2244],
+  ["VTE", "Wattay International", "Vientiane", "LA", 17.9883, 102.5633],
+  ["LPQ", "Luang Prabang International", "Luang Prabang", "LA", 19.8973, 102.1609],
+  ["RGN", "Yangon International", "Yangon", "MM", 16.9073, 96.1332],
+  ["MDL", "Mandalay International", "Mandalay", "MM", 21.7022, 95.9779],
+  ["NYU", "Nyaung U Airport", "Bagan", "MM", 21.1788, 94.9302],
+  ["KUL", "Kuala Lumpur International", "Kuala Lumpur", "MY", 2.7456, 101.7099],
+  ["PEN", "Penang International", "George Town", "MY", 5.2971, 100.2769],
+  ["BKI", "Kota Kinabalu International", "Kota Kinabalu", "MY", 5.9372, 116.0511],
+  ["KCH", "Kuching International", "Kuching", "MY", 1.4847, 110.347],
+  ["LGK", "Langkawi International", "Langkawi", "MY", 6.3297, 99.7287],
+  ["JHB", "Senai International", "Johor Bahru", "MY", 1.6413, 103.6696],
+  ["SIN", "Singapore Changi", "Singapore", "SG", 1.3644, 103.9915],
+  ["CGK", "Soekarno-Hatta International", "Jakarta", "ID", -6.1256, 106.6559],
+  ["DPS", "I Gusti Ngurah Rai International", "Denpasar", "ID", -8.7482, 115.1672],
+  ["SUB", "Juanda International", "Surabaya", "ID", -7.3798, 112.7869],
+  ["KNO", "Kualanamu International", "Medan", "ID", 3.6422, 98.8853],
+  ["YIA", "Yogyakarta International", "Yogyakarta", "ID", -7.9007, 110.0574],
+  ["UPG", "Sultan Hasanuddin International", "Makassar", "ID", -5.0617, 119.554],
+  ["LBJ", "Komodo Airport", "Labuan Bajo", "ID", -8.4866, 119.8891],
+  ["LOP", "Lombok International", "Praya", "ID", -8.7573, 116.2767],
+  ["BWN", "Brunei International", "Bandar Seri Begawan", "BN", 4.9442, 114.9283],
+  ["DIL", "Presidente Nicolau Lobato International", "Dili", "TL", -8.5465, 125.5247],
+  ["MNL", "Ninoy Aquino International", "Manila", "PH", 14.5086, 121.0194],
+  ["CEB", "Mactan-Cebu International", "Cebu City", "PH", 10.3075, 123.9794],
+  ["DVO", "Francisco Bangoy International", "Davao City", "PH", 7.1255, 125.6458],
+  ["PPS", "Puerto Princesa International", "Puerto Princesa", "PH", 9.7421, 118.759],
+  ["ENI", "El Nido Airport", "El Nido", "PH", 11.2024, 119.4166],
+  ["MPH", "Godofredo P. Ramos Airport", "Boracay", "PH", 11.9245, 121.954],
+
+  // Middle East
+  ["DXB", "Dubai International", "Dubai", "AE", 25.2532, 55.3657],
+  ["AUH", "Zayed International", "Abu Dhabi", "AE", 24.4331, 54.6511],
+  ["SHJ", "Sharjah International", "Sharjah", "AE", 25.3286, 55.5172],
+  ["DOH", "Hamad International", "Doha", "QA", 25.2731, 51.6081],
+  ["BAH", "Bahrain International", "Manama", "BH", 26.2708, 50.6336],
+  ["KWI", "Kuwait International", "Kuwait City", "KW", 29.2266, 47.9689],
+  ["MCT", "Muscat International", "Muscat", "OM", 23.5933, 58.2844],
+  ["RUH", "King Khalid International", "Riyadh", "SA", 24.9576, 46.6988],
+  ["JED", "King Abdulaziz International", "Jeddah", "SA", 21.6796, 39.1565],
+  ["MED", "Prince Mohammad bin Abdulaziz International", "Medina", "SA", 24.5534, 39.705],
+  ["ULH", "AlUla International", "AlUla", "SA", 26.4833, 38.1167],
+  ["AMM", "Queen Alia International", "Amman", "JO", 31.7226, 35.9932],
+  ["AQJ", "King Hussein International", "Aqaba", "JO", 29.6116, 35.0181],
+  ["BEY", "Beirut-Rafic Hariri International", "Beirut", "LB", 33.8209, 35.4884],
+  ["DAM", "Damascus International", "Damascus", "SY", 33.4115, 36.5156],
+  ["BGW", "Baghdad International", "Baghdad", "IQ", 33.2625, 44.2346],
+  ["EBL", "Erbil International", "Erbil", "IQ", 36.2376, 43.9632],
+  ["IKA", "Imam Khomeini International", "Tehran", "IR", 35.4161, 51.1522],
+  ["MHD", "Mashhad International", "Mashhad", "IR", 36.2352, 59.641],
+  ["IFN", "Isfahan International", "Isfahan", "IR", 32.7508, 51.8613],
+  ["SYZ", "Shiraz International", "Shiraz", "IR", 29.5392, 52.5898],
+  ["TLV", "Ben Gurion Airport", "Tel Aviv", "IL", 32.0114, 34.8867],
+  ["ETM", "Ramon Airport", "Eilat", "IL", 29.7237, 35.0116],
+  ["SAH", "Sanaa International", "Sana'a", "YE", 15.4763, 44.2197],
+  ["ADE", "Aden International", "Aden", "YE", 12.8295, 45.0288],
+  ["IST", "Istanbul Airport", "Istanbul", "TR", 41.2753, 28.7519],
+  ["SAW", "Sabiha Gökçen International", "Istanbul", "TR", 40.8986, 29.3092],
+  ["AYT", "Antalya Airport", "Antalya", "TR", 36.8987, 30.8005],
+  ["ESB", "Ankara Esenboğa", "Ankara", "TR", 40.1281, 32.9951],
+  ["ADB", "Izmir Adnan Menderes", "Izmir", "TR", 38.2924, 27.157],
+  ["BJV", "Milas-Bodrum Airport", "Bodrum", "TR", 37.2506, 27.6643],
+  ["DLM", "Dalaman Airport", "Fethiye", "TR", 36.7131, 28.7925],
+  ["NAV", "Nevşehir Kapadokya Airport", "Göreme", "TR", 38.7719, 34.5345],
+  ["ASR", "Kayseri Erkilet Airport", "Kayseri", "TR", 38.7704, 35.4954],
+
+  // Europe
+  ["LHR", "Heathrow Airport", "London", "GB", 51.47, -0.4543],
+  ["LGW", "Gatwick Airport", "London", "GB", 51.1537, -0.1821],
+  ["STN", "Stansted Airport", "London", "GB", 51.885, 0.235],
+  ["MAN", "Manchester Airport", "Manchester", "GB", 53.3537, -2.275],
+  ["BHX", "Birmingham Airport", "Birmingham", "GB", 52.4539, -1.748],
+  ["EDI", "Edinburgh Airport", "Edinburgh", "GB", 55.95, -3.3725],
+  ["GLA", "Glasgow Airport", "Glasgow", "GB", 55.8719, -4.4331],
+  ["BRS", "Bristol Airport", "Bristol", "GB", 51.3827, -2.7191],
+  ["BFS", "Belfast International", "Belfast", "GB", 54.6575, -6.2158],
+  ["INV", "Inverness Airport", "Inverness", "GB", 57.5425, -4.0475],
+  ["DUB", "Dublin Airport", "Dublin", "IE", 53.4264, -6.2499],
+  ["ORK", "Cork Airport", "Cork", "IE", 51.8413, -8.4911],
+  ["SNN", "Shannon Airport", "Shannon", "IE", 52.702, -8.9248],
+  ["CDG", "Charles de Gaulle Airport", "Paris", "FR", 49.0097, 2.5479],
+  ["ORY", "Paris Orly", "Paris", "FR", 48.7262, 2.3652],
+  ["NCE", "Nice Côte d'Azur", "Nice", "FR", 43.6584, 7.2159],
+  ["LYS", "Lyon-Saint Exupéry", "Lyon", "FR", 45.7256, 5.0811],
+  ["MRS", "Marseille Provence", "Marseille", "FR", 43.4393, 5.2214],
+  ["TLS", "Toulouse-Blagnac", "Toulouse", "FR", 43.6291, 1.3638],
+  ["BOD", "Bordeaux-Mérignac", "Bordeaux", "FR", 44.8283, -0.7156],
+  ["NTE", "Nantes Atlantique", "Nantes", "FR", 47.1532, -1.6107],
+  ["AJA", "Ajaccio Napoléon Bonaparte", "Ajaccio", "FR", 41.9236, 8.8029],
+  ["BRU", "Brussels Airport", "Brussels", "BE", 50.901, 4.4844],
+  ["LUX", "Luxembourg Airport", "Luxembourg", "LU", 49.6233, 6.2044],
+  ["AMS", "Amsterdam Schiphol", "Amsterdam", "NL", 52.3105, 4.7683],
+  ["RTM", "Rotterdam The Hague", "Rotterdam", "NL", 51.9569, 4.4372],
+  ["EIN", "Eindhoven Airport", "Eindhoven", "NL", 51.4501, 5.3745],
+  ["FRA", "Frankfurt Airport", "Frankfurt", "DE", 50.0379, 8.5622],
+  ["MUC", "Munich Airport", "Munich", "DE", 48.3538, 11.7861],
+  ["BER", "Berlin Brandenburg", "Berlin", "DE", 52.3667, 13.5033],
+  ["DUS", "Düsseldorf Airport", "Düsseldorf", "DE", 51.2895, 6.7668],
+  ["HAM", "Hamburg Airport", "Hamburg", "DE", 53.6304, 9.9882],
+  ["CGN", "Cologne Bonn Airport", "Cologne", "DE", 50.8659, 7.1427],
+  ["STR", "Stuttgart Airport", "Stuttgart", "DE", 48.6899, 9.222],
+  ["LEJ", "Leipzig/Halle Airport", "Leipzig", "DE", 51.4324, 12.2416],
+  ["NUE", "Nuremberg Airport", "Nuremberg", "DE", 49.4987, 11.0669],
+  ["VIE", "Vienna International", "Vienna", "AT", 48.1103, 16.5697],
+  ["SZG", "Salzburg Airport", "Salzburg", "AT", 47.7933, 13.0043],
+  ["INN", "Innsbruck Airport", "Innsbruck", "AT", 47.2602, 11.344],
+  ["ZRH", "Zurich Airport", "Zurich", "CH", 47.4582, 8.5555],
+  ["GVA", "Geneva Airport", "Geneva", "CH", 46.2381, 6.109],
+  ["BSL", "EuroAirport Basel Mulhouse Freiburg", "Basel", "CH", 47.59, 7.5291],
+  ["FCO", "Leonardo da Vinci–Fiumicino", "Rome", "IT", 41.8003, 12.2389],
+  ["MXP", "Milan Malpensa", "Milan", "IT", 45.63, 8.7231],
+  ["LIN", "Milan Linate", "Milan", "IT", 45.4454, 9.2767],
+  ["BGY", "Milan Bergamo", "Bergamo", "IT", 45.6739, 9.7042],
+  ["VCE", "Venice Marco Polo", "Venice", "IT", 45.5053, 12.3519],
+  ["NAP", "Naples International", "Naples", "IT", 40.886, 14.2908],
+  ["FLR", "Florence Peretola", "Florence", "IT", 43.81, 11.2051],
+  ["PSA", "Pisa International", "Pisa", "IT", 43.6839, 10.3927],
+  ["BLQ", "Bologna Guglielmo Marconi", "Bologna", "IT", 44.5354, 11.2887],
+  ["TRN", "Turin Airport", "Turin", "IT", 45.2008, 7.6496],
+  ["VRN", "Verona Villafranca", "Verona", "IT", 45.3957, 10.8885],
+  ["CTA", "Catania-Fontanarossa", "Catania", "IT", 37.4668, 15.0664],
+  ["PMO", "Palermo Falcone-Borsellino", "Palermo", "IT", 38.176, 13.091],
+  ["CAG", "Cagliari Elmas", "Cagliari", "IT", 39.2515, 9.0543],
+  ["OLB", "Olbia Costa Smeralda", "Olbia", "IT", 40.8987, 9.5176],
+  ["BRI", "Bari Karol Wojtyła", "Bari", "IT", 41.1389, 16.7606],
+  ["MLA", "Malta International", "Valletta", "MT", 35.8575, 14.4775],
+  ["MAD", "Adolfo Suárez Madrid–Barajas", "Madrid", "ES", 40.4983, -3.5676],
+  ["BCN", "Josep Tarradellas Barcelona–El Prat", "Barcelona", "ES", 41.2974, 2.0833],
+  ["PMI", "Palma de Mallorca Airport", "Palma", "ES", 39.5517, 2.7388],
+  ["AGP", "Málaga-Costa del Sol", "Málaga", "ES", 36.6749, -4.4991],
+  ["ALC", "Alicante-Elche", "Alicante", "ES", 38.2822, -0.5582],
+  ["VLC", "Valencia Airport", "Valencia", "ES", 39.4893, -0.4816],
+  ["SVQ", "Seville Airport", "Seville", "ES", 37.418, -5.8931],
+  ["BIO", "Bilbao Airport", "Bilbao", "ES", 43.3011, -2.9106],
+  ["IBZ", "Ibiza Airport", "Ibiza", "ES", 38.8729, 1.3731],
+  ["LPA", "Gran Canaria Airport", "Las Palmas", "ES", 27.9319, -15.3866],
+  ["TFS", "Tenerife South", "Santa Cruz de Tenerife", "ES", 28.0445, -16.5725],
+  ["GRX", "Federico García Lorca Granada", "Granada", "ES", 37.1887, -3.7774],
+  ["GIB", "Gibraltar International", "Gibraltar", "GI", 36.1512, -5.3497],
+  ["LIS", "Humberto Delgado Airport", "Lisbon", "PT", 38.7742, -9.1342],
+  ["OPO", "Francisco Sá Carneiro Airport", "Porto", "PT", 41.2481, -8.6814],
+  ["FAO", "Faro Airport", "Faro", "PT", 37.0144, -7.9659],
+  ["FNC", "Cristiano Ronaldo Madeira International", "Funchal", "PT", 32.6979, -16.7745],
+  ["PDL", "João Paulo II Airport", "Ponta Delgada", "PT", 37.7412, -25.6979],
+  ["ATH", "Athens International", "Athens", "GR", 37.9364, 23.9445],
+  ["SKG", "Thessaloniki Makedonia", "Thessaloniki", "GR", 40.5197, 22.9709],
+  ["HER", "Heraklion International", "Heraklion", "GR", 35.3397, 25.1803],
+  ["CHQ", "Chania International", "Chania", "GR", 35.5317, 24.1497],
+  ["JTR", "Santorini (Thira) National", "Fira", "GR", 36.3992, 25.4793],
+  ["JMK", "Mykonos Island National", "Mykonos", "GR", 37.4351, 25.3481],
+  ["RHO", "Rhodes International", "Rhodes", "GR", 36.4054, 28.0862],
+  ["CFU", "Corfu International", "Corfu", "GR", 39.6019, 19.9117],
+  ["LCA", "Larnaca International", "Larnaca", "CY", 34.8751, 33.6249],
+  ["PFO", "Paphos International", "Paphos", "CY", 34.718, 32.4857],
+  ["CPH", "Copenhagen Airport", "Copenhagen", "DK", 55.618, 12.656],
+  ["AAR", "Aarhus Airport", "Aarhus", "DK", 56.3, 10.619],
+  ["ARN", "Stockholm Arlanda", "Stockholm", "SE", 59.6519, 17.9186],
+  ["GOT", "Göteborg Landvetter", "Gothenburg", "SE", 57.6628, 12.2798],
+  ["KRN", "Kiruna Airport", "Kiruna", "SE", 67.822, 20.3368],
+  ["OSL", "Oslo Gardermoen", "Oslo", "NO", 60.1939, 11.1004],
+  ["BGO", "Bergen Flesland", "Bergen", "NO", 60.2934, 5.2181],
+  ["TOS", "Tromsø Airport", "Tromsø", "NO", 69.6833, 18.9189],
+  ["LYR", "Svalbard Airport", "Longyearbyen", "SJ", 78.2461, 15.4656],
+  ["HEL", "Helsinki-Vantaa", "Helsinki", "FI", 60.3172, 24.9633],
+  ["RVN", "Rovaniemi Airport", "Rovaniemi", "FI", 66.5648, 25.8304],
+  ["MHQ", "Mariehamn Airport", "Mariehamn", "AX", 60.1222, 19.8982],
+  ["KEF", "Keflavík International", "Reykjavík", "IS", 63.985, -22.6056],
+  ["FAE", "Vágar Airport", "Tórshavn", "FO", 62.0636, -7.2772],
+  ["TLL", "Tallinn Airport", "Tallinn", "EE", 59.4133, 24.8328],
+  ["RIX", "Riga International", "Riga", "LV", 56.9236, 23.9711],
+  ["VNO", "Vilnius International", "Vilnius", "LT", 54.6341, 25.2858],
+  ["WAW", "Warsaw Chopin", "Warsaw", "PL", 52.1657, 20.9671],
+  ["KRK", "Kraków John Paul II", "Kraków", "PL", 50.0777, 19.7848],
+  ["GDN", "Gdańsk Lech Wałęsa", "Gdańsk", "PL", 54.3776, 18.4662],
+  ["WRO", "Wrocław Copernicus", "Wrocław", "PL", 51.1027, 16.8858],
+  ["PRG", "Václav Havel Airport Prague", "Prague", "CZ", 50.1008, 14.26],
+  ["BTS", "Bratislava Airport", "Bratislava", "SK", 48.1702, 17.2127],
+  ["BUD", "Budapest Ferenc Liszt International", "Budapest", "HU", 47.4369, 19.2556],
+  ["LJU", "Ljubljana Jože Pučnik", "Ljubljana", "SI", 46.2237, 14.4576],
+  ["ZAG", "Zagreb Franjo Tuđman", "Zagreb", "HR", 45.7429, 16.0688],
+  ["SPU", "Split Airport", "Split", "HR", 43.5389, 16.298],
+  ["DBV", "Dubrovnik Airport", "Dubrovnik", "HR", 42.5614, 18.2682],
+  ["SJJ", "Sarajevo International", "Sarajevo", "BA", 43.8246, 18.3315],
+  ["BEG", "Belgrade Nikola Tesla", "Belgrade", "RS", 44.8184, 20.3091],
+  ["TGD", "Podgorica Airport", "Podgorica", "ME", 42.3594, 19.2519],
+  ["TIV", "Tivat Airport", "Kotor", "ME", 42.4047, 18.7233],
+  ["TIA", "Tirana International", "Tirana", "AL", 41.4147, 19.7206],
+  ["SKP", "Skopje International", "Skopje", "MK", 41.9616, 21.6214],
+  ["OHD", "Ohrid St. Paul the Apostle", "Ohrid", "MK", 41.18, 20.7423],
+  ["SOF", "Sofia Airport", "Sofia", "BG", 42.6967, 23.4114],
+  ["VAR", "Varna Airport", "Varna", "BG", 43.2321, 27.8251],
+  ["OTP", "Henri Coandă International", "Bucharest", "RO", 44.5711, 26.085],
+  ["CLJ", "Cluj International", "Cluj-Napoca", "RO", 46.7852, 23.6862],
+  ["RMO", "Chișinău International", "Chișinău", "MD", 46.9277, 28.931],
+  ["KBP", "Boryspil International", "Kyiv", "UA", 50.345, 30.8947],
+  ["LWO", "Lviv Danylo Halytskyi International", "Lviv", "UA", 49.8125, 23.9561],
+  ["ODS", "Odesa International", "Odesa", "UA", 46.4268, 30.6765],
+  ["MSQ", "Minsk National", "Minsk", "BY", 53.8825, 28.0307],
+  ["SVO", "Sheremetyevo International", "Moscow", "RU", 55.9726, 37.4146],
+  ["DME", "Domodedovo International", "Moscow", "RU", 55.4088, 37.9063],
+  ["LED", "Pulkovo Airport", "Saint Petersburg", "RU", 59.8003, 30.2625],
+  ["AER", "Sochi International", "Sochi", "RU", 43.4499, 39.9566],
+  ["KZN", "Kazan International", "Kazan", "RU", 55.6062, 49.2787],
+  ["SVX", "Koltsovo Airport", "Yekaterinburg", "RU", 56.7431, 60.8027],
+  ["OVB", "Tolmachevo Airport", "Novosibirsk", "RU", 55.0126, 82.6507],
+  ["IKT", "Irkutsk International", "Irkutsk", "RU", 52.268, 104.389],
+  ["VVO", "Vladivostok International", "Vladivostok", "RU", 43.399, 132.148],
+  ["IOM", "Isle of Man Airport", "Douglas", "IM", 54.0833, -4.6239],
+  ["JER", "Jersey Airport", "Saint Helier", "JE", 49.2079, -2.1955],
+  ["GCI", "Guernsey Airport", "Saint Peter Port", "GG", 49.435, -2.6019],
+
+  // Africa
+  ["CAI", "Cairo International", "Cairo", "EG", 30.1219, 31.4056],
+  ["SPX", "Sphinx International", "Giza", "EG", 30.1095, 30.8944],
+  ["HRG", "Hurghada International", "Hurghada", "EG", 27.1783, 33.7994],
+  ["SSH", "Sharm El Sheikh International", "Sharm El Sheikh", "EG", 27.9773, 34.395],
+  ["LXR", "Luxor International", "Luxor", "EG", 25.671, 32.7066],
+  ["ASW", "Aswan International", "Aswan", "EG", 23.9644, 32.82],
+  ["HBE", "Borg El Arab International", "Alexandria", "EG", 30.9177, 29.6964],
+  ["CMN", "Mohammed V International", "Casablanca", "MA", 33.3675, -7.59],
+  ["RAK", "Marrakesh Menara", "Marrakesh", "MA", 31.6069, -8.0363],
+  ["FEZ", "Fès–Saïs Airport", "Fes", "MA", 33.9273, -4.978],
+  ["TNG", "Tangier Ibn Battouta", "Tangier", "MA", 35.7269, -5.9169],
+  ["RBA", "Rabat–Salé Airport", "Rabat", "MA", 34.0515, -6.7515],
+  ["AGA", "Agadir–Al Massira", "Agadir", "MA", 30.325, -9.4131],
+  ["ESU", "Essaouira-Mogador Airport", "Essaouira", "MA", 31.3975, -9.6817],
+  ["EUN", "Hassan I Airport", "Laayoune", "EH", 27.1517, -13.2192],
+  ["ALG", "Houari Boumediene Airport", "Algiers", "DZ", 36.691, 3.2154],
+  ["ORN", "Oran Ahmed Ben Bella", "Oran", "DZ", 35.6239, -0.6212],
+  ["TUN", "Tunis-Carthage International", "Tunis", "TN", 36.851, 10.2272],
+  ["DJE", "Djerba-Zarzis International", "Djerba", "TN", 33.875, 10.7755],
+  ["NBE", "Enfidha-Hammamet International", "Sousse", "TN", 36.0758, 10.4386],
+  ["MJI", "Mitiga International", "Tripoli", "LY", 32.8941, 13.276],
+  ["BEN", "Benina International", "Benghazi", "LY", 32.0968, 20.2695],
+  ["KRT", "Khartoum International", "Khartoum", "SD", 15.5895, 32.5532],
+  ["JUB", "Juba International", "Juba", "SS", 4.8720, 31.6011],
+  ["ADD", "Addis Ababa Bole International", "Addis Ababa", "ET", 8.9779, 38.7993],
+  ["LLI", "Lalibela Airport", "Lalibela", "ET", 11.975, 38.98],
+  ["ASM", "Asmara International", "Asmara", "ER", 15.2919, 38.9107],
+  ["JIB", "Djibouti–Ambouli International", "Djibouti", "DJ", 11.5473, 43.1595],
+  ["MGQ", "Aden Adde International", "Mogadishu", "SO", 2.0144, 45.3047],
+  ["NBO", "Jomo Kenyatta International", "Nairobi", "KE", -1.3192, 36.9278],
+  ["MBA", "Moi International", "Mombasa", "KE", -4.0348, 39.5942],
+  ["UKA", "Ukunda Airstrip", "Diani Beach", "KE", -4.2933, 39.5711],
+  ["KIS", "Kisumu International", "Kisumu", "KE", -0.0861, 34.7289],
+  ["DAR", "Julius Nyerere International", "Dar es Salaam", "TZ", -6.8781, 39.2026],
+  ["JRO", "Kilimanjaro International", "Arusha", "TZ", -3.4294, 37.0745],
+  ["ZNZ", "Abeid Amani Karume International", "Zanzibar City", "TZ", -6.222, 39.2249],
+  ["DOD", "Dodoma Airport", "Dodoma", "TZ", -6.1704, 35.7526],
+  ["EBB", "Entebbe International", "Entebbe", "UG", 0.0424, 32.4435],
+  ["KGL", "Kigali International", "Kigali", "RW", -1.9686, 30.1395],
+  ["BJM", "Melchior Ndadaye International", "Bujumbura", "BI", -3.3240, 29.3185],
+  ["FIH", "N'djili International", "Kinshasa", "CD", -4.3858, 15.4446],
+  ["FBM", "Lubumbashi International", "Lubumbashi", "CD", -11.5913, 27.5309],
+  ["BZV", "Maya-Maya Airport", "Brazzaville", "CG", -4.2517, 15.253],
+  ["BGF", "Bangui M'Poko International", "Bangui", "CF", 4.3985, 18.5188],
+  ["NDJ", "N'Djamena International", "N'Djamena", "TD", 12.1337, 15.034],
+  ["DLA", "Douala International", "Douala", "CM", 4.0061, 9.7195],
+  ["NSI", "Yaoundé Nsimalen International", "Yaoundé", "CM", 3.7226, 11.5533],
+  ["LBV", "Léon-Mba International", "Libreville", "GA", 0.4586, 9.4123],
+  ["SSG", "Malabo International", "Malabo", "GQ", 3.7553, 8.7087],
+  ["TMS", "São Tomé International", "São Tomé", "ST", 0.3782, 6.7122],
+  ["LOS", "Murtala Muhammed International", "Lagos", "NG", 6.5774, 3.3212],
+  ["ABV", "Nnamdi Azikiwe International", "Abuja", "NG", 9.0068, 7.2632],
+  ["KAN", "Mallam Aminu Kano International", "Kano", "NG", 12.0476, 8.5246],
+  ["PHC", "Port Harcourt International", "Port Harcourt", "NG", 5.0155, 6.9496],
+  ["ACC", "Kotoka International", "Accra", "GH", 5.6052, -0.1668],
+  ["KMS", "Prempeh I International", "Kumasi", "GH", 6.7146, -1.5908],
+  ["ABJ", "Félix-Houphouët-Boigny International", "Abidjan", "CI", 5.2614, -3.9263],
+  ["LFW", "Lomé–Tokoin Airport", "Lomé", "TG", 6.1656, 1.2545],
+  ["COO", "Cadjehoun Airport", "Cotonou", "BJ", 6.3572, 2.3844],
+  ["OUA", "Ouagadougou Airport", "Ouagadougou", "BF", 12.3532, -1.5124],
+  ["NIM", "Diori Hamani International", "Niamey", "NE", 13.4815, 2.1836],
+  ["BKO", "Modibo Keita International", "Bamako", "ML", 12.5335, -7.95],
+  ["DSS", "Blaise Diagne International", "Dakar", "SN", 14.6709, -17.0733],
+  ["BJL", "Banjul International", "Banjul", "GM", 13.338, -16.6522],
+  ["OXB", "Osvaldo Vieira International", "Bissau", "GW", 11.8948, -15.6537],
+  ["CKY", "Conakry International", "Conakry", "GN", 9.5769, -13.612],
+  ["FNA", "Lungi International", "Freetown", "SL", 8.6164, -13.1955],
+  ["ROB", "Roberts International", "Monrovia", "LR", 6.2338, -10.3623],
+  ["NKC", "Nouakchott–Oumtounsy International", "Nouakchott", "MR", 18.31, -15.9697],
+  ["RAI", "Nelson Mandela International", "Praia", "CV", 14.9245, -23.4935],
+  ["SID", "Amílcar Cabral International", "Sal", "CV", 16.7414, -22.9494],
+  ["NBJ", "Dr. Antonio Agostinho Neto International", "Luanda", "AO", -9.0478, 13.5078],
+  ["LUN", "Kenneth Kaunda International", "Lusaka", "ZM", -15.3308, 28.4526],
+  ["LVI", "Harry Mwanga Nkumbula International", "Livingstone", "ZM", -17.8218, 25.8227],
+  ["HRE", "Robert Gabriel Mugabe International", "Harare", "ZW", -17.9318, 31.0928],
+  ["VFA", "Victoria Falls Airport", "Victoria Falls", "ZW", -18.0959, 25.839],
+  ["BUQ", "Joshua Mqabuko Nkomo International", "Bulawayo", "ZW", -20.0174, 28.6179],
+  ["LLW", "Kamuzu International", "Lilongwe", "MW", -13.7894, 33.781],
+  ["BLZ", "Chileka International", "Blantyre", "MW", -15.6791, 34.974],
+  ["MPM", "Maputo International", "Maputo", "MZ", -25.9208, 32.5726],
+  ["VNX", "Vilankulo Airport", "Vilankulo", "MZ", -22.0184, 35.3133],
+  ["GBE", "Sir Seretse Khama International", "Gaborone", "BW", -24.5552, 25.9182],
+  ["MUB", "Maun Airport", "Maun", "BW", -19.9726, 23.4311],
+  ["BBK", "Kasane Airport", "Kasane", "BW", -17.8329, 25.1624],
+  ["WDH", "Hosea Kutako International", "Windhoek", "NA", -22.4799, 17.4709],
+  ["WVB", "Walvis Bay Airport", "Walvis Bay", "NA", -22.9799, 14.6453],
+  ["JNB", "O. R. Tambo International", "Johannesburg", "ZA", -26.1392, 28.246],
+  ["CPT", "Cape Town International", "Cape Town", "ZA", -33.9715, 18.6021],
+  ["DUR", "King Shaka International", "Durban", "ZA", -29.6144, 31.1197],
+  ["PLZ", "Chief Dawid Stuurman International", "Port Elizabeth", "ZA", -33.9849, 25.6173],
+  ["MQP", "Kruger Mpumalanga International", "Mbombela", "ZA", -25.3832, 31.1056],
+  ["MSU", "Moshoeshoe I International", "Maseru", "LS", -29.4623, 27.5525],
+  ["SHO", "King Mswati III International", "Mbabane", "SZ", -26.3587, 31.7169],
+  ["TNR", "Ivato International", "Antananarivo", "MG", -18.7969, 47.4788],
+  ["NOS", "Fascene Airport", "Nosy Be", "MG", -13.3121, 48.3148],
+  ["MRU", "Sir Seewoosagur Ramgoolam International", "Port Louis", "MU", -20.4302, 57.6836],
+  ["SEZ", "Seychelles International", "Victoria", "SC", -4.6743, 55.5218],
+  ["HAH", "Prince Said Ibrahim International", "Moroni", "KM", -11.5337, 43.2719],
+  ["RUN", "Roland Garros Airport", "Saint-Denis", "RE", -20.8871, 55.5103],
+  ["DZA", "Dzaoudzi Pamandzi International", "Mamoudzou", "YT", -12.8047, 45.2811],
+  ["HLE", "Saint Helena Airport", "Jamestown", "SH", -15.9572, -5.6459],
+
+  // North America
+  ["ATL", "Hartsfield–Jackson Atlanta International", "Atlanta", "US", 33.6407, -84.4277],
+  ["LAX", "Los Angeles International", "Los Angeles", "US", 33.9416, -118.4085],
+  ["ORD", "O'Hare International", "Chicago", "US", 41.9742, -87.9073],
+  ["DFW", "Dallas/Fort Worth International", "Dallas", "US", 32.8998, -97.0403],
+  ["DEN", "Denver International", "Denver", "US", 39.8561, -104.6737],
+  ["JFK", "John F. Kennedy International", "New York", "US", 40.6413, -73.7781],
+  ["EWR", "Newark Liberty International", "Newark", "US", 40.6895, -74.1745],
+  ["LGA", "LaGuardia Airport", "New York", "US", 40.7769, -73.874],
+  ["SFO", "San Francisco International", "San Francisco", "US", 37.6213, -122.379],
+  ["SEA", "Seattle–Tacoma International", "Seattle", "US", 47.4502, -122.3088],
+  ["LAS", "Harry Reid International", "Las Vegas", "US", 36.084, -115.1537],
+  ["MCO", "Orlando International", "Orlando", "US", 28.4312, -81.3081],
+  ["MIA", "Miami International", "Miami", "US", 25.7959, -80.287],
+  ["CLT", "Charlotte Douglas International", "Charlotte", "US", 35.214, -80.9431],
+  ["PHX", "Phoenix Sky Harbor International", "Phoenix", "US", 33.4352, -112.0101],
+  ["IAH", "George Bush Intercontinental", "Houston", "US", 29.9902, -95.3368],
+  ["BOS", "Logan International", "Boston", "US", 42.3656, -71.0096],
+  ["MSP", "Minneapolis–Saint Paul International", "Minneapolis", "US", 44.8848, -93.2223],
+  ["DTW", "Detroit Metropolitan Wayne County", "Detroit", "US", 42.2162, -83.3554],
+  ["PHL", "Philadelphia International", "Philadelphia", "US", 39.8744, -75.2424],
+  ["IAD", "Washington Dulles International", "Washington", "US", 38.9531, -77.4565],
+  ["DCA", "Ronald Reagan Washington National", "Washington", "US", 38.8512, -77.0402],
+  ["SAN", "San Diego International", "San Diego", "US", 32.7338, -117.1933],
+  ["TPA", "Tampa International", "Tampa", "US", 27.9755, -82.5332],
+  ["BNA", "Nashville International", "Nashville", "US", 36.1263, -86.6774],
+  ["AUS", "Austin–Bergstrom International", "Austin", "US", 30.1975, -97.6664],
+  ["MSY", "Louis Armstrong New Orleans International", "New Orleans", "US", 29.9934, -90.258],
+  ["PDX", "Portland International", "Portland", "US", 45.5898, -122.5951],
+  ["PWM", "Portland International Jetport", "Portland", "US", 43.6462, -70.3093],
+  ["SLC", "Salt Lake City International", "Salt Lake City", "US", 40.7899, -111.9791],
+  ["SJC", "San José Mineta International", "San Jose", "US", 37.3639, -121.9289],
+  ["SAT", "San Antonio International", "San Antonio", "US", 29.5337, -98.4698],
+  ["CHS", "Charleston International", "Charleston", "US", 32.8986, -80.0405],
+  ["SAV", "Savannah/Hilton Head International", "Savannah", "US", 32.1276, -81.2021],
+  ["EYW", "Key West International", "Key West", "US", 24.5561, -81.7596],
+  ["HNL", "Daniel K. Inouye International", "Honolulu", "US", 21.3187, -157.9225],
+  ["OGG", "Kahului Airport", "Kahului", "US", 20.8986, -156.4305],
+  ["ANC", "Ted Stevens Anchorage International", "Anchorage", "US", 61.1743, -149.9962],
+  ["SAF", "Santa Fe Regional", "Santa Fe", "US", 35.6171, -106.0894],
+  ["ASE", "Aspen/Pitkin County Airport", "Aspen", "US", 39.2232, -106.8688],
+  ["SJU", "Luis Muñoz Marín International", "San Juan", "PR", 18.4394, -66.0018],
+  ["STT", "Cyril E. King Airport", "Charlotte Amalie", "VI", 18.3373, -64.9734],
+  ["GUM", "Antonio B. Won Pat International", "Hagåtña", "GU", 13.4834, 144.7959],
+  ["SPN", "Saipan International", "Saipan", "MP", 15.119, 145.7294],
+  ["PPG", "Pago Pago International", "Pago Pago", "AS", -14.331, -170.7105],
+  ["YYZ", "Toronto Pearson International", "Toronto", "CA", 43.6777, -79.6248],
+  ["YVR", "Vancouver International", "Vancouver", "CA", 49.1967, -123.1815],
+  ["YUL", "Montréal–Trudeau International", "Montreal", "CA", 45.4706, -73.7408],
+  ["YYC", "Calgary International", "Calgary", "CA", 51.1215, -114.0076],
+  ["YEG", "Edmonton International", "Edmonton", "CA", 53.3097, -113.5801],
+  ["YOW", "Ottawa Macdonald–Cartier International", "Ottawa", "CA", 45.3225, -75.6692],
+  ["YWG", "Winnipeg James Armstrong Richardson", "Winnipeg", "CA", 49.91, -97.2399],
+  ["YHZ", "Halifax Stanfield International", "Halifax", "CA", 44.8808, -63.5086],
+  ["YQB", "Québec City Jean Lesage International", "Quebec City", "CA", 46.7911, -71.3933],
+  ["YYJ", "Victoria International", "Victoria", "CA", 48.6469, -123.4258],
+  ["FSP", "Saint-Pierre Pointe-Blanche", "Saint-Pierre", "PM", 46.7629, -56.1731],
+  ["GOH", "Nuuk Airport", "Nuuk", "GL", 64.1909, -51.6781],
+  ["SFJ", "Kangerlussuaq Airport", "Kangerlussuaq", "GL", 67.0122, -50.7116],
+  ["BDA", "L.F. Wade International", "Hamilton", "BM", 32.364, -64.6787],
+  ["MEX", "Mexico City International", "Mexico City", "MX", 19.4361, -99.0719],
+  ["CUN", "Cancún International", "Cancún", "MX", 21.0365, -86.877],
+  ["GDL", "Guadalajara International", "Guadalajara", "MX", 20.5218, -103.3112],
+  ["MTY", "Monterrey International", "Monterrey", "MX", 25.7785, -100.107],
+  ["TIJ", "Tijuana International", "Tijuana", "MX", 32.5411, -116.97],
+  ["SJD", "Los Cabos International", "Cabo San Lucas", "MX", 23.1518, -109.7211],
+  ["PVR", "Puerto Vallarta International", "Puerto Vallarta", "MX", 20.6801, -105.2542],
+  ["MID", "Mérida International", "Mérida", "MX", 20.937, -89.6577],
+  ["OAX", "Oaxaca International", "Oaxaca", "MX", 16.9999, -96.7266],
+  ["TQO", "Felipe Carrillo Puerto International", "Tulum", "MX", 20.0174, -87.6093],
+  ["BJX", "Del Bajío International", "León", "MX", 20.9935, -101.4808],
+  ["GUA", "La Aurora International", "Guatemala City", "GT", 14.5833, -90.5275],
+  ["FRS", "Mundo Maya International", "Flores", "GT", 16.9138, -89.8664],
+  ["BZE", "Philip S. W. Goldson International", "Belize City", "BZ", 17.5391, -88.3082],
+  ["SAL", "El Salvador International", "San Salvador", "SV", 13.4409, -89.0557],
+  ["XPL", "Palmerola International", "Tegucigalpa", "HN", 14.3824, -87.6218],
+  ["RTB", "Juan Manuel Gálvez International", "Roatán", "HN", 16.3168, -86.523],
+  ["MGA", "Augusto C. Sandino International", "Managua", "NI", 12.1415, -86.1682],
+  ["SJO", "Juan Santamaría International", "San José", "CR", 9.9939, -84.2088],
+  ["LIR", "Daniel Oduber Quirós International", "Liberia", "CR", 10.5933, -85.5444],
+  ["PTY", "Tocumen International", "Panama City", "PA", 9.0714, -79.3835],
+  ["BOC", "Bocas del Toro International", "Bocas del Toro", "PA", 9.3409, -82.2508],
+  ["HAV", "José Martí International", "Havana", "CU", 22.9892, -82.4091],
+  ["VRA", "Juan Gualberto Gómez Airport", "Varadero", "CU", 23.0344, -81.4353],
+  ["KIN", "Norman Manley International", "Kingston", "JM", 17.9357, -76.7875],
+  ["MBJ", "Sangster International", "Montego Bay", "JM", 18.5037, -77.9134],
+  ["PAP", "Toussaint Louverture International", "Port-au-Prince", "HT", 18.58, -72.2925],
+  ["PUJ", "Punta Cana International", "Punta Cana", "DO", 18.5674, -68.3634],
+  ["SDQ", "Las Américas International", "Santo Domingo", "DO", 18.4297, -69.6689],
+  ["NAS", "Lynden Pindling International", "Nassau", "BS", 25.039, -77.4662],
+  ["PLS", "Providenciales International", "Providenciales", "TC", 21.7736, -72.2659],
+  ["GCM", "Owen Roberts International", "George Town", "KY", 19.2928, -81.3577],
+  ["EIS", "Terrance B. Lettsome International", "Road Town", "VG", 18.4448, -64.5430],
+  ["AXA", "Clayton J. Lloyd International", "The Valley", "AI", 18.2048, -63.0551],
+  ["SXM", "Princess Juliana International", "Philipsburg", "SX", 18.041, -63.1089],
+  ["SBH", "Gustaf III Airport", "Gustavia", "BL", 17.9044, -62.8436],
+  ["SKB", "Robert L. Bradshaw International", "Basseterre", "KN", 17.3112, -62.7187],
+  ["ANU", "V. C. Bird International", "Saint John's", "AG", 17.1367, -61.7927],
+  ["MNI", "John A. Osborne Airport", "Brades", "MS", 16.7914, -62.1933],
+  ["PTP", "Pointe-à-Pitre International", "Pointe-à-Pitre", "GP", 16.2653, -61.5318],
+  ["DOM", "Douglas–Charles Airport", "Roseau", "DM", 15.547, -61.3],
+  ["FDF", "Martinique Aimé Césaire International", "Fort-de-France", "MQ", 14.591, -61.0032],
+  ["UVF", "Hewanorra International", "Castries", "LC", 13.7332, -60.9526],
+  ["SVD", "Argyle International", "Kingstown", "VC", 13.1567, -61.15],
+  ["BGI", "Grantley Adams International", "Bridgetown", "BB", 13.0746, -59.4925],
+  ["GND", "Maurice Bishop International", "Saint George's", "GD", 12.0042, -61.7862],
+  ["POS", "Piarco International", "Port of Spain", "TT", 10.5954, -61.3372],
+  ["AUA", "Queen Beatrix International", "Oranjestad", "AW", 12.5014, -70.0152],
+  ["CUR", "Curaçao International", "Willemstad", "CW", 12.1889, -68.9598],
+  ["BON", "Flamingo International", "Kralendijk", "BQ", 12.131, -68.2685],
+
+  // South America
+  ["GRU", "São Paulo/Guarulhos International", "São Paulo", "BR", -23.4356, -46.4731],
+  ["CGH", "São Paulo/Congonhas", "São Paulo", "BR", -23.6261, -46.6564],
+  ["GIG", "Rio de Janeiro/Galeão International", "Rio de Janeiro", "BR", -22.81, -43.2506],
+  ["BSB", "Brasília International", "Brasília", "BR", -15.8711, -47.9186],
+  ["SSA", "Salvador Bahia Airport", "Salvador", "BR", -12.9086, -38.3225],
+  ["FOR", "Fortaleza Airport", "Fortaleza", "BR", -3.7763, -38.5326],
+  ["REC", "Recife/Guararapes International", "Recife", "BR", -8.1265, -34.9236],
+  ["CNF", "Belo Horizonte/Confins International", "Belo Horizonte", "BR", -19.6244, -43.9719],
+  ["POA", "Porto Alegre Salgado Filho", "Porto Alegre", "BR", -29.9939, -51.1711],
+  ["CWB", "Curitiba Afonso Pena International", "Curitiba", "BR", -25.5285, -49.1758],
+  ["FLN", "Florianópolis International", "Florianópolis", "BR", -27.6703, -48.5525],
+  ["MAO", "Eduardo Gomes International", "Manaus", "BR", -3.0386, -60.0497],
+  ["BEL", "Belém/Val de Cans International", "Belém", "BR", -1.3792, -48.4763],
+  ["IGU", "Foz do Iguaçu International", "Foz do Iguaçu", "BR", -25.6003, -54.4872],
+  ["NAT", "Natal International", "Natal", "BR", -5.7681, -35.3761],
+  ["EZE", "Ministro Pistarini International", "Buenos Aires", "AR", -34.8222, -58.5358],
+  ["AEP", "Aeroparque Jorge Newbery", "Buenos Aires", "AR", -34.5592, -58.4156],
+  ["COR", "Ingeniero Ambrosio Taravella International", "Córdoba", "AR", -31.3236, -64.208],
+  ["MDZ", "Governor Francisco Gabrielli International", "Mendoza", "AR", -32.8317, -68.7929],
+  ["BRC", "San Carlos de Bariloche Airport", "San Carlos de Bariloche", "AR", -41.1512, -71.1578],
+  ["USH", "Malvinas Argentinas International", "Ushuaia", "AR", -54.8433, -68.2958],
+  ["FTE", "Comandante Armando Tola International", "El Calafate", "AR", -50.2803, -72.0531],
+  ["SLA", "Martín Miguel de Güemes International", "Salta", "AR", -24.856, -65.4862],
+  ["IGR", "Cataratas del Iguazú International", "Puerto Iguazú", "AR", -25.7373, -54.4734],
+  ["SCL", "Arturo Merino Benítez International", "Santiago", "CL", -33.393, -70.7858],
+  ["CJC", "El Loa Airport", "Calama", "CL", -22.4982, -68.9036],
+  ["PUQ", "Presidente Carlos Ibáñez del Campo", "Punta Arenas", "CL", -53.0026, -70.8546],
+  ["PNT", "Teniente Julio Gallardo Airport", "Puerto Natales", "CL", -51.6715, -72.5284],
+  ["IPC", "Mataveri International", "Hanga Roa", "CL", -27.1648, -109.4219],
+  ["MVD", "Carrasco International", "Montevideo", "UY", -34.8384, -56.0308],
+  ["PDP", "Capitán de Corbeta Carlos A. Curbelo International", "Punta del Este", "UY", -34.8551, -55.0943],
+  ["ASU", "Silvio Pettirossi International", "Asunción", "PY", -25.2399, -57.5191],
+  ["VVI", "Viru Viru International", "Santa Cruz de la Sierra", "BO", -17.6448, -63.1354],
+  ["LPB", "El Alto International", "La Paz", "BO", -16.5133, -68.1923],
+  ["SRE", "Alcantarí International", "Sucre", "BO", -19.2468, -65.1496],
+  ["UYU", "Joya Andina Airport", "Uyuni", "BO", -20.4463, -66.8484],
+  ["LIM", "Jorge Chávez International", "Lima", "PE", -12.0219, -77.1143],
+  ["CUZ", "Alejandro Velasco Astete International", "Cusco", "PE", -13.5357, -71.9388],
+  ["AQP", "Rodríguez Ballón International", "Arequipa", "PE", -16.3411, -71.583],
+  ["JUL", "Inca Manco Cápac International", "Juliaca", "PE", -15.4671, -70.1582],
+  ["UIO", "Mariscal Sucre International", "Quito", "EC", -0.1292, -78.3575],
+  ["GYE", "José Joaquín de Olmedo International", "Guayaquil", "EC", -2.1574, -79.8836],
+  ["CUE", "Mariscal Lamar International", "Cuenca", "EC", -2.8895, -78.9844],
+  ["GPS", "Seymour Airport", "Baltra", "EC", -0.4538, -90.2659],
+  ["BOG", "El Dorado International", "Bogotá", "CO", 4.7016, -74.1469],
+  ["MDE", "José María Córdova International", "Medellín", "CO", 6.1645, -75.4231],
+  ["CTG", "Rafael Núñez International", "Cartagena", "CO", 10.4424, -75.513],
+  ["CLO", "Alfonso Bonilla Aragón International", "Cali", "CO", 3.5432, -76.3816],
+  ["SMR", "Simón Bolívar International", "Santa Marta", "CO", 11.1196, -74.2306],
+  ["ADZ", "Gustavo Rojas Pinilla International", "San Andrés", "CO", 12.5836, -81.7112],
+  ["CCS", "Simón Bolívar International", "Caracas", "VE", 10.6031, -66.9906],
+  ["MAR", "La Chinita International", "Maracaibo", "VE", 10.5582, -71.7279],
+  ["GEO", "Cheddi Jagan International", "Georgetown", "GY", 6.4985, -58.2541],
+  ["PBM", "Johan Adolf Pengel International", "Paramaribo", "SR", 5.4528, -55.1878],
+  ["CAY", "Cayenne – Félix Eboué Airport", "Cayenne", "GF", 4.8198, -52.3604],
+  ["MPN", "RAF Mount Pleasant", "Stanley", "FK", -51.8228, -58.4472],
+
+  // Oceania
+  ["SYD", "Sydney Kingsford Smith", "Sydney", "AU", -33.9399, 151.1753],
+  ["MEL", "Melbourne Airport", "Melbourne", "AU", -37.669, 144.841],
+  ["BNE", "Brisbane Airport", "Brisbane", "AU", -27.3842, 153.1175],
+  ["PER", "Perth Airport", "Perth", "AU", -31.9385, 115.9672],
+  ["ADL", "Adelaide Airport", "Adelaide", "AU", -34.945, 138.5306],
+  ["OOL", "Gold Coast Airport", "Gold Coast", "AU", -28.1644, 153.5047],
+  ["CNS", "Cairns Airport", "Cairns", "AU", -16.8858, 145.7553],
+  ["CBR", "Canberra Airport", "Canberra", "AU", -35.3069, 149.195],
+  ["HBA", "Hobart International", "Hobart", "AU", -42.8361, 147.5103],
+  ["DRW", "Darwin International", "Darwin", "AU", -12.4147, 130.8769],
+  ["AYQ", "Ayers Rock Airport", "Yulara", "AU", -25.1861, 130.9758],
+  ["PPP", "Whitsunday Coast Airport", "Proserpine", "AU", -20.495, 148.5522],
+  ["BNK", "Ballina Byron Gateway", "Ballina", "AU", -28.8339, 153.5625],
+  ["AKL", "Auckland Airport", "Auckland", "NZ", -37.0082, 174.785],
+  ["CHC", "Christchurch International", "Christchurch", "NZ", -43.4894, 172.5322],
+  ["WLG", "Wellington International", "Wellington", "NZ", -41.3272, 174.8053],
+  ["ZQN", "Queenstown Airport", "Queenstown", "NZ", -45.0211, 168.7392],
+  ["ROT", "Rotorua Regional", "Rotorua", "NZ", -38.1092, 176.3172],
+  ["DUD", "Dunedin International", "Dunedin", "NZ", -45.9281, 170.1983],
+  ["NAN", "Nadi International", "Nadi", "FJ", -17.7554, 177.4434],
+  ["SUV", "Nausori International", "Suva", "FJ", -18.0433, 178.5592],
+  ["POM", "Jacksons International", "Port Moresby", "PG", -9.4434, 147.22],
+  ["HIR", "Honiara International", "Honiara", "SB", -9.428, 160.0548],
+  ["VLI", "Bauerfield International", "Port Vila", "VU", -17.6993, 168.3198],
+  ["NOU", "La Tontouta International", "Nouméa", "NC", -22.0146, 166.2129],
+  ["PPT", "Faa'a International", "Papeete", "PF", -17.5537, -149.6064],
+  ["BOB", "Bora Bora Airport", "Vaitape", "PF", -16.4444, -151.7514],
+  ["APW", "Faleolo International", "Apia", "WS", -13.83, -172.0083],
+  ["TBU", "Fua'amotu International", "Nuku'alofa", "TO", -21.2412, -175.1496],
+  ["RAR", "Rarotonga International", "Avarua", "CK", -21.2027, -159.8059],
+  ["IUE", "Niue International", "Alofi", "NU", -19.0791, -169.9256],
+  ["FUN", "Funafuti International", "Funafuti", "TV", -8.525, 179.1961],
+  ["TRW", "Bonriki International", "South Tarawa", "KI", 1.3816, 173.1471],
+  ["INU", "Nauru International", "Yaren", "NR", -0.5472, 166.9191],
+  ["MAJ", "Marshall Islands International", "Majuro", "MH", 7.0648, 171.272],
+  ["PNI", "Pohnpei International", "Palikir", "FM", 6.9851, 158.2089],
+  ["ROR", "Roman Tmetuchl International", "Koror", "PW", 7.3673, 134.5443],
+  ["WLS", "Hihifo Airport", "Mata-Utu", "WF", -13.2383, -176.1992],
+  ["NLK", "Norfolk Island Airport", "Kingston", "NF", -29.0416, 167.9387],
+  ["XCH", "Christmas Island Airport", "Flying Fish Cove", "CX", -10.4506, 105.6903],
+  ["CCK", "Cocos (Keeling) Islands Airport", "West Island", "CC", -12.1883, 96.8339],
+];
@@ -0,0 +1,795 @@
+/**
+ * Offline city dataset for location suggestions, modelled on the GeoNames
+ * cities export: major cities worldwide (roughly 500k+ inhabitants), every
+ * national capital and popular smaller destinations. Populations are city
+ * proper and approximate.
+ */
+export type CityRow = [
+  name: string,
+  countryCode: string,
+  admin1: string,
+  latitude: number,
+  longitude: number,
+  population: number,
+  timezone: string,
+  alternateNames?: string[],
+];
+
+// prettier-ignore
+export const CITY_ROWS: CityRow[] = [
+  // India
+  ["Mumbai", "IN", "Maharashtra", 19.076, 72.8777, 12442373, "Asia/Kolkata", ["Bombay"]],
+  ["Delhi", "IN", "Delhi", 28.6519, 77.2315, 11034555, "Asia/Kolkata"],
+  ["New Delhi", "IN", "Delhi", 28.6139, 77.209, 249998, "Asia/Kolkata"],
+  ["Bengaluru", "IN", "Karnataka", 12.9716, 77.5946, 8443675, "Asia/Kolkata", ["Bangalore"]],
+  ["Hyderabad", "IN", "Telangana", 17.385, 78.4867, 6809970, "Asia/Kolkata"],
+  ["Ahmedabad", "IN", "Gujarat", 23.0225, 72.5714, 5577940, "Asia/Kolkata"],
+  ["Chennai", "IN", "Tamil Nadu", 13.0827, 80.2707, 4646732, "Asia/Kolkata", ["Madras"]],
+  ["Kolkata", "IN", "West Bengal", 22.5726, 88.3639, 4496694, "Asia/Kolkata", ["Calcutta"]],
+  ["Surat", "IN", "Gujarat", 21.1702, 72.8311, 4467797, "Asia/Kolkata"],
+  ["Pune", "IN", "Maharashtra", 18.5204, 73.8567, 3124458, "Asia/Kolkata", ["Poona"]],
+  ["Jaipur", "IN", "Rajasthan", 26.9124, 75.7873, 3046163, "Asia/Kolkata"],
+  ["Lucknow", "IN", "Uttar Pradesh", 26.8467, 80.9462, 2817105, "Asia/Kolkata"],
+  ["Kanpur", "IN", "Uttar Pradesh", 26.4499, 80.3319, 2765348, "Asia/Kolkata"],
+  ["Nagpur", "IN", "Maharashtra", 21.1458, 79.0882, 2405665, "Asia/Kolkata"],
+  ["Indore", "IN", "Madhya Pradesh", 22.7196, 75.8577, 1964086, "Asia/Kolkata"],
+  ["Thane", "IN", "Maharashtra", 19.2183, 72.9781, 1841488, "Asia/Kolkata"],
+  ["Bhopal", "IN", "Madhya Pradesh", 23.2599, 77.4126, 1798218, "Asia/Kolkata"],
+  ["Visakhapatnam", "IN", "Andhra Pradesh", 17.6868, 83.2185, 1728128, "Asia/Kolkata", ["Vizag"]],
+  ["Patna", "IN", "Bihar", 25.5941, 85.1376, 1684222, "Asia/Kolkata"],
+  ["Vadodara", "IN", "Gujarat", 22.3072, 73.1812, 1670806, "Asia/Kolkata", ["Baroda"]],
+  ["Ghaziabad", "IN", "Uttar Pradesh", 28.6692, 77.4538, 1636068, "Asia/Kolkata"],
+  ["Ludhiana", "IN", "Punjab", 30.901, 75.8573, 1618879, "Asia/Kolkata"],
+  ["Agra", "IN", "Uttar Pradesh", 27.1767, 78.0081, 1585704, "Asia/Kolkata"],
+  ["Nashik", "IN", "Maharashtra", 19.9975, 73.7898, 1486053, "Asia/Kolkata"],
+  ["Faridabad", "IN", "Haryana", 28.4089, 77.3178, 1414050, "Asia/Kolkata"],
+  ["Meerut", "IN", "Uttar Pradesh", 28.9845, 77.7064, 1305429, "Asia/Kolkata"],
+  ["Rajkot", "IN", "Gujarat", 22.3039, 70.8022, 1286995, "Asia/Kolkata"],
+  ["Varanasi", "IN", "Uttar Pradesh", 25.3176, 82.9739, 1198491, "Asia/Kolkata", ["Banaras", "Benares", "Kashi"]],
+  ["Srinagar", "IN", "Jammu and Kashmir", 34.0837, 74.7973, 1180570, "Asia/Kolkata"],
+  ["Aurangabad", "IN", "Maharashtra", 19.8762, 75.3433, 1175116, "Asia/Kolkata", ["Chhatrapati Sambhajinagar"]],
+  ["Amritsar", "IN", "Punjab", 31.634, 74.8723, 1132761, "Asia/Kolkata"],
+  ["Navi Mumbai", "IN", "Maharashtra", 19.033, 73.0297, 1119477, "Asia/Kolkata"],
+  ["Ranchi", "IN", "Jharkhand", 23.3441, 85.3096, 1073427, "Asia/Kolkata"],
+  ["Coimbatore", "IN", "Tamil Nadu", 11.0168, 76.9558, 1050721, "Asia/Kolkata"],
+  ["Vijayawada", "IN", "Andhra Pradesh", 16.5062, 80.648, 1048240, "Asia/Kolkata"],
+  ["Jodhpur", "IN", "Rajasthan", 26.2389, 73.0243, 1033756, "Asia/Kolkata"],
+  ["Madurai", "IN", "Tamil Nadu", 9.9252, 78.1198, 1017865, "Asia/Kolkata"],
+  ["Raipur", "IN", "Chhattisgarh", 21.2514, 81.6296, 1010087, "Asia/Kolkata"],
+  ["Chandigarh", "IN", "Chandigarh", 30.7333, 76.7794, 960787, "Asia/Kolkata"],
+  ["Thiruvananthapuram", "IN", "Kerala", 8.5241, 76.9366, 957730, "Asia/Kolkata", ["Trivandrum"]],
+  ["Guwahati", "IN", "Assam", 26.1445, 91.7362, 957352, "Asia/Kolkata"],
+  ["Mysuru", "IN", "Karnataka", 12.2958, 76.6394, 920550, "Asia/Kolkata", ["Mysore"]],
+  ["Gurugram", "IN", "Haryana", 28.4595, 77.0266, 876824, "Asia/Kolkata", ["Gurgaon"]],
+  ["Bhubaneswar", "IN", "Odisha", 20.2961, 85.8245, 837737, "Asia/Kolkata"],
+  ["Kochi", "IN", "Kerala", 9.9312, 76.2673, 677381, "Asia/Kolkata", ["Cochin"]],
+  ["Noida", "IN", "Uttar Pradesh", 28.5355, 77.391, 642381, "Asia/Kolkata"],
+  ["Dehradun", "IN", "Uttarakhand", 30.3165, 78.0322, 578420, "Asia/Kolkata"],
+  ["Mangaluru", "IN", "Karnataka", 12.9141, 74.856, 484785, "Asia/Kolkata", ["Mangalore"]],
+  ["Udaipur", "IN", "Rajasthan", 24.5854, 73.7125, 451100, "Asia/Kolkata"],
+  ["Puducherry", "IN", "Puducherry", 11.9416, 79.8083, 244377, "Asia/Kolkata", ["Pondicherry", "Pondy"]],
+  ["Alappuzha", "IN", "Kerala", 9.4981, 76.3388, 174164, "Asia/Kolkata", ["Alleppey"]],
+  ["Shimla", "IN", "Himachal Pradesh", 31.1048, 77.1734, 169578, "Asia/Kolkata", ["Simla"]],
+  ["Shillong", "IN", "Meghalaya", 25.5788, 91.8933, 143229, "Asia/Kolkata"],
+  ["Darjeeling", "IN", "West Bengal", 27.041, 88.2663, 118805, "Asia/Kolkata"],
+  ["Panaji", "IN", "Goa", 15.4909, 73.8278, 114405, "Asia/Kolkata", ["Panjim", "Goa"]],
+  ["Port Blair", "IN", "Andaman and Nicobar Islands", 11.6234, 92.7265, 108058, "Asia/Kolkata", ["Sri Vijaya Puram"]],
+  ["Rishikesh", "IN", "Uttarakhand", 30.0869, 78.2676, 102138, "Asia/Kolkata"],
+  ["Gangtok", "IN", "Sikkim", 27.3389, 88.6065, 100286, "Asia/Kolkata"],
+  ["Ooty", "IN", "Tamil Nadu", 11.4102, 76.695, 88430, "Asia/Kolkata", ["Udhagamandalam"]],
+  ["Jaisalmer", "IN", "Rajasthan", 26.9157, 70.9083, 65471, "Asia/Kolkata"],
+  ["Munnar", "IN", "Kerala", 10.0889, 77.0595, 38471, "Asia/Kolkata"],
+  ["Leh", "IN", "Ladakh", 34.1526, 77.5771, 30870, "Asia/Kolkata"],
+  ["Manali", "IN", "Himachal Pradesh", 32.2432, 77.1892, 8096, "Asia/Kolkata"],
+
+  // South Asia
+  ["Karachi", "PK", "Sindh", 24.8607, 67.0011, 14910352, "Asia/Karachi"],
+  ["Lahore", "PK", "Punjab", 31.5204, 74.3587, 11126285, "Asia/Karachi"],
+  ["Faisalabad", "PK", "Punjab", 31.418, 73.079, 3203846, "Asia/Karachi"],
+  ["Rawalpindi", "PK", "Punjab", 33.5651, 73.0169, 2098231, "Asia/Karachi"],
+  ["Islamabad", "PK", "Islamabad Capital Territory", 33.6844, 73.0479, 1014825, "Asia/Karachi"],
+  ["Peshawar", "PK", "Khyber Pakhtunkhwa", 34.0151, 71.5249, 1970042, "Asia/Karachi"],
+  ["Dhaka", "BD", "Dhaka Division", 23.8103, 90.4125, 10356500, "Asia/Dhaka"],
+  ["Chittagong", "BD", "Chittagong Division", 22.3569, 91.7832, 2581643, "Asia/Dhaka", ["Chattogram"]],
+  ["Cox's Bazar", "BD", "Chittagong Division", 21.4272, 92.0058, 223522, "Asia/Dhaka"],
+  ["Kathmandu", "NP", "Bagmati", 27.7172, 85.324, 1442271, "Asia/Kathmandu"],
+  ["Pokhara", "NP", "Gandaki", 28.2096, 83.9856, 518452, "Asia/Kathmandu"],
+  ["Thimphu", "BT", "Thimphu", 27.4728, 89.639, 114551, "Asia/Thimphu"],
+  ["Paro", "BT", "Paro", 27.4305, 89.4133, 11448, "Asia/Thimphu"],
+  ["Colombo", "LK", "Western Province", 6.9271, 79.8612, 752993, "Asia/Colombo"],
+  ["Kandy", "LK", "Central Province", 7.2906, 80.6337, 125400, "Asia/Colombo"],
+  ["Galle", "LK", "Southern Province", 6.0535, 80.221, 93118, "Asia/Colombo"],
+  ["Ella", "LK", "Uva Province", 6.8667, 81.0466, 45000, "Asia/Colombo"],
+  ["Male", "MV", "Malé", 4.1755, 73.5093, 211908, "Indian/Maldives", ["Malé"]],
+  ["Kabul", "AF", "Kabul", 34.5553, 69.2075, 4601789, "Asia/Kabul"],
+
+  // East Asia
+  ["Tokyo", "JP", "Tokyo", 35.6762, 139.6503, 13960000, "Asia/Tokyo"],
+  ["Yokohama", "JP", "Kanagawa", 35.4437, 139.638, 3777491, "Asia/Tokyo"],
+  ["Osaka", "JP", "Osaka", 34.6937, 135.5023, 2753862, "Asia/Tokyo"],
+  ["Nagoya", "JP", "Aichi", 35.1815, 136.9066, 2332176, "Asia/Tokyo"],
+  ["Sapporo", "JP", "Hokkaido", 43.0618, 141.3545, 1973832, "Asia/Tokyo"],
+  ["Fukuoka", "JP", "Fukuoka", 33.5904, 130.4017, 1612392, "Asia/Tokyo"],
+  ["Kobe", "JP", "Hyogo", 34.6901, 135.1955, 1525152, "Asia/Tokyo"],
+  ["Kyoto", "JP", "Kyoto", 35.0116, 135.7681, 1463723, "Asia/Tokyo"],
+  ["Hiroshima", "JP", "Hiroshima", 34.3853, 132.4553, 1199391, "Asia/Tokyo"],
+  ["Sendai", "JP", "Miyagi", 38.2682, 140.8694, 1096704, "Asia/Tokyo"],
+  ["Naha", "JP", "Okinawa", 26.2124, 127.6809, 317405, "Asia/Tokyo", ["Okinawa"]],
+  ["Nara", "JP", "Nara", 34.6851, 135.8048, 354630, "Asia/Tokyo"],
+  ["Kanazawa", "JP", "Ishikawa", 36.5613, 136.6562, 462361, "Asia/Tokyo"],
+  ["Hakone", "JP", "Kanagawa", 35.2324, 139.1069, 11293, "Asia/Tokyo"],
+  ["Seoul", "KR", "Seoul", 37.5665, 126.978, 9776000, "Asia/Seoul"],
+  ["Busan", "KR", "Busan", 35.1796, 129.0756, 3448737, "Asia/Seoul", ["Pusan"]],
+  ["Incheon", "KR", "Incheon", 37.4563, 126.7052, 2954955, "Asia/Seoul"],
+  ["Daegu", "KR", "Daegu", 35.8714, 128.6014, 2427954, "Asia/Seoul"],
+  ["Jeju", "KR", "Jeju", 33.4996, 126.5312, 486306, "Asia/Seoul", ["Jeju City"]],
+  ["Pyongyang", "KP", "Pyongyang", 39.0392, 125.7625, 3255288, "Asia/Pyongyang"],
+  ["Shanghai", "CN", "Shanghai", 31.2304, 121.4737, 24870895, "Asia/Shanghai"],
+  ["Beijing", "CN", "Beijing", 39.9042, 116.4074, 21893095, "Asia/Shanghai", ["Peking"]],
+  ["Chongqing", "CN", "Chongqing", 29.4316, 106.9123, 15872179, "Asia/Shanghai"],
+  ["Guangzhou", "CN", "Guangdong", 23.1291, 113.2644, 18676605, "Asia/Shanghai", ["Canton"]],
+  ["Shenzhen", "CN", "Guangdong", 22.5431, 114.0579, 17560061, "Asia/Shanghai"],
+  ["Chengdu", "CN", "Sichuan", 30.5728, 104.0668, 16045577, "Asia/Shanghai"],
+  ["Tianjin", "CN", "Tianjin", 39.3434, 117.3616, 13866009, "Asia/Shanghai"],
+  ["Wuhan", "CN", "Hubei", 30.5928, 114.3055, 12326518, "Asia/Shanghai"],
+  ["Xi'an", "CN", "Shaanxi", 34.3416, 108.9398, 12952907, "Asia/Shanghai", ["Xian"]],
+  ["Hangzhou", "CN", "Zhejiang", 30.2741, 120.1551, 11936010, "Asia/Shanghai"],
+  ["Nanjing", "CN", "Jiangsu", 32.0603, 118.7969, 9314685, "Asia/Shanghai"],
+  ["Suzhou", "CN", "Jiangsu", 31.2989, 120.5853, 12748262, "Asia/Shanghai"],
+  ["Kunming", "CN", "Yunnan", 25.0389, 102.7183, 8460088, "Asia/Shanghai"],
+  ["Harbin", "CN", "Heilongjiang", 45.8038, 126.535, 10009854, "Asia/Shanghai"],
+  ["Qingdao", "CN", "Shandong", 36.0671, 120.3826, 10071722, "Asia/Shanghai", ["Tsingtao"]],
+  ["Xiamen", "CN", "Fujian", 24.4798, 118.0894, 5163970, "Asia/Shanghai", ["Amoy"]],
+  ["Guilin", "CN", "Guangxi", 25.2736, 110.29, 4931137, "Asia/Shanghai"],
+  ["Sanya", "CN", "Hainan", 18.2528, 109.512, 1031396, "Asia/Shanghai"],
+  ["Lhasa", "CN", "Tibet", 29.652, 91.1721, 867891, "Asia/Shanghai"],
+  ["Lijiang", "CN", "Yunnan", 26.8721, 100.2299, 1253878, "Asia/Shanghai"],
+  ["Hong Kong", "HK", "Hong Kong", 22.3193, 114.1694, 7413070, "Asia/Hong_Kong"],
+  ["Macau", "MO", "Macau", 22.1987, 113.5439, 682800, "Asia/Macau", ["Macao"]],
+  ["Taipei", "TW", "Taipei", 25.033, 121.5654, 2494813, "Asia/Taipei"],
+  ["Kaohsiung", "TW", "Kaohsiung", 22.6273, 120.3014, 2733964, "Asia/Taipei"],
+  ["Taichung", "TW", "Taichung", 24.1477, 120.6736, 2820787, "Asia/Taipei"],
+  ["Tainan", "TW", "Tainan", 22.9999, 120.227, 1862059, "Asia/Taipei"],
+  ["Ulaanbaatar", "MN", "Ulaanbaatar", 47.8864, 106.9057, 1612675, "Asia/Ulaanbaatar", ["Ulan Bator"]],
+
+  // Southeast Asia
+  ["Bangkok", "TH", "Bangkok", 13.7563, 100.5018, 10539000, "Asia/Bangkok", ["Krung Thep"]],
+  ["Chiang Mai", "TH", "Chiang Mai", 18.7883, 98.9853, 131091, "Asia/Bangkok"],
+  ["Phuket", "TH", "Phuket", 7.8804, 98.3923, 79308, "Asia/Bangkok"],
+  ["Pattaya", "TH", "Chon Buri", 12.9236, 100.8825, 119532, "Asia/Bangkok"],
+  ["Krabi", "TH", "Krabi", 8.0863, 98.9063, 31219, "Asia/Bangkok"],
+  ["Ko Samui", "TH", "Surat Thani", 9.512, 100.0136, 63555, "Asia/Bangkok", ["Koh Samui"]],
+  ["Chiang Rai", "TH", "Chiang Rai", 19.9105, 99.8406, 200797, "Asia/Bangkok"],
+  ["Hua Hin", "TH", "Prachuap Khiri Khan", 12.5684, 99.9577, 84883, "Asia/Bangkok"],
+  ["Ho Chi Minh City", "VN", "Ho Chi Minh City", 10.8231, 106.6297, 8993082, "Asia/Ho_Chi_Minh", ["Saigon", "HCMC"]],
+  ["Hanoi", "VN", "Hanoi", 21.0278, 105.8342, 8053663, "Asia/Bangkok", ["Ha Noi"]],
+  ["Da Nang", "VN", "Da Nang", 16.0544, 108.2022, 1134310, "Asia/Ho_Chi_Minh", ["Danang"]],
+  ["Hoi An", "VN", "Quang Nam", 15.8801, 108.338, 120000, "Asia/Ho_Chi_Minh"],
+  ["Hue", "VN", "Thua Thien Hue", 16.4637, 107.5909, 652572, "Asia/Ho_Chi_Minh", ["Huế"]],
+  ["Nha Trang", "VN", "Khanh Hoa", 12.2388, 109.1967, 535000, "Asia/Ho_Chi_Minh"],
+  ["Ha Long", "VN", "Quang Ninh", 20.9599, 107.0425, 300267, "Asia/Bangkok", ["Halong", "Ha Long Bay"]],
+  ["Phu Quoc", "VN", "Kien Giang", 10.2899, 103.984, 179480, "Asia/Ho_Chi_Minh"],
+  ["Sa Pa", "VN", "Lao Cai", 22.3364, 103.8438, 61498, "Asia/Bangkok", ["Sapa"]],
+  ["Phnom Penh", "KH", "Phnom Penh", 11.5564, 104.9282, 2129371, "Asia/Phnom_Penh"],
+  ["Siem Reap", "KH", "Siem Reap", 13.3633, 103.8564, 245494, "Asia/Phnom_Penh"],
+  ["Vientiane", "LA", "Vientiane Prefecture", 17.9757, 102.6331, 948477, "Asia/Vientiane"],
+  ["Luang Prabang", "LA", "Luang Prabang", 19.8834, 102.1347, 90313, "Asia/Vientiane"],
+  ["Yangon", "MM", "Yangon", 16.8409, 96.1735, 5160512, "Asia/Yangon", ["Rangoon"]],
+  ["Mandalay", "MM", "Mandalay", 21.9588, 96.0891, 1225553, "Asia/Yangon"],
+  ["Naypyidaw", "MM", "Naypyidaw Union Territory", 19.7633, 96.0785, 924608, "Asia/Yangon", ["Nay Pyi Taw"]],
+  ["Bagan", "MM", "Mandalay", 21.1717, 94.8585, 50000, "Asia/Yangon"],
+  ["Kuala Lumpur", "MY", "Kuala Lumpur", 3.139, 101.6869, 1982112, "Asia/Kuala_Lumpur", ["KL"]],
+  ["George Town", "MY", "Penang", 5.4141, 100.3288, 794313, "Asia/Kuala_Lumpur", ["Penang"]],
+  ["Johor Bahru", "MY", "Johor", 1.4927, 103.7414, 858118, "Asia/Kuala_Lumpur"],
+  ["Malacca", "MY", "Malacca", 2.1896, 102.2501, 579000, "Asia/Kuala_Lumpur", ["Melaka"]],
+  ["Kota Kinabalu", "MY", "Sabah", 5.9804, 116.0735, 500425, "Asia/Kuching"],
+  ["Kuching", "MY", "Sarawak", 1.5535, 110.3593, 570407, "Asia/Kuching"],
+  ["Langkawi", "MY", "Kedah", 6.35, 99.8, 94777, "Asia/Kuala_Lumpur"],
+  ["Singapore", "SG", "Singapore", 1.3521, 103.8198, 5917600, "Asia/Singapore"],
+  ["Jakarta", "ID", "Jakarta", -6.2088, 106.8456, 10562088, "Asia/Jakarta"],
+  ["Surabaya", "ID", "East Java", -7.2575, 112.7521, 2874314, "Asia/Jakarta"],
+  ["Bandung", "ID", "West Java", -6.9175, 107.6191, 2444160, "Asia/Jakarta"],
+  ["Medan", "ID", "North Sumatra", 3.5952, 98.6722, 2435252, "Asia/Jakarta"],
+  ["Yogyakarta", "ID", "Yogyakarta", -7.7956, 110.3695, 373589, "Asia/Jakarta", ["Jogja", "Jogjakarta"]],
+  ["Denpasar", "ID", "Bali", -8.6705, 115.2126, 725314, "Asia/Makassar", ["Bali"]],
+  ["Ubud", "ID", "Bali", -8.5069, 115.2625, 74320, "Asia/Makassar"],
+  ["Kuta", "ID", "Bali", -8.7222, 115.1723, 111000, "Asia/Makassar"],
+  ["Makassar", "ID", "South Sulawesi", -5.1477, 119.4327, 1423877, "Asia/Makassar"],
+  ["Labuan Bajo", "ID", "East Nusa Tenggara", -8.4964, 119.8877, 5000, "Asia/Makassar", ["Komodo"]],
+  ["Bandar Seri Begawan", "BN", "Brunei-Muara", 4.9031, 114.9398, 100700, "Asia/Brunei"],
+  ["Dili", "TL", "Dili", -8.5569, 125.5603, 277279, "Asia/Dili"],
+  ["Manila", "PH", "Metro Manila", 14.5995, 120.9842, 1846513, "Asia/Manila"],
+  ["Quezon City", "PH", "Metro Manila", 14.676, 121.0437, 2960048, "Asia/Manila"],
+  ["Cebu City", "PH", "Central Visayas", 10.3157, 123.8854, 964169, "Asia/Manila", ["Cebu"]],
+  ["Davao City", "PH", "Davao Region", 7.1907, 125.4553, 1776949, "Asia/Manila", ["Davao"]],
+  ["El Nido", "PH", "Mimaropa", 11.1956, 119.4075, 50495, "Asia/Manila"],
+  ["Puerto Princesa", "PH", "Mimaropa", 9.7392, 118.7353, 307079, "Asia/Manila", ["Palawan"]],
+  ["Boracay", "PH", "Western Visayas", 11.9674, 121.9248, 37802, "Asia/Manila"],
+
+  // Central Asia and the Caucasus
+  ["Almaty", "KZ", "Almaty", 43.222, 76.8512, 2161000, "Asia/Almaty"],
+  ["Astana", "KZ", "Astana", 51.1694, 71.4491, 1350228, "Asia/Almaty", ["Nur-Sultan"]],
+  ["Tashkent", "UZ", "Tashkent", 41.2995, 69.2401, 2956384, "Asia/Tashkent"],
+  ["Samarkand", "UZ", "Samarqand", 39.6542, 66.9597, 551700, "Asia/Samarkand"],
+  ["Bukhara", "UZ", "Bukhara", 39.7747, 64.4286, 280187, "Asia/Samarkand"],
+  ["Bishkek", "KG", "Bishkek", 42.8746, 74.5698, 1074075, "Asia/Bishkek"],
+  ["Dushanbe", "TJ", "Dushanbe", 38.5598, 68.787, 863400, "Asia/Dushanbe"],
+  ["Ashgabat", "TM", "Ashgabat", 37.9601, 58.3261, 1030000, "Asia/Ashgabat"],
+  ["Tbilisi", "GE", "Tbilisi", 41.7151, 44.8271, 1118035, "Asia/Tbilisi"],
+  ["Batumi", "GE", "Adjara", 41.6168, 41.6367, 169095, "Asia/Tbilisi"],
+  ["Yerevan", "AM", "Yerevan", 40.1792, 44.4991, 1092800, "Asia/Yerevan"],
+  ["Baku", "AZ", "Baku", 40.4093, 49.8671, 2300500, "Asia/Baku"],
+
+  // Middle East
+  ["Dubai", "AE", "Dubai", 25.2048, 55.2708, 3604030, "Asia/Dubai"],
+  ["Abu Dhabi", "AE", "Abu Dhabi", 24.4539, 54.3773, 1483000, "Asia/Dubai"],
+  ["Sharjah", "AE", "Sharjah", 25.3463, 55.4209, 1800000, "Asia/Dubai"],
+  ["Doha", "QA", "Baladiyat ad Dawhah", 25.2854, 51.531, 1186023, "Asia/Qatar"],
+  ["Manama", "BH", "Capital Governorate", 26.2285, 50.586, 157474, "Asia/Bahrain"],
+  ["Kuwait City", "KW", "Al Asimah", 29.3759, 47.9774, 60064, "Asia/Kuwait"],
+  ["Muscat", "OM", "Muscat", 23.588, 58.3829, 1421409, "Asia/Muscat"],
+  ["Riyadh", "SA", "Riyadh Region", 24.7136, 46.6753, 7676654, "Asia/Riyadh"],
+  ["Jeddah", "SA", "Makkah Region", 21.4858, 39.1925, 3751722, "Asia/Riyadh"],
+  ["Mecca", "SA", "Makkah Region", 21.3891, 39.8579, 2385509, "Asia/Riyadh", ["Makkah"]],
+  ["Medina", "SA", "Al Madinah Region", 24.5247, 39.5692, 1411599, "Asia/Riyadh", ["Madinah"]],
+  ["AlUla", "SA", "Al Madinah Region", 26.6085, 37.9232, 32413, "Asia/Riyadh", ["Al-Ula"]],
+  ["Amman", "JO", "Amman", 31.9454, 35.9284, 4007526, "Asia/Amman"],
+  ["Petra", "JO", "Ma'an", 30.3285, 35.4444, 28000, "Asia/Amman", ["Wadi Musa"]],
+  ["Aqaba", "JO", "Aqaba", 29.5321, 35.0063, 148398, "Asia/Amman"],
+  ["Beirut", "LB", "Beirut", 33.8938, 35.5018, 2421354, "Asia/Beirut"],
+  ["Damascus", "SY", "Damascus", 33.5138, 36.2765, 2079000, "Asia/Damascus"],
+  ["Aleppo", "SY", "Aleppo", 36.2021, 37.1343, 2098210, "Asia/Damascus"],
+  ["Baghdad", "IQ", "Baghdad", 33.3152, 44.3661, 7216000, "Asia/Baghdad"],
+  ["Erbil", "IQ", "Erbil", 36.1901, 44.0091, 1612693, "Asia/Baghdad"],
+  ["Tehran", "IR", "Tehran", 35.6892, 51.389, 8693706, "Asia/Tehran"],
+  ["Mashhad", "IR", "Razavi Khorasan", 36.2605, 59.6168, 3001184, "Asia/Tehran"],
+  ["Isfahan", "IR", "Isfahan", 32.6539, 51.666, 1961260, "Asia/Tehran", ["Esfahan"]],
+  ["Shiraz", "IR", "Fars", 29.5918, 52.5837, 1565572, "Asia/Tehran"],
+  ["Tabriz", "IR", "East Azerbaijan", 38.0962, 46.2738, 1558693, "Asia/Tehran"],
+  ["Jerusalem", "IL", "Jerusalem", 31.7683, 35.2137, 936425, "Asia/Jerusalem"],
+  ["Tel Aviv", "IL", "Tel Aviv", 32.0853, 34.7818, 460613, "Asia/Jerusalem", ["Tel Aviv-Yafo"]],
+  ["Haifa", "IL", "Haifa", 32.794, 34.9896, 285316, "Asia/Jerusalem"],
+  ["Eilat", "IL", "Southern District", 29.5577, 34.9519, 52299, "Asia/Jerusalem"],
+  ["Ramallah", "PS", "West Bank", 31.9038, 35.2034, 38998, "Asia/Hebron"],
+  ["Bethlehem", "PS", "West Bank", 31.7054, 35.2024, 28591, "Asia/Hebron"],
+  ["Gaza", "PS", "Gaza Strip", 31.5017, 34.4668, 590481, "Asia/Gaza"],
+  ["Sana'a", "YE", "Amanat Al Asimah", 15.3694, 44.191, 2545000, "Asia/Aden", ["Sanaa"]],
+  ["Aden", "YE", "Aden", 12.7855, 45.0187, 1080000, "Asia/Aden"],
+  ["Istanbul", "TR", "Istanbul", 41.0082, 28.9784, 15462452, "Europe/Istanbul", ["Constantinople"]],
+  ["Ankara", "TR", "Ankara", 39.9334, 32.8597, 5663322, "Europe/Istanbul"],
+  ["Izmir", "TR", "Izmir", 38.4237, 27.1428, 4367251, "Europe/Istanbul", ["Smyrna"]],
+  ["Antalya", "TR", "Antalya", 36.8969, 30.7133, 2619832, "Europe/Istanbul"],
+  ["Bursa", "TR", "Bursa", 40.1885, 29.061, 3101833, "Europe/Istanbul"],
+  ["Göreme", "TR", "Nevşehir", 38.6431, 34.8289, 2101, "Europe/Istanbul", ["Goreme", "Cappadocia"]],
+  ["Bodrum", "TR", "Muğla", 37.0344, 27.4305, 198335, "Europe/Istanbul"],
+  ["Fethiye", "TR", "Muğla", 36.6214, 29.1164, 162686, "Europe/Istanbul"],
+
+  // Europe
+  ["London", "GB", "England", 51.5074, -0.1278, 8961989, "Europe/London"],
+  ["Birmingham", "GB", "England", 52.4862, -1.8904, 1144919, "Europe/London"],
+  ["Manchester", "GB", "England", 53.4808, -2.2426, 552858, "Europe/London"],
+  ["Liverpool", "GB", "England", 53.4084, -2.9916, 498042, "Europe/London"],
+  ["Leeds", "GB", "England", 53.8008, -1.5491, 793139, "Europe/London"],
+  ["Bristol", "GB", "England", 51.4545, -2.5879, 472400, "Europe/London"],
+  ["Oxford", "GB", "England", 51.752, -1.2577, 162100, "Europe/London"],
+  ["Cambridge", "GB", "England", 52.2053, 0.1218, 145700, "Europe/London"],
+  ["Bath", "GB", "England", 51.3811, -2.359, 101557, "Europe/London"],
+  ["York", "GB", "England", 53.96, -1.0873, 202800, "Europe/London"],
+  ["Brighton", "GB", "England", 50.8225, -0.1372, 229700, "Europe/London"],
+  ["Edinburgh", "GB", "Scotland", 55.9533, -3.1883, 506520, "Europe/London"],
+  ["Glasgow", "GB", "Scotland", 55.8642, -4.2518, 635640, "Europe/London"],
+  ["Inverness", "GB", "Scotland", 57.4778, -4.2247, 47790, "Europe/London"],
+  ["Cardiff", "GB", "Wales", 51.4816, -3.1791, 362756, "Europe/London"],
+  ["Belfast", "GB", "Northern Ireland", 54.5973, -5.9301, 345418, "Europe/London"],
+  ["Dublin", "IE", "Leinster", 53.3498, -6.2603, 1173179, "Europe/Dublin"],
+  ["Cork", "IE", "Munster", 51.8985, -8.4756, 222333, "Europe/Dublin"],
+  ["Galway", "IE", "Connacht", 53.2707, -9.0568, 85910, "Europe/Dublin"],
+  ["Paris", "FR", "Île-de-France", 48.8566, 2.3522, 2148271, "Europe/Paris"],
+  ["Marseille", "FR", "Provence-Alpes-Côte d'Azur", 43.2965, 5.3698, 870731, "Europe/Paris", ["Marseilles"]],
+  ["Lyon", "FR", "Auvergne-Rhône-Alpes", 45.764, 4.8357, 522250, "Europe/Paris", ["Lyons"]],
+  ["Toulouse", "FR", "Occitanie", 43.6047, 1.4442, 493465, "Europe/Paris"],
+  ["Nice", "FR", "Provence-Alpes-Côte d'Azur", 43.7102, 7.262, 342669, "Europe/Paris"],
+  ["Nantes", "FR", "Pays de la Loire", 47.2184, -1.5536, 320732, "Europe/Paris"],
+  ["Strasbourg", "FR", "Grand Est", 48.5734, 7.7521, 290576, "Europe/Paris"],
+  ["Bordeaux", "FR", "Nouvelle-Aquitaine", 44.8378, -0.5792, 260958, "Europe/Paris"],
+  ["Lille", "FR", "Hauts-de-France", 50.6292, 3.0573, 236234, "Europe/Paris"],
+  ["Cannes", "FR", "Provence-Alpes-Côte d'Azur", 43.5528, 7.0174, 74152, "Europe/Paris"],
+  ["Avignon", "FR", "Provence-Alpes-Côte d'Azur", 43.9493, 4.8055, 91729, "Europe/Paris"],
+  ["Chamonix", "FR", "Auvergne-Rhône-Alpes", 45.9237, 6.8694, 8611, "Europe/Paris", ["Chamonix-Mont-Blanc"]],
+  ["Ajaccio", "FR", "Corsica", 41.9192, 8.7386, 71361, "Europe/Paris", ["Corsica"]],
+  ["Monaco", "MC", "Monaco", 43.7384, 7.4246, 38350, "Europe/Monaco", ["Monte Carlo"]],
+  ["Brussels", "BE", "Brussels-Capital", 50.8503, 4.3517, 1222637, "Europe/Brussels", ["Bruxelles", "Brussel"]],
+  ["Antwerp", "BE", "Flanders", 51.2194, 4.4025, 529247, "Europe/Brussels", ["Antwerpen"]],
+  ["Bruges", "BE", "Flanders", 51.2093, 3.2247, 118509, "Europe/Brussels", ["Brugge"]],
+  ["Ghent", "BE", "Flanders", 51.0543, 3.7174, 263927, "Europe/Brussels", ["Gent"]],
+  ["Luxembourg", "LU", "Luxembourg", 49.6116, 6.1319, 128514, "Europe/Luxembourg", ["Luxembourg City"]],
+  ["Amsterdam", "NL", "North Holland", 52.3676, 4.9041, 921402, "Europe/Amsterdam"],
+  ["Rotterdam", "NL", "South Holland", 51.9244, 4.4777, 655468, "Europe/Amsterdam"],
+  ["The Hague", "NL", "South Holland", 52.0705, 4.3007, 552995, "Europe/Amsterdam", ["Den Haag", "'s-Gravenhage"]],
+  ["Utrecht", "NL", "Utrecht", 52.0907, 5.1214, 361924, "Europe/Amsterdam"],
+  ["Eindhoven", "NL", "North Brabant", 51.4416, 5.4697, 238478, "Europe/Amsterdam"],
+  ["Berlin", "DE", "Berlin", 52.52, 13.405, 3677472, "Europe/Berlin"],
+  ["Hamburg", "DE", "Hamburg", 53.5511, 9.9937, 1906411, "Europe/Berlin"],
+  ["Munich", "DE", "Bavaria", 48.1351, 11.582, 1487708, "Europe/Berlin", ["München", "Muenchen"]],
+  ["Cologne", "DE", "North Rhine-Westphalia", 50.9375, 6.9603, 1073096, "Europe/Berlin", ["Köln", "Koeln"]],
+  ["Frankfurt", "DE", "Hesse", 50.1109, 8.6821, 773068, "Europe/Berlin", ["Frankfurt am Main"]],
+  ["Stuttgart", "DE", "Baden-Württemberg", 48.7758, 9.1829, 626275, "Europe/Berlin"],
+  ["Düsseldorf", "DE", "North Rhine-Westphalia", 51.2277, 6.7735, 619477, "Europe/Berlin", ["Dusseldorf", "Duesseldorf"]],
+  ["Leipzig", "DE", "Saxony", 51.3397, 12.3731, 601866, "Europe/Berlin"],
+  ["Dresden", "DE", "Saxony", 51.0504, 13.7373, 555351, "Europe/Berlin"],
+  ["Nuremberg", "DE", "Bavaria", 49.4521, 11.0767, 518370, "Europe/Berlin", ["Nürnberg"]],
+  ["Heidelberg", "DE", "Baden-Württemberg", 49.3988, 8.6724, 158741, "Europe/Berlin"],
+  ["Vienna", "AT", "Vienna", 48.2082, 16.3738, 1951354, "Europe/Vienna", ["Wien"]],
+  ["Salzburg", "AT", "Salzburg", 47.8095, 13.055, 155021, "Europe/Vienna"],
+  ["Innsbruck", "AT", "Tyrol", 47.2692, 11.4041, 131961, "Europe/Vienna"],
+  ["Hallstatt", "AT", "Upper Austria", 47.5622, 13.6493, 746, "Europe/Vienna"],
+  ["Zurich", "CH", "Zurich", 47.3769, 8.5417, 421878, "Europe/Zurich", ["Zürich"]],
+  ["Geneva", "CH", "Geneva", 46.2044, 6.1432, 203856, "Europe/Zurich", ["Genève", "Genf"]],
+  ["Bern", "CH", "Bern", 46.948, 7.4474, 134794, "Europe/Zurich", ["Berne"]],
+  ["Basel", "CH", "Basel-City", 47.5596, 7.5886, 177827, "Europe/Zurich"],
+  ["Lucerne", "CH", "Lucerne", 47.0502, 8.3093, 82620, "Europe/Zurich", ["Luzern"]],
+  ["Interlaken", "CH", "Bern", 46.6863, 7.8632, 5592, "Europe/Zurich"],
+  ["Zermatt", "CH", "Valais", 46.0207, 7.7491, 5643, "Europe/Zurich"],
+  ["Vaduz", "LI", "Vaduz", 47.141, 9.5209, 5696, "Europe/Vaduz"],
+  ["Rome", "IT", "Lazio", 41.9028, 12.4964, 2872800, "Europe/Rome", ["Roma"]],
+  ["Milan", "IT", "Lombardy", 45.4642, 9.19, 1396059, "Europe/Rome", ["Milano"]],
+  ["Naples", "IT", "Campania", 40.8518, 14.2681, 959470, "Europe/Rome", ["Napoli"]],
+  ["Turin", "IT", "Piedmont", 45.0703, 7.6869, 870952, "Europe/Rome", ["Torino"]],
+  ["Palermo", "IT", "Sicily", 38.1157, 13.3615, 663401, "Europe/Rome"],
+  ["Genoa", "IT", "Liguria", 44.4056, 8.9463, 580097, "Europe/Rome", ["Genova"]],
+  ["Bologna", "IT", "Emilia-Romagna", 44.4949, 11.3426, 390636, "Europe/Rome"],
+  ["Florence", "IT", "Tuscany", 43.7696, 11.2558, 382258, "Europe/Rome", ["Firenze"]],
+  ["Venice", "IT", "Veneto", 45.4408, 12.3155, 261905, "Europe/Rome", ["Venezia"]],
+  ["Verona", "IT", "Veneto", 45.4384, 10.9916, 257353, "Europe/Rome"],
+  ["Pisa", "IT", "Tuscany", 43.7228, 10.4017, 90488, "Europe/Rome"],
+  ["Siena", "IT", "Tuscany", 43.3188, 11.3308, 53903, "Europe/Rome"],
+  ["Sorrento", "IT", "Campania", 40.6263, 14.3758, 16494, "Europe/Rome", ["Amalfi Coast"]],
+  ["Positano", "IT", "Campania", 40.628, 14.485, 3879, "Europe/Rome"],
+  ["Como", "IT", "Lombardy", 45.8081, 9.0852, 83320, "Europe/Rome", ["Lake Como"]],
+  ["Catania", "IT", "Sicily", 37.5079, 15.083, 311584, "Europe/Rome"],
+  ["Cagliari", "IT", "Sardinia", 39.2238, 9.1217, 154460, "Europe/Rome", ["Sardinia"]],
+  ["Bari", "IT", "Apulia", 41.1171, 16.8719, 320475, "Europe/Rome"],
+  ["San Marino", "SM", "San Marino", 43.9424, 12.4578, 4061, "Europe/San_Marino"],
+  ["Vatican City", "VA", "Vatican City", 41.9029, 12.4534, 825, "Europe/Vatican"],
+  ["Valletta", "MT", "Valletta", 35.8989, 14.5146, 5827, "Europe/Malta", ["Malta"]],
+  ["Madrid", "ES", "Community of Madrid", 40.4168, -3.7038, 3223334, "Europe/Madrid"],
+  ["Barcelona", "ES", "Catalonia", 41.3851, 2.1734, 1620343, "Europe/Madrid"],
+  ["Valencia", "ES", "Valencian Community", 39.4699, -0.3763, 791413, "Europe/Madrid"],
+  ["Seville", "ES", "Andalusia", 37.3891, -5.9845, 688711, "Europe/Madrid", ["Sevilla"]],
+  ["Málaga", "ES", "Andalusia", 36.7213, -4.4214, 574654, "Europe/Madrid", ["Malaga"]],
+  ["Bilbao", "ES", "Basque Country", 43.263, -2.935, 345821, "Europe/Madrid"],
+  ["Granada", "ES", "Andalusia", 37.1773, -3.5986, 232208, "Europe/Madrid"],
+  ["Palma", "ES", "Balearic Islands", 39.5696, 2.6502, 416065, "Europe/Madrid", ["Palma de Mallorca", "Mallorca", "Majorca"]],
+  ["Ibiza", "ES", "Balearic Islands", 38.9067, 1.4206, 50643, "Europe/Madrid", ["Eivissa"]],
+  ["Las Palmas", "ES", "Canary Islands", 28.1235, -15.4363, 379925, "Atlantic/Canary", ["Gran Canaria", "Las Palmas de Gran Canaria"]],
+  ["Santa Cruz de Tenerife", "ES", "Canary Islands", 28.4636, -16.2518, 207312, "Atlantic/Canary", ["Tenerife"]],
+  ["San Sebastián", "ES", "Basque Country", 43.3183, -1.9812, 187415, "Europe/Madrid", ["Donostia", "San Sebastian"]],
+  ["Córdoba", "ES", "Andalusia", 37.8882, -4.7794, 325708, "Europe/Madrid", ["Cordoba"]],
+  ["Andorra la Vella", "AD", "Andorra la Vella", 42.5063, 1.5218, 22256, "Europe/Andorra", ["Andorra"]],
+  ["Gibraltar", "GI", "Gibraltar", 36.1408, -5.3536, 32688, "Europe/Gibraltar"],
+  ["Lisbon", "PT", "Lisbon", 38.7223, -9.1393, 544851, "Europe/Lisbon", ["Lisboa"]],
+  ["Porto", "PT", "Porto", 41.1579, -8.6291, 231962, "Europe/Lisbon", ["Oporto"]],
+  ["Faro", "PT", "Faro", 37.0194, -7.9304, 64560, "Europe/Lisbon", ["Algarve"]],
+  ["Funchal", "PT", "Madeira", 32.6669, -16.9241, 105795, "Atlantic/Madeira", ["Madeira"]],
+  ["Ponta Delgada", "PT", "Azores", 37.7412, -25.6756, 67229, "Atlantic/Azores", ["Azores"]],
+  ["Sintra", "PT", "Lisbon", 38.8029, -9.3817, 385989, "Europe/Lisbon"],
+  ["Athens", "GR", "Attica", 37.9838, 23.7275, 664046, "Europe/Athens", ["Athina"]],
+  ["Thessaloniki", "GR", "Central Macedonia", 40.6401, 22.9444, 325182, "Europe/Athens"],
+  ["Heraklion", "GR", "Crete", 35.3387, 25.1442, 177064, "Europe/Athens", ["Crete", "Iraklio"]],
+  ["Chania", "GR", "Crete", 35.5138, 24.018, 108642, "Europe/Athens"],
+  ["Fira", "GR", "South Aegean", 36.4167, 25.4316, 2113, "Europe/Athens", ["Santorini", "Thira"]],
+  ["Mykonos", "GR", "South Aegean", 37.4467, 25.3289, 10704, "Europe/Athens"],
+  ["Rhodes", "GR", "South Aegean", 36.4349, 28.2176, 50636, "Europe/Athens", ["Rodos"]],
+  ["Corfu", "GR", "Ionian Islands", 39.6243, 19.9217, 32095, "Europe/Athens", ["Kerkyra"]],
+  ["Nicosia", "CY", "Nicosia", 35.1856, 33.3823, 330000, "Asia/Nicosia"],
+  ["Limassol", "CY", "Limassol", 34.7071, 33.0226, 235056, "Asia/Nicosia"],
+  ["Paphos", "CY", "Paphos", 34.7754, 32.4245, 63600, "Asia/Nicosia"],
+  ["Copenhagen", "DK", "Capital Region", 55.6761, 12.5683, 644431, "Europe/Copenhagen", ["København"]],
+  ["Aarhus", "DK", "Central Jutland", 56.1629, 10.2039, 285273, "Europe/Copenhagen"],
+  ["Stockholm", "SE", "Stockholm", 59.3293, 18.0686, 978770, "Europe/Stockholm"],
+  ["Gothenburg", "SE", "Västra Götaland", 57.7089, 11.9746, 583056, "Europe/Stockholm", ["Göteborg"]],
+  ["Malmö", "SE", "Skåne", 55.605, 13.0038, 347949, "Europe/Stockholm", ["Malmo"]],
+  ["Kiruna", "SE", "Norrbotten", 67.8558, 20.2253, 22423, "Europe/Stockholm"],
+  ["Oslo", "NO", "Oslo", 59.9139, 10.7522, 709037, "Europe/Oslo"],
+  ["Bergen", "NO", "Vestland", 60.3913, 5.3221, 286930, "Europe/Oslo"],
+  ["Tromsø", "NO", "Troms", 69.6492, 18.9553, 77544, "Europe/Oslo", ["Tromso"]],
+  ["Longyearbyen", "SJ", "Svalbard", 78.2232, 15.6267, 2417, "Arctic/Longyearbyen"],
+  ["Helsinki", "FI", "Uusimaa", 60.1699, 24.9384, 664028, "Europe/Helsinki"],
+  ["Rovaniemi", "FI", "Lapland", 66.5039, 25.7294, 64535, "Europe/Helsinki"],
+  ["Mariehamn", "AX", "Åland", 60.0973, 19.9348, 11743, "Europe/Mariehamn"],
+  ["Reykjavík", "IS", "Capital Region", 64.1466, -21.9426, 139875, "Atlantic/Reykjavik", ["Reykjavik"]],
+  ["Tórshavn", "FO", "Streymoy", 62.0079, -6.7909, 14093, "Atlantic/Faroe", ["Torshavn"]],
+  ["Tallinn", "EE", "Harju", 59.437, 24.7536, 454950, "Europe/Tallinn"],
+  ["Riga", "LV", "Riga", 56.9496, 24.1052, 605802, "Europe/Riga"],
+  ["Vilnius", "LT", "Vilnius", 54.6872, 25.2797, 592389, "Europe/Vilnius"],
+  ["Warsaw", "PL", "Masovian", 52.2297, 21.0122, 1863056, "Europe/Warsaw", ["Warszawa"]],
+  ["Kraków", "PL", "Lesser Poland", 50.0647, 19.945, 804237, "Europe/Warsaw", ["Krakow", "Cracow"]],
+  ["Wrocław", "PL", "Lower Silesia", 51.1079, 17.0385, 674079, "Europe/Warsaw", ["Wroclaw"]],
+  ["Gdańsk", "PL", "Pomerania", 54.352, 18.6466, 486022, "Europe/Warsaw", ["Gdansk"]],
+  ["Prague", "CZ", "Prague", 50.0755, 14.4378, 1357326, "Europe/Prague", ["Praha"]],
+  ["Brno", "CZ", "South Moravian", 49.1951, 16.6068, 382405, "Europe/Prague"],
+  ["Český Krumlov", "CZ", "South Bohemian", 48.8127, 14.3175, 12873, "Europe/Prague", ["Cesky Krumlov"]],
+  ["Bratislava", "SK", "Bratislava", 48.1486, 17.1077, 475503, "Europe/Bratislava"],
+  ["Budapest", "HU", "Budapest", 47.4979, 19.0402, 1706851, "Europe/Budapest"],
+  ["Ljubljana", "SI", "Ljubljana", 46.0569, 14.5058, 295504, "Europe/Ljubljana"],
+  ["Bled", "SI", "Bled", 46.3683, 14.1146, 8171, "Europe/Ljubljana", ["Lake Bled"]],
+  ["Zagreb", "HR", "City of Zagreb", 45.815, 15.9819, 767131, "Europe/Zagreb"],
+  ["Split", "HR", "Split-Dalmatia", 43.5081, 16.4402, 160577, "Europe/Zagreb"],
+  ["Dubrovnik", "HR", "Dubrovnik-Neretva", 42.6507, 18.0944, 41562, "Europe/Zagreb"],
+  ["Sarajevo", "BA", "Federation of Bosnia and Herzegovina", 43.8563, 18.4131, 275524, "Europe/Sarajevo"],
+  ["Mostar", "BA", "Federation of Bosnia and Herzegovina", 43.3438, 17.8078, 105797, "Europe/Sarajevo"],
+  ["Belgrade", "RS", "Belgrade", 44.7866, 20.4489, 1166763, "Europe/Belgrade", ["Beograd"]],
+  ["Novi Sad", "RS", "Vojvodina", 45.2671, 19.8335, 341625, "Europe/Belgrade"],
+  ["Podgorica", "ME", "Podgorica", 42.4304, 19.2594, 150977, "Europe/Podgorica"],
+  ["Kotor", "ME", "Kotor", 42.4247, 18.7712, 13347, "Europe/Podgorica"],
+  ["Tirana", "AL", "Tirana", 41.3275, 19.8187, 418495, "Europe/Tirane"],
+  ["Sarandë", "AL", "Vlorë", 39.8661, 20.0052, 17233, "Europe/Tirane", ["Saranda"]],
+  ["Skopje", "MK", "Skopje", 41.9981, 21.4254, 526502, "Europe/Skopje"],
+  ["Ohrid", "MK", "Ohrid", 41.1231, 20.8016, 51428, "Europe/Skopje"],
+  ["Sofia", "BG", "Sofia City", 42.6977, 23.3219, 1236047, "Europe/Sofia"],
+  ["Plovdiv", "BG", "Plovdiv", 42.1354, 24.7453, 346893, "Europe/Sofia"],
+  ["Varna", "BG", "Varna", 43.2141, 27.9147, 335177, "Europe/Sofia"],
+  ["Bucharest", "RO", "Bucharest", 44.4268, 26.1025, 1716983, "Europe/Bucharest", ["București"]],
+  ["Cluj-Napoca", "RO", "Cluj", 46.7712, 23.6236, 286598, "Europe/Bucharest", ["Cluj"]],
+  ["Brașov", "RO", "Brașov", 45.6579, 25.6012, 253200, "Europe/Bucharest", ["Brasov"]],
+  ["Chișinău", "MD", "Chișinău", 47.0105, 28.8638, 639000, "Europe/Chisinau", ["Chisinau"]],
+  ["Kyiv", "UA", "Kyiv City", 50.4501, 30.5234, 2952301, "Europe/Kyiv", ["Kiev"]],
+  ["Kharkiv", "UA", "Kharkiv Oblast", 49.9935, 36.2304, 1421125, "Europe/Kyiv", ["Kharkov"]],
+  ["Odesa", "UA", "Odesa Oblast", 46.4825, 30.7233, 1015826, "Europe/Kyiv", ["Odessa"]],
+  ["Lviv", "UA", "Lviv Oblast", 49.8397, 24.0297, 717273, "Europe/Kyiv", ["Lvov", "Lemberg"]],
+  ["Minsk", "BY", "Minsk", 53.9006, 27.559, 2009786, "Europe/Minsk"],
+  ["Moscow", "RU", "Moscow", 55.7558, 37.6173, 13010112, "Europe/Moscow", ["Moskva"]],
+  ["Saint Petersburg", "RU", "Saint Petersburg", 59.9311, 30.3609, 5601911, "Europe/Moscow", ["St Petersburg", "Leningrad"]],
+  ["Novosibirsk", "RU", "Novosibirsk Oblast", 55.0084, 82.9357, 1633595, "Asia/Novosibirsk"],
+  ["Yekaterinburg", "RU", "Sverdlovsk Oblast", 56.8389, 60.6057, 1544376, "Asia/Yekaterinburg"],
+  ["Kazan", "RU", "Tatarstan", 55.8304, 49.0661, 1308660, "Europe/Moscow"],
+  ["Sochi", "RU", "Krasnodar Krai", 43.6028, 39.7342, 466078, "Europe/Moscow"],
+  ["Vladivostok", "RU", "Primorsky Krai", 43.1155, 131.8855, 603519, "Asia/Vladivostok"],
+  ["Irkutsk", "RU", "Irkutsk Oblast", 52.2869, 104.305, 617315, "Asia/Irkutsk", ["Lake Baikal"]],
+  ["Douglas", "IM", "Isle of Man", 54.1523, -4.4861, 26677, "Europe/Isle_of_Man"],
+  ["Saint Helier", "JE", "Jersey", 49.1868, -2.1073, 35822, "Europe/Jersey", ["St Helier"]],
+  ["Saint Peter Port", "GG", "Guernsey", 49.4582, -2.5354, 18207, "Europe/Guernsey", ["St Peter Port"]],
+
+  // Africa
+  ["Cairo", "EG", "Cairo", 30.0444, 31.2357, 9539673, "Africa/Cairo"],
+  ["Alexandria", "EG", "Alexandria", 31.2001, 29.9187, 5200000, "Africa/Cairo"],
+  ["Giza", "EG", "Giza", 30.0131, 31.2089, 4367343, "Africa/Cairo"],
+  ["Luxor", "EG", "Luxor", 25.6872, 32.6396, 506588, "Africa/Cairo"],
+  ["Aswan", "EG", "Aswan", 24.0889, 32.8998, 290327, "Africa/Cairo"],
+  ["Hurghada", "EG", "Red Sea", 27.2579, 33.8116, 248000, "Africa/Cairo"],
+  ["Sharm El Sheikh", "EG", "South Sinai", 27.9158, 34.33, 73000, "Africa/Cairo", ["Sharm el-Sheikh"]],
+  ["Casablanca", "MA", "Casablanca-Settat", 33.5731, -7.5898, 3359818, "Africa/Casablanca"],
+  ["Rabat", "MA", "Rabat-Salé-Kénitra", 34.0209, -6.8416, 577827, "Africa/Casablanca"],
+  ["Marrakesh", "MA", "Marrakesh-Safi", 31.6295, -7.9811, 928850, "Africa/Casablanca", ["Marrakech"]],
+  ["Fes", "MA", "Fès-Meknès", 34.0181, -5.0078, 1112072, "Africa/Casablanca", ["Fez", "Fès"]],
+  ["Tangier", "MA", "Tanger-Tetouan-Al Hoceima", 35.7595, -5.834, 947952, "Africa/Casablanca", ["Tanger"]],
+  ["Chefchaouen", "MA", "Tanger-Tetouan-Al Hoceima", 35.1688, -5.2636, 42786, "Africa/Casablanca"],
+  ["Essaouira", "MA", "Marrakesh-Safi", 31.5085, -9.7595, 77966, "Africa/Casablanca"],
+  ["Laayoune", "EH", "Laâyoune-Sakia El Hamra", 27.1253, -13.1625, 217732, "Africa/El_Aaiun", ["El Aaiún"]],
+  ["Algiers", "DZ", "Algiers", 36.7538, 3.0588, 3415811, "Africa/Algiers", ["Alger"]],
+  ["Oran", "DZ", "Oran", 35.6971, -0.6308, 852000, "Africa/Algiers"],
+  ["Tunis", "TN", "Tunis", 36.8065, 10.1815, 638845, "Africa/Tunis"],
+  ["Sousse", "TN", "Sousse", 35.8256, 10.6084, 271428, "Africa/Tunis"],
+  ["Djerba", "TN", "Medenine", 33.8076, 10.8451, 163726, "Africa/Tunis", ["Houmt Souk"]],
+  ["Tripoli", "LY", "Tripoli", 32.8872, 13.1913, 1165000, "Africa/Tripoli"],
+  ["Benghazi", "LY", "Benghazi", 32.1167, 20.0667, 807250, "Africa/Tripoli"],
+  ["Khartoum", "SD", "Khartoum", 15.5007, 32.5599, 5274321, "Africa/Khartoum"],
+  ["Juba", "SS", "Central Equatoria", 4.8594, 31.5713, 525953, "Africa/Juba"],
+  ["Addis Ababa", "ET", "Addis Ababa", 9.03, 38.74, 3384569, "Africa/Addis_Ababa"],
+  ["Lalibela", "ET", "Amhara", 12.0317, 39.0411, 17367, "Africa/Addis_Ababa"],
+  ["Asmara", "ER", "Maekel", 15.3229, 38.9251, 963000, "Africa/Asmara"],
+  ["Djibouti", "DJ", "Djibouti", 11.8251, 42.5903, 623891, "Africa/Djibouti", ["Djibouti City"]],
+  ["Mogadishu", "SO", "Banaadir", 2.0469, 45.3182, 2388000, "Africa/Mogadishu"],
+  ["Nairobi", "KE", "Nairobi", -1.2921, 36.8219, 4397073, "Africa/Nairobi"],
+  ["Mombasa", "KE", "Mombasa", -4.0435, 39.6682, 1208333, "Africa/Nairobi"],
+  ["Kisumu", "KE", "Kisumu", -0.0917, 34.768, 397957, "Africa/Nairobi"],
+  ["Diani Beach", "KE", "Kwale", -4.2796, 39.5947, 67000, "Africa/Nairobi", ["Diani"]],
+  ["Dar es Salaam", "TZ", "Dar es Salaam", -6.7924, 39.2083, 5383728, "Africa/Dar_es_Salaam"],
+  ["Dodoma", "TZ", "Dodoma", -6.163, 35.7516, 765179, "Africa/Dar_es_Salaam"],
+  ["Arusha", "TZ", "Arusha", -3.3869, 36.683, 617631, "Africa/Dar_es_Salaam"],
+  ["Zanzibar City", "TZ", "Zanzibar Urban/West", -6.1659, 39.2026, 219007, "Africa/Dar_es_Salaam", ["Stone Town", "Zanzibar"]],
+  ["Kampala", "UG", "Central Region", 0.3476, 32.5825, 1680600, "Africa/Kampala"],
+  ["Entebbe", "UG", "Central Region", 0.0512, 32.4637, 79700, "Africa/Kampala"],
+  ["Kigali", "RW", "Kigali", -1.9441, 30.0619, 1132686, "Africa/Kigali"],
+  ["Gitega", "BI", "Gitega", -3.4271, 29.9246, 135467, "Africa/Bujumbura"],
+  ["Bujumbura", "BI", "Bujumbura Mairie", -3.3614, 29.3599, 1013000, "Africa/Bujumbura"],
+  ["Kinshasa", "CD", "Kinshasa", -4.4419, 15.2663, 17071000, "Africa/Kinshasa"],
+  ["Lubumbashi", "CD", "Haut-Katanga", -11.6609, 27.4794, 2584000, "Africa/Lubumbashi"],
+  ["Brazzaville", "CG", "Brazzaville", -4.2634, 15.2429, 2308000, "Africa/Brazzaville"],
+  ["Bangui", "CF", "Bangui", 4.3947, 18.5582, 889231, "Africa/Bangui"],
+  ["N'Djamena", "TD", "N'Djamena", 12.1348, 15.0557, 1532588, "Africa/Ndjamena", ["Ndjamena"]],
+  ["Yaoundé", "CM", "Centre", 3.848, 11.5021, 4336670, "Africa/Douala", ["Yaounde"]],
+  ["Douala", "CM", "Littoral", 4.0511, 9.7679, 3926000, "Africa/Douala"],
+  ["Libreville", "GA", "Estuaire", 0.4162, 9.4673, 703904, "Africa/Libreville"],
+  ["Malabo", "GQ", "Bioko Norte", 3.7504, 8.7371, 297000, "Africa/Malabo"],
+  ["São Tomé", "ST", "Água Grande", 0.3365, 6.7273, 90443, "Africa/Sao_Tome", ["Sao Tome"]],
+  ["Lagos", "NG", "Lagos", 6.5244, 3.3792, 15388000, "Africa/Lagos"],
+  ["Abuja", "NG", "Federal Capital Territory", 9.0765, 7.3986, 3464000, "Africa/Lagos"],
+  ["Kano", "NG", "Kano", 12.0022, 8.592, 4103000, "Africa/Lagos"],
+  ["Ibadan", "NG", "Oyo", 7.3775, 3.947, 3649000, "Africa/Lagos"],
+  ["Port Harcourt", "NG", "Rivers", 4.8156, 7.0498, 3171000, "Africa/Lagos"],
+  ["Accra", "GH", "Greater Accra", 5.6037, -0.187, 2514005, "Africa/Accra"],
+  ["Kumasi", "GH", "Ashanti", 6.6885, -1.6244, 3490000, "Africa/Accra"],
+  ["Cape Coast", "GH", "Central Region", 5.1053, -1.2466, 169894, "Africa/Accra"],
+  ["Abidjan", "CI", "Abidjan", 5.36, -4.0083, 5616633, "Africa/Abidjan"],
+  ["Yamoussoukro", "CI", "Yamoussoukro", 6.8276, -5.2893, 355573, "Africa/Abidjan"],
+  ["Lomé", "TG", "Maritime", 6.1256, 1.2254, 1925517, "Africa/Lome", ["Lome"]],
+  ["Porto-Novo", "BJ", "Ouémé", 6.4969, 2.6289, 264320, "Africa/Porto-Novo"],
+  ["Cotonou", "BJ", "Littoral", 6.3703, 2.3912, 679012, "Africa/Porto-Novo"],
+  ["Ouagadougou", "BF", "Centre", 12.3714, -1.5197, 2453496, "Africa/Ouagadougou"],
+  ["Niamey", "NE", "Niamey", 13.5116, 2.1254, 1334984, "Africa/Niamey"],
+  ["Bamako", "ML", "Bamako", 12.6392, -8.0029, 2713000, "Africa/Bamako"],
+  ["Dakar", "SN", "Dakar", 14.7167, -17.4677, 1146053, "Africa/Dakar"],
+  ["Banjul", "GM", "Banjul", 13.4549, -16.579, 31301, "Africa/Banjul"],
+  ["Bissau", "GW", "Bissau", 11.8817, -15.617, 492004, "Africa/Bissau"],
+  ["Conakry", "GN", "Conakry", 9.6412, -13.5784, 1660973, "Africa/Conakry"],
+  ["Freetown", "SL", "Western Area", 8.4657, -13.2317, 1055964, "Africa/Freetown"],
+  ["Monrovia", "LR", "Montserrado", 6.3156, -10.8074, 1569000, "Africa/Monrovia"],
+  ["Nouakchott", "MR", "Nouakchott", 18.0735, -15.9582, 1195600, "Africa/Nouakchott"],
+  ["Praia", "CV", "Santiago", 14.933, -23.5133, 159050, "Atlantic/Cape_Verde"],
+  ["Luanda", "AO", "Luanda", -8.839, 13.2894, 2776168, "Africa/Luanda"],
+  ["Lusaka", "ZM", "Lusaka", -15.3875, 28.3228, 2731696, "Africa/Lusaka"],
+  ["Livingstone", "ZM", "Southern Province", -17.8419, 25.8543, 177393, "Africa/Lusaka"],
+  ["Harare", "ZW", "Harare", -17.8252, 31.0335, 1542813, "Africa/Harare"],
+  ["Victoria Falls", "ZW", "Matabeleland North", -17.9318, 25.8307, 35199, "Africa/Harare"],
+  ["Bulawayo", "ZW", "Bulawayo", -20.1325, 28.6265, 665952, "Africa/Harare"],
+  ["Lilongwe", "MW", "Central Region", -13.9626, 33.7741, 989318, "Africa/Blantyre"],
+  ["Blantyre", "MW", "Southern Region", -15.7861, 35.0058, 800264, "Africa/Blantyre"],
+  ["Maputo", "MZ", "Maputo", -25.9692, 32.5732, 1101170, "Africa/Maputo"],
+  ["Gaborone", "BW", "South-East", -24.6282, 25.9231, 246325, "Africa/Gaborone"],
+  ["Maun", "BW", "North-West", -19.9833, 23.4167, 85293, "Africa/Gaborone", ["Okavango Delta"]],
+  ["Windhoek", "NA", "Khomas", -22.5609, 17.0658, 431000, "Africa/Windhoek"],
+  ["Swakopmund", "NA", "Erongo", -22.6784, 14.5266, 74453, "Africa/Windhoek"],
+  ["Johannesburg", "ZA", "Gauteng", -26.2041, 28.0473, 5635127, "Africa/Johannesburg", ["Joburg", "Jozi"]],
+  ["Cape Town", "ZA", "Western Cape", -33.9249, 18.4241, 4618000, "Africa/Johannesburg"],
+  ["Durban", "ZA", "KwaZulu-Natal", -29.8587, 31.0218, 3442361, "Africa/Johannesburg"],
+  ["Pretoria", "ZA", "Gauteng", -25.7479, 28.2293, 2921488, "Africa/Johannesburg", ["Tshwane"]],
+  ["Port Elizabeth", "ZA", "Eastern Cape", -33.9608, 25.6022, 1152915, "Africa/Johannesburg", ["Gqeberha"]],
+  ["Stellenbosch", "ZA", "Western Cape", -33.9321, 18.8602, 155733, "Africa/Johannesburg"],
+  ["Maseru", "LS", "Maseru", -29.3151, 27.4869, 330760, "Africa/Maseru"],
+  ["Mbabane", "SZ", "Hhohho", -26.3054, 31.1367, 94874, "Africa/Mbabane"],
+  ["Antananarivo", "MG", "Analamanga", -18.8792, 47.5079, 1613375, "Indian/Antananarivo", ["Tana"]],
+  ["Nosy Be", "MG", "Diana", -13.3333, 48.2667, 109465, "Indian/Antananarivo"],
+  ["Port Louis", "MU", "Port Louis", -20.1609, 57.5012, 147251, "Indian/Mauritius", ["Mauritius"]],
+  ["Victoria", "SC", "English River", -4.6191, 55.4513, 26450, "Indian/Mahe", ["Mahé", "Seychelles"]],
+  ["Moroni", "KM", "Grande Comore", -11.7172, 43.2473, 111329, "Indian/Comoro"],
+  ["Saint-Denis", "RE", "Réunion", -20.8823, 55.4504, 153810, "Indian/Reunion", ["Reunion"]],
+  ["Mamoudzou", "YT", "Mayotte", -12.7806, 45.2279, 71437, "Indian/Mayotte"],
+  ["Jamestown", "SH", "Saint Helena", -15.9387, -5.7168, 629, "Atlantic/St_Helena"],
+
+  // North America
+  ["New York", "US", "New York", 40.7128, -74.006, 8804190, "America/New_York", ["New York City", "NYC", "Manhattan"]],
+  ["Los Angeles", "US", "California", 34.0522, -118.2437, 3898747, "America/Los_Angeles", ["LA"]],
+  ["Chicago", "US", "Illinois", 41.8781, -87.6298, 2746388, "America/Chicago"],
+  ["Houston", "US", "Texas", 29.7604, -95.3698, 2304580, "America/Chicago"],
+  ["Phoenix", "US", "Arizona", 33.4484, -112.074, 1608139, "America/Phoenix"],
+  ["Philadelphia", "US", "Pennsylvania", 39.9526, -75.1652, 1603797, "America/New_York"],
+  ["San Antonio", "US", "Texas", 29.4241, -98.4936, 1434625, "America/Chicago"],
+  ["San Diego", "US", "California", 32.7157, -117.1611, 1386932, "America/Los_Angeles"],
+  ["Dallas", "US", "Texas", 32.7767, -96.797, 1304379, "America/Chicago"],
+  ["Austin", "US", "Texas", 30.2672, -97.7431, 961855, "America/Chicago"],
+  ["San Jose", "US", "California", 37.3382, -121.8863, 1013240, "America/Los_Angeles"],
+  ["Jacksonville", "US", "Florida", 30.3322, -81.6557, 949611, "America/New_York"],
+  ["Columbus", "US", "Ohio", 39.9612, -82.9988, 905748, "America/New_York"],
+  ["San Francisco", "US", "California", 37.7749, -122.4194, 873965, "America/Los_Angeles", ["SF"]],
+  ["Seattle", "US", "Washington", 47.6062, -122.3321, 737015, "America/Los_Angeles"],
+  ["Denver", "US", "Colorado", 39.7392, -104.9903, 715522, "America/Denver"],
+  ["Washington", "US", "District of Columbia", 38.9072, -77.0369, 689545, "America/New_York", ["Washington DC", "Washington D.C.", "DC"]],
+  ["Nashville", "US", "Tennessee", 36.1627, -86.7816, 689447, "America/Chicago"],
+  ["Boston", "US", "Massachusetts", 42.3601, -71.0589, 675647, "America/New_York"],
+  ["Las Vegas", "US", "Nevada", 36.1699, -115.1398, 641903, "America/Los_Angeles", ["Vegas"]],
+  ["Portland", "US", "Oregon", 45.5152, -122.6784, 652503, "America/Los_Angeles"],
+  ["Portland", "US", "Maine", 43.6591, -70.2568, 68408, "America/New_York"],
+  ["Detroit", "US", "Michigan", 42.3314, -83.0458, 639111, "America/Detroit"],
+  ["Atlanta", "US", "Georgia", 33.749, -84.388, 498715, "America/New_York"],
+  ["Miami", "US", "Florida", 25.7617, -80.1918, 442241, "America/New_York"],
+  ["Orlando", "US", "Florida", 28.5383, -81.3792, 307573, "America/New_York"],
+  ["Tampa", "US", "Florida", 27.9506, -82.4572, 384959, "America/New_York"],
+  ["Key West", "US", "Florida", 24.5551, -81.78, 26444, "America/New_York"],
+  ["New Orleans", "US", "Louisiana", 29.9511, -90.0715, 383997, "America/Chicago", ["NOLA"]],
+  ["Minneapolis", "US", "Minnesota", 44.9778, -93.265, 429954, "America/Chicago"],
+  ["Salt Lake City", "US", "Utah", 40.7608, -111.891, 199723, "America/Denver"],
+  ["Honolulu", "US", "Hawaii", 21.3069, -157.8583, 350964, "Pacific/Honolulu", ["Hawaii", "Oahu"]],
+  ["Kahului", "US", "Hawaii", 20.8893, -156.4729, 28219, "Pacific/Honolulu", ["Maui"]],
+  ["Anchorage", "US", "Alaska", 61.2181, -149.9003, 291247, "America/Anchorage"],
+  ["Charleston", "US", "South Carolina", 32.7765, -79.9311, 150227, "America/New_York"],
+  ["Savannah", "US", "Georgia", 32.0809, -81.0912, 147780, "America/New_York"],
+  ["Santa Fe", "US", "New Mexico", 35.687, -105.9378, 87505, "America/Denver"],
+  ["Sedona", "US", "Arizona", 34.8697, -111.761, 9684, "America/Phoenix"],
+  ["Aspen", "US", "Colorado", 39.1911, -106.8175, 7004, "America/Denver"],
+  ["Napa", "US", "California", 38.2975, -122.2869, 79246, "America/Los_Angeles", ["Napa Valley"]],
+  ["San Juan", "PR", "San Juan", 18.4655, -66.1057, 342259, "America/Puerto_Rico"],
+  ["Charlotte Amalie", "VI", "Saint Thomas", 18.3419, -64.9307, 14477, "America/St_Thomas", ["St Thomas"]],
+  ["Hagåtña", "GU", "Hagåtña", 13.4757, 144.7489, 1051, "Pacific/Guam", ["Hagatna", "Guam"]],
+  ["Saipan", "MP", "Saipan", 15.1778, 145.7508, 47565, "Pacific/Saipan"],
+  ["Pago Pago", "AS", "Eastern District", -14.2756, -170.702, 3656, "Pacific/Pago_Pago"],
+  ["Toronto", "CA", "Ontario", 43.6532, -79.3832, 2794356, "America/Toronto"],
+  ["Montreal", "CA", "Quebec", 45.5017, -73.5673, 1762949, "America/Toronto", ["Montréal"]],
+  ["Calgary", "CA", "Alberta", 51.0447, -114.0719, 1306784, "America/Edmonton"],
+  ["Ottawa", "CA", "Ontario", 45.4215, -75.6972, 1017449, "America/Toronto"],
+  ["Edmonton", "CA", "Alberta", 53.5461, -113.4938, 1010899, "America/Edmonton"],
+  ["Vancouver", "CA", "British Columbia", 49.2827, -123.1207, 662248, "America/Vancouver"],
+  ["Winnipeg", "CA", "Manitoba", 49.8951, -97.1384, 749607, "America/Winnipeg"],
+  ["Quebec City", "CA", "Quebec", 46.8139, -71.208, 549459, "America/Toronto", ["Québec"]],
+  ["Halifax", "CA", "Nova Scotia", 44.6488, -63.5752, 439819, "America/Halifax"],
+  ["Victoria", "CA", "British Columbia", 48.4284, -123.3656, 91867, "America/Vancouver"],
+  ["Banff", "CA", "Alberta", 51.1784, -115.5708, 8305, "America/Edmonton"],
+  ["Whistler", "CA", "British Columbia", 50.1163, -122.9574, 13982, "America/Vancouver"],
+  ["Saint-Pierre", "PM", "Saint-Pierre", 46.7811, -56.1764, 5394, "America/Miquelon"],
+  ["Nuuk", "GL", "Sermersooq", 64.1814, -51.6941, 19872, "America/Nuuk", ["Godthåb"]],
+  ["Hamilton", "BM", "Pembroke", 32.2949, -64.7814, 854, "Atlantic/Bermuda", ["Bermuda"]],
+  ["Mexico City", "MX", "Mexico City", 19.4326, -99.1332, 9209944, "America/Mexico_City", ["Ciudad de México", "CDMX"]],
+  ["Guadalajara", "MX", "Jalisco", 20.6597, -103.3496, 1385629, "America/Mexico_City"],
+  ["Monterrey", "MX", "Nuevo León", 25.6866, -100.3161, 1142994, "America/Monterrey"],
+  ["Puebla", "MX", "Puebla", 19.0414, -98.2063, 1692181, "America/Mexico_City"],
+  ["Tijuana", "MX", "Baja California", 32.5149, -117.0382, 1922523, "America/Tijuana"],
+  ["Cancún", "MX", "Quintana Roo", 21.1619, -86.8515, 888797, "America/Cancun", ["Cancun"]],
+  ["Playa del Carmen", "MX", "Quintana Roo", 20.6296, -87.0739, 304942, "America/Cancun"],
+  ["Tulum", "MX", "Quintana Roo", 20.2114, -87.4654, 46721, "America/Cancun"],
+  ["Mérida", "MX", "Yucatán", 20.9674, -89.5926, 995129, "America/Merida", ["Merida"]],
+  ["Oaxaca", "MX", "Oaxaca", 17.0732, -96.7266, 270955, "America/Mexico_City", ["Oaxaca de Juárez"]],
+  ["Puerto Vallarta", "MX", "Jalisco", 20.6534, -105.2253, 291839, "America/Mexico_City"],
+  ["Cabo San Lucas", "MX", "Baja California Sur", 22.8905, -109.9167, 202694, "America/Mazatlan", ["Los Cabos", "Cabo"]],
+  ["San Miguel de Allende", "MX", "Guanajuato", 20.9144, -100.7452, 174615, "America/Mexico_City"],
+  ["Guatemala City", "GT", "Guatemala", 14.6349, -90.5069, 2934841, "America/Guatemala"],
+  ["Antigua Guatemala", "GT", "Sacatepéquez", 14.5586, -90.7295, 46054, "America/Guatemala", ["Antigua"]],
+  ["Flores", "GT", "Petén", 16.9297, -89.8926, 40000, "America/Guatemala", ["Tikal"]],
+  ["Belmopan", "BZ", "Cayo", 17.251, -88.759, 20621, "America/Belize"],
+  ["Belize City", "BZ", "Belize", 17.5046, -88.1962, 61461, "America/Belize"],
+  ["San Pedro", "BZ", "Belize", 17.9214, -87.9611, 16444, "America/Belize", ["Ambergris Caye"]],
+  ["San Salvador", "SV", "San Salvador", 13.6929, -89.2182, 567698, "America/El_Salvador"],
+  ["Tegucigalpa", "HN", "Francisco Morazán", 14.0723, -87.1921, 1682725, "America/Tegucigalpa"],
+  ["Roatán", "HN", "Bay Islands", 16.3298, -86.5297, 110000, "America/Tegucigalpa", ["Roatan"]],
+  ["Managua", "NI", "Managua", 12.1364, -86.2514, 1055247, "America/Managua"],
+  ["Granada", "NI", "Granada", 11.9344, -85.956, 105171, "America/Managua"],
+  ["San José", "CR", "San José", 9.9281, -84.0907, 342188, "America/Costa_Rica", ["San Jose"]],
+  ["La Fortuna", "CR", "Alajuela", 10.4678, -84.6427, 15383, "America/Costa_Rica", ["Arenal"]],
+  ["Tamarindo", "CR", "Guanacaste", 10.2993, -85.8371, 6375, "America/Costa_Rica"],
+  ["Panama City", "PA", "Panamá", 8.9824, -79.5199, 880691, "America/Panama", ["Panamá"]],
+  ["Bocas del Toro", "PA", "Bocas del Toro", 9.3403, -82.2419, 16135, "America/Panama"],
+  ["Havana", "CU", "Havana", 23.1136, -82.3666, 2141652, "America/Havana", ["La Habana"]],
+  ["Varadero", "CU", "Matanzas", 23.1394, -81.2861, 27630, "America/Havana"],
+  ["Trinidad", "CU", "Sancti Spíritus", 21.8022, -79.9847, 73466, "America/Havana"],
+  ["Kingston", "JM", "Kingston", 17.9712, -76.7936, 937700, "America/Jamaica"],
+  ["Montego Bay", "JM", "Saint James", 18.4762, -77.8939, 110115, "America/Jamaica"],
+  ["Negril", "JM", "Westmoreland", 18.2683, -78.3481, 6717, "America/Jamaica"],
+  ["Port-au-Prince", "HT", "Ouest", 18.5944, -72.3074, 987310, "America/Port-au-Prince"],
+  ["Santo Domingo", "DO", "Distrito Nacional", 18.4861, -69.9312, 1029110, "America/Santo_Domingo"],
+  ["Punta Cana", "DO", "La Altagracia", 18.5601, -68.3725, 100023, "America/Santo_Domingo"],
+  ["Nassau", "BS", "New Providence", 25.0443, -77.3504, 274400, "America/Nassau"],
+  ["Cockburn Town", "TC", "Grand Turk", 21.4612, -71.1419, 3720, "America/Grand_Turk"],
+  ["Providenciales", "TC", "Providenciales", 21.774, -72.2658, 23769, "America/Grand_Turk", ["Provo"]],
+  ["George Town", "KY", "George Town", 19.2869, -81.3674, 34875, "America/Cayman", ["Grand Cayman"]],
+  ["Road Town", "VG", "Tortola", 18.4286, -64.6185, 12603, "America/Tortola", ["Tortola"]],
+  ["The Valley", "AI", "The Valley", 18.217, -63.0578, 1067, "America/Anguilla"],
+  ["Marigot", "MF", "Saint Martin", 18.0679, -63.0825, 5700, "America/Marigot"],
+  ["Philipsburg", "SX", "Sint Maarten", 18.026, -63.0458, 1894, "America/Lower_Princes"],
+  ["Gustavia", "BL", "Saint Barthélemy", 17.8962, -62.8498, 2615, "America/St_Barthelemy"],
+  ["Basseterre", "KN", "Saint George Basseterre", 17.3026, -62.7177, 13220, "America/St_Kitts"],
+  ["Saint John's", "AG", "Saint John", 17.1274, -61.8468, 22219, "America/Antigua", ["St John's"]],
+  ["Brades", "MS", "Saint Peter", 16.7918, -62.2106, 391, "America/Montserrat"],
+  ["Basse-Terre", "GP", "Guadeloupe", 15.9985, -61.7255, 10050, "America/Guadeloupe"],
+  ["Pointe-à-Pitre", "GP", "Guadeloupe", 16.2411, -61.5331, 15410, "America/Guadeloupe", ["Pointe-a-Pitre"]],
+  ["Roseau", "DM", "Saint George", 15.3092, -61.3794, 16582, "America/Dominica"],
+  ["Fort-de-France", "MQ", "Martinique", 14.6161, -61.0588, 76512, "America/Martinique"],
+  ["Castries", "LC", "Castries", 14.0101, -60.9875, 20000, "America/St_Lucia"],
+  ["Kingstown", "VC", "Saint George", 13.1587, -61.2248, 12909, "America/St_Vincent"],
+  ["Bridgetown", "BB", "Saint Michael", 13.0969, -59.6145, 110000, "America/Barbados"],
+  ["Saint George's", "GD", "Saint George", 12.0561, -61.7488, 33734, "America/Grenada", ["St George's"]],
+  ["Port of Spain", "TT", "Port of Spain", 10.6549, -61.5019, 37074, "America/Port_of_Spain"],
+  ["Oranjestad", "AW", "Aruba", 12.5092, -70.0086, 28294, "America/Aruba"],
+  ["Willemstad", "CW", "Curaçao", 12.1091, -68.9316, 136660, "America/Curacao"],
+  ["Kralendijk", "BQ", "Bonaire", 12.1443, -68.2655, 3061, "America/Kralendijk"],
+
+  // South America
+  ["São Paulo", "BR", "São Paulo", -23.5505, -46.6333, 12325232, "America/Sao_Paulo", ["Sao Paulo", "Sampa"]],
+  ["Rio de Janeiro", "BR", "Rio de Janeiro", -22.9068, -43.1729, 6747815, "America/Sao_Paulo", ["Rio"]],
+  ["Brasília", "BR", "Federal District", -15.7975, -47.8919, 3055149, "America/Sao_Paulo", ["Brasilia"]],
+  ["Salvador", "BR", "Bahia", -12.9777, -38.5016, 2886698, "America/Bahia"],
+  ["Fortaleza", "BR", "Ceará", -3.7319, -38.5267, 2686612, "America/Fortaleza"],
+  ["Belo Horizonte", "BR", "Minas Gerais", -19.9167, -43.9345, 2521564, "America/Sao_Paulo"],
+  ["Manaus", "BR", "Amazonas", -3.119, -60.0217, 2219580, "America/Manaus"],
+  ["Curitiba", "BR", "Paraná", -25.4284, -49.2733, 1963726, "America/Sao_Paulo"],
+  ["Recife", "BR", "Pernambuco", -8.0476, -34.877, 1653461, "America/Recife"],
+  ["Porto Alegre", "BR", "Rio Grande do Sul", -30.0346, -51.2177, 1488252, "America/Sao_Paulo"],
+  ["Belém", "BR", "Pará", -1.4558, -48.4902, 1499641, "America/Belem", ["Belem"]],
+  ["Florianópolis", "BR", "Santa Catarina", -27.5954, -48.548, 508826, "America/Sao_Paulo", ["Florianopolis", "Floripa"]],
+  ["Foz do Iguaçu", "BR", "Paraná", -25.5163, -54.5854, 258248, "America/Sao_Paulo", ["Foz do Iguacu", "Iguazu Falls"]],
+  ["Natal", "BR", "Rio Grande do Norte", -5.7945, -35.211, 890480, "America/Fortaleza"],
+  ["Paraty", "BR", "Rio de Janeiro", -23.2178, -44.7131, 43680, "America/Sao_Paulo", ["Parati"]],
+  ["Buenos Aires", "AR", "Buenos Aires", -34.6037, -58.3816, 3075646, "America/Argentina/Buenos_Aires"],
+  ["Córdoba", "AR", "Córdoba", -31.4201, -64.1888, 1391000, "America/Argentina/Cordoba", ["Cordoba"]],
+  ["Rosario", "AR", "Santa Fe", -32.9442, -60.6505, 1276000, "America/Argentina/Cordoba"],
+  ["Mendoza", "AR", "Mendoza", -32.8895, -68.8458, 115041, "America/Argentina/Mendoza"],
+  ["San Carlos de Bariloche", "AR", "Río Negro", -41.1335, -71.3103, 135755, "America/Argentina/Salta", ["Bariloche"]],
+  ["Ushuaia", "AR", "Tierra del Fuego", -54.8019, -68.303, 82615, "America/Argentina/Ushuaia"],
+  ["El Calafate", "AR", "Santa Cruz", -50.3379, -72.2648, 25000, "America/Argentina/Rio_Gallegos"],
+  ["Salta", "AR", "Salta", -24.7821, -65.4232, 535303, "America/Argentina/Salta"],
+  ["Puerto Iguazú", "AR", "Misiones", -25.5991, -54.5736, 82227, "America/Argentina/Cordoba", ["Puerto Iguazu"]],
+  ["Santiago", "CL", "Santiago Metropolitan", -33.4489, -70.6693, 6269384, "America/Santiago", ["Santiago de Chile"]],
+  ["Valparaíso", "CL", "Valparaíso", -33.0472, -71.6127, 296655, "America/Santiago", ["Valparaiso"]],
+  ["San Pedro de Atacama", "CL", "Antofagasta", -22.9087, -68.1997, 10996, "America/Santiago", ["Atacama"]],
+  ["Puerto Natales", "CL", "Magallanes", -51.7308, -72.4977, 21477, "America/Punta_Arenas", ["Torres del Paine"]],
+  ["Punta Arenas", "CL", "Magallanes", -53.1638, -70.9171, 141984, "America/Punta_Arenas"],
+  ["Hanga Roa", "CL", "Valparaíso", -27.1537, -109.4269, 7750, "Pacific/Easter", ["Easter Island", "Rapa Nui"]],
+  ["Montevideo", "UY", "Montevideo", -34.9011, -56.1645, 1319108, "America/Montevideo"],
+  ["Punta del Este", "UY", "Maldonado", -34.9475, -54.9338, 19879, "America/Montevideo"],
+  ["Asunción", "PY", "Asunción", -25.2637, -57.5759, 521559, "America/Asuncion", ["Asuncion"]],
+  ["La Paz", "BO", "La Paz", -16.4897, -68.1193, 835361, "America/La_Paz"],
+  ["Sucre", "BO", "Chuquisaca", -19.0196, -65.2619, 300000, "America/La_Paz"],
+  ["Santa Cruz de la Sierra", "BO", "Santa Cruz", -17.7833, -63.1821, 1606671, "America/La_Paz", ["Santa Cruz"]],
+  ["Uyuni", "BO", "Potosí", -20.4597, -66.8251, 29672, "America/La_Paz", ["Salar de Uyuni"]],
+  ["Lima", "PE", "Lima", -12.0464, -77.0428, 9751717, "America/Lima"],
+  ["Cusco", "PE", "Cusco", -13.5319, -71.9675, 428450, "America/Lima", ["Cuzco", "Machu Picchu"]],
+  ["Arequipa", "PE", "Arequipa", -16.409, -71.5375, 1008290, "America/Lima"],
+  ["Puno", "PE", "Puno", -15.8402, -70.0219, 128637, "America/Lima", ["Lake Titicaca"]],
+  ["Quito", "EC", "Pichincha", -0.1807, -78.4678, 2011388, "America/Guayaquil"],
+  ["Guayaquil", "EC", "Guayas", -2.1894, -79.8891, 2698077, "America/Guayaquil"],
+  ["Cuenca", "EC", "Azuay", -2.9001, -79.0059, 329928, "America/Guayaquil"],
+  ["Puerto Ayora", "EC", "Galápagos", -0.7432, -90.3126, 11822, "Pacific/Galapagos", ["Galapagos", "Galápagos Islands"]],
+  ["Bogotá", "CO", "Bogotá D.C.", 4.711, -74.0721, 7743955, "America/Bogota", ["Bogota"]],
+  ["Medellín", "CO", "Antioquia", 6.2442, -75.5812, 2533424, "America/Bogota", ["Medellin"]],
+  ["Cali", "CO", "Valle del Cauca", 3.4516, -76.532, 2227642, "America/Bogota"],
+  ["Cartagena", "CO", "Bolívar", 10.391, -75.4794, 914552, "America/Bogota", ["Cartagena de Indias"]],
+  ["Santa Marta", "CO", "Magdalena", 11.2408, -74.199, 499192, "America/Bogota"],
+  ["Caracas", "VE", "Capital District", 10.4806, -66.9036, 1943901, "America/Caracas"],
+  ["Maracaibo", "VE", "Zulia", 10.6427, -71.6125, 1752602, "America/Caracas"],
+  ["Georgetown", "GY", "Demerara-Mahaica", 6.8013, -58.1551, 235017, "America/Guyana"],
+  ["Paramaribo", "SR", "Paramaribo", 5.852, -55.2038, 240924, "America/Paramaribo"],
+  ["Cayenne", "GF", "Guyane", 4.9224, -52.3135, 61550, "America/Cayenne"],
+  ["Stanley", "FK", "Falkland Islands", -51.6938, -57.8571, 2460, "Atlantic/Stanley"],
+  ["King Edward Point", "GS", "South Georgia", -54.2833, -36.5, 22, "Atlantic/South_Georgia", ["Grytviken"]],
+
+  // Oceania
+  ["Sydney", "AU", "New South Wales", -33.8688, 151.2093, 5312163, "Australia/Sydney"],
+  ["Melbourne", "AU", "Victoria", -37.8136, 144.9631, 5078193, "Australia/Melbourne"],
+  ["Brisbane", "AU", "Queensland", -27.4698, 153.0251, 2568927, "Australia/Brisbane"],
+  ["Perth", "AU", "Western Australia", -31.9505, 115.8605, 2192229, "Australia/Perth"],
+  ["Adelaide", "AU", "South Australia", -34.9285, 138.6007, 1402393, "Australia/Adelaide"],
+  ["Gold Coast", "AU", "Queensland", -28.0167, 153.4, 699226, "Australia/Brisbane"],
+  ["Canberra", "AU", "Australian Capital Territory", -35.2809, 149.13, 456692, "Australia/Sydney"],
+  ["Newcastle", "AU", "New South Wales", -32.9283, 151.7817, 322278, "Australia/Sydney"],
+  ["Hobart", "AU", "Tasmania", -42.8821, 147.3272, 251047, "Australia/Hobart", ["Tasmania"]],
+  ["Cairns", "AU", "Queensland", -16.9186, 145.7781, 153181, "Australia/Brisbane", ["Great Barrier Reef"]],
+  ["Darwin", "AU", "Northern Territory", -12.4634, 130.8456, 147255, "Australia/Darwin"],
+  ["Byron Bay", "AU", "New South Wales", -28.6474, 153.602, 9246, "Australia/Sydney"],
+  ["Yulara", "AU", "Northern Territory", -25.2406, 130.9889, 853, "Australia/Darwin", ["Uluru", "Ayers Rock"]],
+  ["Airlie Beach", "AU", "Queensland", -20.2675, 148.7169, 1208, "Australia/Brisbane", ["Whitsundays"]],
+  ["Auckland", "NZ", "Auckland", -36.8485, 174.7633, 1463000, "Pacific/Auckland"],
+  ["Wellington", "NZ", "Wellington", -41.2865, 174.7762, 215400, "Pacific/Auckland"],
+  ["Christchurch", "NZ", "Canterbury", -43.5321, 172.6362, 389300, "Pacific/Auckland"],
+  ["Queenstown", "NZ", "Otago", -45.0312, 168.6626, 29200, "Pacific/Auckland"],
+  ["Rotorua", "NZ", "Bay of Plenty", -38.1368, 176.2497, 58900, "Pacific/Auckland"],
+  ["Dunedin", "NZ", "Otago", -45.8788, 170.5028, 134100, "Pacific/Auckland"],
+  ["Suva", "FJ", "Central", -18.1248, 178.4501, 93970, "Pacific/Fiji"],
+  ["Nadi", "FJ", "Western", -17.8037, 177.4162, 71048, "Pacific/Fiji", ["Fiji"]],
+  ["Port Moresby", "PG", "National Capital", -9.4438, 147.1803, 364145, "Pacific/Port_Moresby"],
+  ["Honiara", "SB", "Honiara", -9.4456, 159.9729, 84520, "Pacific/Guadalcanal"],
+  ["Port Vila", "VU", "Shefa", -17.7333, 168.3273, 51437, "Pacific/Efate"],
+  ["Nouméa", "NC", "South Province", -22.2758, 166.458, 94285, "Pacific/Noumea", ["Noumea"]],
+  ["Papeete", "PF", "Windward Islands", -17.5516, -149.5585, 26926, "Pacific/Tahiti", ["Tahiti"]],
+  ["Vaitape", "PF", "Leeward Islands", -16.5004, -151.7415, 4927, "Pacific/Tahiti", ["Bora Bora"]],
+  ["Apia", "WS", "Tuamasaga", -13.8333, -171.7667, 37708, "Pacific/Apia"],
+  ["Nuku'alofa", "TO", "Tongatapu", -21.1394, -175.2049, 23221, "Pacific/Tongatapu", ["Nukualofa"]],
+  ["Avarua", "CK", "Rarotonga", -21.2075, -159.7755, 4906, "Pacific/Rarotonga", ["Rarotonga"]],
+  ["Alofi", "NU", "Niue", -19.0595, -169.9187, 597, "Pacific/Niue"],
+  ["Fakaofo", "TK", "Fakaofo", -9.3653, -171.2146, 265, "Pacific/Fakaofo"],
+  ["Funafuti", "TV", "Funafuti", -8.5211, 179.1983, 6025, "Pacific/Funafuti"],
+  ["South Tarawa", "KI", "Gilbert Islands", 1.3291, 172.979, 63439, "Pacific/Tarawa", ["Tarawa"]],
+  ["Yaren", "NR", "Yaren", -0.5466, 166.9211, 747, "Pacific/Nauru"],
+  ["Majuro", "MH", "Majuro Atoll", 7.0897, 171.3803, 27797, "Pacific/Majuro"],
+  ["Palikir", "FM", "Pohnpei", 6.9248, 158.1611, 6227, "Pacific/Pohnpei"],
+  ["Ngerulmud", "PW", "Melekeok", 7.5006, 134.6242, 271, "Pacific/Palau"],
+  ["Koror", "PW", "Koror", 7.3419, 134.4792, 11200, "Pacific/Palau", ["Palau"]],
+  ["Mata-Utu", "WF", "Uvea", -13.2825, -176.1736, 1029, "Pacific/Wallis"],
+  ["Adamstown", "PN", "Pitcairn", -25.0663, -130.1015, 40, "Pacific/Pitcairn"],
+  ["Kingston", "NF", "Norfolk Island", -29.0564, 167.9597, 341, "Pacific/Norfolk"],
+  ["Flying Fish Cove", "CX", "Christmas Island", -10.4217, 105.6791, 1599, "Indian/Christmas"],
+  ["West Island", "CC", "Cocos (Keeling) Islands", -12.1568, 96.8225, 120, "Indian/Cocos"],
+  ["Diego Garcia", "IO", "Chagos Archipelago", -7.3133, 72.4111, 3000, "Indian/Chagos"],
+  ["Wake Island", "UM", "Wake Island", 19.2823, 166.647, 100, "Pacific/Wake"],
+
+  // Antarctic gateways and stations
+  ["McMurdo Station", "AQ", "Ross Dependency", -77.846, 166.676, 1000, "Antarctica/McMurdo"],
+  ["Port-aux-Français", "TF", "Kerguelen", -49.3496, 70.2197, 45, "Indian/Kerguelen", ["Kerguelen"]],
+];
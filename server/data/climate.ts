@@ -0,0 +1,135 @@
+/**
+ * Monthly climate normals for popular destinations, modelled on WMO 1991-2020
+ * station normals and rounded. Each array runs January to December: mean
+ * daily high and low in °C, total rainfall in mm and mean relative humidity
+ * in %. `beach` marks places with swimming beaches in or near them. Daylight
+ * is computed from latitude, so it is not stored.
+ */
+export type ClimateRow = [
+  name: string,
+  countryCode: string,
+  latitude: number,
+  longitude: number,
+  beach: boolean,
+  highC: number[],
+  lowC: number[],
+  rainfallMm: number[],
+  humidityPct: number[],
+];
+
+// prettier-ignore
+export const CLIMATE_ROWS: ClimateRow[] = [
+  // India
+  ["Delhi", "IN", 28.61, 77.21, false, [21, 24, 30, 36, 40, 39, 35, 34, 34, 33, 28, 23], [7, 10, 15, 21, 26, 28, 27, 27, 25, 19, 13, 8], [19, 20, 15, 10, 25, 70, 220, 250, 125, 15, 5, 8], [70, 60, 47, 33, 33, 51, 75, 80, 72, 56, 55, 67]],
+  ["Mumbai", "IN", 19.08, 72.88, true, [31, 32, 33, 33, 34, 32, 30, 30, 31, 34, 34, 32], [17, 18, 21, 24, 27, 26, 25, 25, 25, 24, 21, 19], [1, 0, 0, 1, 15, 520, 840, 560, 340, 90, 15, 5], [60, 60, 64, 70, 72, 80, 86, 86, 83, 75, 65, 62]],
+  ["Bengaluru", "IN", 12.97, 77.59, false, [28, 31, 33, 34, 33, 29, 28, 28, 28, 28, 27, 27], [15, 17, 19, 21, 21, 20, 19, 19, 19, 19, 18, 16], [3, 5, 15, 50, 115, 100, 110, 140, 200, 180, 60, 15], [63, 55, 50, 58, 66, 76, 80, 80, 78, 77, 72, 68]],
+  ["Chennai", "IN", 13.08, 80.27, true, [29, 31, 33, 35, 38, 37, 35, 35, 34, 32, 29, 29], [21, 22, 24, 27, 28, 28, 27, 26, 26, 25, 23, 22], [25, 5, 5, 15, 50, 50, 90, 120, 120, 280, 370, 160], [76, 74, 73, 73, 67, 60, 64, 68, 72, 79, 82, 80]],
+  ["Kolkata", "IN", 22.57, 88.36, false, [26, 29, 34, 36, 36, 34, 32, 32, 32, 32, 30, 27], [12, 16, 21, 25, 26, 27, 26, 26, 26, 24, 18, 13], [12, 25, 35, 50, 130, 290, 410, 350, 300, 160, 30, 5], [68, 63, 62, 68, 74, 82, 86, 86, 85, 79, 72, 70]],
+  ["Hyderabad", "IN", 17.39, 78.49, false, [29, 32, 35, 38, 39, 34, 30, 30, 30, 30, 29, 28], [15, 17, 20, 24, 26, 24, 22, 22, 22, 20, 17, 14], [10, 5, 15, 20, 35, 110, 180, 200, 170, 110, 25, 5], [60, 50, 40, 40, 45, 65, 75, 78, 75, 68, 62, 60]],
+  ["Panaji", "IN", 15.49, 73.83, true, [32, 32, 32, 33, 33, 30, 29, 29, 30, 32, 33, 33], [20, 21, 23, 26, 27, 25, 25, 24, 24, 24, 22, 21], [0, 0, 0, 5, 100, 870, 890, 500, 270, 120, 30, 5], [65, 67, 70, 72, 73, 85, 89, 88, 85, 78, 68, 64]],
+  ["Jaipur", "IN", 26.91, 75.79, false, [22, 25, 31, 37, 41, 39, 34, 32, 33, 33, 29, 24], [8, 11, 16, 22, 26, 28, 26, 25, 24, 19, 13, 9], [7, 7, 5, 5, 15, 60, 200, 200, 80, 15, 5, 3], [57, 47, 38, 28, 30, 47, 72, 78, 66, 43, 45, 54]],
+  ["Udaipur", "IN", 24.58, 73.71, false, [24, 27, 32, 37, 39, 37, 32, 30, 32, 33, 30, 26], [8, 11, 16, 21, 25, 26, 25, 24, 23, 19, 13, 9], [5, 3, 3, 3, 10, 80, 220, 200, 110, 15, 5, 3], [50, 42, 33, 27, 33, 50, 72, 79, 70, 45, 45, 50]],
+  ["Varanasi", "IN", 25.32, 82.99, false, [23, 27, 33, 39, 41, 39, 33, 32, 32, 32, 29, 25], [9, 12, 17, 22, 27, 28, 26, 26, 25, 21, 14, 10], [20, 15, 10, 5, 15, 110, 300, 290, 230, 40, 10, 5], [70, 60, 45, 33, 38, 58, 80, 83, 80, 70, 65, 70]],
+  ["Rishikesh", "IN", 30.09, 78.27, false, [19, 22, 27, 33, 37, 37, 33, 32, 32, 30, 26, 21], [7, 9, 13, 18, 22, 24, 24, 24, 22, 17, 11, 8], [45, 50, 35, 15, 35, 200, 500, 480, 240, 40, 10, 15], [72, 65, 55, 42, 40, 58, 82, 86, 80, 66, 66, 72]],
+  ["Shimla", "IN", 31.10, 77.17, false, [9, 11, 15, 20, 24, 25, 22, 21, 21, 19, 15, 12], [2, 3, 7, 11, 15, 16, 15, 15, 13, 10, 6, 4], [60, 75, 60, 40, 60, 150, 400, 350, 160, 30, 10, 25], [60, 60, 55, 48, 48, 62, 85, 88, 78, 58, 52, 55]],
+  ["Manali", "IN", 32.24, 77.19, false, [9, 10, 15, 20, 24, 27, 26, 25, 24, 21, 16, 12], [-3, -1, 3, 6, 10, 13, 16, 16, 12, 6, 1, -2], [85, 115, 140, 90, 75, 55, 160, 175, 90, 40, 20, 45], [62, 63, 60, 55, 52, 60, 78, 80, 72, 58, 55, 58]],
+  ["Leh", "IN", 34.15, 77.58, false, [-3, 1, 6, 12, 17, 22, 25, 25, 21, 14, 8, 1], [-14, -12, -6, -1, 3, 7, 10, 10, 5, -1, -7, -11], [10, 9, 12, 7, 7, 4, 15, 15, 9, 4, 3, 6], [50, 52, 47, 38, 33, 30, 35, 36, 33, 30, 35, 45]],
+  ["Srinagar", "IN", 34.08, 74.80, false, [7, 9, 14, 20, 25, 29, 31, 30, 28, 23, 16, 10], [-2, 0, 4, 8, 11, 15, 18, 18, 13, 6, 1, -2], [55, 75, 100, 90, 60, 35, 55, 60, 30, 30, 20, 35], [80, 76, 70, 63, 60, 58, 66, 70, 68, 64, 70, 78]],
+  ["Darjeeling", "IN", 27.04, 88.27, false, [9, 11, 15, 18, 19, 19, 20, 20, 20, 18, 15, 11], [2, 4, 7, 10, 12, 14, 15, 15, 14, 11, 7, 4], [15, 25, 50, 110, 220, 570, 700, 600, 450, 120, 10, 5], [77, 78, 75, 80, 88, 94, 95, 95, 93, 85, 78, 76]],
+  ["Kochi", "IN", 9.93, 76.27, true, [31, 32, 33, 33, 32, 29, 29, 29, 30, 30, 31, 31], [23, 24, 26, 26, 26, 24, 24, 24, 24, 24, 24, 23], [20, 25, 40, 130, 320, 670, 570, 380, 290, 330, 170, 50], [70, 72, 73, 75, 78, 86, 87, 86, 84, 82, 78, 72]],
+  ["Ooty", "IN", 11.41, 76.70, false, [20, 22, 23, 23, 22, 18, 17, 17, 18, 19, 19, 19], [6, 7, 9, 11, 12, 12, 12, 12, 11, 11, 9, 7], [20, 15, 30, 100, 160, 140, 180, 130, 120, 200, 130, 50], [70, 64, 64, 72, 78, 84, 86, 86, 84, 84, 82, 76]],
+  ["Port Blair", "IN", 11.62, 92.73, true, [29, 30, 31, 32, 31, 30, 29, 29, 29, 29, 29, 29], [23, 23, 24, 25, 25, 25, 25, 25, 24, 24, 24, 24], [40, 30, 15, 70, 360, 470, 410, 410, 450, 300, 250, 150], [78, 76, 74, 74, 80, 85, 86, 86, 86, 84, 82, 80]],
+
+  // Rest of Asia
+  ["Kathmandu", "NP", 27.72, 85.32, false, [19, 21, 25, 28, 29, 29, 28, 28, 28, 27, 23, 20], [2, 4, 8, 11, 16, 19, 20, 20, 18, 13, 7, 3], [15, 20, 35, 60, 120, 240, 360, 330, 200, 55, 8, 15], [80, 70, 60, 55, 65, 78, 85, 86, 84, 80, 80, 82]],
+  ["Paro", "BT", 27.43, 89.42, false, [10, 12, 15, 19, 22, 24, 25, 25, 23, 20, 16, 12], [-5, -2, 2, 6, 10, 14, 15, 15, 13, 7, 1, -3], [5, 10, 15, 25, 45, 90, 150, 140, 90, 25, 5, 5], [55, 58, 60, 62, 68, 78, 82, 82, 80, 70, 60, 55]],
+  ["Colombo", "LK", 6.93, 79.85, true, [30, 31, 31, 31, 31, 30, 30, 30, 30, 30, 30, 30], [22, 23, 24, 25, 26, 26, 25, 25, 25, 24, 23, 23], [60, 65, 130, 250, 380, 190, 125, 115, 250, 360, 310, 160], [72, 71, 72, 76, 79, 80, 79, 78, 78, 80, 80, 77]],
+  ["Male", "MV", 4.18, 73.51, true, [30, 31, 31, 32, 31, 31, 30, 30, 30, 30, 30, 30], [26, 26, 27, 27, 27, 26, 26, 26, 25, 25, 25, 25], [90, 40, 60, 120, 220, 170, 150, 170, 210, 220, 230, 200], [77, 76, 76, 78, 80, 80, 79, 79, 80, 81, 81, 79]],
+  ["Bangkok", "TH", 13.75, 100.50, false, [32, 33, 34, 35, 34, 33, 33, 33, 33, 32, 32, 32], [22, 24, 26, 27, 27, 26, 26, 26, 25, 25, 24, 22], [15, 25, 40, 90, 230, 200, 200, 250, 330, 240, 50, 10], [67, 70, 70, 71, 74, 75, 76, 77, 79, 77, 71, 66]],
+  ["Phuket", "TH", 7.89, 98.40, true, [32, 33, 34, 34, 32, 31, 31, 31, 30, 30, 31, 31], [23, 23, 24, 25, 25, 25, 25, 25, 24, 24, 24, 23], [30, 20, 50, 120, 300, 260, 270, 270, 400, 330, 180, 60], [73, 72, 72, 76, 81, 81, 81, 81, 84, 84, 81, 76]],
+  ["Chiang Mai", "TH", 18.79, 98.99, false, [29, 32, 35, 36, 34, 32, 31, 31, 31, 31, 30, 28], [14, 16, 19, 23, 24, 24, 24, 23, 23, 22, 19, 15], [5, 5, 15, 50, 150, 130, 160, 220, 220, 120, 40, 15], [65, 55, 52, 58, 72, 78, 80, 83, 82, 78, 72, 68]],
+  ["Denpasar", "ID", -8.65, 115.22, true, [31, 31, 31, 32, 31, 30, 30, 30, 31, 32, 32, 31], [24, 24, 24, 24, 24, 23, 23, 23, 23, 24, 24, 24], [340, 270, 230, 80, 90, 50, 40, 30, 40, 110, 180, 290], [82, 82, 81, 79, 78, 77, 76, 75, 75, 76, 78, 81]],
+  ["Singapore", "SG", 1.35, 103.82, false, [30, 31, 32, 32, 32, 31, 31, 31, 31, 31, 31, 30], [23, 24, 24, 25, 25, 25, 25, 25, 24, 24, 24, 23], [220, 110, 170, 160, 160, 140, 150, 150, 140, 170, 260, 290], [84, 81, 82, 83, 82, 81, 81, 81, 82, 83, 86, 86]],
+  ["Kuala Lumpur", "MY", 3.14, 101.69, false, [32, 33, 33, 33, 33, 33, 32, 32, 32, 32, 32, 32], [23, 23, 24, 24, 24, 24, 24, 24, 24, 24, 24, 23], [170, 170, 240, 270, 200, 130, 130, 150, 190, 270, 290, 230], [80, 79, 80, 82, 81, 79, 78, 79, 80, 82, 85, 84]],
+  ["Hanoi", "VN", 21.03, 105.85, false, [19, 20, 23, 28, 32, 33, 33, 32, 31, 29, 26, 22], [14, 15, 18, 22, 25, 26, 26, 26, 25, 22, 19, 15], [20, 30, 45, 90, 190, 240, 290, 320, 250, 130, 45, 20], [78, 82, 85, 85, 80, 80, 82, 84, 82, 78, 76, 75]],
+  ["Da Nang", "VN", 16.05, 108.20, true, [25, 26, 29, 31, 33, 34, 34, 34, 32, 29, 27, 25], [19, 20, 22, 24, 25, 26, 25, 25, 24, 23, 22, 20], [100, 30, 20, 30, 60, 90, 90, 120, 350, 610, 380, 200], [85, 85, 84, 82, 78, 75, 74, 76, 82, 85, 86, 86]],
+  ["Ho Chi Minh City", "VN", 10.82, 106.63, false, [32, 33, 34, 35, 34, 33, 32, 32, 32, 31, 31, 31], [21, 22, 23, 25, 25, 25, 24, 24, 24, 24, 23, 22], [15, 5, 10, 50, 220, 310, 290, 270, 330, 270, 120, 50], [72, 70, 70, 72, 79, 82, 83, 83, 85, 84, 80, 76]],
+  ["Siem Reap", "KH", 13.36, 103.86, false, [31, 33, 35, 36, 35, 33, 32, 32, 32, 31, 31, 30], [20, 22, 24, 25, 26, 25, 25, 25, 25, 24, 22, 20], [5, 10, 35, 80, 170, 220, 250, 240, 270, 190, 70, 10], [65, 64, 64, 68, 75, 78, 80, 80, 82, 80, 72, 67]],
+  ["Manila", "PH", 14.60, 120.98, false, [30, 31, 33, 34, 34, 33, 31, 31, 31, 31, 31, 30], [24, 24, 25, 26, 27, 27, 26, 26, 26, 26, 25, 24], [20, 15, 15, 25, 140, 250, 420, 470, 370, 200, 130, 70], [72, 70, 67, 67, 71, 77, 81, 83, 82, 79, 77, 75]],
+  ["Hong Kong", "HK", 22.32, 114.17, false, [19, 19, 22, 25, 29, 31, 32, 32, 31, 28, 24, 20], [15, 15, 18, 21, 25, 27, 27, 27, 26, 24, 20, 16], [30, 45, 75, 160, 300, 450, 380, 430, 330, 120, 40, 30], [74, 80, 82, 83, 83, 82, 81, 81, 78, 72, 70, 69]],
+  ["Taipei", "TW", 25.03, 121.57, false, [19, 20, 22, 26, 30, 33, 35, 34, 32, 28, 25, 21], [13, 14, 16, 19, 23, 25, 26, 26, 25, 22, 19, 15], [95, 170, 180, 180, 250, 320, 240, 320, 360, 150, 90, 75], [78, 80, 79, 78, 77, 77, 71, 73, 75, 74, 75, 75]],
+  ["Shanghai", "CN", 31.23, 121.47, false, [8, 10, 14, 20, 25, 28, 32, 32, 28, 23, 17, 11], [1, 3, 6, 11, 17, 21, 26, 25, 22, 16, 10, 3], [70, 70, 100, 85, 100, 190, 160, 200, 100, 65, 55, 45], [75, 75, 74, 74, 74, 82, 80, 80, 77, 72, 74, 72]],
+  ["Beijing", "CN", 39.90, 116.41, false, [2, 6, 13, 21, 27, 31, 31, 30, 26, 19, 10, 3], [-9, -6, 0, 7, 13, 18, 22, 21, 15, 8, 0, -6], [3, 5, 9, 25, 35, 75, 190, 160, 50, 25, 10, 2], [43, 43, 43, 45, 52, 61, 75, 77, 68, 61, 55, 47]],
+  ["Seoul", "KR", 37.57, 126.98, false, [2, 5, 11, 18, 23, 27, 29, 30, 26, 20, 12, 4], [-6, -3, 2, 8, 14, 19, 23, 23, 18, 11, 4, -3], [17, 25, 45, 75, 100, 130, 410, 350, 140, 50, 50, 20], [58, 57, 57, 57, 63, 69, 79, 76, 69, 64, 62, 60]],
+  ["Tokyo", "JP", 35.68, 139.69, false, [10, 11, 14, 19, 23, 26, 30, 31, 27, 22, 17, 12], [1, 2, 5, 10, 15, 19, 23, 24, 21, 15, 9, 4], [60, 60, 120, 130, 140, 170, 150, 150, 220, 230, 100, 60], [52, 53, 57, 62, 68, 75, 77, 74, 75, 71, 65, 56]],
+  ["Kyoto", "JP", 35.01, 135.77, false, [9, 10, 14, 20, 25, 28, 32, 34, 29, 23, 17, 12], [1, 1, 4, 9, 14, 19, 23, 24, 20, 13, 7, 3], [50, 65, 105, 120, 160, 215, 220, 130, 175, 120, 70, 50], [66, 64, 60, 59, 62, 69, 73, 70, 71, 70, 70, 68]],
+  ["Osaka", "JP", 34.69, 135.50, false, [10, 10, 14, 20, 25, 28, 32, 34, 30, 24, 18, 12], [3, 3, 6, 11, 16, 20, 25, 26, 22, 16, 10, 5], [50, 60, 105, 105, 145, 185, 155, 100, 160, 110, 70, 45], [61, 60, 59, 59, 63, 70, 72, 69, 68, 66, 65, 62]],
+  ["Sapporo", "JP", 43.06, 141.35, false, [-1, 0, 4, 11, 17, 21, 25, 26, 22, 16, 8, 2], [-7, -7, -3, 3, 8, 13, 17, 19, 14, 7, 1, -4], [110, 90, 80, 55, 55, 60, 90, 125, 135, 110, 115, 115], [69, 68, 66, 62, 67, 75, 78, 76, 72, 67, 67, 68]],
+  ["Dubai", "AE", 25.20, 55.27, true, [24, 25, 29, 33, 38, 40, 41, 41, 39, 35, 30, 26], [14, 16, 18, 22, 26, 28, 31, 31, 28, 24, 19, 16], [15, 25, 20, 5, 1, 0, 1, 0, 0, 1, 3, 15], [65, 64, 61, 55, 52, 58, 56, 57, 61, 61, 63, 65]],
+  ["Doha", "QA", 25.29, 51.53, true, [22, 24, 28, 33, 39, 41, 42, 41, 39, 35, 29, 24], [13, 15, 18, 22, 27, 29, 31, 30, 28, 24, 19, 15], [13, 17, 16, 9, 4, 0, 0, 0, 0, 1, 3, 12], [74, 70, 63, 53, 44, 41, 50, 58, 62, 63, 68, 74]],
+  ["Muscat", "OM", 23.59, 58.38, true, [25, 26, 29, 34, 39, 40, 38, 36, 36, 34, 30, 27], [17, 18, 21, 25, 30, 31, 31, 29, 28, 25, 21, 19], [10, 15, 10, 8, 2, 1, 3, 2, 0, 2, 8, 10], [65, 65, 60, 50, 45, 55, 65, 70, 65, 60, 60, 65]],
+  ["Istanbul", "TR", 41.01, 28.98, false, [9, 9, 12, 16, 21, 26, 28, 29, 25, 20, 15, 11], [3, 3, 5, 8, 13, 17, 20, 21, 17, 13, 9, 5], [105, 80, 70, 45, 35, 30, 20, 30, 45, 80, 100, 120], [76, 74, 72, 70, 71, 68, 67, 68, 70, 74, 76, 77]],
+  ["Tbilisi", "GE", 41.72, 44.79, false, [7, 9, 14, 19, 24, 29, 32, 32, 27, 20, 13, 8], [-1, 0, 4, 8, 13, 17, 20, 20, 15, 10, 4, 0], [20, 25, 35, 60, 80, 75, 45, 45, 45, 40, 30, 25], [74, 71, 67, 64, 67, 62, 58, 60, 67, 74, 76, 76]],
+  ["Moscow", "RU", 55.76, 37.62, false, [-4, -3, 3, 12, 19, 23, 25, 23, 16, 9, 2, -2], [-10, -10, -5, 2, 8, 12, 14, 12, 7, 2, -3, -7], [50, 40, 35, 35, 50, 80, 85, 80, 65, 70, 55, 50], [84, 80, 74, 65, 61, 67, 71, 75, 80, 83, 86, 86]],
+
+  // Europe
+  ["London", "GB", 51.51, -0.13, false, [8, 9, 12, 15, 18, 21, 24, 23, 20, 16, 11, 9], [3, 3, 4, 6, 9, 12, 14, 14, 12, 9, 5, 3], [55, 40, 40, 45, 50, 45, 45, 50, 50, 65, 60, 55], [84, 80, 76, 72, 72, 71, 70, 73, 77, 81, 84, 85]],
+  ["Edinburgh", "GB", 55.95, -3.19, false, [7, 8, 10, 12, 15, 18, 19, 19, 17, 13, 10, 7], [1, 1, 3, 4, 7, 10, 11, 11, 9, 7, 3, 1], [65, 50, 55, 45, 50, 60, 65, 70, 60, 75, 70, 65], [85, 82, 80, 77, 76, 77, 79, 80, 82, 84, 86, 86]],
+  ["Dublin", "IE", 53.35, -6.26, false, [8, 9, 10, 13, 15, 18, 20, 19, 17, 14, 10, 8], [3, 3, 4, 5, 8, 10, 12, 12, 11, 8, 5, 3], [65, 50, 50, 50, 55, 60, 55, 70, 60, 75, 75, 70], [86, 84, 80, 76, 76, 77, 78, 80, 82, 85, 87, 87]],
+  ["Paris", "FR", 48.86, 2.35, false, [8, 9, 13, 16, 20, 24, 26, 26, 22, 17, 11, 8], [3, 3, 5, 7, 11, 14, 16, 16, 13, 10, 6, 4], [50, 45, 45, 50, 65, 50, 60, 60, 45, 60, 55, 60], [84, 80, 74, 69, 70, 69, 66, 68, 74, 80, 84, 85]],
+  ["Amsterdam", "NL", 52.37, 4.90, false, [6, 7, 10, 14, 18, 20, 22, 22, 19, 15, 10, 7], [1, 1, 3, 5, 8, 11, 13, 13, 11, 8, 4, 2], [70, 55, 55, 40, 55, 65, 80, 85, 80, 85, 85, 75], [87, 84, 80, 75, 74, 76, 77, 79, 83, 85, 88, 89]],
+  ["Berlin", "DE", 52.52, 13.40, false, [3, 5, 9, 15, 19, 22, 25, 24, 20, 14, 8, 4], [-2, -1, 1, 5, 9, 12, 14, 14, 11, 7, 3, -1], [45, 35, 40, 35, 55, 60, 70, 60, 45, 40, 45, 50], [85, 82, 77, 70, 69, 69, 70, 72, 78, 83, 87, 87]],
+  ["Prague", "CZ", 50.08, 14.44, false, [1, 3, 8, 14, 19, 22, 24, 24, 19, 13, 6, 2], [-4, -3, 0, 4, 8, 11, 13, 13, 9, 5, 1, -3], [25, 25, 30, 35, 65, 75, 80, 70, 45, 35, 35, 30], [84, 80, 74, 67, 68, 69, 70, 71, 76, 81, 85, 86]],
+  ["Vienna", "AT", 48.21, 16.37, false, [3, 5, 10, 16, 21, 24, 27, 26, 21, 15, 8, 4], [-2, -1, 3, 7, 11, 15, 17, 17, 13, 8, 3, 0], [40, 40, 50, 45, 75, 70, 75, 70, 60, 40, 50, 45], [79, 74, 66, 61, 62, 62, 61, 63, 70, 76, 80, 81]],
+  ["Budapest", "HU", 47.50, 19.04, false, [2, 5, 11, 17, 22, 25, 28, 27, 22, 16, 8, 3], [-3, -2, 2, 7, 12, 15, 17, 17, 12, 7, 3, -1], [35, 30, 30, 40, 60, 65, 50, 50, 45, 40, 50, 45], [81, 76, 68, 61, 62, 62, 60, 62, 68, 74, 81, 83]],
+  ["Zurich", "CH", 47.38, 8.54, false, [3, 5, 10, 14, 18, 22, 24, 24, 19, 14, 8, 4], [-2, -2, 1, 4, 8, 12, 14, 14, 10, 6, 2, -1], [65, 60, 70, 85, 110, 125, 120, 125, 90, 80, 75, 75], [85, 81, 75, 70, 71, 71, 70, 73, 79, 84, 86, 86]],
+  ["Interlaken", "CH", 46.69, 7.85, false, [2, 4, 9, 13, 17, 21, 23, 23, 19, 14, 7, 3], [-5, -4, -1, 3, 7, 10, 12, 12, 9, 5, 0, -3], [80, 70, 85, 95, 130, 150, 160, 160, 110, 90, 85, 90], [84, 80, 75, 72, 73, 74, 75, 77, 81, 84, 86, 86]],
+  ["Rome", "IT", 41.90, 12.50, false, [12, 14, 17, 20, 25, 29, 32, 32, 28, 23, 17, 13], [3, 4, 6, 9, 13, 17, 19, 20, 16, 12, 8, 4], [70, 75, 60, 70, 50, 35, 20, 35, 70, 110, 110, 80], [77, 75, 72, 71, 70, 67, 63, 65, 69, 74, 77, 78]],
+  ["Venice", "IT", 45.44, 12.32, false, [6, 9, 13, 17, 22, 26, 29, 28, 24, 18, 12, 7], [0, 1, 4, 8, 13, 16, 18, 18, 14, 10, 5, 1], [50, 50, 55, 70, 75, 80, 65, 70, 70, 75, 80, 60], [81, 77, 74, 72, 71, 70, 68, 70, 73, 78, 81, 82]],
+  ["Barcelona", "ES", 41.39, 2.17, true, [15, 15, 17, 19, 22, 26, 29, 29, 26, 23, 18, 15], [8, 8, 10, 12, 15, 19, 22, 22, 19, 16, 11, 8], [40, 35, 35, 45, 50, 30, 20, 60, 80, 90, 60, 45], [69, 67, 68, 68, 70, 69, 69, 71, 72, 73, 70, 70]],
+  ["Madrid", "ES", 40.42, -3.70, false, [10, 12, 16, 18, 22, 28, 32, 31, 26, 19, 13, 10], [3, 3, 6, 8, 12, 17, 19, 19, 16, 11, 6, 3], [30, 35, 25, 45, 50, 20, 10, 10, 25, 60, 50, 50], [71, 65, 56, 55, 51, 43, 37, 39, 49, 61, 69, 73]],
+  ["Seville", "ES", 37.39, -5.98, false, [16, 18, 22, 24, 28, 33, 36, 36, 32, 26, 20, 17], [6, 7, 10, 12, 15, 19, 21, 21, 19, 15, 10, 7], [60, 45, 40, 50, 30, 10, 0, 5, 25, 60, 80, 90], [77, 71, 63, 60, 54, 49, 44, 47, 53, 64, 73, 78]],
+  ["Lisbon", "PT", 38.72, -9.14, true, [15, 16, 19, 20, 23, 26, 28, 28, 27, 23, 18, 15], [8, 9, 11, 12, 14, 17, 18, 19, 18, 16, 12, 9], [100, 90, 60, 65, 50, 15, 5, 5, 30, 95, 115, 130], [80, 77, 71, 70, 68, 67, 64, 65, 68, 73, 78, 80]],
+  ["Athens", "GR", 37.98, 23.73, true, [13, 14, 17, 20, 26, 31, 34, 33, 29, 24, 19, 15], [7, 7, 9, 12, 16, 21, 23, 23, 20, 16, 12, 9], [55, 45, 40, 25, 15, 5, 5, 5, 15, 40, 60, 70], [72, 71, 68, 63, 59, 53, 49, 50, 57, 66, 73, 74]],
+  ["Fira", "GR", 36.42, 25.43, true, [14, 14, 16, 19, 23, 27, 29, 29, 26, 22, 18, 15], [10, 10, 11, 13, 17, 21, 23, 23, 21, 18, 14, 11], [60, 45, 40, 15, 10, 2, 0, 1, 10, 35, 50, 65], [72, 71, 70, 68, 68, 64, 62, 63, 66, 70, 73, 73]],
+  ["Dubrovnik", "HR", 42.65, 18.09, true, [12, 13, 15, 18, 23, 27, 30, 30, 26, 21, 17, 13], [6, 6, 8, 11, 15, 19, 22, 22, 18, 14, 10, 7], [100, 110, 100, 90, 70, 45, 25, 55, 100, 140, 190, 140], [65, 64, 66, 68, 70, 67, 62, 62, 66, 68, 70, 68]],
+  ["Reykjavik", "IS", 64.15, -21.94, false, [2, 3, 3, 6, 9, 12, 14, 13, 11, 7, 4, 3], [-3, -2, -2, 1, 4, 7, 9, 8, 6, 3, -1, -2], [90, 85, 90, 60, 45, 50, 50, 60, 70, 90, 85, 90], [80, 79, 78, 76, 74, 77, 79, 80, 79, 79, 80, 80]],
+  ["Oslo", "NO", 59.91, 10.75, false, [-1, 0, 4, 10, 16, 20, 22, 21, 16, 9, 4, 0], [-6, -6, -3, 1, 6, 10, 13, 12, 8, 4, 0, -5], [55, 40, 45, 45, 55, 70, 80, 95, 80, 85, 75, 55], [82, 78, 72, 65, 62, 65, 70, 74, 79, 82, 85, 85]],
+  ["Tromsø", "NO", 69.65, 18.96, false, [-2, -2, 0, 3, 8, 12, 15, 14, 10, 5, 1, -1], [-6, -7, -5, -2, 3, 7, 10, 9, 5, 1, -3, -5], [110, 100, 90, 65, 55, 60, 75, 85, 105, 130, 105, 110], [80, 80, 78, 75, 74, 76, 78, 80, 80, 80, 80, 80]],
+  ["Stockholm", "SE", 59.33, 18.07, false, [0, 0, 4, 10, 16, 20, 23, 22, 17, 10, 5, 1], [-5, -5, -2, 2, 7, 11, 14, 13, 9, 5, 1, -3], [40, 30, 30, 30, 35, 60, 65, 70, 55, 50, 55, 45], [86, 83, 77, 69, 64, 67, 70, 75, 80, 84, 88, 88]],
+  ["Rovaniemi", "FI", 66.50, 25.73, false, [-9, -8, -3, 3, 10, 17, 20, 17, 11, 3, -3, -7], [-17, -17, -13, -6, 1, 7, 10, 8, 3, -2, -8, -14], [40, 35, 35, 30, 35, 60, 75, 70, 55, 50, 45, 40], [88, 86, 82, 74, 66, 65, 70, 78, 84, 88, 90, 89]],
+
+  // Africa
+  ["Cairo", "EG", 30.04, 31.24, false, [19, 21, 24, 29, 33, 35, 35, 35, 33, 30, 25, 21], [9, 10, 12, 15, 18, 21, 22, 23, 21, 18, 14, 11], [5, 4, 4, 1, 0, 0, 0, 0, 0, 1, 3, 6], [59, 54, 53, 47, 46, 49, 58, 61, 60, 60, 61, 61]],
+  ["Marrakesh", "MA", 31.63, -7.99, false, [19, 20, 23, 25, 29, 33, 37, 37, 32, 28, 23, 20], [6, 8, 10, 12, 15, 18, 21, 21, 19, 15, 10, 7], [30, 35, 35, 30, 15, 5, 2, 3, 10, 25, 40, 30], [68, 66, 62, 59, 56, 53, 48, 50, 55, 61, 66, 68]],
+  ["Nairobi", "KE", -1.29, 36.82, false, [25, 27, 26, 24, 23, 22, 21, 22, 25, 25, 23, 23], [12, 13, 14, 15, 14, 12, 11, 11, 12, 13, 14, 13], [60, 45, 75, 160, 130, 40, 15, 20, 25, 50, 120, 80], [60, 55, 62, 70, 72, 70, 68, 66, 60, 60, 68, 66]],
+  ["Zanzibar City", "TZ", -6.17, 39.20, true, [32, 32, 32, 30, 29, 28, 28, 28, 29, 30, 31, 32], [24, 24, 24, 24, 23, 22, 21, 21, 21, 22, 23, 24], [70, 60, 140, 330, 250, 60, 45, 40, 50, 90, 190, 140], [76, 76, 78, 82, 80, 78, 77, 76, 75, 75, 77, 77]],
+  ["Cape Town", "ZA", -33.92, 18.42, true, [27, 27, 26, 23, 21, 19, 18, 18, 20, 22, 24, 26], [16, 16, 14, 12, 10, 8, 7, 8, 9, 11, 13, 15], [15, 15, 20, 40, 70, 95, 85, 80, 45, 30, 20, 15], [70, 71, 73, 76, 79, 80, 80, 79, 76, 73, 71, 70]],
+  ["Port Louis", "MU", -20.16, 57.50, true, [30, 30, 30, 29, 27, 26, 25, 25, 26, 27, 28, 29], [23, 23, 23, 22, 20, 19, 18, 18, 18, 19, 20, 22], [200, 210, 200, 130, 90, 70, 60, 60, 40, 40, 60, 120], [76, 78, 78, 77, 76, 75, 74, 73, 71, 70, 71, 73]],
+  ["Victoria", "SC", -4.62, 55.45, true, [30, 30, 31, 31, 30, 29, 28, 28, 29, 29, 30, 30], [25, 25, 25, 26, 26, 25, 25, 25, 25, 25, 25, 25], [380, 260, 200, 180, 150, 100, 80, 110, 140, 190, 200, 300], [82, 80, 80, 80, 79, 79, 79, 78, 78, 79, 81, 82]],
+
+  // Americas
+  ["New York", "US", 40.71, -74.01, false, [4, 6, 10, 17, 22, 27, 30, 29, 25, 18, 12, 6], [-3, -2, 2, 8, 13, 18, 21, 21, 17, 10, 5, 0], [90, 80, 110, 100, 100, 110, 115, 110, 100, 110, 90, 100], [62, 60, 58, 55, 62, 65, 65, 67, 68, 66, 64, 64]],
+  ["Miami", "US", 25.76, -80.19, true, [24, 25, 26, 28, 30, 32, 32, 33, 32, 30, 27, 25], [16, 17, 19, 21, 23, 25, 26, 26, 25, 23, 20, 17], [45, 55, 65, 80, 150, 250, 170, 220, 230, 160, 80, 55], [72, 71, 70, 69, 72, 76, 75, 76, 77, 75, 74, 72]],
+  ["Los Angeles", "US", 34.05, -118.24, true, [20, 20, 21, 22, 23, 25, 28, 29, 28, 26, 23, 20], [9, 10, 11, 12, 14, 16, 18, 18, 17, 15, 11, 9], [80, 95, 60, 20, 8, 2, 0, 0, 5, 15, 25, 60], [60, 65, 68, 68, 71, 73, 74, 74, 72, 68, 63, 59]],
+  ["San Francisco", "US", 37.77, -122.42, false, [14, 16, 17, 18, 19, 21, 21, 22, 23, 21, 18, 14], [8, 9, 9, 10, 11, 12, 13, 14, 14, 13, 10, 8], [110, 110, 80, 35, 15, 4, 0, 1, 5, 30, 75, 110], [78, 76, 74, 72, 72, 72, 74, 75, 73, 72, 75, 78]],
+  ["Las Vegas", "US", 36.17, -115.14, false, [14, 17, 21, 25, 31, 37, 40, 39, 34, 27, 19, 13], [3, 5, 9, 12, 18, 23, 27, 26, 21, 14, 7, 2], [13, 20, 12, 4, 3, 1, 10, 8, 6, 6, 8, 11], [40, 36, 30, 22, 18, 14, 17, 20, 20, 25, 33, 40]],
+  ["Honolulu", "US", 21.31, -157.86, true, [27, 27, 27, 28, 29, 30, 31, 31, 31, 30, 29, 27], [19, 19, 20, 21, 22, 23, 24, 24, 24, 23, 22, 20], [60, 60, 55, 35, 25, 10, 15, 15, 20, 45, 60, 75], [72, 71, 69, 67, 66, 64, 65, 64, 66, 68, 71, 72]],
+  ["Toronto", "CA", 43.65, -79.38, false, [-1, 0, 5, 12, 19, 24, 27, 26, 22, 14, 7, 2], [-7, -6, -3, 3, 9, 14, 17, 17, 13, 6, 1, -4], [60, 50, 55, 70, 75, 75, 75, 80, 75, 65, 75, 65], [75, 72, 68, 64, 64, 66, 68, 71, 74, 75, 76, 77]],
+  ["Vancouver", "CA", 49.28, -123.12, false, [7, 8, 10, 13, 17, 19, 22, 22, 19, 13, 9, 6], [1, 1, 3, 5, 8, 11, 13, 13, 10, 6, 3, 1], [170, 105, 115, 85, 65, 55, 35, 40, 50, 120, 190, 160], [85, 80, 76, 73, 73, 73, 72, 74, 78, 83, 85, 87]],
+  ["Cancún", "MX", 21.16, -86.85, true, [28, 29, 30, 31, 32, 32, 33, 33, 32, 31, 30, 28], [20, 20, 21, 23, 24, 25, 25, 25, 24, 23, 22, 21], [90, 45, 40, 40, 100, 150, 90, 120, 200, 300, 110, 90], [80, 78, 76, 76, 77, 80, 79, 80, 82, 83, 81, 81]],
+  ["Mexico City", "MX", 19.43, -99.13, false, [21, 23, 25, 26, 26, 24, 22, 23, 22, 22, 22, 21], [6, 7, 9, 11, 12, 13, 12, 12, 12, 10, 8, 6], [10, 5, 10, 25, 60, 140, 160, 160, 140, 60, 10, 5], [50, 43, 40, 42, 50, 62, 67, 68, 70, 64, 58, 55]],
+  ["Havana", "CU", 23.11, -82.37, true, [26, 27, 28, 29, 30, 31, 32, 32, 31, 29, 28, 27], [19, 19, 20, 21, 22, 23, 24, 24, 24, 23, 21, 20], [65, 65, 45, 55, 100, 180, 110, 140, 150, 170, 80, 60], [75, 73, 71, 70, 73, 77, 76, 77, 79, 79, 77, 75]],
+  ["Lima", "PE", -12.05, -77.04, true, [26, 27, 26, 24, 22, 20, 19, 19, 19, 20, 22, 24], [20, 21, 20, 18, 17, 16, 15, 15, 15, 16, 17, 19], [1, 1, 1, 0, 1, 1, 1, 1, 1, 1, 0, 1], [78, 78, 79, 81, 83, 84, 85, 85, 85, 83, 81, 79]],
+  ["Cusco", "PE", -13.53, -71.97, false, [19, 19, 19, 20, 20, 19, 19, 20, 20, 21, 21, 20], [7, 7, 6, 4, 2, 0, -1, 1, 3, 5, 6, 7], [160, 130, 110, 40, 10, 5, 5, 10, 25, 50, 80, 120], [70, 72, 71, 65, 58, 54, 52, 52, 56, 60, 62, 66]],
+  ["Rio de Janeiro", "BR", -22.91, -43.17, true, [30, 31, 30, 28, 27, 26, 26, 26, 26, 27, 28, 29], [24, 24, 24, 22, 21, 19, 19, 19, 20, 21, 22, 23], [135, 120, 135, 95, 70, 45, 45, 40, 60, 85, 100, 140], [79, 79, 80, 80, 80, 79, 77, 77, 79, 80, 79, 80]],
+  ["Buenos Aires", "AR", -34.60, -58.38, false, [30, 29, 26, 23, 19, 16, 15, 17, 19, 22, 25, 28], [20, 19, 17, 14, 11, 8, 7, 9, 10, 13, 16, 18], [120, 120, 140, 120, 90, 65, 65, 70, 75, 120, 110, 110], [64, 69, 72, 76, 78, 80, 80, 75, 71, 71, 67, 64]],
+
+  // Oceania
+  ["Sydney", "AU", -33.87, 151.21, true, [27, 27, 25, 23, 20, 18, 17, 19, 21, 23, 24, 26], [19, 19, 18, 15, 12, 9, 8, 9, 11, 14, 16, 18], [90, 130, 130, 125, 120, 130, 75, 80, 60, 75, 85, 80], [70, 72, 72, 71, 72, 72, 68, 63, 61, 63, 66, 67]],
+  ["Melbourne", "AU", -37.81, 144.96, false, [26, 26, 24, 20, 17, 14, 14, 15, 17, 20, 22, 24], [15, 15, 13, 11, 9, 7, 6, 7, 8, 10, 12, 13], [45, 45, 40, 55, 55, 50, 45, 50, 55, 60, 60, 60], [60, 62, 64, 68, 73, 76, 76, 72, 67, 62, 61, 60]],
+  ["Cairns", "AU", -16.92, 145.77, true, [32, 31, 31, 30, 28, 27, 26, 27, 28, 30, 31, 32], [24, 24, 23, 22, 20, 18, 17, 18, 19, 21, 22, 23], [390, 450, 420, 200, 90, 50, 30, 25, 35, 40, 90, 180], [73, 76, 75, 73, 71, 69, 67, 66, 66, 66, 67, 70]],
+  ["Auckland", "NZ", -36.85, 174.76, true, [23, 24, 22, 20, 17, 15, 14, 15, 16, 18, 20, 22], [16, 16, 15, 13, 11, 9, 8, 8, 10, 11, 12, 14], [75, 65, 90, 100, 110, 130, 140, 120, 105, 100, 85, 95], [77, 78, 80, 82, 85, 87, 87, 84, 80, 78, 76, 76]],
+  ["Queenstown", "NZ", -45.03, 168.66, false, [22, 22, 19, 15, 11, 8, 7, 9, 13, 15, 18, 20], [10, 10, 8, 5, 2, 0, -1, 0, 2, 4, 6, 8], [80, 65, 70, 70, 80, 70, 65, 65, 65, 80, 75, 85], [67, 70, 74, 78, 84, 87, 86, 80, 73, 70, 68, 67]],
+  ["Nadi", "FJ", -17.80, 177.42, true, [32, 32, 31, 31, 30, 29, 28, 29, 29, 30, 31, 31], [23, 23, 23, 22, 20, 19, 18, 18, 19, 20, 21, 22], [300, 290, 330, 170, 90, 70, 50, 60, 80, 90, 140, 170], [76, 78, 78, 76, 74, 73, 71, 70, 70, 71, 72, 74]],
+];
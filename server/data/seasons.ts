@@ -0,0 +1,86 @@
+import type { SeasonalRisk } from "@shared/schema";
+
+/** South, north, west and east edges in decimal degrees. */
+export type SeasonBounds = [south: number, north: number, west: number, east: number];
+
+/**
+ * Periods when a region is at its worst for travel (monsoon rains, tropical
+ * storms, extreme heat) or at its busiest and most expensive. Months are
+ * 1-12. A row applies to the listed countries, limited to `bounds` when the
+ * season only covers part of them.
+ */
+export type SeasonRow = [
+  risk: Exclude<SeasonalRisk, "no_snow">,
+  region: string,
+  countryCodes: string[],
+  months: number[],
+  bounds?: SeasonBounds,
+];
+
+// prettier-ignore
+export const SEASON_ROWS: SeasonRow[] = [
+  // Monsoons and wet seasons
+  ["monsoon", "India (southwest monsoon)", ["IN"], [6, 7, 8, 9], [6, 33, 68, 98]],
+  ["monsoon", "Tamil Nadu and the south-east coast (northeast monsoon)", ["IN"], [10, 11, 12], [8, 16, 78, 81.5]],
+  ["monsoon", "Sri Lanka's south-west coast", ["LK"], [5, 6, 7, 8, 9], [5.8, 8, 79.5, 80.6]],
+  ["monsoon", "Sri Lanka's east coast", ["LK"], [11, 12, 1], [6, 10, 81, 82.2]],
+  ["monsoon", "the Maldives", ["MV"], [5, 6, 7, 8, 9, 10]],
+  ["monsoon", "Nepal and Bhutan", ["NP", "BT"], [6, 7, 8, 9]],
+  ["monsoon", "Bangladesh", ["BD"], [6, 7, 8, 9]],
+  ["monsoon", "Myanmar", ["MM"], [6, 7, 8, 9]],
+  ["monsoon", "Thailand's Andaman coast", ["TH"], [5, 6, 7, 8, 9, 10], [6, 10, 97, 99.2]],
+  ["monsoon", "Thailand's Gulf islands", ["TH"], [10, 11, 12], [8.5, 10.5, 99.5, 100.5]],
+  ["monsoon", "central and northern Thailand", ["TH"], [6, 7, 8, 9, 10], [12, 21, 97, 106]],
+  ["monsoon", "Cambodia and Laos", ["KH", "LA"], [6, 7, 8, 9, 10]],
+  ["monsoon", "northern Vietnam", ["VN"], [6, 7, 8, 9], [19, 24, 102, 110]],
+  ["monsoon", "central Vietnam", ["VN"], [9, 10, 11, 12], [12, 19, 106, 110]],
+  ["monsoon", "southern Vietnam", ["VN"], [5, 6, 7, 8, 9, 10], [8, 12, 104, 110]],
+  ["monsoon", "the Philippines", ["PH"], [6, 7, 8, 9, 10]],
+  ["monsoon", "Malaysia's east coast", ["MY"], [11, 12, 1, 2], [2, 7, 102, 104.5]],
+  ["monsoon", "Bali, Lombok and Java", ["ID"], [12, 1, 2, 3], [-9.5, -5, 105, 117]],
+  ["monsoon", "southern China, Hong Kong and Taiwan", ["CN", "HK", "MO", "TW"], [5, 6, 7, 8, 9], [18, 27, 105, 122]],
+  ["monsoon", "Japan (tsuyu rainy season)", ["JP"], [6, 7], [30, 41, 129, 142]],
+  ["monsoon", "South Korea", ["KR"], [7, 8]],
+  ["monsoon", "East Africa (long rains)", ["KE", "TZ", "UG", "RW"], [4, 5]],
+  ["monsoon", "northern Australia (wet season)", ["AU"], [12, 1, 2, 3], [-20, -10, 110, 155]],
+  ["monsoon", "the Peruvian Andes", ["PE"], [12, 1, 2, 3], [-18, -8, -76, -68]],
+
+  // Hurricanes, cyclones and typhoons
+  ["hurricane", "the Caribbean and Gulf of Mexico", ["CU", "JM", "DO", "HT", "BS", "PR", "TC", "KY", "BB", "AG", "LC", "VC", "GD", "TT", "BZ", "MX", "US"], [8, 9, 10], [10, 32, -98, -59]],
+  ["hurricane", "the Bay of Bengal", ["IN", "BD", "MM"], [5, 10, 11], [8, 23, 79, 95]],
+  ["hurricane", "the western Pacific (typhoons)", ["PH", "TW", "HK", "MO", "CN"], [7, 8, 9, 10], [5, 30, 110, 130]],
+  ["hurricane", "central Vietnam (typhoons)", ["VN"], [9, 10, 11], [12, 19, 106, 110]],
+  ["hurricane", "southern Japan and Okinawa (typhoons)", ["JP"], [8, 9], [24, 38, 123, 142]],
+  ["hurricane", "the South Pacific (cyclones)", ["FJ", "VU", "WS", "TO", "PF", "NC"], [12, 1, 2, 3]],
+  ["hurricane", "the south-west Indian Ocean (cyclones)", ["MU", "RE", "MG"], [1, 2, 3]],
+  ["hurricane", "Queensland (cyclones)", ["AU"], [1, 2, 3], [-25, -10, 138, 155]],
+
+  // Extreme heat
+  ["extreme_heat", "the Gulf states", ["AE", "QA", "BH", "KW", "SA", "OM"], [6, 7, 8, 9]],
+  ["extreme_heat", "north and central India (pre-monsoon)", ["IN"], [4, 5, 6], [20, 31, 68, 89]],
+  ["extreme_heat", "Pakistan's plains", ["PK"], [5, 6, 7]],
+  ["extreme_heat", "Iran and Iraq", ["IR", "IQ"], [6, 7, 8]],
+  ["extreme_heat", "Egypt and Sudan", ["EG", "SD"], [6, 7, 8]],
+  ["extreme_heat", "inland Morocco", ["MA"], [7, 8], [29, 35, -9, -3]],
+  ["extreme_heat", "southern Spain", ["ES"], [7, 8], [36.8, 38.5, -7.5, -2.5]],
+  ["extreme_heat", "the US desert south-west", ["US"], [6, 7, 8], [31, 38, -118, -109]],
+  ["extreme_heat", "central Australia", ["AU"], [12, 1, 2], [-30, -20, 125, 140]],
+  ["extreme_heat", "mainland South-East Asia (hot season)", ["TH", "KH", "LA", "MM"], [4]],
+
+  // Peak crowds and prices
+  ["high_season", "Europe in summer", ["FR", "IT", "ES", "PT", "GR", "HR", "MT", "CY", "ME", "AT", "CH", "NL", "BE", "DE", "CZ", "HU", "IE", "GB", "IS", "NO", "SE", "DK", "FI"], [7, 8]],
+  ["high_season", "the Alps at Christmas", ["CH", "AT", "FR", "IT", "DE"], [12], [45.5, 48, 5.5, 16]],
+  ["high_season", "Lapland around Christmas", ["FI", "NO", "SE"], [12], [65, 72, 10, 30]],
+  ["high_season", "India over Christmas and New Year", ["IN"], [12]],
+  ["high_season", "Thailand in winter", ["TH"], [12, 1]],
+  ["high_season", "the Maldives and Sri Lanka in winter", ["MV", "LK"], [12, 1]],
+  ["high_season", "Dubai in winter", ["AE"], [12]],
+  ["high_season", "Bali in summer", ["ID"], [7, 8], [-9.5, -8, 114.4, 116]],
+  ["high_season", "Japan (cherry blossom and Golden Week)", ["JP"], [4]],
+  ["high_season", "Lunar New Year", ["CN", "HK", "MO", "TW", "SG", "VN"], [2]],
+  ["high_season", "the Caribbean and Mexico in winter", ["CU", "JM", "DO", "BS", "BB", "LC", "AG", "MX"], [12, 1]],
+  ["high_season", "Kenya and Tanzania (great migration)", ["KE", "TZ"], [7, 8, 9]],
+  ["high_season", "Machu Picchu (dry season)", ["PE"], [6, 7, 8]],
+  ["high_season", "North America in summer", ["US", "CA"], [7, 8]],
+  ["high_season", "Australia and New Zealand in summer", ["AU", "NZ"], [12, 1]],
+];
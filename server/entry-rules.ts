@@ -0,0 +1,158 @@
+import fs from "fs";
+import {
+  entryRulesSchema,
+  type EntryRequirements,
+  type EntryRule,
+  type EntryRules,
+  type TripRequest,
+  type TripResponse,
+} from "@shared/schema";
+import { getCountryByCode, type Country } from "@shared/countries";
+import bundledRules from "./data/entry-rules.json";
+import { locateCountry } from "./geocoding";
+import { cleanEnv } from "./llm";
+
+const DEFAULT_RULES = entryRulesSchema.parse(bundledRules);
+
+// Rules older than this are reported with medium rather than high confidence
+const FRESH_RULES_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Model-written visa lines are dropped whenever a rule applies so they cannot contradict it
+const ENTRY_DOCUMENT_PATTERN = /\b(visas?|e-?visa|evisa|eta|esta|entry permit)\b|\bpassport\b.*\bvalid/i;
+
+const REQUIREMENT_LABELS: Record<EntryRule["requirement"], string> = {
+  visa_free: "visa-free",
+  e_visa: "e-visa or electronic travel authorisation required",
+  visa_on_arrival: "visa on arrival",
+  visa_required: "visa required",
+};
+
+let cached: { file: string; mtimeMs: number; rules: EntryRules } | undefined;
+
+/**
+ * Current entry rules. ENTRY_RULES_FILE may point at an admin-maintained JSON
+ * file in the same format as server/data/entry-rules.json; its rules and
+ * groups take precedence over the bundled ones. It is re-read whenever its
+ * modification time changes, and an unreadable or invalid file keeps the last
+ * good rules.
+ */
+export function getEntryRules(): EntryRules {
+  const file = cleanEnv(process.env.ENTRY_RULES_FILE);
+  if (!file) return DEFAULT_RULES;
+
+  try {
+    const { mtimeMs } = fs.statSync(file);
+    if (cached?.file === file && cached.mtimeMs === mtimeMs) return cached.rules;
+
+    const override = entryRulesSchema.parse(JSON.parse(fs.readFileSync(file, "utf-8")));
+    cached = {
+      file,
+      mtimeMs,
+      rules: {
+        ...override,
+        groups: { ...DEFAULT_RULES.groups, ...override.groups },
+        rules: [...override.rules, ...DEFAULT_RULES.rules],
+      },
+    };
+    console.log(`Loaded entry rules v${override.version} (${override.as_of}) from ${file}`);
+    return cached.rules;
+  } catch (err) {
+    console.error(`Failed to load entry rules from ${file}:`, err);
+    return cached?.file === file ? cached.rules : DEFAULT_RULES;
+  }
+}
+
+/**
+ * The most specific rule for a passport and destination: exact country codes
+ * beat groups, and the passport side counts more than the destination side.
+ * Earlier rules win ties, so override rules beat bundled ones.
+ */
+export function findEntryRule(
+  rules: EntryRules,
+  passportCode: string,
+  destinationCode: string,
+): EntryRule | undefined {
+  const specificity = (field: string, code: string): number | undefined => {
+    if (field === code) return 1;
+    return rules.groups[field]?.includes(code) ? 0 : undefined;
+  };
+
+  let best: { rule: EntryRule; score: number } | undefined;
+  rules.rules.forEach((rule) => {
+    const passport = specificity(rule.passport, passportCode);
+    const destination = specificity(rule.destination, destinationCode);
+    if (passport === undefined || destination === undefined) return;
+    const score = passport * 2 + destination;
+    if (!best || score > best.score) best = { rule, score };
+  });
+  return best?.rule;
+}
+
+export function lookupEntryRequirements(
+  passport: Country,
+  destination: Country,
+  now = new Date(),
+): EntryRequirements {
+  const rules = getEntryRules();
+  const rule = findEntryRule(rules, passport.code, destination.code);
+  const ageDays = (now.getTime() - new Date(rules.as_of).getTime()) / DAY_MS;
+
+  return {
+    passport_country: passport.name,
+    destination_country: destination.name,
+    requirement: rule?.requirement ?? null,
+    max_stay_days: rule?.max_stay_days,
+    passport_validity_months: rule?.passport_validity_months,
+    notes: rule?.notes,
+    confidence: !rule ? "low" : ageDays <= FRESH_RULES_DAYS ? "high" : "medium",
+    rules_version: rules.version,
+    rules_as_of: rules.as_of,
+  };
+}
+
+function formatEntryDocuments(entry: EntryRequirements): string[] {
+  const holders = `${entry.passport_country} passport holders`;
+  if (!entry.requirement) {
+    return [
+      `Entry to ${entry.destination_country}: no stored rule for ${holders}; confirm visa requirements with the embassy before booking`,
+    ];
+  }
+
+  const stay = entry.max_stay_days ? ` (stays up to ${entry.max_stay_days} days)` : "";
+  const notes = entry.notes ? `. ${entry.notes}` : "";
+  return [
+    `Entry to ${entry.destination_country}: ${REQUIREMENT_LABELS[entry.requirement]} for ${holders}${stay}${notes}`,
+    entry.passport_validity_months
+      ? `Passport valid for at least ${entry.passport_validity_months} month(s) beyond your travel dates`
+      : "Passport valid for the length of your stay",
+  ];
+}
+
+/**
+ * Replaces the model's visa guesses with the entry rule for the traveler's
+ * passport (assumed from the starting country) and the trip's destination.
+ * Without a rule the model's lines stay, behind a reminder to check them.
+ */
+export function applyEntryRequirements(trip: TripResponse, input: TripRequest): TripResponse {
+  const passport = input.origin_place
+    ? getCountryByCode(input.origin_place.country_code)
+    : locateCountry(input.location);
+  const destination =
+    (input.trip_goal === "know_destination" && input.destination_place
+      ? getCountryByCode(input.destination_place.country_code)
+      : undefined) || locateCountry(trip.destination);
+  if (!passport || !destination || passport.code === destination.code) {
+    return { ...trip, entry_requirements: undefined };
+  }
+
+  const entry = lookupEntryRequirements(passport, destination);
+  const modelDocuments = entry.requirement
+    ? trip.documents.filter((document) => !ENTRY_DOCUMENT_PATTERN.test(document))
+    : trip.documents;
+  return {
+    ...trip,
+    documents: [...formatEntryDocuments(entry), ...modelDocuments],
+    entry_requirements: entry,
+  };
+}
@@ -0,0 +1,48 @@
+import fs from "fs";
+import { exchangeRatesSchema, type ExchangeRates } from "@shared/schema";
+import bundledRates from "./data/exchange-rates.json";
+import { cleanEnv } from "./llm";
+
+const DEFAULT_RATES = exchangeRatesSchema.parse(bundledRates);
+
+let cached: { file: string; mtimeMs: number; rates: ExchangeRates } | undefined;
+
+/**
+ * Fills codes missing from an override with the bundled rates, rebased onto
+ * the override's base currency.
+ */
+function mergeWithDefaults(override: ExchangeRates): ExchangeRates {
+  const baseInDefault =
+    override.base === DEFAULT_RATES.base ? 1 : DEFAULT_RATES.rates[override.base];
+  if (!baseInDefault) return override;
+
+  const rebased: Record<string, number> = {};
+  Object.entries({ ...DEFAULT_RATES.rates, [DEFAULT_RATES.base]: 1 }).forEach(([code, rate]) => {
+    if (code !== override.base) rebased[code] = rate / baseInDefault;
+  });
+  return { ...override, rates: { ...rebased, ...override.rates } };
+}
+
+/**
+ * Current exchange rates. EXCHANGE_RATES_FILE may point at an admin-maintained
+ * JSON file in the same format as server/data/exchange-rates.json; it is
+ * re-read whenever its modification time changes, so edits apply without a
+ * restart. An unreadable or invalid file keeps the last good rates.
+ */
+export function getExchangeRates(): ExchangeRates {
+  const file = cleanEnv(process.env.EXCHANGE_RATES_FILE);
+  if (!file) return DEFAULT_RATES;
+
+  try {
+    const { mtimeMs } = fs.statSync(file);
+    if (cached?.file === file && cached.mtimeMs === mtimeMs) return cached.rates;
+
+    const override = exchangeRatesSchema.parse(JSON.parse(fs.readFileSync(file, "utf-8")));
+    cached = { file, mtimeMs, rates: mergeWithDefaults(override) };
+    console.log(`Loaded exchange rates v${override.version} (${override.as_of}) from ${file}`);
+    return cached.rates;
+  } catch (err) {
+    console.error(`Failed to load exchange rates from ${file}:`, err);
+    return cached?.file === file ? cached.rates : DEFAULT_RATES;
+  }
+}
@@ -0,0 +1,106 @@
+import type { TripRequest } from "@shared/schema";
+import { findCountry, findCountryInLocation } from "@shared/countries";
+import { AIRPORT_ROWS } from "./data/airports";
+import { searchCities } from "./geocoding";
+
+export type Coordinates = { latitude: number; longitude: number };
+
+export type Airport = Coordinates & {
+  iata: string;
+  name: string;
+  city: string;
+  countryCode: string;
+};
+
+const AIRPORTS: Airport[] = AIRPORT_ROWS.map(
+  ([iata, name, city, countryCode, latitude, longitude]) => ({
+    iata,
+    name,
+    city,
+    countryCode,
+    latitude,
+    longitude,
+  }),
+);
+
+const EARTH_RADIUS_KM = 6371;
+const CRUISE_SPEED_KMH = 800;
+// Taxi, climb and descent on top of time at cruise speed
+const FIXED_OVERHEAD_HOURS = 0.5;
+// Airways are rarely a straight line between two airports
+const ROUTING_FACTOR = 1.05;
+// Below this airport-to-airport distance the trip is assumed to be overland
+const MIN_FLIGHT_KM = 300;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Haversine distance in kilometres. */
+export function greatCircleKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function findNearestAirport(point: Coordinates): Airport {
+  let nearest = AIRPORTS[0];
+  let nearestKm = Infinity;
+  AIRPORTS.forEach((airport) => {
+    const km = greatCircleKm(point, airport);
+    if (km < nearestKm) {
+      nearest = airport;
+      nearestKm = km;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Nonstop one-way flight time between the airports nearest each point, rounded
+ * to a tenth of an hour. Returns 0 when both points share an airport or the
+ * airports are close enough to travel between by road or rail.
+ */
+export function estimateFlightHours(from: Coordinates, to: Coordinates): number {
+  const departure = findNearestAirport(from);
+  const arrival = findNearestAirport(to);
+  const km = greatCircleKm(departure, arrival);
+  if (departure.iata === arrival.iata || km < MIN_FLIGHT_KM) return 0;
+  const hours = FIXED_OVERHEAD_HOURS + (km * ROUTING_FACTOR) / CRUISE_SPEED_KMH;
+  return Number(hours.toFixed(1));
+}
+
+/**
+ * Places a destination by name within its country, falling back to the
+ * country's busiest airport when the name is a region or not in the dataset.
+ */
+export function locateDestination(destination: string, country: string): Coordinates | undefined {
+  const countryMatch = findCountry(country);
+  const query = countryMatch ? `${destination}, ${countryMatch.name}` : destination;
+  const [city] = searchCities(query, 1);
+  if (city) return city;
+  if (!countryMatch) return undefined;
+  return AIRPORTS.find((airport) => airport.countryCode === countryMatch.code);
+}
+
+/** One-sentence travel_convenience rationale for an estimated flight time. */
+export function describeFlightTime(input: TripRequest, hours: number): string {
+  if (hours === 0) return `No flight needed from ${input.location}.`;
+  const flight = `About ${hours} hours of flying from ${input.location}`;
+  if (!input.max_flight_hours) return `${flight}.`;
+  return hours <= input.max_flight_hours
+    ? `${flight}, within your ${input.max_flight_hours}-hour limit.`
+    : `${flight}, over your ${input.max_flight_hours}-hour limit.`;
+}
+
+/** The traveler's starting point, preferring the place picked from suggestions. */
+export function locateOrigin(input: TripRequest): Coordinates | undefined {
+  if (input.origin_place) return input.origin_place;
+  const [city] = searchCities(input.location, 1);
+  if (city) return city;
+  const country = findCountryInLocation(input.location);
+  return country && AIRPORTS.find((airport) => airport.countryCode === country.code);
+}
@@ -0,0 +1,49 @@
+import type { Place } from "@shared/schema";
+import { findCountryInLocation, getCountryByCode, type Country } from "@shared/countries";
+import { cleanEnv } from "../llm";
+import { searchCities, suggestOfflineLocations } from "./offline";
+import { suggestOpenMeteoLocations } from "./open-meteo";
+
+export { listCitiesInCountry, searchCities, type City } from "./offline";
+
+type GeocoderMode = "online" | "offline";
+
+function getGeocoderMode(): GeocoderMode {
+  const mode = (cleanEnv(process.env.GEOCODER_MODE) || "online").toLowerCase();
+  if (mode === "online" || mode === "offline") return mode;
+  console.warn(`Unknown GEOCODER_MODE "${mode}"; using "online".`);
+  return "online";
+}
+
+function dedupeByDisplayName(suggestions: Place[]): Place[] {
+  return suggestions.filter(
+    (suggestion, index, arr) => arr.findIndex((s) => s.displayName === suggestion.displayName) === index,
+  );
+}
+
+/**
+ * City suggestions for the wizard's location fields. GEOCODER_MODE "online"
+ * (the default) asks open-meteo and falls back to the bundled city index when
+ * the service fails or finds nothing; "offline" only uses the bundled index.
+ */
+export async function suggestLocations(query: string, limit = 8): Promise<Place[]> {
+  if (getGeocoderMode() === "offline") {
+    return dedupeByDisplayName(suggestOfflineLocations(query, limit));
+  }
+
+  try {
+    const suggestions = await suggestOpenMeteoLocations(query, limit);
+    if (suggestions.length) return dedupeByDisplayName(suggestions);
+  } catch (error) {
+    console.error("Location suggestion fetch failed, using offline city index:", error);
+  }
+  return dedupeByDisplayName(suggestOfflineLocations(query, limit));
+}
+
+/** Country of free-text "City, Country" input, falling back to the city index for bare city names. */
+export function locateCountry(location: string): Country | undefined {
+  const country = findCountryInLocation(location);
+  if (country) return country;
+  const [city] = searchCities(location, 1);
+  return city && getCountryByCode(city.countryCode);
+}
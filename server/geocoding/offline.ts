@@ -0,0 +1,146 @@
+import type { Place } from "@shared/schema";
+import { findCountry, getCountryByCode, toLookupKey } from "@shared/countries";
+import { CITY_ROWS } from "../data/cities";
+import { toPlace } from "./place";
+
+export type City = {
+  name: string;
+  countryCode: string;
+  country: string;
+  admin1: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+  timezone: string;
+};
+
+type IndexEntry = { key: string; city: City };
+
+const CITIES: City[] = CITY_ROWS.map(
+  ([name, countryCode, admin1, latitude, longitude, population, timezone]) => ({
+    name,
+    countryCode,
+    country: getCountryByCode(countryCode)?.name || countryCode,
+    admin1,
+    latitude,
+    longitude,
+    population,
+    timezone,
+  }),
+);
+
+// One entry per name and alternate name, sorted by key for prefix lookups
+const INDEX: IndexEntry[] = CITY_ROWS.flatMap(([name, , , , , , , alternateNames = []], i) =>
+  [name, ...alternateNames].map((label) => ({ key: toLookupKey(label), city: CITIES[i] })),
+).sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+function lowerBound(prefix: string): number {
+  let low = 0;
+  let high = INDEX.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (INDEX[mid].key < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos tolerated for a query of this length; short queries must match exactly
+function maxTypos(length: number): number {
+  if (length >= 7) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Narrows by the trailing parts of "City, Region, Country". The last part is
+ * matched as a country first and otherwise as the start of a region, so
+ * "Portland, Maine" and "Paris, FR" both work.
+ */
+function buildQualifierFilter(qualifiers: string[]): (city: City) => boolean {
+  if (!qualifiers.length) return () => true;
+  const last = qualifiers[qualifiers.length - 1];
+  const country = findCountry(last);
+  const regionKeys = (country ? qualifiers.slice(0, -1) : qualifiers).map(toLookupKey);
+  return (city) =>
+    (!country || city.countryCode === country.code) &&
+    regionKeys.every((key) => toLookupKey(city.admin1).startsWith(key));
+}
+
+/**
+ * Suggestions from the bundled city dataset: exact name matches first, then
+ * prefix matches, then close misspellings, each ordered by population.
+ */
+export function searchCities(query: string, limit = 8): City[] {
+  const [namePart, ...qualifiers] = query.split(",").map((part) => part.trim());
+  const key = toLookupKey(namePart || "");
+  if (!key) return [];
+  const matchesQualifiers = buildQualifierFilter(qualifiers.filter(Boolean));
+
+  // Lower rank is better; a city reached through several names keeps its best
+  const ranks = new Map<City, number>();
+  const consider = (city: City, rank: number) => {
+    if (!matchesQualifiers(city)) return;
+    const existing = ranks.get(city);
+    if (existing === undefined || rank < existing) ranks.set(city, rank);
+  };
+
+  for (let i = lowerBound(key); i < INDEX.length && INDEX[i].key.startsWith(key); i++) {
+    consider(INDEX[i].city, INDEX[i].key === key ? 0 : 1);
+  }
+
+  const typos = maxTypos(key.length);
+  if (ranks.size < limit && typos > 0) {
+    INDEX.forEach(({ key: entryKey, city }) => {
+      // Compare against the start of longer names so partial input still matches
+      const distance = Math.min(
+        levenshtein(key, entryKey),
+        levenshtein(key, entryKey.slice(0, key.length)),
+      );
+      if (distance <= typos) consider(city, 1 + distance);
+    });
+  }
+
+  return Array.from(ranks.entries())
+    .sort(([a, rankA], [b, rankB]) => rankA - rankB || b.population - a.population)
+    .slice(0, limit)
+    .map(([city]) => city);
+}
+
+/** The country's cities in the bundled dataset, largest first. */
+export function listCitiesInCountry(countryCode: string, limit = 8): City[] {
+  return CITIES.filter((city) => city.countryCode === countryCode)
+    .sort((a, b) => b.population - a.population)
+    .slice(0, limit);
+}
+
+export function suggestOfflineLocations(query: string, limit = 8): Place[] {
+  return searchCities(query, limit).map((city) =>
+    toPlace({
+      city: city.name,
+      region: city.admin1,
+      country: city.country,
+      country_code: city.countryCode,
+      latitude: city.latitude,
+      longitude: city.longitude,
+      timezone: city.timezone,
+      population: city.population,
+    }),
+  );
+}
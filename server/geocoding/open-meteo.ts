@@ -0,0 +1,48 @@
+import type { Place } from "@shared/schema";
+import { findCountry, getCountryByCode } from "@shared/countries";
+import { toPlace } from "./place";
+
+const OPEN_METEO_TIMEOUT_MS = 4000;
+
+type OpenMeteoResult = {
+  name?: string;
+  country?: string;
+  country_code?: string;
+  admin1?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  population?: number;
+};
+
+/** Searches open-meteo's geocoding API; throws when the service fails or times out. */
+export async function suggestOpenMeteoLocations(query: string, limit = 8): Promise<Place[]> {
+  const response = await fetch(
+    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=${limit}&language=en&format=json`,
+    { signal: AbortSignal.timeout(OPEN_METEO_TIMEOUT_MS) },
+  );
+  if (!response.ok) {
+    throw new Error(`open-meteo geocoding returned ${response.status}`);
+  }
+
+  const data = (await response.json()) as { results?: OpenMeteoResult[] };
+  return (data.results || []).flatMap((result) => {
+    const country =
+      (result.country_code && getCountryByCode(result.country_code)) || findCountry(result.country);
+    if (!result.name || !country || result.latitude === undefined || result.longitude === undefined) {
+      return [];
+    }
+    return [
+      toPlace({
+        city: result.name,
+        region: result.admin1,
+        country: country.name,
+        country_code: country.code,
+        latitude: result.latitude,
+        longitude: result.longitude,
+        timezone: result.timezone,
+        population: result.population,
+      }),
+    ];
+  });
+}
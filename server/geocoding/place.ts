@@ -0,0 +1,15 @@
+import type { Place } from "@shared/schema";
+
+/**
+ * Builds a Place, naming it "City, Region, Country". The region is left out of
+ * the name when it repeats the city (Tokyo, Tokyo) or the country.
+ */
+export function toPlace(fields: Omit<Place, "displayName">): Place {
+  const region = fields.region?.trim() || undefined;
+  const showRegion = region && region !== fields.city && region !== fields.country;
+  return {
+    ...fields,
+    region,
+    displayName: [fields.city, showRegion ? region : undefined, fields.country].filter(Boolean).join(", "),
+  };
+}
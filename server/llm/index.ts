@@ -0,0 +1,57 @@
+import type OpenAI from "openai";
+import { createLocalProvider } from "./local";
+import { cleanEnv, createOpenAiClient, createOpenAiProvider } from "./openai";
+import { LlmConfigError, type LlmProvider } from "./provider";
+
+export {
+  LlmConfigError,
+  type AudioInputFormat,
+  type ImageSize,
+  type JsonCompletionRequest,
+  type LlmMessage,
+  type LlmProvider,
+  type TextStreamRequest,
+} from "./provider";
+export { cleanEnv, createOpenAiClient } from "./openai";
+
+let cachedProvider: LlmProvider | undefined;
+let cachedOpenAiClient: OpenAI | undefined;
+
+/**
+ * Returns the provider named by LLM_PROVIDER ("openai" by default, or
+ * "local" for the offline deterministic provider).
+ */
+export function getLlmProvider(): LlmProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (cleanEnv(process.env.LLM_PROVIDER) || "openai").toLowerCase();
+  switch (name) {
+    case "openai":
+      cachedProvider = createOpenAiProvider();
+      break;
+    case "local":
+      cachedProvider = createLocalProvider();
+      break;
+    default:
+      throw new LlmConfigError(
+        `Unknown LLM_PROVIDER "${name}". Use "openai" or "local" and restart the server.`,
+      );
+  }
+  return cachedProvider;
+}
+
+/**
+ * The raw OpenAI client for features the provider interface does not cover
+ * (voice replies, speech synthesis, image edits). Created on first use, so
+ * importing those modules works offline; other providers get a clear error.
+ */
+export function requireOpenAiClient(feature: string): OpenAI {
+  const provider = getLlmProvider();
+  if (provider.name !== "openai") {
+    throw new LlmConfigError(
+      `${feature} is not supported by the ${provider.name} provider. Set LLM_PROVIDER=openai and restart the server to use it.`,
+    );
+  }
+  cachedOpenAiClient ??= createOpenAiClient();
+  return cachedOpenAiClient;
+}
@@ -0,0 +1,645 @@
+import { Buffer } from "node:buffer";
+import { deflateSync } from "node:zlib";
+import type {
+  Activity,
+  ActivityCategory,
+  DailyPlan,
+  DestinationFeatures,
+  TripRequest,
+  TripResponse,
+} from "@shared/schema";
+import type { DaySlot } from "@shared/activities";
+import { toLookupKey } from "@shared/countries";
+import { listCitiesInCountry, locateCountry } from "../geocoding";
+import { scoreFlightHours, toFeatureKey } from "../scoring";
+import { describeFlightTime, estimateFlightHours, locateDestination, locateOrigin } from "../flight-time";
+import {
+  LlmConfigError,
+  type AudioInputFormat,
+  type ImageSize,
+  type JsonCompletionRequest,
+  type LlmProvider,
+  type TextStreamRequest,
+} from "./provider";
+
+type Setting = TripRequest["setting_preference"][number];
+
+type CatalogDestination = {
+  destination: string;
+  country: string;
+  settings: Setting[];
+  focus: string[];
+  costLevel: number;
+};
+
+const LOCAL_CATALOG: CatalogDestination[] = [
+  { destination: "Goa", country: "India", settings: ["beaches", "small_charming_town"], focus: ["Food", "Nightlife"], costLevel: 3 },
+  { destination: "Manali", country: "India", settings: ["mountains", "snowy_landscape"], focus: ["Nature & landscapes", "Adventure sports and activities"], costLevel: 3 },
+  { destination: "Jaipur", country: "India", settings: ["big_city", "desert"], focus: ["History & culture", "Shopping"], costLevel: 3 },
+  { destination: "Kochi", country: "India", settings: ["beaches", "countryside"], focus: ["Food", "Spa and Wellness"], costLevel: 3 },
+  { destination: "Colombo", country: "Sri Lanka", settings: ["beaches", "big_city"], focus: ["Food", "History & culture"], costLevel: 3 },
+  { destination: "Kathmandu", country: "Nepal", settings: ["mountains", "small_charming_town"], focus: ["History & culture", "Adventure sports and activities"], costLevel: 2 },
+  { destination: "Krabi", country: "Thailand", settings: ["beaches", "countryside"], focus: ["Nature & landscapes", "Spa and Wellness"], costLevel: 4 },
+  { destination: "Hoi An", country: "Vietnam", settings: ["small_charming_town", "beaches"], focus: ["Food", "History & culture"], costLevel: 3 },
+  { destination: "Kyoto", country: "Japan", settings: ["small_charming_town", "big_city"], focus: ["History & culture", "Food"], costLevel: 7 },
+  { destination: "Hokkaido", country: "Japan", settings: ["snowy_landscape", "mountains"], focus: ["Nature & landscapes", "Food"], costLevel: 7 },
+  { destination: "Seoul", country: "South Korea", settings: ["big_city"], focus: ["Shopping", "Nightlife", "Food"], costLevel: 6 },
+  { destination: "Ubud", country: "Indonesia", settings: ["countryside", "mountains"], focus: ["Spa and Wellness", "Nature & landscapes"], costLevel: 4 },
+  { destination: "Dubai", country: "United Arab Emirates", settings: ["desert", "big_city"], focus: ["Luxury stays", "Shopping"], costLevel: 8 },
+  { destination: "Lisbon", country: "Portugal", settings: ["big_city", "beaches"], focus: ["Food", "History & culture"], costLevel: 5 },
+  { destination: "Porto", country: "Portugal", settings: ["small_charming_town"], focus: ["Food", "History & culture"], costLevel: 4 },
+  { destination: "Barcelona", country: "Spain", settings: ["big_city", "beaches"], focus: ["Nightlife", "Food", "History & culture"], costLevel: 6 },
+  { destination: "Tuscany", country: "Italy", settings: ["countryside", "small_charming_town"], focus: ["Food", "Luxury stays"], costLevel: 7 },
+  { destination: "Interlaken", country: "Switzerland", settings: ["mountains", "snowy_landscape"], focus: ["Adventure sports and activities", "Nature & landscapes"], costLevel: 9 },
+  { destination: "Prague", country: "Czech Republic", settings: ["big_city", "small_charming_town"], focus: ["History & culture", "Nightlife"], costLevel: 4 },
+  { destination: "Marrakech", country: "Morocco", settings: ["desert", "big_city"], focus: ["Shopping", "History & culture"], costLevel: 3 },
+  { destination: "Cape Town", country: "South Africa", settings: ["beaches", "mountains"], focus: ["Nature & landscapes", "Food"], costLevel: 4 },
+  { destination: "Queenstown", country: "New Zealand", settings: ["mountains", "snowy_landscape"], focus: ["Adventure sports and activities", "Nature & landscapes"], costLevel: 8 },
+  { destination: "Sydney", country: "Australia", settings: ["beaches", "big_city"], focus: ["Nature & landscapes", "Food"], costLevel: 8 },
+  { destination: "Tulum", country: "Mexico", settings: ["beaches", "small_charming_town"], focus: ["Spa and Wellness", "History & culture"], costLevel: 5 },
+  { destination: "Cusco", country: "Peru", settings: ["mountains", "small_charming_town"], focus: ["History & culture", "Adventure sports and activities"], costLevel: 3 },
+  { destination: "Banff", country: "Canada", settings: ["mountains", "snowy_landscape"], focus: ["Nature & landscapes", "Adventure sports and activities"], costLevel: 7 },
+  { destination: "New Orleans", country: "United States", settings: ["big_city"], focus: ["Food", "Nightlife"], costLevel: 7 },
+  { destination: "Edinburgh", country: "United Kingdom", settings: ["big_city", "small_charming_town"], focus: ["History & culture", "Nightlife"], costLevel: 7 },
+  { destination: "Amsterdam", country: "Netherlands", settings: ["big_city"], focus: ["History & culture", "Nightlife", "Shopping"], costLevel: 7 },
+];
+
+const MIN_DOMESTIC_OPTIONS = 5;
+// The recommendation schema asks for three options
+const MIN_RECOMMENDATIONS = 3;
+// Population above which a fallback city counts as a big city rather than a town
+const BIG_CITY_POPULATION = 500_000;
+
+const SETTING_LABELS: Record<Setting, string> = {
+  beaches: "Coastal",
+  mountains: "Mountain",
+  big_city: "City",
+  small_charming_town: "Old Town",
+  countryside: "Countryside",
+  desert: "Desert",
+  snowy_landscape: "Snowy",
+};
+
+type ActivityTemplate = {
+  title: string;
+  place: string;
+  category: ActivityCategory;
+  minutes: number;
+  // Share of the per-person daily budget
+  costShare: number;
+  booking?: boolean;
+};
+
+type SlotTemplates = Record<DaySlot, ActivityTemplate>;
+
+const FOCUS_ACTIVITIES: Record<string, SlotTemplates> = {
+  "Nature & landscapes": {
+    morning: { title: "Sunrise viewpoint walk", place: "Scenic viewpoint", category: "nature", minutes: 120, costShare: 0 },
+    afternoon: { title: "Guided nature trail with picnic lunch", place: "Nature reserve", category: "nature", minutes: 180, costShare: 0.1, booking: true },
+    evening: { title: "Sunset at a scenic lookout", place: "Lookout point", category: "sightseeing", minutes: 90, costShare: 0 },
+  },
+  Food: {
+    morning: { title: "Breakfast at a local favourite cafe", place: "Neighbourhood cafe", category: "food", minutes: 60, costShare: 0.05 },
+    afternoon: { title: "Market visit and cooking class", place: "Central market", category: "food", minutes: 180, costShare: 0.15, booking: true },
+    evening: { title: "Food walk through the old quarter", place: "Old quarter", category: "food", minutes: 150, costShare: 0.12 },
+  },
+  "History & culture": {
+    morning: { title: "Heritage walking tour", place: "Historic centre", category: "culture", minutes: 150, costShare: 0.05 },
+    afternoon: { title: "Museum and old town exploration", place: "City museum", category: "culture", minutes: 180, costShare: 0.06 },
+    evening: { title: "Traditional performance", place: "Cultural centre", category: "culture", minutes: 120, costShare: 0.1, booking: true },
+  },
+  Nightlife: {
+    morning: { title: "Slow start with brunch", place: "Brunch spot", category: "food", minutes: 90, costShare: 0.06 },
+    afternoon: { title: "Neighbourhood wander and rooftop views", place: "Arts district", category: "sightseeing", minutes: 150, costShare: 0.03 },
+    evening: { title: "Live music and bar hopping", place: "Nightlife district", category: "nightlife", minutes: 180, costShare: 0.12 },
+  },
+  Shopping: {
+    morning: { title: "Artisan workshops and boutiques", place: "Design quarter", category: "shopping", minutes: 150, costShare: 0.05 },
+    afternoon: { title: "Local bazaar browsing", place: "Main bazaar", category: "shopping", minutes: 150, costShare: 0.08 },
+    evening: { title: "Night market stroll", place: "Night market", category: "shopping", minutes: 120, costShare: 0.06 },
+  },
+  "Spa and Wellness": {
+    morning: { title: "Yoga session", place: "Wellness studio", category: "wellness", minutes: 75, costShare: 0.05, booking: true },
+    afternoon: { title: "Spa treatment and pool time", place: "Hotel spa", category: "wellness", minutes: 180, costShare: 0.15, booking: true },
+    evening: { title: "Quiet dinner with a view", place: "Terrace restaurant", category: "food", minutes: 120, costShare: 0.1 },
+  },
+  "Luxury stays": {
+    morning: { title: "In-suite breakfast", place: "Hotel", category: "leisure", minutes: 75, costShare: 0.04 },
+    afternoon: { title: "Private guided experience", place: "City highlights", category: "sightseeing", minutes: 180, costShare: 0.2, booking: true },
+    evening: { title: "Chef's tasting menu", place: "Signature restaurant", category: "food", minutes: 150, costShare: 0.2, booking: true },
+  },
+  "Adventure sports and activities": {
+    morning: { title: "Guided adventure activity", place: "Adventure base", category: "adventure", minutes: 180, costShare: 0.15, booking: true },
+    afternoon: { title: "Hike or cycling route", place: "Trailhead", category: "adventure", minutes: 180, costShare: 0.05 },
+    evening: { title: "Relaxed dinner near the base", place: "Local restaurant", category: "food", minutes: 120, costShare: 0.08 },
+  },
+};
+
+const ARRIVAL_ACTIVITY: ActivityTemplate = {
+  title: "Arrive, check in and settle in",
+  place: "Hotel",
+  category: "transport",
+  minutes: 150,
+  costShare: 0.03,
+};
+
+const FAREWELL_ACTIVITY: ActivityTemplate = {
+  title: "Farewell dinner and packing",
+  place: "Favourite local restaurant",
+  category: "food",
+  minutes: 150,
+  costShare: 0.1,
+};
+
+const DEFAULT_ACTIVITIES = FOCUS_ACTIVITIES["Nature & landscapes"];
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function createRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function getOriginCountry(input: TripRequest): string {
+  const parts = input.location.split(",").map((part) => part.trim()).filter(Boolean);
+  return parts[parts.length - 1] || input.location.trim();
+}
+
+function rankCatalog(input: TripRequest): CatalogDestination[] {
+  const originCountry = getOriginCountry(input).toLowerCase();
+  const candidates = LOCAL_CATALOG.filter((entry) =>
+    input.trip_type === "domestic"
+      ? entry.country.toLowerCase() === originCountry
+      : entry.country.toLowerCase() !== originCountry,
+  );
+
+  // Too few catalog places at home: add real cities from the bundled index, so
+  // every option can still be geocoded for climate, time zone and flight time
+  const origin = input.trip_type === "domestic" ? locateCountry(input.location) : undefined;
+  if (origin && candidates.length < MIN_DOMESTIC_OPTIONS) {
+    const excluded = new Set([
+      toLookupKey(input.location.split(",")[0] || ""),
+      ...candidates.map((entry) => toLookupKey(entry.destination)),
+    ]);
+    listCitiesInCountry(origin.code, MIN_DOMESTIC_OPTIONS * 2)
+      .filter((city) => !excluded.has(toLookupKey(city.name)))
+      .slice(0, MIN_DOMESTIC_OPTIONS - candidates.length)
+      .forEach((city) =>
+        candidates.push({
+          destination: city.name,
+          country: origin.name,
+          settings: [city.population >= BIG_CITY_POPULATION ? "big_city" : "small_charming_town"],
+          focus: input.excitement_focus.slice(0, 1),
+          costLevel: 4,
+        }),
+      );
+  }
+
+  const overlap = (entry: CatalogDestination) =>
+    entry.settings.filter((setting) => input.setting_preference.includes(setting)).length * 2 +
+    entry.focus.filter((focus) => input.excitement_focus.includes(focus)).length;
+
+  return candidates
+    .map((entry, index) => ({ entry, index, score: overlap(entry) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+function toClockTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+function buildActivity(
+  template: ActivityTemplate,
+  start: string,
+  input: TripRequest,
+  destination: string,
+): Activity {
+  const dailyBudgetPerPerson =
+    input.budget_amount / Math.max(1, Math.round(input.days)) / Math.max(1, input.number_of_people);
+  return {
+    start_time: start,
+    duration_minutes: template.minutes,
+    title: template.title,
+    place_name: `${template.place}, ${destination.split(",")[0].trim()}`,
+    category: template.category,
+    estimated_cost: Math.round(dailyBudgetPerPerson * template.costShare),
+    booking_required: !!template.booking,
+    notes: template.booking ? "Book a day or two ahead." : "",
+  };
+}
+
+function buildDayPlan(
+  input: TripRequest,
+  destination: string,
+  templates: SlotTemplates,
+  options: { day: number; lastDay: number; startMinute: number; morningHour?: number },
+): DailyPlan["plan"] {
+  const { day, lastDay, startMinute, morningHour = 9 } = options;
+  return {
+    morning: [
+      buildActivity(
+        day === 1 ? ARRIVAL_ACTIVITY : templates.morning,
+        toClockTime(morningHour, startMinute),
+        input,
+        destination,
+      ),
+    ],
+    afternoon: [buildActivity(templates.afternoon, toClockTime(13, startMinute), input, destination)],
+    evening: [
+      buildActivity(
+        day === lastDay ? FAREWELL_ACTIVITY : templates.evening,
+        toClockTime(19, startMinute),
+        input,
+        destination,
+      ),
+    ],
+  };
+}
+
+function energyForDay(input: TripRequest, day: number): TripResponse["daily_itinerary"][number]["energy_level"] {
+  if (day === 1) return "low";
+  const senior = input.companions === "Senior Citizen Friendly";
+  if (input.daily_pace === "packed_high_energy") {
+    return senior ? "medium" : day % 2 === 0 ? "high" : "medium";
+  }
+  if (input.daily_pace === "balanced") {
+    return day % 2 === 0 ? "medium" : "low";
+  }
+  return "low";
+}
+
+export function fabricateTripResponse(input: TripRequest): TripResponse {
+  const random = createRandom(`itinerary:${JSON.stringify(input)}`);
+  const ranked = rankCatalog(input);
+  const chosen = ranked[0];
+  const destination =
+    input.destination_location?.trim() ||
+    (chosen ? `${chosen.destination}, ${chosen.country}` : getOriginCountry(input));
+  const setting = input.setting_preference[0];
+  const emotion = input.emotional_goals[0]?.split(" ")[0] || "Curious";
+  const dayCount = Math.max(1, Math.round(input.days));
+  const international = input.trip_type === "international";
+
+  const dailyItinerary = Array.from({ length: dayCount }, (_, index) => {
+    const day = index + 1;
+    const focus = input.excitement_focus[index % input.excitement_focus.length];
+    const templates = FOCUS_ACTIVITIES[focus] || DEFAULT_ACTIVITIES;
+    const startMinute = pick([0, 15, 30], random);
+    return {
+      day,
+      energy_level: energyForDay(input, day),
+      plan: buildDayPlan(input, destination, templates, { day, lastDay: dayCount, startMinute }),
+    };
+  });
+
+  // Splits the stated budget the way a typical trip spends it, nudged up for premium comfort
+  const spend = input.budget_amount * (input.comfort_level === "premium" ? 1.05 : 0.9);
+  const flights = international || input.includes_flights ? Math.round(spend * 0.3) : 0;
+  const groundSpend = input.includes_flights ? spend - flights : spend;
+
+  const tops = Math.min(dayCount, 7) + 1;
+  const coldSetting = input.setting_preference.some(
+    (value) => value === "mountains" || value === "snowy_landscape",
+  );
+
+  return {
+    trip_theme: `${emotion} ${SETTING_LABELS[setting]} Escape`,
+    destination,
+    why_it_matches_you: [
+      `Built around feeling ${input.emotional_goals.join(" and ").toLowerCase()}`,
+      `Paced for a ${input.daily_pace.replace(/_/g, " ")} rhythm`,
+      `Focused on ${input.excitement_focus.join(", ").toLowerCase()}`,
+    ],
+    daily_itinerary: dailyItinerary,
+    packing_list: {
+      clothes: {
+        tops,
+        bottoms: Math.ceil(tops / 2),
+        outerwear: coldSetting ? 2 : 1,
+      },
+      shoes: [
+        "Comfortable walking shoes",
+        ...(input.setting_preference.includes("beaches") ? ["Sandals"] : []),
+        ...(coldSetting ? ["Insulated boots"] : []),
+      ],
+      accessories: ["Sunglasses", "Day backpack", ...(coldSetting ? ["Gloves", "Beanie"] : ["Sun hat"])],
+      misc: ["Phone charger", "Reusable water bottle", "Basic first-aid kit"],
+    },
+    documents: international
+      ? ["Passport (valid 6+ months)", "Visa or entry permit check", "Travel insurance", "Flight and hotel confirmations"]
+      : ["Government-issued photo ID", "Hotel confirmations", "Travel insurance (optional)"],
+    budget_breakdown: {
+      currency: input.currency,
+      flights,
+      lodging_per_night: Math.round((groundSpend * 0.4) / dayCount),
+      nights: dayCount,
+      food_per_day: Math.round((groundSpend * 0.25) / dayCount),
+      activities: Math.round(groundSpend * 0.15),
+      local_transport: Math.round(groundSpend * 0.1),
+      buffer: Math.round(groundSpend * 0.1),
+      total: 0,
+      over_budget: false,
+      over_budget_by: 0,
+    },
+  };
+}
+
+const GUIDANCE_FOCUS: Array<{ pattern: RegExp; focus: string }> = [
+  { pattern: /food|eat|cuisine|restaurant/i, focus: "Food" },
+  { pattern: /walk|rest|relax|slow|tired|spa/i, focus: "Spa and Wellness" },
+  { pattern: /culture|history|museum/i, focus: "History & culture" },
+  { pattern: /nature|outdoor|hike|view/i, focus: "Nature & landscapes" },
+  { pattern: /night|bar|party/i, focus: "Nightlife" },
+  { pattern: /shop|market/i, focus: "Shopping" },
+];
+
+/**
+ * Replacement for one day of an existing trip. Guidance keywords steer the
+ * activity theme; otherwise a theme different from the current day is picked.
+ */
+export function fabricateReplacementDay(
+  input: TripRequest,
+  trip: TripResponse,
+  day: number,
+  guidance?: string,
+): TripResponse["daily_itinerary"][number] {
+  const random = createRandom(`day:${JSON.stringify(input)}:${day}:${guidance || ""}`);
+  const current = trip.daily_itinerary.find((entry) => entry.day === day);
+  const currentTitles = current
+    ? [...current.plan.morning, ...current.plan.afternoon, ...current.plan.evening].map(
+        (activity) => activity.title,
+      )
+    : [];
+  const guided = guidance ? GUIDANCE_FOCUS.find(({ pattern }) => pattern.test(guidance)) : undefined;
+  const alternatives = Object.keys(FOCUS_ACTIVITIES).filter(
+    (focus) => !currentTitles.includes(FOCUS_ACTIVITIES[focus].afternoon.title),
+  );
+  const focus = guided?.focus || pick(alternatives.length ? alternatives : Object.keys(FOCUS_ACTIVITIES), random);
+  const startMinute = pick([0, 15, 30, 45], random);
+  const gentle = guided?.focus === "Spa and Wellness";
+
+  return {
+    day,
+    energy_level: gentle ? "low" : energyForDay(input, day),
+    plan: buildDayPlan(input, trip.destination, FOCUS_ACTIVITIES[focus], {
+      day,
+      lastDay: trip.daily_itinerary.length,
+      startMinute,
+      morningHour: gentle ? 10 : 9,
+    }),
+  };
+}
+
+const EMOTION_KEYS = ["relaxed", "energized", "inspired", "indulgent", "adventurous", "connected", "disconnected"];
+const INTEREST_KEYS = Object.keys(FOCUS_ACTIVITIES).map(toFeatureKey);
+
+function ratingsFrom(keys: string[], strong: string[], random: () => number): Record<string, number> {
+  return Object.fromEntries(
+    keys.map((key) => [
+      key,
+      strong.includes(key) ? 8 + Math.round(random() * 20) / 10 : 3 + Math.round(random() * 30) / 10,
+    ]),
+  );
+}
+
+// The same great-circle estimate the recommend route applies, when both ends can be placed
+function estimateCatalogFlightHours(input: TripRequest, entry: CatalogDestination): number | undefined {
+  const origin = locateOrigin(input);
+  const destination = locateDestination(entry.destination, entry.country);
+  return origin && destination ? estimateFlightHours(origin, destination) : undefined;
+}
+
+/**
+ * Feature vector seeded by the destination alone, so the same place rates the
+ * same for every traveler; only flight time depends on the request.
+ */
+function fabricateFeatures(input: TripRequest, entry: CatalogDestination): DestinationFeatures {
+  const random = createRandom(`features:${entry.destination}:${entry.country}`);
+  const calm = entry.settings.some((setting) => ["beaches", "countryside", "small_charming_town"].includes(setting));
+  const wild = entry.settings.some((setting) => ["mountains", "desert", "snowy_landscape"].includes(setting));
+  const domestic = getOriginCountry(input).toLowerCase() === entry.country.toLowerCase();
+
+  return {
+    emotions: ratingsFrom(
+      EMOTION_KEYS,
+      [
+        ...(calm ? ["relaxed", "disconnected"] : []),
+        ...(wild ? ["adventurous", "energized"] : []),
+        ...(entry.costLevel >= 7 ? ["indulgent"] : []),
+        ...(entry.focus.includes("History & culture") ? ["inspired", "connected"] : []),
+      ],
+      random,
+    ),
+    pace: ratingsFrom(
+      ["slow_spontaneous", "balanced", "packed_high_energy"],
+      [calm ? "slow_spontaneous" : "packed_high_energy", "balanced"],
+      random,
+    ),
+    interests: ratingsFrom(INTEREST_KEYS, entry.focus.map(toFeatureKey), random),
+    settings: ratingsFrom(Object.keys(SETTING_LABELS), entry.settings, random),
+    comfort_risk: ratingsFrom(
+      ["comfort_predictability", "some_novelty", "wild_adventure"],
+      [entry.costLevel >= 6 ? "comfort_predictability" : "some_novelty", ...(wild ? ["wild_adventure"] : [])],
+      random,
+    ),
+    food: ratingsFrom(
+      ["fine_dining", "local_street_food", "dietary_restrictions"],
+      [
+        ...(entry.focus.includes("Food") ? ["local_street_food"] : []),
+        ...(entry.costLevel >= 6 ? ["fine_dining", "dietary_restrictions"] : []),
+      ],
+      random,
+    ),
+    social: ratingsFrom(
+      ["solo_reflective", "romantic_couple", "friends_fun", "meet_new_people", "family_focused"],
+      [
+        ...(calm ? ["romantic_couple", "solo_reflective"] : []),
+        ...(entry.focus.includes("Nightlife") ? ["friends_fun", "meet_new_people"] : []),
+        ...(entry.settings.includes("big_city") ? ["family_focused"] : []),
+      ],
+      random,
+    ),
+    cost_level: entry.costLevel,
+    flight_hours:
+      estimateCatalogFlightHours(input, entry) ??
+      (domestic ? 1 + Math.round(random() * 20) / 10 : 3 + Math.round(random() * 90) / 10),
+    past_trip_similarity: input.past_trip_loved ? Math.round(random() * 100) / 10 : undefined,
+  };
+}
+
+export function fabricateRecommendations(input: TripRequest) {
+  const random = createRandom(`recommendation:${JSON.stringify(input)}`);
+  const ranked = rankCatalog(input).slice(0, 5);
+  if (ranked.length < MIN_RECOMMENDATIONS) {
+    throw new LlmConfigError(
+      `Offline mode knows too few places in ${getOriginCountry(input)} to recommend a domestic trip. Choose an international trip or set LLM_PROVIDER=openai.`,
+    );
+  }
+
+  return {
+    options: ranked.map((entry, index) => {
+      const vibeFit = Math.max(1, 9 - index + Math.round(random() * 10) / 10);
+      const affordability = Math.max(1, 10 - entry.costLevel + Math.round(random() * 10) / 10);
+      const safetyAccessibility = Math.min(10, 6 + Math.round(random() * 30) / 10);
+      const budgetFactor = 0.6 + entry.costLevel / 10;
+      const features = fabricateFeatures(input, entry);
+      const travelConvenience = scoreFlightHours(input, features.flight_hours);
+      return {
+        destination: entry.destination,
+        country: entry.country,
+        summary: `${entry.destination} pairs ${entry.settings
+          .map((setting) => SETTING_LABELS[setting].toLowerCase())
+          .join(" and ")} scenery with ${entry.focus.join(", ").toLowerCase()}.`,
+        estimated_budget: {
+          low: Math.round(input.budget_amount * budgetFactor * 0.8),
+          high: Math.round(input.budget_amount * budgetFactor * 1.1),
+          currency: input.currency,
+        },
+        metrics: {
+          vibe_fit: vibeFit,
+          affordability,
+          travel_convenience: travelConvenience,
+          safety_accessibility: safetyAccessibility,
+        },
+        metric_rationales: {
+          vibe_fit: `${entry.destination} matches ${
+            entry.settings.filter((setting) => input.setting_preference.includes(setting)).length
+          } of your preferred settings and ${
+            entry.focus.filter((focus) => input.excitement_focus.includes(focus)).length
+          } of your interests.`,
+          affordability: `Local prices sit at ${entry.costLevel}/10 on our cost scale.`,
+          travel_convenience: describeFlightTime(input, features.flight_hours),
+          safety_accessibility: `Established tourist infrastructure in ${entry.country}.`,
+        },
+        features,
+      };
+    }),
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function solidColorPng(width: number, height: number, rgb: [number, number, number]): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor RGB
+  const row = Buffer.alloc(1 + width * 3);
+  for (let x = 0; x < width; x++) {
+    row.set(rgb, 1 + x * 3);
+  }
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export function createLocalProvider(): LlmProvider {
+  return {
+    name: "local",
+
+    async completeJson(request: JsonCompletionRequest) {
+      switch (request.task) {
+        case "itinerary":
+          return JSON.stringify(fabricateTripResponse(request.input));
+        case "recommendation":
+          return JSON.stringify(fabricateRecommendations(request.input));
+        case "day":
+          return JSON.stringify(
+            fabricateReplacementDay(request.input, request.trip, request.day, request.guidance),
+          );
+      }
+    },
+
+    async *streamText(request: TextStreamRequest) {
+      if (request.task === "itinerary") {
+        const trip = fabricateTripResponse(request.input);
+        const lines = [
+          {
+            type: "overview",
+            trip_theme: trip.trip_theme,
+            destination: trip.destination,
+            why_it_matches_you: trip.why_it_matches_you,
+          },
+          ...trip.daily_itinerary.map((day) => ({ type: "day", ...day })),
+          {
+            type: "extras",
+            packing_list: trip.packing_list,
+            documents: trip.documents,
+            budget_breakdown: trip.budget_breakdown,
+          },
+        ];
+        for (const line of lines) {
+          const text = `${JSON.stringify(line)}\n`;
+          const middle = Math.ceil(text.length / 2);
+          yield text.slice(0, middle);
+          yield text.slice(middle);
+        }
+        return;
+      }
+
+      const lastUserMessage = [...request.messages].reverse().find((m) => m.role === "user");
+      const reply = `Offline mode is enabled, so this is a canned reply. You said: "${
+        lastUserMessage?.content.trim() || "nothing"
+      }"`;
+      for (const word of reply.split(/(?<= )/)) {
+        yield word;
+      }
+    },
+
+    async generateImage(prompt: string, size: ImageSize = "1024x1024") {
+      const [width, height] = size.split("x").map(Number);
+      const hash = hashString(prompt);
+      return solidColorPng(width, height, [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff]);
+    },
+
+    async transcribe(audio: Buffer, format: AudioInputFormat = "wav") {
+      return `[offline transcription unavailable: ${audio.length} bytes of ${format} audio]`;
+    },
+  };
+}
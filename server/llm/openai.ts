@@ -0,0 +1,91 @@
+import OpenAI, { toFile } from "openai";
+import { Buffer } from "node:buffer";
+import {
+  LlmConfigError,
+  type AudioInputFormat,
+  type ImageSize,
+  type JsonCompletionRequest,
+  type LlmProvider,
+  type TextStreamRequest,
+} from "./provider";
+
+export function cleanEnv(value?: string): string | undefined {
+  if (!value) return undefined;
+  return value
+    .trim()
+    .replace(/[\u00A0\u1680\u2000-\u200F\u2028\u2029\u202F\u205F\u3000]/g, "")
+    .replace(/^['"]|['"]$/g, "");
+}
+
+export function createOpenAiClient(): OpenAI {
+  const apiKey = cleanEnv(
+    process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+  );
+  const baseURL = cleanEnv(
+    process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || process.env.OPENAI_BASE_URL,
+  );
+
+  if (!apiKey) {
+    throw new LlmConfigError(
+      "OpenAI API key is missing. Set OPENAI_API_KEY (or AI_INTEGRATIONS_OPENAI_API_KEY) and restart the server, or set LLM_PROVIDER=local to run offline.",
+    );
+  }
+
+  return new OpenAI({ apiKey, baseURL });
+}
+
+export function createOpenAiProvider(): LlmProvider {
+  const client = createOpenAiClient();
+  const defaultModel = cleanEnv(process.env.OPENAI_MODEL) || "gpt-4o-mini";
+
+  return {
+    name: "openai",
+
+    async completeJson(request: JsonCompletionRequest) {
+      const response = await client.chat.completions.create({
+        model: defaultModel,
+        messages: request.messages,
+        response_format: { type: "json_object" },
+      });
+
+      const content = response.choices[0]?.message.content;
+      if (!content) {
+        throw new Error("Empty response from AI");
+      }
+      return content;
+    },
+
+    async *streamText(request: TextStreamRequest) {
+      const stream = await client.chat.completions.create({
+        model: request.model || defaultModel,
+        messages: request.messages,
+        stream: true,
+        max_completion_tokens: request.maxTokens,
+      });
+
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+      }
+    },
+
+    async generateImage(prompt: string, size: ImageSize = "1024x1024") {
+      const response = await client.images.generate({
+        model: "gpt-image-1",
+        prompt,
+        size,
+      });
+      const base64 = response.data?.[0]?.b64_json ?? "";
+      return Buffer.from(base64, "base64");
+    },
+
+    async transcribe(audio: Buffer, format: AudioInputFormat = "wav") {
+      const file = await toFile(audio, `audio.${format}`);
+      const response = await client.audio.transcriptions.create({
+        file,
+        model: "gpt-4o-mini-transcribe",
+      });
+      return response.text;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { Buffer } from "node:buffer";
+import type { TripRequest, TripResponse } from "@shared/schema";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ImageSize = "1024x1024" | "512x512" | "256x256";
+export type AudioInputFormat = "wav" | "mp3" | "webm";
+
+/**
+ * Every JSON completion names the task it serves so providers that do not
+ * read the prompt (the local provider) can still fabricate the right shape.
+ */
+export type JsonCompletionRequest =
+  | { task: "itinerary"; input: TripRequest; messages: LlmMessage[] }
+  | { task: "recommendation"; input: TripRequest; messages: LlmMessage[] }
+  | {
+      task: "day";
+      input: TripRequest;
+      trip: TripResponse;
+      day: number;
+      guidance?: string;
+      messages: LlmMessage[];
+    };
+
+type StreamOptions = {
+  model?: string;
+  maxTokens?: number;
+};
+
+export type TextStreamRequest =
+  | ({ task: "chat"; messages: LlmMessage[] } & StreamOptions)
+  | ({ task: "itinerary"; input: TripRequest; messages: LlmMessage[] } & StreamOptions);
+
+export interface LlmProvider {
+  readonly name: string;
+  completeJson(request: JsonCompletionRequest): Promise<string>;
+  streamText(request: TextStreamRequest): AsyncIterable<string>;
+  generateImage(prompt: string, size?: ImageSize): Promise<Buffer>;
+  transcribe(audio: Buffer, format?: AudioInputFormat): Promise<string>;
+}
+
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmConfigError";
+  }
+}
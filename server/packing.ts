@@ -0,0 +1,199 @@
+import type {
+  ActivityCategory,
+  ClimateNormals,
+  PackingList,
+  TripRequest,
+  TripResponse,
+} from "@shared/schema";
+import { toLookupKey } from "@shared/countries";
+
+// Weather bands, from the destination's monthly normals
+const HOT_HIGH_C = 28;
+const WARM_HIGH_C = 24;
+const HUMID_PCT = 75;
+const COLD_LOW_C = 5;
+const COOL_LOW_C = 12;
+const MILD_LOW_C = 18;
+const WET_RAINFALL_MM = 100;
+const LONG_DAYLIGHT_HOURS = 12;
+
+const MAX_TOPS = 14;
+const MAX_BOTTOMS = 7;
+// Model suggestions added on top of the baseline, per list
+const MAX_SUGGESTED_ITEMS = 6;
+
+// Model suggestions dropped when the destination will be cold
+const WARM_WEATHER_ITEMS = ["sandals", "flip flops", "sun hat", "shorts"];
+
+type Weather = {
+  hot: boolean;
+  warm: boolean;
+  humid: boolean;
+  cold: boolean;
+  cool: boolean;
+  // Nights cool enough for a light layer
+  mildNights: boolean;
+  wet: boolean;
+  sunny: boolean;
+};
+
+function readWeather(climate: ClimateNormals | undefined): Weather | undefined {
+  if (!climate) return undefined;
+  const warm = climate.avg_high_c >= WARM_HIGH_C;
+  return {
+    hot: climate.avg_high_c >= HOT_HIGH_C,
+    warm,
+    humid: warm && climate.humidity_pct >= HUMID_PCT,
+    cold: climate.avg_low_c <= COLD_LOW_C,
+    cool: climate.avg_low_c <= COOL_LOW_C,
+    mildNights: climate.avg_low_c <= MILD_LOW_C,
+    wet: climate.rainfall_mm >= WET_RAINFALL_MM,
+    sunny: warm || climate.daylight_hours >= LONG_DAYLIGHT_HOURS,
+  };
+}
+
+/** Days of clothing to carry: the whole trip, or one laundry cycle. */
+function getWearDays(input: Pick<TripRequest, "days" | "laundry_every_days">): number {
+  const days = Math.max(1, Math.round(input.days));
+  return input.laundry_every_days ? Math.min(days, input.laundry_every_days) : days;
+}
+
+function countClothes(input: TripRequest, weather: Weather | undefined): PackingList["clothes"] {
+  const wearDays = getWearDays(input);
+  // A spare top, plus extra changes when the heat and humidity mean changing mid-day
+  const sweatChanges = weather?.hot || weather?.humid ? Math.ceil(wearDays / 3) : 0;
+  const tops = Math.min(MAX_TOPS, wearDays + 1 + sweatChanges);
+  const bottoms = Math.min(MAX_BOTTOMS, Math.max(1, Math.ceil(wearDays / 2)));
+
+  // Without normals, one layer covers most trips
+  let outerwear = 1;
+  if (weather?.cold) outerwear = 2;
+  else if (weather && !weather.wet && !weather.mildNights) outerwear = 0;
+  return { tops, bottoms, outerwear };
+}
+
+// Quantities read as per traveler, so items everyone needs are marked rather than multiplied
+function perTraveler(label: string, people: number): string {
+  return people > 1 ? `${label} (one each)` : label;
+}
+
+/**
+ * A packing list worked out from the trip itself rather than the model:
+ * clothes counts from the days (or laundry cycle) and weather, and items for
+ * the climate, planned activities, food style and who is traveling. Clothes
+ * counts are per traveler, items each traveler needs say so, and shared items
+ * are listed once.
+ */
+export function buildBaselinePacking(input: TripRequest, trip: TripResponse): PackingList {
+  const weather = readWeather(trip.climate);
+  const people = input.number_of_people;
+  const categories = new Set<ActivityCategory>(
+    trip.daily_itinerary.flatMap((day) =>
+      [...day.plan.morning, ...day.plan.afternoon, ...day.plan.evening].map((activity) => activity.category),
+    ),
+  );
+  // Beach kit only when the destination is warm enough for it, or the weather is unknown
+  const beach = input.setting_preference.includes("beaches") && (!weather || weather.warm);
+  const isFamilyWithKids = input.companions === "Family with Kids";
+  const isSenior = input.companions === "Senior Citizen Friendly";
+
+  const shoes = [
+    "Comfortable walking shoes",
+    ...(categories.has("nature") || categories.has("adventure") ? ["Hiking shoes"] : []),
+    ...(weather?.wet ? ["Waterproof shoes"] : []),
+    ...(weather?.cold ? ["Insulated boots"] : []),
+    ...(weather?.warm || beach ? ["Sandals"] : []),
+    ...(input.food_personality === "fine_dining" || categories.has("nightlife")
+      ? ["Smart shoes for evenings"]
+      : []),
+  ];
+
+  const accessories = [
+    "Day backpack",
+    ...(weather?.sunny || beach ? ["Sunglasses", "Sun hat"] : []),
+    ...(weather?.cold ? ["Warm hat", "Gloves", "Scarf"] : weather?.cool ? ["Light scarf"] : []),
+    ...(weather?.wet ? ["Compact umbrella"] : []),
+    ...(beach || categories.has("wellness") ? [perTraveler("Swimwear", people)] : []),
+    ...(input.food_personality === "fine_dining" ? ["Dressy outfit for fine dining"] : []),
+  ];
+
+  const misc = [
+    "Phone charger",
+    ...(input.trip_type === "international" ? ["Travel adapter"] : []),
+    perTraveler("Reusable water bottle", people),
+    "Basic first-aid kit",
+    ...(weather?.sunny || beach ? ["Sunscreen"] : []),
+    ...(weather?.humid || (weather?.warm && weather.wet) ? ["Insect repellent"] : []),
+    ...(weather?.cold ? ["Lip balm and moisturiser"] : []),
+    ...(input.food_personality === "local_street_food" ? ["Hand sanitiser", "Digestive tablets"] : []),
+    ...(input.food_personality === "dietary_restrictions"
+      ? ["Dietary card in the local language", "Safe snacks for travel days"]
+      : []),
+    ...(isFamilyWithKids ? ["Kids' snacks and activity kit", "Children's medicines", "Wet wipes"] : []),
+    ...(isSenior ? ["Regular medicines with copies of prescriptions"] : []),
+    ...(categories.has("adventure") || beach ? ["Quick-dry towel"] : []),
+    ...(input.laundry_every_days ? ["Travel laundry kit"] : []),
+  ];
+
+  return { clothes: countClothes(input, weather), shoes, accessories, misc };
+}
+
+function toItemKey(label: string): string {
+  return toLookupKey(label).replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// "sunglasses" and "polarised sunglasses" are the same item; keep the more specific label
+function isSameItem(a: string, b: string): boolean {
+  return a === b || ` ${a} `.includes(` ${b} `) || ` ${b} `.includes(` ${a} `);
+}
+
+// The baseline is never cut; only the suggestions appended after it are capped
+function mergeItems(baseline: string[], suggested: string[], excluded: string[]): string[] {
+  const merged = [...baseline];
+  let added = 0;
+  suggested.forEach((label) => {
+    const key = toItemKey(label);
+    if (!key || excluded.some((item) => isSameItem(item, key))) return;
+    const match = merged.findIndex((existing) => isSameItem(toItemKey(existing), key));
+    if (match !== -1) {
+      if (key.length > toItemKey(merged[match]).length) merged[match] = label.trim();
+    } else if (added < MAX_SUGGESTED_ITEMS) {
+      merged.push(label.trim());
+      added += 1;
+    }
+  });
+  return merged;
+}
+
+/**
+ * Baseline first, then the model's suggestions that add something new and
+ * suit the weather. Clothes counts always come from the baseline.
+ */
+export function mergePackingLists(
+  baseline: PackingList,
+  suggested: PackingList,
+  climate?: ClimateNormals,
+): PackingList {
+  const excluded = readWeather(climate)?.cold ? WARM_WEATHER_ITEMS : [];
+  return {
+    clothes: baseline.clothes,
+    shoes: mergeItems(baseline.shoes, suggested.shoes, excluded),
+    accessories: mergeItems(baseline.accessories, suggested.accessories, excluded),
+    misc: mergeItems(baseline.misc, suggested.misc, excluded),
+  };
+}
+
+/**
+ * Replaces the model's packing list with the merged one; run after applyClimate.
+ * The model's list is kept aside the first time, so re-running after a day is
+ * regenerated drops baseline items the old activities called for. Trips saved
+ * before that was kept treat their merged list as the suggestions.
+ */
+export function applyPackingBaseline(trip: TripResponse, input: TripRequest): TripResponse {
+  const suggested = trip.suggested_packing_list ?? trip.packing_list;
+  return {
+    ...trip,
+    packing_list: mergePackingLists(buildBaselinePacking(input, trip), suggested, trip.climate),
+    suggested_packing_list: suggested,
+  };
+}
@@ -0,0 +1,312 @@
+import zlib from "zlib";
+import { HELVETICA, HELVETICA_BOLD, type FontMetrics } from "./data/font-metrics";
+
+export type PdfFont = "regular" | "bold";
+export type Rgb = [number, number, number];
+
+export type TextStyle = {
+  font?: PdfFont;
+  size?: number;
+  color?: Rgb;
+  // Extra left offset from the margin, in points
+  indent?: number;
+};
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+export const MARGIN = 56;
+const FOOTER_HEIGHT = 24;
+const FOOTER_SIZE = 8;
+const LINE_HEIGHT = 1.35;
+const DEFAULT_SIZE = 10.5;
+export const TEXT_COLOR: Rgb = [0.13, 0.13, 0.13];
+export const MUTED_COLOR: Rgb = [0.45, 0.45, 0.45];
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string; metrics: FontMetrics }> = {
+  regular: { resource: "F1", baseFont: "Helvetica", metrics: HELVETICA },
+  bold: { resource: "F2", baseFont: "Helvetica-Bold", metrics: HELVETICA_BOLD },
+};
+
+// Non-Latin-1 characters the standard fonts can print through WinAnsiEncoding, by byte
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+function stripAccents(char: string): string {
+  return char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * WinAnsi bytes for a string. Latin-1 characters (0xA0-0xFF) map to
+ * themselves; anything else falls back to its unaccented form, or "?" when
+ * there is none.
+ */
+function encodeWinAnsi(value: string): number[] {
+  return Array.from(value.normalize("NFC").replace(/\t/g, " ")).flatMap((char) => {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return [code];
+    if (WIN_ANSI_EXTRAS[char] !== undefined) return [WIN_ANSI_EXTRAS[char]];
+    if (code >= 0xa0 && code <= 0xff) return [code];
+    const plain = stripAccents(char);
+    return /^[\x20-\x7e]+$/.test(plain) ? Array.from(plain).map((c) => c.charCodeAt(0)) : [0x3f];
+  });
+}
+
+function charWidth(metrics: FontMetrics, code: number): number {
+  if (code >= 32 && code <= 126) return metrics.ascii[code - 32];
+  if (code >= 0xa0 && code <= 0xff) return metrics.latin1[code - 0xa0];
+  return metrics.extras[code] ?? 556;
+}
+
+export function measureText(value: string, font: PdfFont, size: number): number {
+  const metrics = FONTS[font].metrics;
+  const units = encodeWinAnsi(value).reduce((sum, code) => sum + charWidth(metrics, code), 0);
+  return (units * size) / 1000;
+}
+
+function toPdfString(value: string): string {
+  const escaped = encodeWinAnsi(value)
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : String.fromCharCode(code);
+    })
+    .join("");
+  return `(${escaped})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function rgb([r, g, b]: Rgb): string {
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+/**
+ * A minimal flowing-text PDF writer on the standard Helvetica fonts, so no
+ * font files or external services are needed. Text wraps at the margins and
+ * new pages start automatically; every page gets a title and page footer.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+  private cursorY = 0;
+
+  constructor(private readonly title: string) {}
+
+  get contentWidth(): number {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  get y(): number {
+    return this.cursorY;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.cursorY = PAGE_HEIGHT - MARGIN;
+  }
+
+  setY(y: number): void {
+    this.cursorY = y;
+  }
+
+  moveDown(points: number): void {
+    this.cursorY -= points;
+  }
+
+  /** Starts a new page unless `height` more points fit above the footer. */
+  ensureSpace(height: number): void {
+    if (!this.pages.length || this.cursorY - height < MARGIN + FOOTER_HEIGHT) this.addPage();
+  }
+
+  private draw(op: string): void {
+    if (!this.pages.length) this.addPage();
+    this.pages[this.pages.length - 1].push(op);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb): void {
+    this.draw(`${rgb(color)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number, color: Rgb = MUTED_COLOR): void {
+    this.draw(`${rgb(color)} RG 0.8 w ${num(x)} ${num(y)} ${num(width)} ${num(height)} re S`);
+  }
+
+  private textOp(x: number, y: number, value: string, style: TextStyle): string {
+    const { font = "regular", size = DEFAULT_SIZE, color = TEXT_COLOR } = style;
+    return `BT /${FONTS[font].resource} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(y)} Td ${toPdfString(value)} Tj ET`;
+  }
+
+  /** A single unwrapped line with its baseline at (x, y). */
+  textAt(x: number, y: number, value: string, style: TextStyle = {}): void {
+    this.draw(this.textOp(x, y, value, style));
+  }
+
+  wrap(value: string, font: PdfFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    value.split(/\r?\n/).forEach((paragraph) => {
+      let line = "";
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (measureText(candidate, font, size) <= width) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        // Words wider than the column are broken wherever they overflow
+        line = "";
+        Array.from(word).forEach((char) => {
+          if (line && measureText(line + char, font, size) > width) {
+            lines.push(line);
+            line = "";
+          }
+          line += char;
+        });
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  /** Wrapped text flowing down from the cursor. */
+  text(value: string, style: TextStyle = {}): void {
+    const { font = "regular", size = DEFAULT_SIZE, indent = 0 } = style;
+    const lineHeight = size * LINE_HEIGHT;
+    this.wrap(value, font, size, this.contentWidth - indent).forEach((line) => {
+      this.ensureSpace(lineHeight);
+      this.cursorY -= lineHeight;
+      this.textAt(MARGIN + indent, this.cursorY + (lineHeight - size) / 2, line, style);
+    });
+  }
+
+  heading(value: string, size = 16): void {
+    // Keep a heading with at least a few lines of what follows it
+    this.ensureSpace(size * LINE_HEIGHT + 60);
+    this.moveDown(size * 0.6);
+    this.text(value, { font: "bold", size });
+    this.moveDown(size * 0.3);
+  }
+
+  // Baseline of the next line of text in this size; markers are drawn first so they stay on its page
+  private nextBaseline(size: number): number {
+    const lineHeight = size * LINE_HEIGHT;
+    this.ensureSpace(lineHeight);
+    return this.cursorY - lineHeight + (lineHeight - size) / 2;
+  }
+
+  bullet(value: string, style: TextStyle = {}): void {
+    const { size = DEFAULT_SIZE, indent = 0 } = style;
+    this.textAt(MARGIN + indent + 2, this.nextBaseline(size), "•", style);
+    this.text(value, { ...style, indent: indent + 12 });
+  }
+
+  checkbox(value: string, style: TextStyle = {}, checked = false): void {
+    const { size = DEFAULT_SIZE, indent = 0 } = style;
+    const box = size * 0.8;
+    const x = MARGIN + indent;
+    const y = this.nextBaseline(size) - 1;
+    this.strokeRect(x, y, box, box);
+    if (checked) {
+      const tick = [
+        [x + box * 0.2, y + box * 0.5],
+        [x + box * 0.42, y + box * 0.22],
+        [x + box * 0.82, y + box * 0.85],
+      ];
+      this.draw(
+        `${rgb(TEXT_COLOR)} RG 1.2 w ${tick.map(([px, py], i) => `${num(px)} ${num(py)} ${i ? "l" : "m"}`).join(" ")} S`,
+      );
+    }
+    this.text(value, { ...style, indent: indent + 16 });
+  }
+
+  rule(color: Rgb = [0.85, 0.85, 0.85]): void {
+    this.moveDown(6);
+    const y = num(this.cursorY);
+    this.draw(`${rgb(color)} RG 0.6 w ${num(MARGIN)} ${y} m ${num(PAGE_WIDTH - MARGIN)} ${y} l S`);
+    this.moveDown(6);
+  }
+
+  private addFooters(): void {
+    const total = this.pages.length;
+    const style: TextStyle = { size: FOOTER_SIZE, color: MUTED_COLOR };
+    const y = MARGIN / 2;
+    this.pages.forEach((ops, i) => {
+      const pageNumber = `Page ${i + 1} of ${total}`;
+      const x = PAGE_WIDTH - MARGIN - measureText(pageNumber, "regular", FOOTER_SIZE);
+      ops.push(this.textOp(MARGIN, y, this.title, style), this.textOp(x, y, pageNumber, style));
+    });
+  }
+
+  toBuffer(now = new Date()): Buffer {
+    if (!this.pages.length) this.addPage();
+    this.addFooters();
+
+    const pageCount = this.pages.length;
+    const firstPageId = 6;
+    const objects: Array<string | Buffer> = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${firstPageId + i * 2} 0 R`).join(" ")}] /Count ${pageCount} >>`,
+      ...(["regular", "bold"] as PdfFont[]).map(
+        (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font].baseFont} /Encoding /WinAnsiEncoding >>`,
+      ),
+      `<< /Title ${toPdfString(this.title)} /Producer (Travel Taste Matcher) /CreationDate (${formatPdfDate(now)}) >>`,
+    ];
+    this.pages.forEach((ops, i) => {
+      const contentId = firstPageId + i * 2 + 1;
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`,
+      );
+      const stream = zlib.deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+      objects.push(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          stream,
+          Buffer.from("\nendstream", "latin1"),
+        ]),
+      );
+    });
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = chunks[0].length;
+    const offsets = objects.map((body, i) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+        typeof body === "string" ? Buffer.from(body, "latin1") : body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      chunks.push(chunk);
+      const start = offset;
+      offset += chunk.length;
+      return start;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((start) => `${String(start).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+      "",
+    ].join("\n");
+    chunks.push(Buffer.from(xref, "latin1"));
+    return Buffer.concat(chunks);
+  }
+}
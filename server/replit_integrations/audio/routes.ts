@@ -1,6 +1,7 @@
 import express, { type Express, type Request, type Response } from "express";
 import { chatStorage } from "../chat/storage";
-import { openai, speechToText, ensureCompatibleFormat } from "./client";
+import { LlmConfigError, requireOpenAiClient } from "../../llm";
+import { speechToText, ensureCompatibleFormat } from "./client";
 
 // Body parser with 50MB limit for audio payloads
 const audioBodyParser = express.json({ limit: "50mb" });
@@ -68,6 +69,8 @@ export function registerAudioRoutes(app: Express): void {
       if (!audio) {
         return res.status(400).json({ error: "Audio data (base64) is required" });
       }
+      // Checked up front so an unsupported provider fails before the message is saved
+      const openai = requireOpenAiClient("Voice chat");
 
       // 1. Auto-detect format and convert to OpenAI-compatible format
       const rawBuffer = Buffer.from(audio, "base64");
@@ -125,11 +128,12 @@ export function registerAudioRoutes(app: Express): void {
       res.end();
     } catch (error) {
       console.error("Error processing voice message:", error);
+      const message = error instanceof LlmConfigError ? error.message : "Failed to process voice message";
       if (res.headersSent) {
-        res.write(`data: ${JSON.stringify({ type: "error", error: "Failed to process voice message" })}\n\n`);
+        res.write(`data: ${JSON.stringify({ type: "error", error: message })}\n\n`);
         res.end();
       } else {
-        res.status(500).json({ error: "Failed to process voice message" });
+        res.status(500).json({ error: message });
       }
     }
   });
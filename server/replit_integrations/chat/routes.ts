@@ -1,12 +1,7 @@
 import type { Express, Request, Response } from "express";
-import OpenAI from "openai";
+import { getLlmProvider } from "../../llm";
 import { chatStorage } from "./storage";
 
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
-
 export function registerChatRoutes(app: Express): void {
   // Get all conversations
   app.get("/api/conversations", async (req: Request, res: Response) => {
@@ -80,22 +75,19 @@ export function registerChatRoutes(app: Express): void {
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
-      // Stream response from OpenAI
-      const stream = await openai.chat.completions.create({
-        model: "gpt-5.1",
+      // Stream response from the configured LLM provider
+      const stream = getLlmProvider().streamText({
+        task: "chat",
         messages: chatMessages,
-        stream: true,
-        max_completion_tokens: 2048,
+        model: "gpt-5.1",
+        maxTokens: 2048,
       });
 
       let fullResponse = "";
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
-        if (content) {
-          fullResponse += content;
-          res.write(`data: ${JSON.stringify({ content })}\n\n`);
-        }
+      for await (const content of stream) {
+        fullResponse += content;
+        res.write(`data: ${JSON.stringify({ content })}\n\n`);
       }
 
       // Save assistant message
@@ -1,27 +1,17 @@
 import fs from "node:fs";
-import OpenAI, { toFile } from "openai";
+import { toFile } from "openai";
 import { Buffer } from "node:buffer";
-
-export const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+import { getLlmProvider, requireOpenAiClient, type ImageSize } from "../../llm";
 
 /**
  * Generate an image and return as Buffer.
- * Uses gpt-image-1 model via Replit AI Integrations.
+ * Uses the configured LLM provider (gpt-image-1 when LLM_PROVIDER=openai).
  */
 export async function generateImageBuffer(
   prompt: string,
-  size: "1024x1024" | "512x512" | "256x256" = "1024x1024"
+  size: ImageSize = "1024x1024"
 ): Promise<Buffer> {
-  const response = await openai.images.generate({
-    model: "gpt-image-1",
-    prompt,
-    size,
-  });
-  const base64 = response.data[0]?.b64_json ?? "";
-  return Buffer.from(base64, "base64");
+  return getLlmProvider().generateImage(prompt, size);
 }
 
 /**
@@ -41,7 +31,7 @@ export async function editImages(
     )
   );
 
-  const response = await openai.images.edit({
+  const response = await requireOpenAiClient("Image editing").images.edit({
     model: "gpt-image-1",
     image: images,
     prompt,
@@ -1,3 +1,3 @@
 export { registerImageRoutes } from "./routes";
-export { openai, generateImageBuffer, editImages } from "./client";
+export { generateImageBuffer, editImages } from "./client";
 
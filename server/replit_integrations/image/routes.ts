@@ -1,5 +1,6 @@
 import type { Express, Request, Response } from "express";
-import { openai } from "./client";
+import type { ImageSize } from "../../llm";
+import { generateImageBuffer } from "./client";
 
 export function registerImageRoutes(app: Express): void {
   app.post("/api/generate-image", async (req: Request, res: Response) => {
@@ -10,17 +11,11 @@ export function registerImageRoutes(app: Express): void {
         return res.status(400).json({ error: "Prompt is required" });
       }
 
-      const response = await openai.images.generate({
-        model: "gpt-image-1",
-        prompt,
-        n: 1,
-        size: size as "1024x1024" | "512x512" | "256x256",
-      });
-
-      const imageData = response.data[0];
+      const b64Json = (await generateImageBuffer(prompt, size as ImageSize)).toString("base64");
+      // Providers return bytes, so `url` is a data URL that existing clients can still render
       res.json({
-        url: imageData.url,
-        b64_json: imageData.b64_json,
+        url: `data:image/png;base64,${b64Json}`,
+        b64_json: b64Json,
       });
     } catch (error) {
       console.error("Error generating image:", error);
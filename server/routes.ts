@@ -3,62 +3,69 @@ import type { Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
 import { z } from "zod";
-import OpenAI from "openai";
-import { destinationRecommendationResponseSchema } from "@shared/schema";
-
-function cleanEnv(value?: string): string | undefined {
-  if (!value) return undefined;
-  return value
-    .trim()
-    .replace(/[\u00A0\u1680\u2000-\u200F\u2028\u2029\u202F\u205F\u3000]/g, "")
-    .replace(/^['"]|['"]$/g, "");
-}
-
-const currencyStrengthGuidanceMap: Record<string, "weak" | "medium" | "strong"> = {
-  USD: "strong",
-  EUR: "strong",
-  GBP: "strong",
-  AUD: "medium",
-  CAD: "medium",
-  INR: "weak",
-  JPY: "weak",
-};
-
-const COUNTRY_ALIASES: Record<string, string> = {
-  "The Netherlands": "Netherlands",
-  Holland: "Netherlands",
-  "United States of America": "United States",
-  USA: "United States",
-  "U.S.A.": "United States",
-  UK: "United Kingdom",
-  "U.K.": "United Kingdom",
-  UAE: "United Arab Emirates",
-};
-
-const nearbyValueDestinationsByCountry: Record<string, string[]> = {
-  Netherlands: ["Belgium", "Germany", "Portugal", "Czech Republic"],
-  India: ["Sri Lanka", "Thailand", "Vietnam", "Nepal"],
-  Australia: ["Bali (Indonesia)", "Auckland (New Zealand)", "Fiji", "Vietnam"],
-  "New Zealand": ["Australia (East Coast)", "Fiji", "Bali (Indonesia)", "Vietnam"],
-  "United States": ["Mexico", "Costa Rica", "Dominican Republic", "Colombia"],
-  Canada: ["Mexico", "Costa Rica", "Portugal", "Dominican Republic"],
-  "United Kingdom": ["Portugal", "Spain", "Turkey", "Morocco"],
-  Singapore: ["Malaysia", "Thailand", "Vietnam", "Indonesia"],
-  Japan: ["South Korea", "Taiwan", "Thailand", "Vietnam"],
-};
-
-function normalizeCountryName(country?: string): string | undefined {
-  if (!country) return undefined;
-  const trimmed = country.trim();
-  if (!trimmed) return undefined;
-  return COUNTRY_ALIASES[trimmed] || trimmed;
-}
-
-function getCountryFromLocation(location: string): string | undefined {
-  const parts = location.split(",").map((part) => part.trim()).filter(Boolean);
-  if (!parts.length) return undefined;
-  return normalizeCountryName(parts[parts.length - 1]);
-}
+import {
+  TRIP_SCHEMA_VERSION,
+  activityCategorySchema,
+  destinationRecommendationResponseSchema,
+  insertTripSchema,
+  type DailyPlan,
+  type StoredTrip,
+  type Trip,
+  type TripRequest,
+  type TripResponse,
+  type TripStreamEvent,
+} from "@shared/schema";
+import {
+  applyBudgetCheck,
+  buildRepairPrompt,
+  checkBudgetBreakdown,
+  completeDayWithRetries,
+  completeTripWithRetries,
+  parseTripStreamLine,
+  validateTripContent,
+  validateTripPayload,
+} from "./trip-validation";
+import { LlmConfigError, getLlmProvider } from "./llm";
+import { getExchangeRates } from "./exchange-rates";
+import { locateCountry, searchCities, suggestLocations } from "./geocoding";
+import {
+  describeFlightTime,
+  estimateFlightHours,
+  locateDestination,
+  locateOrigin,
+} from "./flight-time";
+import { applyConstraintCheck, buildConstraintRepairPrompt } from "./trip-constraints";
+import { applyEntryRequirements } from "./entry-rules";
+import {
+  applyClimate,
+  buildClimateHints,
+  formatClimate,
+  getClimateNormals,
+  getTravelMonth,
+  monthName,
+} from "./climate";
+import { buildTripCalendar } from "./calendar";
+import { renderTripPdf } from "./trip-pdf";
+import { applyPackingBaseline } from "./packing";
+import { buildTripExport, renderTripMarkdown } from "./trip-export";
+import { applySeasonality, checkSeasonality, getSeasonalityPenalty, getTripMonths } from "./seasonality";
+import {
+  buildFeaturesTemplate,
+  explainCompositeScore,
+  formatV3Weights,
+  normalizeDestinationFeatures,
+  scoreDestination,
+} from "./scoring";
+import { estimateBudget, inferTripType } from "@shared/budget";
+import { CURRENCIES, getCurrencyStrength } from "@shared/currencies";
+import {
+  findCountry,
+  findCountryInLocation,
+  getCountryByCode,
+  getCountryFromLocation,
+  getNearbyValueCountries,
+  toLookupKey,
+} from "@shared/countries";
 
 function toBoundedScore(value: unknown): number {
   const num = typeof value === "number" ? value : Number(value);
@@ -66,11 +73,19 @@ function toBoundedScore(value: unknown): number {
   return Math.max(1, Math.min(10, Number(num.toFixed(1))));
 }
 
+/**
+ * Coerces model output and ranks it with the V3 scoring engine; the model's own
+ * total_score is ignored so rankings depend only on the feature vectors.
+ */
 function normalizeRecommendationPayload(
   payload: unknown,
-  currency: string,
+  input: TripRequest,
 ): { options: Array<Record<string, unknown>> } {
+  const currency = input.currency;
   const data = payload as { options?: Array<Record<string, unknown>> };
+  const origin = locateOrigin(input);
+  const travelMonth = getTravelMonth(input);
+  const tripMonths = getTripMonths(input);
   const options = (data.options || [])
     .slice(0, 6)
     .map((option) => {
@@ -78,27 +93,47 @@ function normalizeRecommendationPayload(
       const estimatedBudget = (option.estimated_budget || {}) as Record<string, unknown>;
       const vibeFit = toBoundedScore(metrics.vibe_fit);
       const affordability = toBoundedScore(metrics.affordability);
-      const travelConvenience = toBoundedScore(metrics.travel_convenience);
       const safetyAccessibility = toBoundedScore(metrics.safety_accessibility);
-      const totalScoreRaw = metrics.total_score;
-      const totalScore =
-        typeof totalScoreRaw === "number" && Number.isFinite(totalScoreRaw)
-          ? toBoundedScore(totalScoreRaw)
-          : toBoundedScore(
-              (vibeFit + affordability + travelConvenience + safetyAccessibility) / 4,
-            );
+      const rationales = (option.metric_rationales || {}) as Record<string, unknown>;
+      const features = normalizeDestinationFeatures(option.features);
+      const destinationPoint = locateDestination(
+        String(option.destination || ""),
+        String(option.country || ""),
+      );
+      // Measured flight time replaces the model's guess so geography scoring can be trusted
+      const flightHours =
+        origin && destinationPoint ? estimateFlightHours(origin, destinationPoint) : undefined;
+      if (flightHours !== undefined) features.flight_hours = flightHours;
+      const score = scoreDestination(input, features);
+      const climate = destinationPoint && getClimateNormals(destinationPoint, travelMonth);
+      const seasonalityWarnings = checkSeasonality(
+        findCountry(String(option.country || ""))?.code || climate?.country_code,
+        destinationPoint,
+        tripMonths,
+        input,
+        climate,
+      );
+      const seasonalityPenalty = getSeasonalityPenalty(seasonalityWarnings);
+      const totalScore = Math.max(1, Number((score.total - seasonalityPenalty).toFixed(1)));
+      const budgetLow = Math.max(0, Number(estimatedBudget.low || 0));
+      const budgetHigh = Math.max(budgetLow, Number(estimatedBudget.high || 0));
+      const budgetCurrency = String(estimatedBudget.currency || currency);
+      // The model's convenience score and text describe its own flight guess, so both follow the estimate
+      const travelConvenience =
+        flightHours !== undefined ? score.breakdown.geography : toBoundedScore(metrics.travel_convenience);
+      const travelConvenienceRationale =
+        flightHours !== undefined
+          ? describeFlightTime(input, flightHours)
+          : normalizeRationale(rationales.travel_convenience);
 
       return {
         destination: String(option.destination || ""),
         country: String(option.country || ""),
         summary: String(option.summary || ""),
         estimated_budget: {
-          low: Math.max(0, Number(estimatedBudget.low || 0)),
-          high: Math.max(
-            Math.max(0, Number(estimatedBudget.low || 0)),
-            Number(estimatedBudget.high || 0),
-          ),
-          currency: String(estimatedBudget.currency || currency),
+          low: budgetLow,
+          high: budgetHigh,
+          currency: budgetCurrency,
         },
         metrics: {
           vibe_fit: vibeFit,
@@ -107,6 +142,28 @@ function normalizeRecommendationPayload(
           safety_accessibility: safetyAccessibility,
           total_score: totalScore,
         },
+        metric_rationales: {
+          vibe_fit: normalizeRationale(rationales.vibe_fit),
+          affordability:
+            normalizeRationale(rationales.affordability) ||
+            `Estimated ${budgetLow}-${budgetHigh} ${budgetCurrency} against a budget of ${input.budget_amount} ${input.currency}.`,
+          travel_convenience: travelConvenienceRationale,
+          safety_accessibility: normalizeRationale(rationales.safety_accessibility),
+          total_score: seasonalityPenalty
+            ? `${explainCompositeScore(score.breakdown)} Lowered by ${seasonalityPenalty} for ${seasonalityWarnings
+                .map((warning) => warning.risk.replace("_", " "))
+                .join(", ")} during the trip dates.`
+            : explainCompositeScore(score.breakdown),
+        },
+        score_breakdown: score.breakdown,
+        estimated_flight_hours: flightHours,
+        exceeds_flight_limit:
+          flightHours !== undefined && input.max_flight_hours
+            ? flightHours > input.max_flight_hours
+            : undefined,
+        climate,
+        seasonality_warnings: seasonalityWarnings,
+        seasonality_penalty: seasonalityPenalty,
       };
     })
     .sort((a, b) => {
@@ -118,18 +175,23 @@ function normalizeRecommendationPayload(
   return { options };
 }
 
+function normalizeRationale(value: unknown): string {
+  return typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+}
+
 function normalizeText(value?: string): string {
   return (value || "").trim().toLowerCase().replace(/\s+/g, " ");
 }
 
-const PAST_TRIP_TO_COUNTRY: Record<string, string> = {
-  bali: "indonesia",
-  phuket: "thailand",
-  krabi: "thailand",
-  kyoto: "japan",
-  osaka: "japan",
-  paris: "france",
-  dubai: "united arab emirates",
+// Cities travelers commonly name as a past trip; countries resolve through the registry
+const PAST_TRIP_TO_COUNTRY_CODE: Record<string, string> = {
+  bali: "ID",
+  phuket: "TH",
+  krabi: "TH",
+  kyoto: "JP",
+  osaka: "JP",
+  paris: "FR",
+  dubai: "AE",
 };
 
 function isPastTripMatch(
@@ -142,8 +204,13 @@ function isPastTripMatch(
   const country = normalizeText(String(option.country || ""));
   if (!destination && !country) return false;
   if (past === destination || past === country) return true;
-  const mappedCountry = PAST_TRIP_TO_COUNTRY[past];
-  if (mappedCountry && country === mappedCountry) return true;
+  const pastCountry =
+    findCountry(pastTripLoved) ||
+    findCountryInLocation(pastTripLoved || "") ||
+    getCountryByCode(PAST_TRIP_TO_COUNTRY_CODE[past] || "");
+  if (pastCountry && findCountry(String(option.country || ""))?.code === pastCountry.code) {
+    return true;
+  }
   return (
     destination.includes(past) ||
     country.includes(past) ||
@@ -152,93 +219,104 @@ function isPastTripMatch(
   );
 }
 
+/**
+ * Drops repeats of the traveler's past trip and moves options over the flight
+ * limit behind those within it, shortest flight first, so they only appear
+ * when there are not enough compliant options to fill the response.
+ */
 function diversifyRecommendations(
   normalized: { options: Array<Record<string, unknown>> },
-  pastTripLoved?: string,
+  input: TripRequest,
 ): { options: Array<Record<string, unknown>> } {
   const nonMatching = normalized.options.filter(
-    (option) => !isPastTripMatch(pastTripLoved, option),
+    (option) => !isPastTripMatch(input.past_trip_loved, option),
   );
-  const diversified = nonMatching.slice(0, 3);
+  const withinLimit = nonMatching.filter((option) => !option.exceeds_flight_limit);
+  const overLimit = nonMatching
+    .filter((option) => option.exceeds_flight_limit)
+    .sort(
+      (a, b) => (a.estimated_flight_hours as number) - (b.estimated_flight_hours as number),
+    );
+  const diversified = [...withinLimit, ...overLimit].slice(0, 3);
   return { options: diversified };
 }
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  app.get("/api/location-suggestions", async (req, res) => {
-    try {
-      const query = String(req.query.query || "").trim();
-      if (query.length < 2) {
-        return res.json({ suggestions: [] });
-      }
+const ITINERARY_VALIDATION_FAILED_MESSAGE =
+  "The AI returned an itinerary that could not be validated. Please try again.";
 
-      const response = await fetch(
-        `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=8&language=en&format=json`,
-      );
+const ACTIVITY_FORMAT = `
+Each ACTIVITY is an object:
+{"start_time": "HH:MM (24-hour)", "duration_minutes": 90, "title": "", "place_name": "", "category": "${activityCategorySchema.options.join(" | ")}", "estimated_cost": 0, "booking_required": false, "notes": ""}
+- estimated_cost is per person in the budget currency (0 if free).
+- List a slot's activities in start_time order; every slot needs at least one activity.
+`;
 
-      if (!response.ok) {
-        return res.json({ suggestions: [] });
-      }
+const BUDGET_BREAKDOWN_TEMPLATE =
+  '{"flights": 0, "lodging_per_night": 0, "food_per_day": 0, "activities": 0, "local_transport": 0, "buffer": 0}';
 
-      const data = (await response.json()) as {
-        results?: Array<{
-          name?: string;
-          country?: string;
-          country_code?: string;
-        }>;
-      };
-      const countryDisplay = new Intl.DisplayNames(["en"], { type: "region" });
-
-      const suggestions = (data.results || [])
-        .filter((result) => result.name && result.country)
-        .map((result) => {
-          const city = result.name as string;
-          const canonicalCountry = normalizeCountryName(
-            result.country_code ? countryDisplay.of(result.country_code) || result.country : result.country,
-          ) as string;
-          const displayName = `${city}, ${canonicalCountry}`;
-          const country = canonicalCountry;
-          return { city, country, displayName };
-        })
-        .filter(
-          (suggestion, index, arr) =>
-            arr.findIndex((s) => s.displayName === suggestion.displayName) === index,
-        );
+const BUDGET_BREAKDOWN_FORMAT = `
+budget_breakdown amounts are realistic estimates for the WHOLE group in the budget currency:
+- flights: return flights for everyone (estimate them even if the budget excludes flights)
+- lodging_per_night and food_per_day: per night / per day for the group
+- activities and local_transport: totals for the trip
+- buffer: contingency for the trip
+`;
 
-      return res.json({ suggestions });
-    } catch (error) {
-      console.error("Location suggestion fetch failed:", error);
-      return res.json({ suggestions: [] });
+const ITINERARY_JSON_FORMAT = `
+Respond ONLY in valid JSON using the following schema:
+{
+  "trip_theme": "",
+  "destination": "",
+  "why_it_matches_you": [],
+  "daily_itinerary": [
+    {
+      "day": 1,
+      "energy_level": "low | medium | high",
+      "plan": {
+        "morning": [ACTIVITY],
+        "afternoon": [ACTIVITY],
+        "evening": [ACTIVITY]
+      }
     }
-  });
+  ],
+  "packing_list": {
+    "clothes": {
+      "tops": 0,
+      "bottoms": 0,
+      "outerwear": 0
+    },
+    "shoes": [],
+    "accessories": [],
+    "misc": []
+  },
+  "documents": [],
+  "budget_breakdown": ${BUDGET_BREAKDOWN_TEMPLATE}
+}
 
-  app.post(api.trips.generate.path, async (req, res) => {
-    try {
-      const input = api.trips.generate.input.parse(req.body);
-      const openAiApiKey = cleanEnv(
-        process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
-      );
-      const openAiBaseUrl = cleanEnv(
-        process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || process.env.OPENAI_BASE_URL,
-      );
-      const model = cleanEnv(process.env.OPENAI_MODEL) || "gpt-4o-mini";
+${ACTIVITY_FORMAT}
+${BUDGET_BREAKDOWN_FORMAT}
+Do NOT include explanations or markdown.
+`;
 
-      if (!openAiApiKey) {
-        return res.status(500).json({
-          message:
-            "OpenAI API key is missing. Set OPENAI_API_KEY (or AI_INTEGRATIONS_OPENAI_API_KEY) and restart the server.",
-        });
-      }
+const ITINERARY_JSON_LINES_FORMAT = `
+Respond ONLY with JSON Lines: one complete JSON object per line, in this order.
+Do NOT wrap the lines in an array, code fences or markdown.
 
-      const openai = new OpenAI({
-        apiKey: openAiApiKey,
-        baseURL: openAiBaseUrl,
-      });
-      const seniorCitizenGuidance =
-        input.companions === "Senior Citizen Friendly"
-          ? `
+Line 1 (overview):
+{"type": "overview", "trip_theme": "", "destination": "", "why_it_matches_you": []}
+
+Then one line per day, in day order, starting at day 1:
+{"type": "day", "day": 1, "energy_level": "low | medium | high", "plan": {"morning": [ACTIVITY], "afternoon": [ACTIVITY], "evening": [ACTIVITY]}}
+
+Final line (extras):
+{"type": "extras", "packing_list": {"clothes": {"tops": 0, "bottoms": 0, "outerwear": 0}, "shoes": [], "accessories": [], "misc": []}, "documents": [], "budget_breakdown": ${BUDGET_BREAKDOWN_TEMPLATE}}
+${ACTIVITY_FORMAT}
+${BUDGET_BREAKDOWN_FORMAT}`;
+
+function buildItineraryPrompt(input: TripRequest, responseFormat: string): string {
+  const seniorCitizenGuidance =
+    input.companions === "Senior Citizen Friendly"
+      ? `
 Additional constraints for senior travelers:
 - Prioritize senior-friendly destinations with strong accessibility infrastructure.
 - Prefer minimal walking distances, lower physical strain, and frequent rest breaks.
@@ -246,53 +324,88 @@ Additional constraints for senior travelers:
 - Recommend accessible transportation and accommodation options.
 - Include practical health/safety and mobility considerations in the itinerary.
 `
-          : "";
-      const originCountry = getCountryFromLocation(input.location);
-      const destinationCountry = input.destination_location
-        ? getCountryFromLocation(input.destination_location)
-        : undefined;
-      const inferredTripType =
-        input.trip_goal === "know_destination" && originCountry && destinationCountry
-          ? originCountry.toLowerCase() === destinationCountry.toLowerCase()
-            ? "domestic"
-            : "international"
-          : input.trip_type;
-      const nearbyValueOptions = nearbyValueDestinationsByCountry[originCountry || ""] || [];
-      const nearbyValueOptionsText = nearbyValueOptions.length
-        ? nearbyValueOptions.join(", ")
-        : "nearby value destinations in the same broad region";
-      const tripTypeGuidance =
-        inferredTripType === "domestic"
-          ? `
+      : "";
+  const origin =
+    (input.origin_place && getCountryByCode(input.origin_place.country_code)) ||
+    findCountryInLocation(input.location);
+  const originCountry = input.origin_place ? origin?.name : getCountryFromLocation(input.location);
+  const destinationCountry = input.destination_place
+    ? getCountryByCode(input.destination_place.country_code)?.name
+    : input.destination_location
+      ? getCountryFromLocation(input.destination_location)
+      : undefined;
+  const inferredTripType =
+    input.trip_goal === "know_destination" ? inferTripType(input) : input.trip_type;
+  const nearbyValueOptions = origin ? getNearbyValueCountries(origin).map((country) => country.name) : [];
+  const nearbyValueOptionsText = nearbyValueOptions.length
+    ? nearbyValueOptions.join(", ")
+    : "nearby value destinations in the same broad region";
+  const tripTypeGuidance =
+    inferredTripType === "domestic"
+      ? `
 Trip type requirement:
 - User wants a domestic trip.
 - Destination MUST be inside the same country as the starting location.
 `
-          : `
+      : `
 Trip type requirement:
 - User wants an international trip.
 - Destination MUST be outside the starting location country.
 - Prefer geographically closer regions from the starting location before long-haul options, unless budget clearly supports long-haul.
 - Since user is a citizen of the starting location country, include relevant visa/entry reminders.
 `;
-      const hasExplicitDestination =
-        !!input.destination_location && input.destination_location.trim().length > 0;
-      const currencyStrength = currencyStrengthGuidanceMap[input.currency] || "medium";
-      const destinationPlanningGuidance =
-        hasExplicitDestination
-          ? `
+  const hasExplicitDestination =
+    !!input.destination_location && input.destination_location.trim().length > 0;
+  const currencyStrength = getCurrencyStrength(input.currency, getExchangeRates());
+  const destinationPlanningGuidance =
+    hasExplicitDestination
+      ? `
 Destination planning mode:
 - User already selected destination: ${input.destination_location}
 - Do NOT change destination. Build the itinerary specifically for this destination.
 - Optimize travel plan, activities, and pacing for this exact destination based on user vibe/persona.
 `
-          : `
+      : `
 Destination recommendation mode:
 - User wants destination suggestions.
 - Recommend ONE destination that best fits budget, trip type, and preferences.
 `;
+  const travelMonth = getTravelMonth(input);
+  const destinationPoint = hasExplicitDestination
+    ? input.destination_place || searchCities(input.destination_location!, 1)[0]
+    : undefined;
+  const destinationClimate = destinationPoint && getClimateNormals(destinationPoint, travelMonth);
+  const seasonalityWarnings = hasExplicitDestination
+    ? checkSeasonality(
+        input.destination_place?.country_code || locateCountry(input.destination_location!)?.code,
+        destinationPoint,
+        getTripMonths(input),
+        input,
+        destinationClimate,
+      )
+    : [];
+  const climateHints = hasExplicitDestination ? "" : buildClimateHints(input, travelMonth);
+  const expectedWeather = [
+    ...(destinationClimate
+      ? [`${input.destination_location} in ${monthName(travelMonth)} is usually ${formatClimate(destinationClimate)}.`]
+      : []),
+    ...seasonalityWarnings.map((warning) => warning.message),
+  ];
+  const climateGuidance = expectedWeather.length
+    ? `
+Expected weather:
+${expectedWeather.map((line) => `- ${line}`).join("\n")}
+- Plan around it: indoor alternatives on wet days, shade and midday breaks in the heat, warm layers in the packing list when it is cold, and early bookings in peak season.
+`
+    : climateHints
+      ? `
+Expected weather:
+- Pick a destination whose ${monthName(travelMonth)} weather suits the setting preference.
+${climateHints}
+`
+      : "";
 
-      const prompt = `
+  return `
 You are a travel planner AI that designs trips based on personality and vibe.
 
 User preferences:
@@ -321,6 +434,7 @@ Detected origin country: ${originCountry || "Unknown"}
 Detected destination country: ${destinationCountry || "Unknown"}
 Nearby value destinations from this origin: ${nearbyValueOptionsText}
 Traveling with: ${input.companions}
+Laundry during the trip: ${input.laundry_every_days ? `every ${input.laundry_every_days} days` : "none"}
 
 Generate a personalized travel plan.
 
@@ -328,74 +442,168 @@ Requirements:
 ${hasExplicitDestination ? "Use the provided destination and keep itinerary realistic for that destination." : "Pick ONE destination that best fits the given inputs and budget."}
 Create a trip theme name.
 Match daily pace and comfort preferences.
-Include a realistic packing list.
+Include a realistic packing list. Clothes counts are recalculated from trip length, weather and laundry, so focus shoes, accessories and misc on items specific to this destination and plan.
 Add general document reminders (passport, ID, visas if international).
-Each itinerary item MUST include a specific time (e.g., "09:00 AM", "02:30 PM").
+Each itinerary activity MUST include a specific start_time (e.g., "09:00", "14:30").
 Use the selected budget currency strength when deciding destination affordability.
 If budget currency is weak, bias toward better-value destinations and cost-efficient routing.
 If budget currency is strong, wider destination options are acceptable but still stay realistic.
 Respect whether flights are included in budget.
+Keep the plan within the stated budget; budget_breakdown must reflect the activities you schedule.
 Respect max flight duration when selecting/confirming destination and daily plan feasibility.
 Do not assume proximity to any specific country solely from the chosen currency; use starting location geography and trip type first.
 Use this V3 scoring model while planning and prioritizing itinerary choices:
-- Emotion Index (20%)
-- Pace Index (15%)
-- Interest Vector (20%)
-- Comfort/Risk Index (10%)
-- Geography Bias (10%)
-- Food Index (10%)
-- Social Index (5%)
-- Budget Tier (5%)
-- Historical Behavior Fit (5%)
+${formatV3Weights()}
 ${seniorCitizenGuidance}
 ${tripTypeGuidance}
 ${destinationPlanningGuidance}
+${climateGuidance}
+${responseFormat}
+`;
+}
 
-Respond ONLY in valid JSON using the following schema:
-{
-  "trip_theme": "",
-  "destination": "",
-  "why_it_matches_you": [],
-  "daily_itinerary": [
-    {
-      "day": 1,
-      "energy_level": "low | medium | high",
-      "plan": {
-        "morning": "TIMED PLAN (e.g., 09:00 AM - Activity...)",
-        "afternoon": "TIMED PLAN (e.g., 01:00 PM - Activity...)",
-        "evening": "TIMED PLAN (e.g., 07:00 PM - Activity...)"
-      }
-    }
-  ],
-  "packing_list": {
-    "clothes": {
-      "tops": 0,
-      "bottoms": 0,
-      "outerwear": 0
-    },
-    "shoes": [],
-    "accessories": [],
-    "misc": []
-  },
-  "documents": []
+function formatDayForPrompt(day: DailyPlan | undefined): string {
+  return day ? JSON.stringify(day) : "None";
 }
 
+function buildDayRegenerationPrompt(
+  input: TripRequest,
+  trip: TripResponse,
+  dayNumber: number,
+  guidance?: string,
+): string {
+  const findDay = (day: number) => trip.daily_itinerary.find((entry) => entry.day === day);
+  const seniorCitizenGuidance =
+    input.companions === "Senior Citizen Friendly"
+      ? "- Keep walking distances short, include rest breaks and avoid late-night or physically intensive activities.\n"
+      : "";
+
+  return `
+You are a travel planner AI revising ONE day of an existing itinerary.
+
+Trip: ${trip.trip_theme} in ${trip.destination} (${trip.daily_itinerary.length} days, ${input.startDate} to ${input.endDate})
+Traveling with: ${input.companions} (${input.number_of_people} people)
+Comfort level: ${input.comfort_level}
+Ideal daily pace: ${input.daily_pace}
+Excitement focus: ${input.excitement_focus.join(", ")}
+Food personality: ${input.food_personality}
+Budget: ${input.budget_amount} ${input.currency} (${input.budget_mindset})
+
+Previous day: ${formatDayForPrompt(findDay(dayNumber - 1))}
+Day to replace: ${formatDayForPrompt(findDay(dayNumber))}
+Next day: ${formatDayForPrompt(findDay(dayNumber + 1))}
+
+Traveler guidance for the new day: ${guidance || "None - offer a fresh alternative"}
+
+Requirements:
+- Replace day ${dayNumber} with a different plan that follows the guidance.
+- Stay in ${trip.destination} and keep it consistent with the previous and next day (no repeated activities, realistic travel between them).
+${seniorCitizenGuidance}
+Respond ONLY in valid JSON using the following schema:
+{"day": ${dayNumber}, "energy_level": "low | medium | high", "plan": {"morning": [ACTIVITY], "afternoon": [ACTIVITY], "evening": [ACTIVITY]}}
+${ACTIVITY_FORMAT}
 Do NOT include explanations or markdown.
 `;
+}
 
-      const response = await openai.chat.completions.create({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-      });
+/** Server-side checks and reference data layered onto every newly generated plan. */
+function finalizeTrip(trip: TripResponse, input: TripRequest): TripResponse {
+  const checked = applyEntryRequirements(applyBudgetCheck(trip, input), input);
+  return applyPackingBaseline(applySeasonality(applyClimate(checked, input), input), input);
+}
+
+function toStoredTrip(trip: Trip): StoredTrip {
+  return { ...trip, createdAt: trip.createdAt.toISOString() };
+}
+
+// "lisbon-portugal-plan.pdf"; the slug keeps Content-Disposition ASCII-safe
+function toExportFilename(trip: StoredTrip, suffix: string): string {
+  const slug = toLookupKey(trip.response.destination).replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "trip"}-${suffix}`;
+}
+
+function getGenerationErrorMessage(err: unknown): string {
+  if (err instanceof LlmConfigError) {
+    return err.message;
+  }
+
+  const apiError = err as {
+    status?: number;
+    code?: string;
+    type?: string;
+    message?: string;
+    error?: {
+      code?: string;
+      type?: string;
+      message?: string;
+    };
+  };
+  const errorCode = apiError.code || apiError.error?.code;
+  const errorType = apiError.type || apiError.error?.type;
+  const errorMessage = apiError.message || apiError.error?.message;
+
+  if (apiError.status === 401 || errorCode === "invalid_api_key") {
+    return "Invalid OpenAI API key. Update OPENAI_API_KEY (or AI_INTEGRATIONS_OPENAI_API_KEY) and restart the server.";
+  }
+
+  if (apiError.status === 404 || errorCode === "model_not_found") {
+    return "Configured OpenAI model is unavailable. Set OPENAI_MODEL to an accessible model (e.g. gpt-4o-mini).";
+  }
+
+  if (
+    apiError.status === 429 ||
+    errorCode === "insufficient_quota" ||
+    errorType === "insufficient_quota"
+  ) {
+    return "OpenAI quota exceeded for this API key. Add billing/credits in your OpenAI account and retry.";
+  }
+
+  if (apiError.status === 400 && errorMessage) {
+    return `OpenAI request failed: ${errorMessage}`;
+  }
+
+  if (errorMessage) {
+    return `Generation failed: ${errorMessage}`;
+  }
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error("Empty response from AI");
+  return "Failed to generate itinerary";
+}
+
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  app.get(api.locations.suggest.path, async (req, res) => {
+    try {
+      const query = String(req.query.query || "").trim();
+      if (query.length < 2) {
+        return res.json({ suggestions: [] });
+      }
+      return res.json({ suggestions: await suggestLocations(query) });
+    } catch (error) {
+      console.error("Location suggestion lookup failed:", error);
+      return res.json({ suggestions: [] });
+    }
+  });
+
+  app.post(api.trips.generate.path, async (req, res) => {
+    try {
+      const input = api.trips.generate.input.parse(req.body);
+      const llm = getLlmProvider();
+      const prompt = buildItineraryPrompt(input, ITINERARY_JSON_FORMAT);
+      const result = await completeTripWithRetries(llm, input, [{ role: "user", content: prompt }]);
+      if (result.success) {
+        const trip = await storage.createTrip({
+          request: input,
+          response: finalizeTrip(result.data, input),
+        });
+        return res.json(toStoredTrip(trip));
       }
 
-      const result = JSON.parse(content);
-      res.json(result);
+      return res.status(502).json({
+        message: ITINERARY_VALIDATION_FAILED_MESSAGE,
+        issues: result.issues,
+      });
     } catch (err) {
       console.error("Error generating itinerary:", err);
       if (err instanceof z.ZodError) {
@@ -405,84 +613,398 @@ Do NOT include explanations or markdown.
         });
       }
 
-      const apiError = err as {
-        status?: number;
-        code?: string;
-        type?: string;
-        message?: string;
-        error?: {
-          code?: string;
-          type?: string;
-          message?: string;
-        };
+      res.status(500).json({ message: getGenerationErrorMessage(err) });
+    }
+  });
+
+  app.post(api.trips.generateStream.path, async (req, res) => {
+    const sendEvent = (event: TripStreamEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+    let clientClosed = false;
+    res.on("close", () => {
+      clientClosed = true;
+    });
+
+    try {
+      const input = api.trips.generateStream.input.parse(req.body);
+      const llm = getLlmProvider();
+
+      // Set up SSE
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      const assembled: Record<string, unknown> & { daily_itinerary: DailyPlan[] } = {
+        daily_itinerary: [],
       };
-      const errorCode = apiError.code || apiError.error?.code;
-      const errorType = apiError.type || apiError.error?.type;
-      const errorMessage = apiError.message || apiError.error?.message;
-
-      if (apiError.status === 401 || errorCode === "invalid_api_key") {
-        return res.status(500).json({
-          message:
-            "Invalid OpenAI API key. Update OPENAI_API_KEY (or AI_INTEGRATIONS_OPENAI_API_KEY) and restart the server.",
-        });
+      let sawStructuredLine = false;
+      let rawText = "";
+      let buffer = "";
+
+      const handleLine = (line: string) => {
+        const event = parseTripStreamLine(line, assembled.daily_itinerary.length + 1);
+        if (!event) return;
+        sawStructuredLine = true;
+        if (event.type === "day") {
+          assembled.daily_itinerary.push(event.day);
+        } else {
+          if (event.type === "extras" && event.budget_breakdown) {
+            event.budget_breakdown = checkBudgetBreakdown(event.budget_breakdown, input);
+          }
+          const { type: _type, ...fields } = event;
+          Object.assign(assembled, fields);
+        }
+        sendEvent(event);
+      };
+
+      const stream = llm.streamText({
+        task: "itinerary",
+        input,
+        messages: [
+          { role: "user", content: buildItineraryPrompt(input, ITINERARY_JSON_LINES_FORMAT) },
+        ],
+      });
+
+      for await (const chunk of stream) {
+        if (clientClosed) return;
+        rawText += chunk;
+        buffer += chunk;
+        let newlineIndex = buffer.indexOf("\n");
+        while (newlineIndex >= 0) {
+          handleLine(buffer.slice(0, newlineIndex));
+          buffer = buffer.slice(newlineIndex + 1);
+          newlineIndex = buffer.indexOf("\n");
+        }
       }
+      handleLine(buffer);
 
-      if (apiError.status === 404 || errorCode === "model_not_found") {
-        return res.status(500).json({
-          message:
-            "Configured OpenAI model is unavailable. Set OPENAI_MODEL to an accessible model (e.g. gpt-4o-mini).",
+      // Models that ignore the JSON Lines format usually still return one JSON object.
+      let result = sawStructuredLine ? validateTripPayload(assembled) : validateTripContent(rawText);
+      const streamed = result.success ? applyConstraintCheck(result.data, input) : undefined;
+      const warnings = streamed?.warnings || [];
+      if (!result.success || warnings.length) {
+        // The client keeps showing the streamed days until "done" carries the saved plan
+        sendEvent({
+          type: "revising",
+          reasons: result.success
+            ? warnings.map((warning) => warning.message)
+            : ["Parts of the plan were missing or incomplete."],
         });
+        result = await completeTripWithRetries(
+          llm,
+          input,
+          [
+            { role: "user", content: buildItineraryPrompt(input, ITINERARY_JSON_FORMAT) },
+            { role: "assistant", content: sawStructuredLine ? JSON.stringify(assembled) : rawText },
+            {
+              role: "user",
+              content: result.success
+                ? buildConstraintRepairPrompt(warnings)
+                : buildRepairPrompt(result.issues),
+            },
+          ],
+          streamed,
+        );
+      } else if (streamed) {
+        result = { success: true, data: streamed };
       }
 
-      if (
-        apiError.status === 429 ||
-        errorCode === "insufficient_quota" ||
-        errorType === "insufficient_quota"
-      ) {
-        return res.status(500).json({
-          message:
-            "OpenAI quota exceeded for this API key. Add billing/credits in your OpenAI account and retry.",
+      if (result.success) {
+        const trip = await storage.createTrip({
+          request: input,
+          response: finalizeTrip(result.data, input),
+        });
+        sendEvent({ type: "done", trip: toStoredTrip(trip) });
+      } else {
+        sendEvent({
+          type: "error",
+          message: ITINERARY_VALIDATION_FAILED_MESSAGE,
+          issues: result.issues,
         });
       }
+      res.end();
+    } catch (err) {
+      console.error("Error streaming itinerary:", err);
+      if (res.headersSent) {
+        sendEvent({ type: "error", message: getGenerationErrorMessage(err) });
+        res.end();
+        return;
+      }
 
-      if (apiError.status === 400 && errorMessage) {
-        return res.status(500).json({
-          message: `OpenAI request failed: ${errorMessage}`,
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join("."),
         });
       }
 
-      if (errorMessage) {
-        return res.status(500).json({
-          message: `Generation failed: ${errorMessage}`,
+      res.status(500).json({ message: getGenerationErrorMessage(err) });
+    }
+  });
+
+  app.get(api.trips.list.path, async (_req, res) => {
+    try {
+      const trips = await storage.listTrips();
+      res.json(trips.map(toStoredTrip));
+    } catch (err) {
+      console.error("Error listing trips:", err);
+      res.status(500).json({ message: "Failed to load trips" });
+    }
+  });
+
+  app.get(api.trips.get.path, async (req, res) => {
+    try {
+      const trip = await storage.getTrip(String(req.params.id));
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      res.json(toStoredTrip(trip));
+    } catch (err) {
+      console.error("Error loading trip:", err);
+      res.status(500).json({ message: "Failed to load trip" });
+    }
+  });
+
+  app.get(api.trips.calendar.path, async (req, res) => {
+    try {
+      const trip = await storage.getTrip(String(req.params.id));
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      const stored = toStoredTrip(trip);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${toExportFilename(stored, "itinerary.ics")}"`);
+      res.send(buildTripCalendar(stored));
+    } catch (err) {
+      console.error("Error exporting trip calendar:", err);
+      res.status(500).json({ message: "Failed to export trip calendar" });
+    }
+  });
+
+  app.get(api.trips.pdf.path, async (req, res) => {
+    try {
+      const trip = await storage.getTrip(String(req.params.id));
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      const stored = toStoredTrip(trip);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${toExportFilename(stored, "plan.pdf")}"`);
+      res.send(renderTripPdf(stored));
+    } catch (err) {
+      console.error("Error exporting trip PDF:", err);
+      res.status(500).json({ message: "Failed to export trip PDF" });
+    }
+  });
+
+  app.get(api.trips.exportJson.path, async (req, res) => {
+    try {
+      const trip = await storage.getTrip(String(req.params.id));
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      const stored = toStoredTrip(trip);
+      res.setHeader("Content-Disposition", `attachment; filename="${toExportFilename(stored, "trip.json")}"`);
+      res.json(buildTripExport(stored));
+    } catch (err) {
+      console.error("Error exporting trip JSON:", err);
+      res.status(500).json({ message: "Failed to export trip" });
+    }
+  });
+
+  app.get(api.trips.exportMarkdown.path, async (req, res) => {
+    try {
+      const trip = await storage.getTrip(String(req.params.id));
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      const stored = toStoredTrip(trip);
+      res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${toExportFilename(stored, "trip.md")}"`);
+      res.send(renderTripMarkdown(stored));
+    } catch (err) {
+      console.error("Error exporting trip Markdown:", err);
+      res.status(500).json({ message: "Failed to export trip" });
+    }
+  });
+
+  app.post(api.trips.import.path, async (req, res) => {
+    try {
+      const imported = api.trips.import.input.parse(req.body);
+      // The file may be hand-edited, so its warnings, budget check and packing
+      // baseline are recomputed rather than trusted. Parsing already upgraded an
+      // older response, so the copy is stored at the current version.
+      const trip = await storage.createTrip(
+        insertTripSchema.parse({
+          request: imported.request,
+          response: applyConstraintCheck(finalizeTrip(imported.response, imported.request), imported.request),
+          version: TRIP_SCHEMA_VERSION,
+          packingChecklist: imported.packing_checklist ?? null,
+        }),
+      );
+      res.status(201).json(toStoredTrip(trip));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
         });
       }
+      console.error("Error importing trip:", err);
+      res.status(500).json({ message: "Failed to import trip" });
+    }
+  });
 
-      res.status(500).json({ message: "Failed to generate itinerary" });
+  app.put(api.trips.updatePackingChecklist.path, async (req, res) => {
+    try {
+      const checklist = api.trips.updatePackingChecklist.input.parse(req.body);
+      const trip = await storage.updateTrip(String(req.params.id), { packingChecklist: checklist });
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      res.json(checklist);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("Error saving packing checklist:", err);
+      res.status(500).json({ message: "Failed to save packing checklist" });
     }
   });
 
-  app.post(api.trips.recommend.path, async (req, res) => {
+  app.post(api.trips.regenerateDay.path, async (req, res) => {
     try {
-      const input = api.trips.recommend.input.parse(req.body);
-      const openAiApiKey = cleanEnv(
-        process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+      const { guidance } = api.trips.regenerateDay.input.parse(req.body ?? {});
+      const trip = await storage.getTrip(String(req.params.id));
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+
+      const dayNumber = Number(req.params.day);
+      if (!trip.response.daily_itinerary.some((entry) => entry.day === dayNumber)) {
+        return res.status(400).json({
+          message: `Day must be between 1 and ${trip.response.daily_itinerary.length}`,
+          field: "day",
+        });
+      }
+
+      const llm = getLlmProvider();
+      const prompt = buildDayRegenerationPrompt(trip.request, trip.response, dayNumber, guidance);
+      const result = await completeDayWithRetries(
+        llm,
+        { input: trip.request, trip: trip.response, day: dayNumber, guidance },
+        [{ role: "user", content: prompt }],
       );
-      const openAiBaseUrl = cleanEnv(
-        process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || process.env.OPENAI_BASE_URL,
+      if (!result.success) {
+        return res.status(502).json({
+          message: ITINERARY_VALIDATION_FAILED_MESSAGE,
+          issues: result.issues,
+        });
+      }
+
+      // New activities can call for new kit, so the packing baseline is merged again
+      const updated = applyPackingBaseline(
+        {
+          ...trip.response,
+          daily_itinerary: trip.response.daily_itinerary.map((entry) =>
+            entry.day === dayNumber ? result.data : entry,
+          ),
+        },
+        trip.request,
       );
-      const model = cleanEnv(process.env.OPENAI_MODEL) || "gpt-4o-mini";
+      await storage.updateTrip(trip.id, {
+        version: trip.version,
+        response: applyConstraintCheck(updated, trip.request),
+      });
+      res.json(result.data);
+    } catch (err) {
+      console.error("Error regenerating day:", err);
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join("."),
+        });
+      }
 
-      if (!openAiApiKey) {
-        return res.status(500).json({
-          message:
-            "OpenAI API key is missing. Set OPENAI_API_KEY (or AI_INTEGRATIONS_OPENAI_API_KEY) and restart the server.",
+      res.status(500).json({ message: getGenerationErrorMessage(err) });
+    }
+  });
+
+  app.delete(api.trips.delete.path, async (req, res) => {
+    try {
+      const deleted = await storage.deleteTrip(String(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      res.status(204).send();
+    } catch (err) {
+      console.error("Error deleting trip:", err);
+      res.status(500).json({ message: "Failed to delete trip" });
+    }
+  });
+
+  app.get(api.currencies.list.path, (_req, res) => {
+    const rates = getExchangeRates();
+    res.json({
+      version: rates.version,
+      as_of: rates.as_of,
+      base: rates.base,
+      currencies: CURRENCIES.map((currency) => ({
+        ...currency,
+        rate: currency.code === rates.base ? 1 : rates.rates[currency.code] ?? null,
+        strength: getCurrencyStrength(currency.code, rates),
+      })),
+    });
+  });
+
+  app.get(api.climate.get.path, (req, res) => {
+    try {
+      const query = api.climate.get.input.parse(req.query);
+      const normals = getClimateNormals({ latitude: query.lat, longitude: query.lon }, query.month);
+      if (!normals) {
+        return res.status(404).json({ message: "No climate data near this location" });
+      }
+      res.json(normals);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join("."),
         });
       }
+      console.error("Error looking up climate normals:", err);
+      res.status(500).json({ message: "Failed to look up climate normals" });
+    }
+  });
 
-      const openai = new OpenAI({
-        apiKey: openAiApiKey,
-        baseURL: openAiBaseUrl,
-      });
+  app.post(api.budget.estimate.path, (req, res) => {
+    try {
+      const input = api.budget.estimate.input.parse(req.body);
+      res.json(estimateBudget(input, getExchangeRates()));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join("."),
+        });
+      }
+      console.error("Error estimating budget:", err);
+      res.status(500).json({ message: "Failed to estimate budget" });
+    }
+  });
+
+  app.post(api.trips.recommend.path, async (req, res) => {
+    try {
+      const input = api.trips.recommend.input.parse(req.body);
+      const llm = getLlmProvider();
+      const estimate = estimateBudget(input, getExchangeRates());
+      const travelMonth = getTravelMonth(input);
+      const climateHints = buildClimateHints(input, travelMonth);
 
       const prompt = `
 You are a travel recommendation engine.
@@ -494,11 +1016,13 @@ User inputs:
 - Trip type: ${input.trip_type}
 - Number of people: ${input.number_of_people}
 - Budget amount: ${input.budget_amount} ${input.currency}
+- Recommended budget for this setup: ${estimate.recommended_range.low} to ${estimate.recommended_range.high} ${estimate.currency} (stated budget is ${estimate.budget_status.replace("_", " ")})
 - Includes flights: ${input.includes_flights ? "yes" : "no"}
 - Max flight duration: ${input.max_flight_hours ?? "Not specified"} hours
 - Comfort level: ${input.comfort_level}
 - Companions: ${input.companions}
 - Dates: ${input.startDate} to ${input.endDate} (${input.days} days)
+- Travel month: ${monthName(travelMonth)}
 - Emotion goals: ${input.emotional_goals.join(", ")}
 - Daily pace: ${input.daily_pace}
 - Excitement focus: ${input.excitement_focus.join(", ")}
@@ -510,26 +1034,24 @@ User inputs:
 - Past trip loved: ${input.past_trip_loved || "Not provided"}
 
 Rules:
-- Output 5 options sorted by total_score descending.
-- Each metric including total_score must be on a 1 to 10 scale.
-- total_score must be a normalized composite score (not a sum beyond 10).
-- Use this weighted scoring model to compute fit and explain rankings:
-  - Emotion Index (20%)
-  - Pace Index (15%)
-  - Interest Vector (20%)
-  - Comfort/Risk Index (10%)
-  - Geography Bias (10%)
-  - Food Index (10%)
-  - Social Index (5%)
-  - Budget Tier (5%)
-  - Historical Behavior Fit (5%)
-- For international trips, return country-level recommendations in "country" and keep "destination" as a representative city/region within that country.
+- Output 5 options.
+- Each metric must be on a 1 to 10 scale.
+- In "metric_rationales", give one short sentence per metric explaining its score for THIS traveler (e.g. cite flight time, typical daily costs, accessibility).
+- Options are ranked server-side with this weighted scoring model, computed from "features":
+${formatV3Weights("  ")}
+- In "features", rate 0 to 10 how well the destination delivers each listed answer (10 = perfect fit). Keep the keys exactly as given.
+- features.cost_level is the destination's on-the-ground price level from 1 (very cheap) to 10 (very expensive).
+- features.flight_hours is the typical one-way flight time from the starting location (0 if reachable without flying).
+${input.past_trip_loved ? "- features.past_trip_similarity rates 0 to 10 how closely the destination matches the vibe of the past trip loved.\n" : ""}- For international trips, return country-level recommendations in "country" and keep "destination" as a representative city/region within that country.
 - For domestic trips, keep "destination" as city/region and "country" as the same origin country.
 - If trip planning mode is know_destination and destination is given (${input.destination_location || "none"}), option 1 MUST be that destination.
 - If past trip loved is provided (${input.past_trip_loved || "none"}), use its vibe/archetype but DO NOT suggest the same destination/country as an option.
 - Enforce trip type domestic/international from starting location country.
 - Respect max flight duration.
+- Weigh each destination's typical ${monthName(travelMonth)} weather against the setting preference (no monsoon beaches, no snowless "snowy" trips).
+${climateHints ? `${climateHints}\n` : ""}- Avoid destinations in monsoon, tropical storm or extreme heat season for the trip dates; such options are penalised server-side.
 - Be budget realistic (include budget ranges).
+- Budget guidance: ${estimate.guidance}
 
 Return only JSON with this exact schema:
 {
@@ -543,27 +1065,28 @@ Return only JSON with this exact schema:
         "vibe_fit": 1,
         "affordability": 1,
         "travel_convenience": 1,
-        "safety_accessibility": 1,
-        "total_score": 1
-      }
+        "safety_accessibility": 1
+      },
+      "metric_rationales": {
+        "vibe_fit": "",
+        "affordability": "",
+        "travel_convenience": "",
+        "safety_accessibility": ""
+      },
+      "features": ${JSON.stringify(buildFeaturesTemplate(input))}
     }
   ]
 }
 `;
 
-      const response = await openai.chat.completions.create({
-        model,
+      const content = await llm.completeJson({
+        task: "recommendation",
+        input,
         messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
       });
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error("Empty response from AI");
-      }
-
-      const normalized = normalizeRecommendationPayload(JSON.parse(content), input.currency);
-      const diversified = diversifyRecommendations(normalized, input.past_trip_loved);
+      const normalized = normalizeRecommendationPayload(JSON.parse(content), input);
+      const diversified = diversifyRecommendations(normalized, input);
       const parsed = destinationRecommendationResponseSchema.parse(diversified);
       return res.json(parsed);
     } catch (err) {
@@ -574,6 +1097,9 @@ Return only JSON with this exact schema:
           field: err.errors[0].path.join("."),
         });
       }
+      if (err instanceof LlmConfigError) {
+        return res.status(500).json({ message: err.message });
+      }
       return res.status(500).json({ message: "Failed to recommend destinations" });
     }
   });
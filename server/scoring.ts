@@ -0,0 +1,209 @@
+import type { DestinationFeatures, ScoreBreakdown, TripRequest } from "@shared/schema";
+import { V3_INDEX_LABELS, V3_WEIGHTS } from "@shared/scoring";
+
+const NEUTRAL_RATING = 5;
+
+const BUDGET_MINDSET_COST_TARGET: Record<TripRequest["budget_mindset"], number> = {
+  max_value: 3,
+  balanced: 5,
+  premium_comfort: 7,
+  once_in_lifetime_splurge: 9,
+};
+
+const COMFORT_LEVEL_COST_SHIFT: Record<TripRequest["comfort_level"], number> = {
+  low: -1,
+  medium: 0,
+  premium: 1,
+};
+
+/**
+ * Slug used to key free-text answers in feature vectors:
+ * "Connected (people/culture)" -> "connected", "Nature & landscapes" -> "nature".
+ */
+export function toFeatureKey(label: string): string {
+  const firstWord = label.trim().toLowerCase().split(/[\s(&/]+/)[0] || "";
+  return firstWord.replace(/[^a-z0-9]/g, "");
+}
+
+function clampRating(value: number): number {
+  return Math.max(0, Math.min(10, value));
+}
+
+function toScore(value: number): number {
+  return Math.max(1, Math.min(10, Number(value.toFixed(1))));
+}
+
+function rating(ratings: Record<string, number>, key: string): number {
+  const value = ratings[key];
+  return typeof value === "number" && Number.isFinite(value) ? clampRating(value) : NEUTRAL_RATING;
+}
+
+function meanRating(ratings: Record<string, number>, keys: string[]): number {
+  if (!keys.length) return NEUTRAL_RATING;
+  return keys.reduce((sum, key) => sum + rating(ratings, key), 0) / keys.length;
+}
+
+function toRatingRecord(
+  value: unknown,
+  toKey: (key: string) => string = (key) => key,
+): Record<string, number> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const result: Record<string, number> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, raw]) => {
+    const num = typeof raw === "number" ? raw : Number(raw);
+    if (Number.isFinite(num)) {
+      result[toKey(key) || key] = clampRating(num);
+    }
+  });
+  return result;
+}
+
+/**
+ * Coerces a model-supplied feature vector. Missing ratings stay absent and
+ * score as neutral rather than failing the whole recommendation.
+ */
+export function normalizeDestinationFeatures(value: unknown): DestinationFeatures {
+  const data = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const costLevel = Number(data.cost_level);
+  const flightHours = Number(data.flight_hours);
+  const pastTripSimilarity = Number(data.past_trip_similarity);
+
+  return {
+    emotions: toRatingRecord(data.emotions, toFeatureKey),
+    pace: toRatingRecord(data.pace),
+    interests: toRatingRecord(data.interests, toFeatureKey),
+    settings: toRatingRecord(data.settings),
+    comfort_risk: toRatingRecord(data.comfort_risk),
+    food: toRatingRecord(data.food),
+    social: toRatingRecord(data.social),
+    cost_level: Number.isFinite(costLevel) ? Math.max(1, Math.min(10, costLevel)) : NEUTRAL_RATING,
+    flight_hours: Number.isFinite(flightHours) ? Math.max(0, flightHours) : 0,
+    past_trip_similarity:
+      data.past_trip_similarity !== undefined && Number.isFinite(pastTripSimilarity)
+        ? clampRating(pastTripSimilarity)
+        : undefined,
+  };
+}
+
+function geographyIndex(input: TripRequest, flightHours: number): number {
+  if (input.max_flight_hours) {
+    if (flightHours <= input.max_flight_hours) {
+      return 10 - 3 * (flightHours / input.max_flight_hours);
+    }
+    return 7 - 2 * (flightHours - input.max_flight_hours);
+  }
+  return 10 - flightHours / 2;
+}
+
+/** The geography sub-index for a flight time, also used as the travel_convenience metric. */
+export function scoreFlightHours(input: TripRequest, flightHours: number): number {
+  return toScore(geographyIndex(input, flightHours));
+}
+
+function budgetTierIndex(input: TripRequest, costLevel: number): number {
+  const target =
+    BUDGET_MINDSET_COST_TARGET[input.budget_mindset] + COMFORT_LEVEL_COST_SHIFT[input.comfort_level];
+  return 10 - Math.abs(costLevel - target) * 1.25;
+}
+
+/**
+ * Computes every V3 sub-index on a 1-10 scale. Keys looked up in the feature
+ * vector are the request's enum values, or toFeatureKey() of free-text answers.
+ */
+export function computeScoreBreakdown(
+  input: TripRequest,
+  features: DestinationFeatures,
+): ScoreBreakdown {
+  const interestRatings = [
+    ...input.excitement_focus.map((focus) => rating(features.interests, toFeatureKey(focus))),
+    ...input.setting_preference.map((setting) => rating(features.settings, setting)),
+  ];
+  const hasPastTrip = !!input.past_trip_loved?.trim();
+
+  return {
+    emotion: toScore(meanRating(features.emotions, input.emotional_goals.map(toFeatureKey))),
+    pace: toScore(rating(features.pace, input.daily_pace)),
+    interest: toScore(
+      interestRatings.length
+        ? interestRatings.reduce((sum, value) => sum + value, 0) / interestRatings.length
+        : NEUTRAL_RATING,
+    ),
+    comfort_risk: toScore(rating(features.comfort_risk, input.discomfort_appetite)),
+    geography: scoreFlightHours(input, features.flight_hours),
+    food: toScore(
+      input.food_personality === "no_food_planning"
+        ? meanRating(features.food, ["fine_dining", "local_street_food", "dietary_restrictions"])
+        : rating(features.food, input.food_personality),
+    ),
+    social: toScore(rating(features.social, input.social_vibe)),
+    budget_tier: toScore(budgetTierIndex(input, features.cost_level)),
+    historical_fit: hasPastTrip
+      ? toScore(features.past_trip_similarity ?? NEUTRAL_RATING)
+      : null,
+  };
+}
+
+export function computeCompositeScore(breakdown: ScoreBreakdown): number {
+  let weighted = 0;
+  let totalWeight = 0;
+  (Object.keys(V3_WEIGHTS) as Array<keyof ScoreBreakdown>).forEach((index) => {
+    const value = breakdown[index];
+    if (value === null) return;
+    weighted += value * V3_WEIGHTS[index];
+    totalWeight += V3_WEIGHTS[index];
+  });
+  return toScore(totalWeight ? weighted / totalWeight : NEUTRAL_RATING);
+}
+
+export function scoreDestination(input: TripRequest, features: DestinationFeatures) {
+  const breakdown = computeScoreBreakdown(input, features);
+  return { breakdown, total: computeCompositeScore(breakdown) };
+}
+
+/**
+ * Feature vector skeleton for the recommendation prompt, limited to the
+ * ratings this traveler's answers will actually be scored on.
+ */
+export function buildFeaturesTemplate(input: TripRequest): Record<string, unknown> {
+  const ratingsFor = (keys: string[]) =>
+    Object.fromEntries(Array.from(new Set(keys)).map((key) => [key, 0]));
+
+  return {
+    emotions: ratingsFor(input.emotional_goals.map(toFeatureKey)),
+    pace: ratingsFor([input.daily_pace]),
+    interests: ratingsFor(input.excitement_focus.map(toFeatureKey)),
+    settings: ratingsFor(input.setting_preference),
+    comfort_risk: ratingsFor([input.discomfort_appetite]),
+    food: ratingsFor(
+      input.food_personality === "no_food_planning"
+        ? ["fine_dining", "local_street_food", "dietary_restrictions"]
+        : [input.food_personality],
+    ),
+    social: ratingsFor([input.social_vibe]),
+    cost_level: 1,
+    flight_hours: 0,
+    ...(input.past_trip_loved?.trim() ? { past_trip_similarity: 0 } : {}),
+  };
+}
+
+/** One-sentence summary of what lifted and what held back the composite. */
+export function explainCompositeScore(breakdown: ScoreBreakdown): string {
+  const scored = (Object.keys(V3_WEIGHTS) as Array<keyof ScoreBreakdown>)
+    .filter((index) => breakdown[index] !== null)
+    .map((index) => ({ index, value: breakdown[index] as number }))
+    .sort((a, b) => b.value - a.value || V3_WEIGHTS[b.index] - V3_WEIGHTS[a.index]);
+  if (!scored.length) return "";
+
+  const describe = ({ index, value }: { index: keyof ScoreBreakdown; value: number }) =>
+    `${V3_INDEX_LABELS[index]} ${value}/10`;
+  const strongest = scored.slice(0, 2).map(describe).join(" and ");
+  const weakest = scored[scored.length - 1];
+  return `Weighted V3 composite, lifted most by ${strongest}; weakest is ${describe(weakest)}.`;
+}
+
+/** Weight list for prompts, generated so the prompt never drifts from the code. */
+export function formatV3Weights(indent = ""): string {
+  return (Object.keys(V3_WEIGHTS) as Array<keyof ScoreBreakdown>)
+    .map((index) => `${indent}- ${V3_INDEX_LABELS[index]} (${Math.round(V3_WEIGHTS[index] * 100)}%)`)
+    .join("\n");
+}
@@ -0,0 +1,116 @@
+import type {
+  ClimateNormals,
+  SeasonalRisk,
+  SeasonalityWarning,
+  TripRequest,
+  TripResponse,
+} from "@shared/schema";
+import { SEASON_ROWS, type SeasonBounds } from "./data/seasons";
+import { monthName } from "./climate";
+import type { Coordinates } from "./flight-time";
+import { locateCountry, searchCities } from "./geocoding";
+
+const RISK_LABELS: Record<SeasonalRisk, string> = {
+  monsoon: "Monsoon or rainy season",
+  hurricane: "Tropical storm season",
+  extreme_heat: "Extreme heat",
+  high_season: "Peak-season crowds and prices",
+  no_snow: "Little chance of snow",
+};
+
+// Points taken off a 1-10 total score per warning, capped so one bad month does not bury an option
+const RISK_PENALTIES: Record<SeasonalRisk, number> = {
+  monsoon: 1.5,
+  hurricane: 1.5,
+  extreme_heat: 1,
+  high_season: 0.5,
+  no_snow: 2,
+};
+const MAX_PENALTY = 3;
+
+// Typical highs above this make a snowy landscape unlikely
+const SNOW_MAX_HIGH_C = 3;
+
+/** Calendar months (1-12) the trip touches, in travel order. */
+export function getTripMonths(input: Pick<TripRequest, "startDate" | "endDate">): number[] {
+  const start = new Date(input.startDate);
+  if (Number.isNaN(start.getTime())) return [];
+  const end = new Date(input.endDate);
+  const last = Number.isNaN(end.getTime()) || end < start ? start : end;
+
+  const months: number[] = [];
+  const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
+  while (cursor <= last && months.length < 12) {
+    months.push(cursor.getUTCMonth() + 1);
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+// A traveler who also picked beaches or desert is happy with a warm destination
+function wantsSnow(input: TripRequest): boolean {
+  const settings = input.setting_preference;
+  return settings.includes("snowy_landscape") && !settings.includes("beaches") && !settings.includes("desert");
+}
+
+function formatMonths(months: number[]): string {
+  const names = months.map(monthName);
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+}
+
+function isInBounds(point: Coordinates, [south, north, west, east]: SeasonBounds): boolean {
+  return (
+    point.latitude >= south && point.latitude <= north && point.longitude >= west && point.longitude <= east
+  );
+}
+
+/**
+ * Seasonal risks for a destination over the trip's months. Regional seasons
+ * only apply when the destination's coordinates are known, and the snow check
+ * only when the traveler wants a snowy landscape and normals exist.
+ */
+export function checkSeasonality(
+  countryCode: string | undefined,
+  point: Coordinates | undefined,
+  months: number[],
+  input: TripRequest,
+  climate?: ClimateNormals,
+): SeasonalityWarning[] {
+  const warnings: SeasonalityWarning[] = [];
+  SEASON_ROWS.forEach(([risk, region, countryCodes, seasonMonths, bounds]) => {
+    if (!countryCode || !countryCodes.includes(countryCode)) return;
+    if (bounds && !(point && isInBounds(point, bounds))) return;
+    const overlap = months.filter((month) => seasonMonths.includes(month));
+    if (!overlap.length) return;
+    warnings.push({
+      risk,
+      region,
+      message: `${RISK_LABELS[risk]} in ${region} in ${formatMonths(overlap)}.`,
+    });
+  });
+
+  if (wantsSnow(input) && climate && climate.avg_high_c > SNOW_MAX_HIGH_C) {
+    warnings.push({
+      risk: "no_snow",
+      region: climate.station,
+      message: `${RISK_LABELS.no_snow} in ${climate.station} in ${monthName(climate.month)}: typical highs are ${climate.avg_high_c}°C.`,
+    });
+  }
+  return warnings;
+}
+
+export function getSeasonalityPenalty(warnings: SeasonalityWarning[]): number {
+  const total = warnings.reduce((sum, warning) => sum + RISK_PENALTIES[warning.risk], 0);
+  return Math.min(MAX_PENALTY, total);
+}
+
+/** Attaches seasonal risks for the trip's destination; run after applyClimate. */
+export function applySeasonality(trip: TripResponse, input: TripRequest): TripResponse {
+  const chosen = input.trip_goal === "know_destination" ? input.destination_place : undefined;
+  const point = chosen || searchCities(trip.destination, 1)[0];
+  const countryCode = chosen?.country_code || locateCountry(trip.destination)?.code;
+  return {
+    ...trip,
+    seasonality_warnings: checkSeasonality(countryCode, point, getTripMonths(input), input, trip.climate),
+  };
+}
@@ -1,13 +1,109 @@
-// In-memory storage for this MVP
+import { randomUUID } from "crypto";
+import { desc, eq } from "drizzle-orm";
+import {
+  TRIP_SCHEMA_VERSION,
+  legacyTripResponseSchema,
+  trips,
+  type InsertTrip,
+  type Trip,
+} from "@shared/schema";
+
 export interface IStorage {
-  // No storage methods needed for this stateless MVP
-  // But we keep the interface for structure
+  createTrip(trip: InsertTrip): Promise<Trip>;
+  getTrip(id: string): Promise<Trip | undefined>;
+  listTrips(): Promise<Trip[]>;
+  updateTrip(id: string, updates: Partial<InsertTrip>): Promise<Trip | undefined>;
+  deleteTrip(id: string): Promise<boolean>;
+}
+
+// Older rows are upgraded through the schema's legacy preprocessing when read
+function migrateTrip(trip: Trip): Trip {
+  if (trip.version >= TRIP_SCHEMA_VERSION) return trip;
+  return {
+    ...trip,
+    response: legacyTripResponseSchema.parse(trip.response),
+    version: TRIP_SCHEMA_VERSION,
+  };
 }
 
 export class MemStorage implements IStorage {
-  constructor() {
-    // No initialization needed
+  private trips = new Map<string, Trip>();
+
+  async createTrip(trip: InsertTrip): Promise<Trip> {
+    const created: Trip = {
+      id: randomUUID(),
+      request: trip.request,
+      response: trip.response,
+      version: trip.version ?? TRIP_SCHEMA_VERSION,
+      packingChecklist: trip.packingChecklist ?? null,
+      createdAt: new Date(),
+    };
+    this.trips.set(created.id, created);
+    return created;
+  }
+
+  async getTrip(id: string): Promise<Trip | undefined> {
+    return this.trips.get(id);
+  }
+
+  async listTrips(): Promise<Trip[]> {
+    return Array.from(this.trips.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async updateTrip(id: string, updates: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const existing = this.trips.get(id);
+    if (!existing) return undefined;
+    const updated: Trip = { ...existing, ...updates };
+    this.trips.set(id, updated);
+    return updated;
+  }
+
+  async deleteTrip(id: string): Promise<boolean> {
+    return this.trips.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // Imported lazily: ./db throws at load time when DATABASE_URL is unset
+  private async db() {
+    const { db } = await import("./db");
+    return db;
+  }
+
+  async createTrip(trip: InsertTrip): Promise<Trip> {
+    const db = await this.db();
+    const [created] = await db.insert(trips).values(trip).returning();
+    return created;
+  }
+
+  async getTrip(id: string): Promise<Trip | undefined> {
+    const db = await this.db();
+    const [trip] = await db.select().from(trips).where(eq(trips.id, id));
+    return trip && migrateTrip(trip);
+  }
+
+  async listTrips(): Promise<Trip[]> {
+    const db = await this.db();
+    const rows = await db.select().from(trips).orderBy(desc(trips.createdAt));
+    return rows.map(migrateTrip);
+  }
+
+  async updateTrip(id: string, updates: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const db = await this.db();
+    const [trip] = await db.update(trips).set(updates).where(eq(trips.id, id)).returning();
+    return trip;
+  }
+
+  async deleteTrip(id: string): Promise<boolean> {
+    const db = await this.db();
+    const deleted = await db.delete(trips).where(eq(trips.id, id)).returning({ id: trips.id });
+    return deleted.length > 0;
   }
 }
 
-export const storage = new MemStorage();
+// Trips live in Postgres when a database is provisioned, otherwise in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage()
+  : new MemStorage();
@@ -0,0 +1,129 @@
+import type { TripConstraint, TripRequest, TripResponse, TripWarning } from "@shared/schema";
+import { toMinutes, type DaySlot } from "@shared/activities";
+import { getCountryByCode, toLookupKey } from "@shared/countries";
+import { greatCircleKm } from "./flight-time";
+import { locateCountry, searchCities } from "./geocoding";
+
+type ConstraintRule = (trip: TripResponse, input: TripRequest) => string[];
+
+// Start times each slot may use; neighbouring slots overlap so lunch or an early dinner still fits
+const SLOT_WINDOWS: Record<DaySlot, [string, string]> = {
+  morning: ["05:00", "12:59"],
+  afternoon: ["11:00", "18:59"],
+  evening: ["16:00", "23:59"],
+};
+
+// A generated destination this close to the requested one is treated as the same place
+const SAME_DESTINATION_KM = 100;
+
+function countryName(code: string): string {
+  return getCountryByCode(code)?.name || code;
+}
+
+function checkDayCount(trip: TripResponse, input: TripRequest): string[] {
+  const days = Math.max(1, Math.round(input.days));
+  const planned = trip.daily_itinerary.length;
+  return planned === days
+    ? []
+    : [`The itinerary has ${planned} day(s) but the trip is ${days} day(s) long.`];
+}
+
+function checkSlotTimes(trip: TripResponse): string[] {
+  const issues: string[] = [];
+  trip.daily_itinerary.forEach((day) => {
+    (Object.keys(SLOT_WINDOWS) as DaySlot[]).forEach((slot) => {
+      const [earliest, latest] = SLOT_WINDOWS[slot];
+      day.plan[slot].forEach((activity) => {
+        const start = toMinutes(activity.start_time);
+        if (start < toMinutes(earliest) || start > toMinutes(latest)) {
+          issues.push(
+            `Day ${day.day} ${slot}: "${activity.title}" starts at ${activity.start_time}, outside ${earliest}-${latest}.`,
+          );
+        }
+      });
+    });
+  });
+  return issues;
+}
+
+// Only for recommended destinations; a destination the traveler chose is covered by checkDestination
+function checkTripType(trip: TripResponse, input: TripRequest): string[] {
+  if (input.trip_goal === "know_destination") return [];
+  const originCode = input.origin_place?.country_code || locateCountry(input.location)?.code;
+  const destinationCode = locateCountry(trip.destination)?.code;
+  if (!originCode || !destinationCode) return [];
+
+  const isDomestic = originCode === destinationCode;
+  if (input.trip_type === "domestic" && !isDomestic) {
+    return [
+      `A domestic trip was requested but ${trip.destination} is in ${countryName(destinationCode)}, not ${countryName(originCode)}.`,
+    ];
+  }
+  if (input.trip_type === "international" && isDomestic) {
+    return [
+      `An international trip was requested but ${trip.destination} is in ${countryName(originCode)}, the starting country.`,
+    ];
+  }
+  return [];
+}
+
+function checkDestination(trip: TripResponse, input: TripRequest): string[] {
+  const requested = input.destination_location?.trim();
+  if (input.trip_goal !== "know_destination" || !requested) return [];
+
+  const requestedKey = toLookupKey(input.destination_place?.city || requested.split(",")[0]);
+  const actualKey = toLookupKey(trip.destination);
+  if (!requestedKey || actualKey.includes(requestedKey) || requestedKey.includes(actualKey)) {
+    return [];
+  }
+
+  // Alternate names ("Bombay" for Mumbai) and nearby bases still count as the requested place
+  const requestedPoint = input.destination_place || searchCities(requested, 1)[0];
+  const actualPoint = searchCities(trip.destination, 1)[0];
+  if (requestedPoint && actualPoint && greatCircleKm(requestedPoint, actualPoint) <= SAME_DESTINATION_KM) {
+    return [];
+  }
+  return [`The itinerary is for ${trip.destination} but the traveler asked for ${requested}.`];
+}
+
+function checkSeniorEnergy(trip: TripResponse, input: TripRequest): string[] {
+  if (input.companions !== "Senior Citizen Friendly") return [];
+  const highEnergyDays = trip.daily_itinerary
+    .filter((day) => day.energy_level === "high")
+    .map((day) => day.day);
+  return highEnergyDays.length
+    ? [`Day(s) ${highEnergyDays.join(", ")} are high energy, which is not suitable for senior travelers.`]
+    : [];
+}
+
+const RULES: Record<TripConstraint, ConstraintRule> = {
+  day_count: checkDayCount,
+  slot_times: checkSlotTimes,
+  trip_type: checkTripType,
+  destination: checkDestination,
+  senior_energy: checkSeniorEnergy,
+};
+
+/**
+ * Checks a schema-valid plan against the request it was generated for.
+ * Constraints that cannot be resolved (an unknown country, say) pass.
+ */
+export function checkTripConstraints(trip: TripResponse, input: TripRequest): TripWarning[] {
+  return (Object.keys(RULES) as TripConstraint[]).flatMap((constraint) =>
+    RULES[constraint](trip, input).map((message) => ({ constraint, message })),
+  );
+}
+
+export function applyConstraintCheck(trip: TripResponse, input: TripRequest): TripResponse {
+  return { ...trip, warnings: checkTripConstraints(trip, input) };
+}
+
+export function buildConstraintRepairPrompt(warnings: TripWarning[]): string {
+  return `
+Your previous itinerary breaks the traveler's requirements:
+${warnings.map((warning) => `- ${warning.message}`).join("\n")}
+
+Return the COMPLETE corrected JSON object using the same schema as before.
+Do NOT include explanations or markdown.
+`;
+}
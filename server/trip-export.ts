@@ -0,0 +1,159 @@
+import {
+  TRIP_EXPORT_FORMAT,
+  type Activity,
+  type StoredTrip,
+  type TripExport,
+} from "@shared/schema";
+import type { DaySlot } from "@shared/activities";
+import {
+  PACKING_CATEGORIES,
+  PACKING_CATEGORY_LABELS,
+  createPackingChecklist,
+  formatPackingItem,
+} from "@shared/packing-checklist";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SLOT_LABELS: Record<DaySlot, string> = {
+  morning: "Morning",
+  afternoon: "Afternoon",
+  evening: "Evening",
+};
+
+/** The trip as portable JSON that `tripExportSchema` reads back on import. */
+export function buildTripExport(trip: StoredTrip, now = new Date()): TripExport {
+  return {
+    format: TRIP_EXPORT_FORMAT,
+    schema_version: trip.version,
+    exported_at: now.toISOString(),
+    request: trip.request,
+    response: trip.response,
+    ...(trip.packingChecklist ? { packing_checklist: trip.packingChecklist } : {}),
+  };
+}
+
+// Model text can contain Markdown syntax; escape it so it renders literally
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]<>|#])/g, "\\$1");
+}
+
+function formatDate(value: string, dayOffset = 0): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Date(date.getTime() + dayOffset * DAY_MS).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function renderActivity(activity: Activity, currency: string): string[] {
+  const details = [
+    activity.place_name,
+    activity.duration_minutes > 0 ? formatDuration(activity.duration_minutes) : "",
+    activity.estimated_cost > 0 ? `~${activity.estimated_cost} ${currency} per person` : "",
+    activity.booking_required ? "Booking required" : "",
+  ].filter(Boolean);
+  return [
+    `- **${activity.start_time}** ${escapeMarkdown(activity.title)}`,
+    ...(details.length ? [`  ${escapeMarkdown(details.join(" · "))}`] : []),
+    ...(activity.notes ? [`  ${escapeMarkdown(activity.notes)}`] : []),
+  ].map((line, i, lines) => (i < lines.length - 1 ? `${line}  ` : line));
+}
+
+/**
+ * A readable Markdown copy of the trip: overview, why it matches, the
+ * day-by-day plan, budget, and task-list checklists for packing and documents.
+ */
+export function renderTripMarkdown(trip: StoredTrip): string {
+  const { request, response } = trip;
+  const lines: string[] = [
+    `# ${escapeMarkdown(response.destination)}`,
+    "",
+    `_${escapeMarkdown(response.trip_theme)}_`,
+    "",
+    `- **Dates:** ${formatDate(request.startDate)} – ${formatDate(request.endDate)} (${request.days} ${request.days === 1 ? "day" : "days"})`,
+    `- **From:** ${escapeMarkdown(request.location)}`,
+    `- **Travelers:** ${request.number_of_people} (${escapeMarkdown(request.companions)})`,
+    `- **Budget:** ${request.budget_amount} ${request.currency}`,
+  ];
+  if (response.climate) {
+    const { summary, avg_low_c, avg_high_c, rainfall_mm } = response.climate;
+    lines.push(`- **Typical weather:** ${summary}, ${avg_low_c}–${avg_high_c}°C, ${rainfall_mm} mm rain`);
+  }
+
+  if (response.why_it_matches_you.length) {
+    lines.push("", "## Why it matches you", "");
+    response.why_it_matches_you.forEach((reason) => lines.push(`- ${escapeMarkdown(reason)}`));
+  }
+
+  const notices = [
+    ...(response.seasonality_warnings || []).map((warning) => warning.message),
+    ...(response.warnings || []).map((warning) => warning.message),
+  ];
+  if (notices.length) {
+    lines.push("", "## Before you go", "");
+    notices.forEach((notice) => lines.push(`- ${escapeMarkdown(notice)}`));
+  }
+
+  lines.push("", "## Day-by-day plan");
+  response.daily_itinerary.forEach((day) => {
+    lines.push(
+      "",
+      `### Day ${day.day} · ${formatDate(request.startDate, day.day - 1)} · ${capitalize(day.energy_level)} energy`,
+    );
+    (Object.keys(SLOT_LABELS) as DaySlot[]).forEach((slot) => {
+      const activities = day.plan[slot];
+      if (!activities.length) return;
+      lines.push("", `#### ${SLOT_LABELS[slot]}`, "");
+      activities.forEach((activity) => lines.push(...renderActivity(activity, request.currency)));
+    });
+  });
+
+  const budget = response.budget_breakdown;
+  if (budget) {
+    lines.push(
+      "",
+      "## Budget",
+      "",
+      "| Item | Amount |",
+      "| --- | ---: |",
+      `| Flights | ${budget.flights} ${budget.currency} |`,
+      `| Lodging (${budget.nights} nights × ${budget.lodging_per_night}) | ${budget.nights * budget.lodging_per_night} ${budget.currency} |`,
+      `| Food per day | ${budget.food_per_day} ${budget.currency} |`,
+      `| Activities | ${budget.activities} ${budget.currency} |`,
+      `| Local transport | ${budget.local_transport} ${budget.currency} |`,
+      `| Buffer | ${budget.buffer} ${budget.currency} |`,
+      `| **Total** | **${budget.total} ${budget.currency}** |`,
+    );
+  }
+
+  const checklist = trip.packingChecklist ?? createPackingChecklist(response.packing_list);
+  lines.push("", "## Packing checklist");
+  PACKING_CATEGORIES.forEach((category) => {
+    const items = checklist[category];
+    if (!items.length) return;
+    lines.push("", `**${PACKING_CATEGORY_LABELS[category]}**`, "");
+    items.forEach((item) => lines.push(`- [${item.checked ? "x" : " "}] ${escapeMarkdown(formatPackingItem(item))}`));
+  });
+
+  if (response.documents.length) {
+    lines.push("", "## Documents", "");
+    response.documents.forEach((document) => lines.push(`- [ ] ${escapeMarkdown(document)}`));
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,196 @@
+import type { Activity, StoredTrip } from "@shared/schema";
+import type { DaySlot } from "@shared/activities";
+import {
+  PACKING_CATEGORIES,
+  PACKING_CATEGORY_LABELS,
+  createPackingChecklist,
+  formatPackingItem,
+} from "@shared/packing-checklist";
+import { MARGIN, MUTED_COLOR, PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, type Rgb } from "./pdf";
+
+// The app's primary teal, hsl(174 100% 33%)
+const BRAND_COLOR: Rgb = [0, 0.66, 0.59];
+const WHITE: Rgb = [1, 1, 1];
+const COVER_BAND_HEIGHT = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SLOT_LABELS: Record<DaySlot, string> = {
+  morning: "Morning",
+  afternoon: "Afternoon",
+  evening: "Evening",
+};
+
+const PACE_LABELS: Record<string, string> = {
+  slow_spontaneous: "Slow and spontaneous",
+  balanced: "Balanced",
+  packed_high_energy: "Packed, high energy",
+};
+
+function formatDate(value: string, dayOffset = 0): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Date(date.getTime() + dayOffset * DAY_MS).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+function describeActivity(activity: Activity, currency: string): string {
+  return [
+    activity.place_name,
+    activity.duration_minutes > 0 ? formatDuration(activity.duration_minutes) : "",
+    activity.estimated_cost > 0 ? `~${activity.estimated_cost} ${currency} per person` : "",
+    activity.booking_required ? "Booking required" : "",
+  ]
+    .filter(Boolean)
+    .join("  ·  ");
+}
+
+function renderCover(doc: PdfDocument, trip: StoredTrip): void {
+  const { request, response } = trip;
+  doc.addPage();
+  doc.fillRect(0, PAGE_HEIGHT - COVER_BAND_HEIGHT, PAGE_WIDTH, COVER_BAND_HEIGHT, BRAND_COLOR);
+
+  let y = PAGE_HEIGHT - MARGIN - 40;
+  doc.textAt(MARGIN, y, (response.trip_theme || "Your trip").toUpperCase(), {
+    font: "bold",
+    size: 12,
+    color: WHITE,
+  });
+  y -= 48;
+  doc.wrap(response.destination, "bold", 34, doc.contentWidth).forEach((line) => {
+    doc.textAt(MARGIN, y, line, { font: "bold", size: 34, color: WHITE });
+    y -= 40;
+  });
+  doc.textAt(
+    MARGIN,
+    y - 4,
+    `${formatDate(request.startDate)} – ${formatDate(request.endDate)}  ·  ${request.days} ${request.days === 1 ? "day" : "days"}`,
+    { size: 13, color: WHITE },
+  );
+
+  doc.setY(PAGE_HEIGHT - COVER_BAND_HEIGHT - 24);
+  const facts: Array<[string, string | undefined]> = [
+    ["From", request.location],
+    ["Travelers", `${request.number_of_people} (${request.companions})`],
+    ["Pace", PACE_LABELS[request.daily_pace] || request.daily_pace],
+    ["Budget", `${request.budget_amount} ${request.currency}`],
+    [
+      "Estimated total",
+      response.budget_breakdown
+        ? `${response.budget_breakdown.total} ${response.budget_breakdown.currency}`
+        : undefined,
+    ],
+    [
+      "Typical weather",
+      response.climate
+        ? `${response.climate.summary}, ${response.climate.avg_low_c}–${response.climate.avg_high_c}°C, ${response.climate.rainfall_mm} mm rain`
+        : undefined,
+    ],
+  ];
+  facts.forEach(([label, value]) => {
+    if (!value) return;
+    doc.text(label.toUpperCase(), { font: "bold", size: 8, color: MUTED_COLOR });
+    doc.text(value, { size: 12 });
+    doc.moveDown(8);
+  });
+
+  const notices = [
+    ...(response.seasonality_warnings || []).map((warning) => warning.message),
+    ...(response.warnings || []).map((warning) => warning.message),
+  ];
+  if (notices.length) {
+    doc.heading("Before you go", 12);
+    notices.forEach((notice) => doc.bullet(notice, { size: 10 }));
+  }
+}
+
+function renderWhyItMatches(doc: PdfDocument, trip: StoredTrip): void {
+  const reasons = trip.response.why_it_matches_you;
+  if (!reasons.length) return;
+  doc.heading("Why it matches you");
+  reasons.forEach((reason) => doc.bullet(reason));
+}
+
+function renderDays(doc: PdfDocument, trip: StoredTrip): void {
+  const { request, response } = trip;
+  doc.heading("Day-by-day plan");
+  response.daily_itinerary.forEach((day) => {
+    doc.ensureSpace(90);
+    doc.rule();
+    doc.text(`Day ${day.day}  ·  ${formatDate(request.startDate, day.day - 1)}`, { font: "bold", size: 13 });
+    doc.text(`${day.energy_level.charAt(0).toUpperCase()}${day.energy_level.slice(1)} energy`, { size: 9, color: MUTED_COLOR });
+
+    (Object.keys(SLOT_LABELS) as DaySlot[]).forEach((slot) => {
+      const activities = day.plan[slot];
+      if (!activities.length) return;
+      doc.ensureSpace(50);
+      doc.moveDown(6);
+      doc.text(SLOT_LABELS[slot].toUpperCase(), { font: "bold", size: 8, color: BRAND_COLOR });
+      activities.forEach((activity) => {
+        doc.ensureSpace(36);
+        doc.moveDown(2);
+        doc.text(`${activity.start_time}   ${activity.title}`, { font: "bold", size: 10.5 });
+        const details = describeActivity(activity, request.currency);
+        if (details) doc.text(details, { size: 9, color: MUTED_COLOR, indent: 38 });
+        if (activity.notes) doc.text(activity.notes, { size: 9.5, indent: 38 });
+      });
+    });
+  });
+}
+
+function renderPacking(doc: PdfDocument, trip: StoredTrip): void {
+  const checklist = trip.packingChecklist ?? createPackingChecklist(trip.response.packing_list);
+  doc.addPage();
+  doc.heading("Packing checklist");
+  PACKING_CATEGORIES.forEach((category) => {
+    const items = checklist[category];
+    if (!items.length) return;
+    doc.ensureSpace(40);
+    doc.moveDown(6);
+    doc.text(PACKING_CATEGORY_LABELS[category].toUpperCase(), { font: "bold", size: 8, color: BRAND_COLOR });
+    doc.moveDown(2);
+    items.forEach((item) => doc.checkbox(formatPackingItem(item), {}, item.checked));
+  });
+}
+
+function renderDocuments(doc: PdfDocument, trip: StoredTrip): void {
+  const { documents, entry_requirements: entry } = trip.response;
+  if (!documents.length) return;
+  doc.moveDown(12);
+  doc.heading("Documents");
+  documents.forEach((document) => doc.checkbox(document));
+  if (entry) {
+    doc.moveDown(6);
+    doc.text(
+      `Entry rules last updated ${entry.rules_as_of} (v${entry.rules_version}, ${entry.confidence} confidence). Confirm with the embassy before booking.`,
+      { size: 8.5, color: MUTED_COLOR },
+    );
+  }
+}
+
+/**
+ * The whole trip as a printable A4 PDF: a cover, why it matches, the
+ * day-by-day plan, then the packing and document checklists.
+ */
+export function renderTripPdf(trip: StoredTrip, now = new Date()): Buffer {
+  const title = [trip.response.trip_theme, trip.response.destination].filter(Boolean).join(" – ");
+  const doc = new PdfDocument(title);
+  renderCover(doc, trip);
+  doc.addPage();
+  renderWhyItMatches(doc, trip);
+  renderDays(doc, trip);
+  renderPacking(doc, trip);
+  renderDocuments(doc, trip);
+  return doc.toBuffer(now);
+}
@@ -0,0 +1,466 @@
+import { z } from "zod";
+import {
+  activityCategorySchema,
+  dailyPlanSchema,
+  tripResponseSchema,
+  type ActivityCategory,
+  type BudgetBreakdown,
+  type DailyPlan,
+  type TripRequest,
+  type TripResponse,
+  type TripStreamEvent,
+} from "@shared/schema";
+import { toClockTime } from "@shared/activities";
+import type { LlmMessage, LlmProvider } from "./llm";
+import { applyConstraintCheck, buildConstraintRepairPrompt } from "./trip-constraints";
+
+export const MAX_ITINERARY_ATTEMPTS = 3;
+
+export type TripValidationResult =
+  | { success: true; data: TripResponse }
+  | { success: false; issues: string[] };
+
+export type DayValidationResult =
+  | { success: true; data: DailyPlan }
+  | { success: false; issues: string[] };
+
+const ENERGY_LEVELS = ["low", "medium", "high"] as const;
+type EnergyLevel = (typeof ENERGY_LEVELS)[number];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function toCount(value: unknown): number {
+  const num = typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  if (!Number.isFinite(num)) return 0;
+  return Math.max(0, Math.round(num));
+}
+
+// Missing or unreadable counts stay undefined so the schema reports them
+function toOptionalCount(value: unknown): number | undefined {
+  const num = typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(num) ? Math.max(0, Math.round(num)) : undefined;
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join("\n");
+  if (value && typeof value === "object") {
+    return Object.values(value as Record<string, unknown>).map(toText).filter(Boolean).join(" - ");
+  }
+  return "";
+}
+
+function toTextList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean);
+  if (typeof value === "string") {
+    return value
+      .split(/\n|;/)
+      .map((item) => item.replace(/^[-*•\s]+/, "").trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+function toCost(value: unknown): number {
+  const num =
+    typeof value === "number" ? value : Number.parseFloat(String(value ?? "").replace(/[^\d.]/g, ""));
+  return Number.isFinite(num) ? Math.max(0, Math.round(num * 100) / 100) : 0;
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  return /^(true|yes|required|y)$/i.test(String(value ?? "").trim());
+}
+
+function toCategory(value: unknown): ActivityCategory {
+  const parsed = activityCategorySchema.safeParse(String(value ?? "").trim().toLowerCase());
+  return parsed.success ? parsed.data : "other";
+}
+
+function repairActivity(value: unknown): Record<string, unknown> {
+  const activity = asRecord(value);
+  return {
+    start_time: toClockTime(toText(activity.start_time ?? activity.time)) ?? "",
+    duration_minutes: toOptionalCount(activity.duration_minutes ?? activity.duration),
+    title: toText(activity.title ?? activity.name),
+    place_name: toText(activity.place_name ?? activity.place ?? activity.location),
+    category: toCategory(activity.category),
+    estimated_cost: toCost(activity.estimated_cost ?? activity.cost),
+    booking_required: toBoolean(activity.booking_required),
+    notes: toText(activity.notes),
+  };
+}
+
+/**
+ * Slots may arrive as text (one activity per line), a single activity object
+ * or a list; lists are sorted by start time. Text lines become bare titles,
+ * so their missing times are reported rather than guessed.
+ */
+function repairActivitySlot(value: unknown): unknown {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? toTextList(value)
+      : value && typeof value === "object"
+        ? [value]
+        : [];
+  return items
+    .map((item) => (typeof item === "string" ? { title: item } : item))
+    .map(repairActivity)
+    .sort((a, b) => String(a.start_time).localeCompare(String(b.start_time)));
+}
+
+function toEnergyLevel(value: unknown): EnergyLevel {
+  const normalized = String(value ?? "").trim().toLowerCase();
+  const match = ENERGY_LEVELS.find((level) => normalized.startsWith(level));
+  return match || "medium";
+}
+
+export function repairDailyPlan(value: unknown, dayNumber: number): Record<string, unknown> {
+  const day = asRecord(value);
+  const plan = asRecord(day.plan);
+  return {
+    day: dayNumber,
+    energy_level: toEnergyLevel(day.energy_level),
+    plan: {
+      morning: repairActivitySlot(plan.morning),
+      afternoon: repairActivitySlot(plan.afternoon),
+      evening: repairActivitySlot(plan.evening),
+    },
+  };
+}
+
+function repairDailyItinerary(value: unknown): Array<Record<string, unknown>> {
+  const days = Array.isArray(value) ? value : Object.values(asRecord(value));
+  return days
+    .map((entry, index) => {
+      const day = asRecord(entry);
+      const parsedDay = Number.parseInt(String(day.day ?? ""), 10);
+      return { day, order: Number.isFinite(parsedDay) ? parsedDay : index + 1, index };
+    })
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ day }, index) => repairDailyPlan(day, index + 1));
+}
+
+export function parseDailyPlan(value: unknown, dayNumber: number): DailyPlan | undefined {
+  const parsed = dailyPlanSchema.safeParse(repairDailyPlan(value, dayNumber));
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Best-effort structural repair of model output before schema validation.
+ * Coerces numbers, fills missing packing buckets and renumbers days 1..n;
+ * it never invents content, so missing text fields and activity times are
+ * left for the schema to report and the re-prompt to fill in.
+ */
+export function repairTripPayload(payload: unknown): Record<string, unknown> {
+  const data = asRecord(payload);
+
+  return {
+    ...data,
+    trip_theme: toText(data.trip_theme),
+    destination: toText(data.destination),
+    why_it_matches_you: toTextList(data.why_it_matches_you),
+    daily_itinerary: repairDailyItinerary(data.daily_itinerary),
+    packing_list: repairPackingList(data.packing_list),
+    // Set aside by applyPackingBaseline; never taken from the model
+    suggested_packing_list: undefined,
+    documents: toTextList(data.documents),
+    budget_breakdown: repairBudgetBreakdown(data.budget_breakdown),
+  };
+}
+
+/** Totals are placeholders here; checkBudgetBreakdown fills them in. */
+function repairBudgetBreakdown(value: unknown): BudgetBreakdown | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const budget = asRecord(value);
+  return {
+    currency: toText(budget.currency),
+    flights: toCost(budget.flights),
+    lodging_per_night: toCost(budget.lodging_per_night),
+    nights: toCount(budget.nights),
+    food_per_day: toCost(budget.food_per_day),
+    activities: toCost(budget.activities),
+    local_transport: toCost(budget.local_transport),
+    buffer: toCost(budget.buffer),
+    total: 0,
+    over_budget: false,
+    over_budget_by: 0,
+  };
+}
+
+/**
+ * Recomputes the breakdown total from its parts and flags plans that exceed
+ * the stated budget. Flights only count against the budget when the traveler
+ * said the budget includes them.
+ */
+export function checkBudgetBreakdown(breakdown: BudgetBreakdown, input: TripRequest): BudgetBreakdown {
+  const days = Math.max(1, Math.round(input.days));
+  const nights = days;
+  const total =
+    breakdown.flights +
+    breakdown.lodging_per_night * nights +
+    breakdown.food_per_day * days +
+    breakdown.activities +
+    breakdown.local_transport +
+    breakdown.buffer;
+  const comparable = input.includes_flights ? total : total - breakdown.flights;
+  const overBy = Math.max(0, comparable - input.budget_amount);
+
+  return {
+    ...breakdown,
+    currency: input.currency,
+    nights,
+    total: Math.round(total),
+    over_budget: overBy > 0,
+    over_budget_by: Math.round(overBy),
+  };
+}
+
+export function applyBudgetCheck(trip: TripResponse, input: TripRequest): TripResponse {
+  if (!trip.budget_breakdown) return trip;
+  return { ...trip, budget_breakdown: checkBudgetBreakdown(trip.budget_breakdown, input) };
+}
+
+function repairPackingList(value: unknown): TripResponse["packing_list"] {
+  const packing = asRecord(value);
+  const clothes = asRecord(packing.clothes);
+  return {
+    clothes: {
+      tops: toCount(clothes.tops),
+      bottoms: toCount(clothes.bottoms),
+      outerwear: toCount(clothes.outerwear),
+    },
+    shoes: toTextList(packing.shoes),
+    accessories: toTextList(packing.accessories),
+    misc: toTextList(packing.misc),
+  };
+}
+
+type TripSectionEvent = Extract<TripStreamEvent, { type: "overview" | "day" | "extras" }>;
+
+/**
+ * Parses one line of JSON Lines itinerary output into a repaired section
+ * event. Days are numbered by arrival order rather than trusting the model.
+ */
+export function parseTripStreamLine(line: string, dayNumber: number): TripSectionEvent | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return undefined;
+
+  let value: Record<string, unknown>;
+  try {
+    value = asRecord(JSON.parse(trimmed));
+  } catch {
+    return undefined;
+  }
+
+  switch (value.type) {
+    case "overview":
+      return {
+        type: "overview",
+        trip_theme: toText(value.trip_theme),
+        destination: toText(value.destination),
+        why_it_matches_you: toTextList(value.why_it_matches_you),
+      };
+    case "day": {
+      const day = parseDailyPlan(value, dayNumber);
+      return day ? { type: "day", day } : undefined;
+    }
+    case "extras":
+      return {
+        type: "extras",
+        packing_list: repairPackingList(value.packing_list),
+        documents: toTextList(value.documents),
+        budget_breakdown: repairBudgetBreakdown(value.budget_breakdown),
+      };
+    default:
+      return undefined;
+  }
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.errors.map((issue) => {
+    const path = issue.path.length ? issue.path.join(".") : "(root)";
+    return `${path}: ${issue.message}`;
+  });
+}
+
+function findEmptySlots(day: DailyPlan, path: string): string[] {
+  const issues: string[] = [];
+  (["morning", "afternoon", "evening"] as const).forEach((slot) => {
+    const activities = day.plan[slot];
+    if (!activities.length) {
+      issues.push(`${path}plan.${slot}: must contain at least one activity`);
+    }
+    activities.forEach((activity, index) => {
+      if (!activity.title) {
+        issues.push(`${path}plan.${slot}.${index}.title: must not be empty`);
+      }
+    });
+  });
+  return issues;
+}
+
+function findEmptyFields(trip: TripResponse): string[] {
+  const issues: string[] = [];
+  if (!trip.trip_theme) issues.push("trip_theme: must not be empty");
+  if (!trip.destination) issues.push("destination: must not be empty");
+  if (!trip.daily_itinerary.length) issues.push("daily_itinerary: must contain at least one day");
+  trip.daily_itinerary.forEach((day, index) => {
+    issues.push(...findEmptySlots(day, `daily_itinerary.${index}.`));
+  });
+  return issues;
+}
+
+export function validateTripContent(content: string): TripValidationResult {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch (err) {
+    return {
+      success: false,
+      issues: [`(root): response is not valid JSON (${(err as Error).message})`],
+    };
+  }
+  return validateTripPayload(payload);
+}
+
+export function validateTripPayload(payload: unknown): TripValidationResult {
+  const parsed = tripResponseSchema.safeParse(repairTripPayload(payload));
+  if (!parsed.success) {
+    return { success: false, issues: formatZodIssues(parsed.error) };
+  }
+
+  const emptyFields = findEmptyFields(parsed.data);
+  if (emptyFields.length) {
+    return { success: false, issues: emptyFields };
+  }
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Validates a single regenerated day. The day number is forced to the slot
+ * being replaced, whatever the model wrote.
+ */
+export function validateDayContent(content: string, dayNumber: number): DayValidationResult {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch (err) {
+    return {
+      success: false,
+      issues: [`(root): response is not valid JSON (${(err as Error).message})`],
+    };
+  }
+
+  const parsed = dailyPlanSchema.safeParse(repairDailyPlan(payload, dayNumber));
+  if (!parsed.success) {
+    return { success: false, issues: formatZodIssues(parsed.error) };
+  }
+
+  const emptySlots = findEmptySlots(parsed.data, "");
+  if (emptySlots.length) {
+    return { success: false, issues: emptySlots };
+  }
+  return { success: true, data: parsed.data };
+}
+
+export function buildRepairPrompt(issues: string[]): string {
+  return `
+Your previous JSON response did not match the required schema.
+
+Validation errors:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Return the COMPLETE corrected JSON object using the same schema as before.
+Do NOT include explanations or markdown.
+`;
+}
+
+/**
+ * Runs the JSON completion, re-prompting with the validation issues or broken
+ * request constraints until the output passes or MAX_ITINERARY_ATTEMPTS
+ * completions have been made. A valid plan that still breaks constraints is
+ * returned with its warnings rather than failing the request; `fallback` seeds
+ * it when the caller already has one.
+ */
+export async function completeTripWithRetries(
+  llm: LlmProvider,
+  input: TripRequest,
+  messages: LlmMessage[],
+  fallback?: TripResponse,
+): Promise<TripValidationResult> {
+  let issues: string[] = [];
+  let best = fallback;
+
+  for (let attempt = 1; attempt <= MAX_ITINERARY_ATTEMPTS; attempt++) {
+    const content = await llm.completeJson({ task: "itinerary", input, messages });
+    const validation = validateTripContent(content);
+    if (!validation.success) {
+      issues = validation.issues;
+      console.warn(
+        `Itinerary attempt ${attempt}/${MAX_ITINERARY_ATTEMPTS} failed validation:`,
+        issues,
+      );
+      messages = [
+        ...messages,
+        { role: "assistant", content },
+        { role: "user", content: buildRepairPrompt(issues) },
+      ];
+      continue;
+    }
+
+    const trip = applyConstraintCheck(validation.data, input);
+    const warnings = trip.warnings || [];
+    if (!warnings.length) {
+      return { success: true, data: trip };
+    }
+
+    if (!best || warnings.length < (best.warnings || []).length) best = trip;
+    console.warn(
+      `Itinerary attempt ${attempt}/${MAX_ITINERARY_ATTEMPTS} broke request constraints:`,
+      warnings.map((warning) => warning.message),
+    );
+    messages = [
+      ...messages,
+      { role: "assistant", content },
+      { role: "user", content: buildConstraintRepairPrompt(warnings) },
+    ];
+  }
+
+  return best ? { success: true, data: best } : { success: false, issues };
+}
+
+export async function completeDayWithRetries(
+  llm: LlmProvider,
+  request: { input: TripRequest; trip: TripResponse; day: number; guidance?: string },
+  messages: LlmMessage[],
+): Promise<DayValidationResult> {
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ITINERARY_ATTEMPTS; attempt++) {
+    const content = await llm.completeJson({ task: "day", ...request, messages });
+    const validation = validateDayContent(content, request.day);
+    if (validation.success) {
+      return validation;
+    }
+
+    issues = validation.issues;
+    console.warn(
+      `Day ${request.day} regeneration attempt ${attempt}/${MAX_ITINERARY_ATTEMPTS} failed validation:`,
+      issues,
+    );
+    messages = [
+      ...messages,
+      { role: "assistant", content },
+      { role: "user", content: buildRepairPrompt(issues) },
+    ];
+  }
+
+  return { success: false, issues };
+}
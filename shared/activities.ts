@@ -0,0 +1,84 @@
+import type { Activity } from "./schema";
+
+export type DaySlot = "morning" | "afternoon" | "evening";
+
+export const SLOT_DEFAULT_START: Record<DaySlot, string> = {
+  morning: "09:00",
+  afternoon: "13:00",
+  evening: "19:00",
+};
+
+const DEFAULT_DURATION_MINUTES = 90;
+
+const CLOCK_TIME_PATTERN = /^(\d{1,2})(?:[:.](\d{2}))?\s*([ap]\.?m\.?)?$/i;
+const LEADING_TIME_PATTERN = /^(\d{1,2}(?:[:.]\d{2})?\s*(?:[ap]\.?m\.?)?)\s*[-–—:]\s*(.+)$/i;
+
+/** Normalizes "9:00 AM", "09.30pm" or "14:00" to 24-hour "HH:MM". */
+export function toClockTime(value: string): string | undefined {
+  const match = value.trim().match(CLOCK_TIME_PATTERN);
+  if (!match) return undefined;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || "0");
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/** "13:15" -> "01:15 PM", matching how plans were written before activities. */
+export function formatClockTime(value: string): string {
+  const [hours, minutes] = value.split(":").map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return value;
+  const suffix = hours >= 12 ? "PM" : "AM";
+  const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+  return `${String(displayHour).padStart(2, "0")}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+export function toMinutes(clockTime: string): number {
+  const [hours, minutes] = clockTime.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Converts a legacy free-text slot ("09:00 AM - Activity...", one item per
+ * line) into activities. Durations run until the next item starts.
+ */
+export function parseLegacyActivities(text: string, slot: DaySlot): Activity[] {
+  const items = text
+    .split(/\n+|\s+(?=\d{1,2}[:.]\d{2}\s*[ap]\.?m\.?\s*[-–—])/i)
+    .map((item) => item.replace(/^[-*•\s]+/, "").trim())
+    .filter(Boolean);
+
+  const parsed = items.map((item) => {
+    const match = item.match(LEADING_TIME_PATTERN);
+    const startTime = match ? toClockTime(match[1]) : undefined;
+    return {
+      startTime,
+      title: (startTime && match ? match[2] : item).trim(),
+    };
+  });
+
+  let fallbackStart = toMinutes(SLOT_DEFAULT_START[slot]);
+  return parsed.map((item, index) => {
+    const start = item.startTime ? toMinutes(item.startTime) : fallbackStart;
+    const nextStart = parsed[index + 1]?.startTime;
+    const duration =
+      nextStart && toMinutes(nextStart) > start ? toMinutes(nextStart) - start : DEFAULT_DURATION_MINUTES;
+    fallbackStart = start + duration;
+
+    return {
+      start_time:
+        item.startTime ||
+        `${String(Math.floor(start / 60) % 24).padStart(2, "0")}:${String(start % 60).padStart(2, "0")}`,
+      duration_minutes: duration,
+      title: item.title,
+      place_name: "",
+      category: "other",
+      estimated_cost: 0,
+      booking_required: false,
+      notes: "",
+    };
+  });
+}
@@ -0,0 +1,165 @@
+import type {
+  BudgetEstimate,
+  BudgetEstimateRequest,
+  ExchangeRates,
+  Place,
+  TripRequest,
+} from "./schema";
+import {
+  findCountryInLocation,
+  getCountryByCode,
+  getCountryFromLocation,
+  type CountryRegion,
+} from "./countries";
+import { convertAmount, getCurrencyStrength } from "./currencies";
+
+type TripType = TripRequest["trip_type"];
+type ComfortLevel = TripRequest["comfort_level"];
+
+const INTERNATIONAL_ORIGIN_MULTIPLIER: Record<CountryRegion | "global", number> = {
+  oceania: 1.15,
+  europe: 1.18,
+  north_america: 1.2,
+  middle_east: 1.05,
+  africa: 1.0,
+  south_america: 1.1,
+  asia: 1.0,
+  antarctica: 1.2,
+  global: 1.1,
+};
+
+/**
+ * A known destination decides domestic vs international; otherwise the
+ * traveler's own trip_type stands. Places picked from suggestions are compared
+ * by country code, free-text locations by their country part.
+ */
+export function inferTripType(input: {
+  trip_type: TripType;
+  location: string;
+  destination_location?: string;
+  origin_place?: Place;
+  destination_place?: Place;
+}): TripType {
+  if (input.origin_place && input.destination_place) {
+    return input.origin_place.country_code === input.destination_place.country_code
+      ? "domestic"
+      : "international";
+  }
+  const destination = input.destination_location?.trim();
+  if (!destination) return input.trip_type;
+  const originCountry = getCountryFromLocation(input.location);
+  const destinationCountry = getCountryFromLocation(destination);
+  if (!originCountry || !destinationCountry) return input.trip_type;
+  return originCountry.toLowerCase() === destinationCountry.toLowerCase() ? "domestic" : "international";
+}
+
+// Maps the registry cost index onto a price multiplier; an index of 4 is 1.0.
+function getDomesticCostMultiplier(costIndex: number): number {
+  return 0.6 + costIndex * 0.1;
+}
+
+function getCurrencyStrengthMultiplier(currency: string, rates: ExchangeRates): number {
+  const strength = getCurrencyStrength(currency, rates);
+  if (strength === "strong") return 0.9;
+  if (strength === "weak") return 1.1;
+  return 1.0;
+}
+
+function estimateRangeInInr(
+  input: BudgetEstimateRequest,
+  tripType: TripType,
+  rates: ExchangeRates,
+): { low: number; high: number } {
+  const travelers = Math.max(1, input.number_of_people);
+  const domestic = tripType === "domestic";
+  const origin =
+    (input.origin_place && getCountryByCode(input.origin_place.country_code)) ||
+    findCountryInLocation(input.location);
+  const maxFlightHours = input.max_flight_hours ?? 8;
+
+  const perDayLow = domestic ? 1200 : 2500;
+  const perDayHigh = domestic ? 3000 : 6500;
+  const fixedLow = domestic ? 3000 : 12000;
+  const fixedHigh = domestic ? 8000 : 30000;
+
+  const baseLow = travelers * (input.days * perDayLow + fixedLow);
+  const baseHigh = travelers * (input.days * perDayHigh + fixedHigh);
+
+  const geoMultiplier = domestic
+    ? origin
+      ? getDomesticCostMultiplier(origin.costIndex)
+      : 1
+    : INTERNATIONAL_ORIGIN_MULTIPLIER[origin?.region ?? "global"];
+  const currencyMultiplier = domestic ? 1 : getCurrencyStrengthMultiplier(input.currency, rates);
+  const comfortMultiplier =
+    input.comfort_level === "low" ? 0.85 : input.comfort_level === "premium" ? 1.35 : 1;
+  const flightBudgetMultiplier = input.includes_flights ? 1 : 0.78;
+  const flightDurationMultiplier = domestic
+    ? 1
+    : maxFlightHours <= 6
+      ? 0.9
+      : maxFlightHours >= 12
+        ? 1.1
+        : 1;
+
+  const multiplier =
+    geoMultiplier * currencyMultiplier * comfortMultiplier * flightBudgetMultiplier * flightDurationMultiplier;
+  return { low: Math.round(baseLow * multiplier), high: Math.round(baseHigh * multiplier) };
+}
+
+function getBudgetGuidanceNote(
+  currency: string,
+  tripType: TripType,
+  location: string,
+  rates: ExchangeRates,
+): string {
+  const strength = getCurrencyStrength(currency, rates);
+  const country = getCountryFromLocation(location);
+
+  if (tripType === "domestic") {
+    return `For ${country || "your country"}, consider off-peak dates and budget-friendly domestic routes to stretch value.`;
+  }
+  if (strength === "weak") {
+    return `From ${country || "your origin"}, prioritize geographically nearby and value-focused international options, and consider off-peak travel.`;
+  }
+  if (strength === "strong") {
+    return `Your selected currency has strong purchasing power. From ${country || "your origin"}, compare nearby-value and premium international options while keeping the trip practical.`;
+  }
+  return `From ${country || "your origin"}, balance route distance, seasonality, and flight costs to stay within budget.`;
+}
+
+function deriveComfortTier(budgetInInr: number, rangeInInr: { low: number; high: number }): ComfortLevel {
+  if (budgetInInr < rangeInInr.low) return "low";
+  if (budgetInInr > rangeInInr.high) return "premium";
+  return "medium";
+}
+
+/**
+ * Recommended spend for a trip setup, expressed in the request's currency.
+ * The ranges are calibrated in INR and converted with `rates`. A budget within
+ * 75% of the low end may still proceed, unless flights are included and it
+ * falls under 90% of it.
+ */
+export function estimateBudget(input: BudgetEstimateRequest, rates: ExchangeRates): BudgetEstimate {
+  const tripType = inferTripType(input);
+  const inrPerUnit = convertAmount(1, input.currency, "INR", rates) ?? 1;
+  const budgetInInr = input.budget_amount * inrPerUnit;
+  const rangeInInr = estimateRangeInInr(input, tripType, rates);
+
+  const belowRange = budgetInInr < rangeInInr.low;
+  const closeToRange = budgetInInr >= rangeInInr.low * 0.75;
+  const tooLowWithFlights = input.includes_flights && budgetInInr < rangeInInr.low * 0.9;
+
+  return {
+    currency: input.currency,
+    trip_type: tripType,
+    recommended_range: {
+      low: Math.round(rangeInInr.low / inrPerUnit),
+      high: Math.round(rangeInInr.high / inrPerUnit),
+    },
+    budget_status: belowRange ? "below_range" : budgetInInr > rangeInInr.high ? "above_range" : "within_range",
+    comfort_level: deriveComfortTier(budgetInInr, rangeInInr),
+    can_proceed: !belowRange || (closeToRange && !tooLowWithFlights),
+    guidance: getBudgetGuidanceNote(input.currency, tripType, input.location, rates),
+  };
+}
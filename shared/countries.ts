@@ -0,0 +1,379 @@
+export type CountryRegion =
+  | "asia"
+  | "europe"
+  | "oceania"
+  | "north_america"
+  | "south_america"
+  | "africa"
+  | "middle_east"
+  | "antarctica";
+
+export interface Country {
+  /** ISO 3166-1 alpha-2 */
+  code: string;
+  /** ISO 3166-1 alpha-3 */
+  alpha3: string;
+  name: string;
+  aliases: string[];
+  region: CountryRegion;
+  /** ISO 4217 code travelers would normally budget in */
+  currency: string;
+  /** On-the-ground price level, 1 (very cheap) to 10 (very expensive); 4 is average */
+  costIndex: number;
+  /** Alpha-2 codes of bordering or short-hop countries */
+  neighbours: string[];
+}
+
+type CountryRow = [
+  code: string,
+  alpha3: string,
+  name: string,
+  region: CountryRegion,
+  currency: string,
+  costIndex: number,
+  neighbours: string[],
+  aliases?: string[],
+];
+
+// prettier-ignore
+const COUNTRY_ROWS: CountryRow[] = [
+  ["AD", "AND", "Andorra", "europe", "EUR", 5.5, ["ES", "FR"]],
+  ["AE", "ARE", "United Arab Emirates", "middle_east", "AED", 6.5, ["OM", "SA", "QA", "BH"], ["UAE", "U.A.E.", "Emirates"]],
+  ["AF", "AFG", "Afghanistan", "asia", "AFN", 2, ["PK", "IR", "TM", "UZ", "TJ", "CN"]],
+  ["AG", "ATG", "Antigua and Barbuda", "north_america", "XCD", 7, ["KN", "MS", "GP", "AI"], ["Antigua"]],
+  ["AI", "AIA", "Anguilla", "north_america", "XCD", 8.5, ["MF", "SX", "BL", "KN"]],
+  ["AL", "ALB", "Albania", "europe", "ALL", 3, ["ME", "MK", "GR", "IT"]],
+  ["AM", "ARM", "Armenia", "asia", "AMD", 3, ["GE", "AZ", "IR", "TR"]],
+  ["AO", "AGO", "Angola", "africa", "AOA", 4.5, ["NA", "ZM", "CD", "CG"]],
+  ["AQ", "ATA", "Antarctica", "antarctica", "USD", 10, ["AR", "CL", "FK"]],
+  ["AR", "ARG", "Argentina", "south_america", "ARS", 3, ["CL", "BO", "PY", "BR", "UY"]],
+  ["AS", "ASM", "American Samoa", "oceania", "USD", 6, ["WS", "TO", "FJ"]],
+  ["AT", "AUT", "Austria", "europe", "EUR", 6.5, ["DE", "CZ", "SK", "HU", "SI", "IT", "CH", "LI"]],
+  ["AU", "AUS", "Australia", "oceania", "AUD", 7.5, ["NZ", "ID", "PG", "FJ", "NC", "TL"]],
+  ["AW", "ABW", "Aruba", "north_america", "AWG", 7, ["CW", "BQ", "VE", "CO"]],
+  ["AX", "ALA", "Åland Islands", "europe", "EUR", 6.5, ["FI", "SE"], ["Aland"]],
+  ["AZ", "AZE", "Azerbaijan", "asia", "AZN", 3, ["GE", "AM", "RU", "IR", "TR"]],
+  ["BA", "BIH", "Bosnia and Herzegovina", "europe", "BAM", 3, ["HR", "RS", "ME"], ["Bosnia"]],
+  ["BB", "BRB", "Barbados", "north_america", "BBD", 7, ["LC", "VC", "TT", "GD"]],
+  ["BD", "BGD", "Bangladesh", "asia", "BDT", 2, ["IN", "MM", "NP", "BT"]],
+  ["BE", "BEL", "Belgium", "europe", "EUR", 6.5, ["NL", "DE", "LU", "FR"]],
+  ["BF", "BFA", "Burkina Faso", "africa", "XOF", 3, ["ML", "NE", "BJ", "TG", "GH", "CI"]],
+  ["BG", "BGR", "Bulgaria", "europe", "BGN", 3, ["RO", "RS", "MK", "GR", "TR"]],
+  ["BH", "BHR", "Bahrain", "middle_east", "BHD", 6, ["SA", "QA", "AE", "KW"]],
+  ["BI", "BDI", "Burundi", "africa", "BIF", 2.5, ["RW", "TZ", "CD"]],
+  ["BJ", "BEN", "Benin", "africa", "XOF", 3, ["TG", "BF", "NE", "NG"]],
+  ["BL", "BLM", "Saint Barthélemy", "north_america", "EUR", 9, ["MF", "SX", "AI", "KN"], ["St Barts", "St Barths"]],
+  ["BM", "BMU", "Bermuda", "north_america", "BMD", 9, ["US", "BS"]],
+  ["BN", "BRN", "Brunei", "asia", "BND", 5, ["MY", "ID", "SG"], ["Brunei Darussalam"]],
+  ["BO", "BOL", "Bolivia", "south_america", "BOB", 2.5, ["PE", "CL", "AR", "PY", "BR"], ["Plurinational State of Bolivia"]],
+  ["BQ", "BES", "Caribbean Netherlands", "north_america", "USD", 6.5, ["CW", "AW", "SX"], ["Bonaire", "Bonaire, Sint Eustatius and Saba"]],
+  ["BR", "BRA", "Brazil", "south_america", "BRL", 3.5, ["AR", "UY", "PY", "BO", "PE", "CO", "VE", "GY", "SR", "GF"], ["Brasil"]],
+  ["BS", "BHS", "Bahamas", "north_america", "BSD", 8, ["US", "TC", "CU"], ["The Bahamas"]],
+  ["BT", "BTN", "Bhutan", "asia", "BTN", 5, ["IN", "CN", "NP", "BD"]],
+  ["BV", "BVT", "Bouvet Island", "antarctica", "NOK", 10, ["ZA"]],
+  ["BW", "BWA", "Botswana", "africa", "BWP", 4.5, ["ZA", "NA", "ZM", "ZW"]],
+  ["BY", "BLR", "Belarus", "europe", "BYN", 3, ["RU", "UA", "PL", "LT", "LV"]],
+  ["BZ", "BLZ", "Belize", "north_america", "BZD", 4.5, ["MX", "GT", "HN"]],
+  ["CA", "CAN", "Canada", "north_america", "CAD", 7, ["US", "PM", "GL"]],
+  ["CC", "CCK", "Cocos (Keeling) Islands", "oceania", "AUD", 7, ["CX", "ID", "AU"], ["Cocos Islands"]],
+  ["CD", "COD", "Democratic Republic of the Congo", "africa", "CDF", 4, ["CG", "CF", "SS", "UG", "RW", "BI", "TZ", "ZM", "AO"], ["DR Congo", "DRC", "Congo - Kinshasa", "Congo (DRC)", "Congo-Kinshasa"]],
+  ["CF", "CAF", "Central African Republic", "africa", "XAF", 4, ["TD", "SD", "SS", "CD", "CG", "CM"], ["CAR"]],
+  ["CG", "COG", "Republic of the Congo", "africa", "XAF", 5, ["GA", "CM", "CF", "CD", "AO"], ["Congo", "Congo - Brazzaville", "Congo-Brazzaville", "Congo (Republic)"]],
+  ["CH", "CHE", "Switzerland", "europe", "CHF", 9, ["DE", "FR", "IT", "AT", "LI"]],
+  ["CI", "CIV", "Côte d'Ivoire", "africa", "XOF", 4, ["LR", "GN", "ML", "BF", "GH"], ["Ivory Coast"]],
+  ["CK", "COK", "Cook Islands", "oceania", "NZD", 6.5, ["PF", "NU", "WS", "NZ"]],
+  ["CL", "CHL", "Chile", "south_america", "CLP", 4.5, ["AR", "BO", "PE"]],
+  ["CM", "CMR", "Cameroon", "africa", "XAF", 3.5, ["NG", "TD", "CF", "CG", "GA", "GQ"]],
+  ["CN", "CHN", "China", "asia", "CNY", 4, ["MN", "RU", "KP", "VN", "LA", "MM", "IN", "BT", "NP", "PK", "AF", "TJ", "KG", "KZ", "HK", "MO"], ["People's Republic of China", "PRC", "Mainland China"]],
+  ["CO", "COL", "Colombia", "south_america", "COP", 2.5, ["VE", "BR", "PE", "EC", "PA"]],
+  ["CR", "CRI", "Costa Rica", "north_america", "CRC", 5, ["NI", "PA"]],
+  ["CU", "CUB", "Cuba", "north_america", "CUP", 3.5, ["BS", "JM", "HT", "MX", "US"]],
+  ["CV", "CPV", "Cape Verde", "africa", "CVE", 4, ["SN", "GM", "MR"], ["Cabo Verde"]],
+  ["CW", "CUW", "Curaçao", "north_america", "ANG", 6, ["AW", "BQ", "VE"], ["Curacao"]],
+  ["CX", "CXR", "Christmas Island", "oceania", "AUD", 7, ["ID", "CC", "AU"]],
+  ["CY", "CYP", "Cyprus", "europe", "EUR", 5.5, ["GR", "TR", "LB", "IL"]],
+  ["CZ", "CZE", "Czechia", "europe", "CZK", 4.5, ["DE", "PL", "SK", "AT"], ["Czech Republic"]],
+  ["DE", "DEU", "Germany", "europe", "EUR", 6.5, ["DK", "PL", "CZ", "AT", "CH", "FR", "LU", "BE", "NL"], ["Deutschland"]],
+  ["DJ", "DJI", "Djibouti", "africa", "DJF", 5, ["ER", "ET", "SO", "YE"]],
+  ["DK", "DNK", "Denmark", "europe", "DKK", 8, ["DE", "SE", "NO"]],
+  ["DM", "DMA", "Dominica", "north_america", "XCD", 5, ["GP", "MQ", "LC"]],
+  ["DO", "DOM", "Dominican Republic", "north_america", "DOP", 3.5, ["HT", "PR", "TC"]],
+  ["DZ", "DZA", "Algeria", "africa", "DZD", 3, ["MA", "TN", "LY", "NE", "ML", "MR", "EH"]],
+  ["EC", "ECU", "Ecuador", "south_america", "USD", 3, ["CO", "PE"]],
+  ["EE", "EST", "Estonia", "europe", "EUR", 5, ["LV", "RU", "FI"]],
+  ["EG", "EGY", "Egypt", "africa", "EGP", 2.5, ["LY", "SD", "IL", "PS", "JO", "SA"]],
+  ["EH", "ESH", "Western Sahara", "africa", "MAD", 3, ["MA", "DZ", "MR"]],
+  ["ER", "ERI", "Eritrea", "africa", "ERN", 3, ["SD", "ET", "DJ", "YE"]],
+  ["ES", "ESP", "Spain", "europe", "EUR", 5, ["PT", "FR", "AD", "MA", "GI"], ["España"]],
+  ["ET", "ETH", "Ethiopia", "africa", "ETB", 2.5, ["ER", "DJ", "SO", "KE", "SS", "SD"]],
+  ["FI", "FIN", "Finland", "europe", "EUR", 7, ["SE", "NO", "RU", "EE", "AX"]],
+  ["FJ", "FJI", "Fiji", "oceania", "FJD", 5, ["VU", "TO", "WS", "NC", "TV"]],
+  ["FK", "FLK", "Falkland Islands", "south_america", "FKP", 7, ["AR", "CL", "GS"], ["Falklands", "Islas Malvinas"]],
+  ["FM", "FSM", "Micronesia", "oceania", "USD", 6, ["GU", "MH", "PW", "MP"], ["Federated States of Micronesia"]],
+  ["FO", "FRO", "Faroe Islands", "europe", "DKK", 8, ["IS", "GB", "NO", "DK"], ["Faroes"]],
+  ["FR", "FRA", "France", "europe", "EUR", 6.5, ["BE", "LU", "DE", "CH", "IT", "MC", "ES", "AD"]],
+  ["GA", "GAB", "Gabon", "africa", "XAF", 5.5, ["GQ", "CM", "CG"]],
+  ["GB", "GBR", "United Kingdom", "europe", "GBP", 7, ["IE", "FR", "BE", "NL", "IM"], ["UK", "U.K.", "Great Britain", "Britain", "England", "Scotland", "Wales", "Northern Ireland"]],
+  ["GD", "GRD", "Grenada", "north_america", "XCD", 6, ["VC", "TT", "BB"]],
+  ["GE", "GEO", "Georgia", "asia", "GEL", 3, ["RU", "AZ", "AM", "TR"], ["Sakartvelo"]],
+  ["GF", "GUF", "French Guiana", "south_america", "EUR", 6, ["SR", "BR"]],
+  ["GG", "GGY", "Guernsey", "europe", "GBP", 7.5, ["JE", "GB", "FR"]],
+  ["GH", "GHA", "Ghana", "africa", "GHS", 3.5, ["CI", "BF", "TG"]],
+  ["GI", "GIB", "Gibraltar", "europe", "GIP", 6.5, ["ES", "MA"]],
+  ["GL", "GRL", "Greenland", "north_america", "DKK", 7.5, ["CA", "IS", "DK"]],
+  ["GM", "GMB", "Gambia", "africa", "GMD", 3, ["SN", "GW"], ["The Gambia"]],
+  ["GN", "GIN", "Guinea", "africa", "GNF", 3, ["GW", "SN", "ML", "CI", "LR", "SL"]],
+  ["GP", "GLP", "Guadeloupe", "north_america", "EUR", 6.5, ["DM", "AG", "MS", "MQ"]],
+  ["GQ", "GNQ", "Equatorial Guinea", "africa", "XAF", 5, ["CM", "GA", "ST"]],
+  ["GR", "GRC", "Greece", "europe", "EUR", 5, ["AL", "MK", "BG", "TR", "CY", "IT"], ["Hellas"]],
+  ["GS", "SGS", "South Georgia and the South Sandwich Islands", "antarctica", "GBP", 10, ["FK", "AR"], ["South Georgia", "South Georgia and South Sandwich Islands"]],
+  ["GT", "GTM", "Guatemala", "north_america", "GTQ", 3, ["MX", "BZ", "HN", "SV"]],
+  ["GU", "GUM", "Guam", "oceania", "USD", 7, ["MP", "FM", "PW", "JP"]],
+  ["GW", "GNB", "Guinea-Bissau", "africa", "XOF", 3, ["SN", "GN", "GM"]],
+  ["GY", "GUY", "Guyana", "south_america", "GYD", 4, ["VE", "BR", "SR"]],
+  ["HK", "HKG", "Hong Kong", "asia", "HKD", 7, ["CN", "MO", "TW"], ["Hong Kong SAR", "Hong Kong SAR China", "HK"]],
+  ["HM", "HMD", "Heard Island and McDonald Islands", "antarctica", "AUD", 10, ["AU", "TF"], ["Heard and McDonald Islands"]],
+  ["HN", "HND", "Honduras", "north_america", "HNL", 3, ["GT", "SV", "NI", "BZ"]],
+  ["HR", "HRV", "Croatia", "europe", "EUR", 5, ["SI", "HU", "RS", "BA", "ME", "IT"], ["Hrvatska"]],
+  ["HT", "HTI", "Haiti", "north_america", "HTG", 3, ["DO", "CU", "JM"]],
+  ["HU", "HUN", "Hungary", "europe", "HUF", 4, ["AT", "SK", "UA", "RO", "RS", "HR", "SI"]],
+  ["ID", "IDN", "Indonesia", "asia", "IDR", 3, ["MY", "TL", "PG", "SG", "AU", "PH"]],
+  ["IE", "IRL", "Ireland", "europe", "EUR", 7.5, ["GB", "FR"], ["Republic of Ireland", "Eire"]],
+  ["IL", "ISR", "Israel", "middle_east", "ILS", 7.5, ["LB", "SY", "JO", "EG", "PS", "CY"]],
+  ["IM", "IMN", "Isle of Man", "europe", "GBP", 7, ["GB", "IE"]],
+  ["IN", "IND", "India", "asia", "INR", 2.5, ["PK", "CN", "NP", "BT", "BD", "MM", "LK", "MV"], ["Bharat"]],
+  ["IO", "IOT", "British Indian Ocean Territory", "asia", "USD", 7, ["MV", "LK", "SC"], ["Chagos Islands"]],
+  ["IQ", "IRQ", "Iraq", "middle_east", "IQD", 3.5, ["TR", "IR", "KW", "SA", "JO", "SY"]],
+  ["IR", "IRN", "Iran", "middle_east", "IRR", 2.5, ["TR", "AM", "AZ", "TM", "AF", "PK", "IQ"], ["Islamic Republic of Iran", "Persia"]],
+  ["IS", "ISL", "Iceland", "europe", "ISK", 8.5, ["FO", "GL", "NO", "GB"]],
+  ["IT", "ITA", "Italy", "europe", "EUR", 6, ["FR", "CH", "AT", "SI", "SM", "VA", "MT", "HR"], ["Italia"]],
+  ["JE", "JEY", "Jersey", "europe", "GBP", 7.5, ["GG", "GB", "FR"]],
+  ["JM", "JAM", "Jamaica", "north_america", "JMD", 4.5, ["CU", "HT", "KY"]],
+  ["JO", "JOR", "Jordan", "middle_east", "JOD", 4.5, ["SY", "IQ", "SA", "IL", "PS", "EG"]],
+  ["JP", "JPN", "Japan", "asia", "JPY", 6.5, ["KR", "TW", "CN", "RU"], ["Nippon"]],
+  ["KE", "KEN", "Kenya", "africa", "KES", 4, ["TZ", "UG", "SS", "ET", "SO"]],
+  ["KG", "KGZ", "Kyrgyzstan", "asia", "KGS", 2, ["KZ", "UZ", "TJ", "CN"], ["Kyrgyz Republic"]],
+  ["KH", "KHM", "Cambodia", "asia", "KHR", 2.5, ["TH", "LA", "VN"]],
+  ["KI", "KIR", "Kiribati", "oceania", "AUD", 5, ["TV", "MH", "NR", "FJ"]],
+  ["KM", "COM", "Comoros", "africa", "KMF", 4, ["YT", "MG", "MZ", "TZ"]],
+  ["KN", "KNA", "Saint Kitts and Nevis", "north_america", "XCD", 7, ["AG", "MS", "AI", "BL"], ["St Kitts"]],
+  ["KP", "PRK", "North Korea", "asia", "KPW", 3, ["CN", "KR", "RU"], ["DPRK", "Democratic People's Republic of Korea", "Korea, North"]],
+  ["KR", "KOR", "South Korea", "asia", "KRW", 5.5, ["JP", "CN", "TW", "KP"], ["Korea", "Republic of Korea", "Korea, South"]],
+  ["KW", "KWT", "Kuwait", "middle_east", "KWD", 6, ["IQ", "SA", "BH"]],
+  ["KY", "CYM", "Cayman Islands", "north_america", "KYD", 8.5, ["JM", "CU"], ["Caymans"]],
+  ["KZ", "KAZ", "Kazakhstan", "asia", "KZT", 3, ["RU", "CN", "KG", "UZ", "TM"]],
+  ["LA", "LAO", "Laos", "asia", "LAK", 2, ["CN", "VN", "KH", "TH", "MM"], ["Lao PDR", "Lao People's Democratic Republic"]],
+  ["LB", "LBN", "Lebanon", "middle_east", "LBP", 4, ["SY", "IL", "CY"]],
+  ["LC", "LCA", "Saint Lucia", "north_america", "XCD", 6.5, ["MQ", "VC", "BB"]],
+  ["LI", "LIE", "Liechtenstein", "europe", "CHF", 9, ["CH", "AT"]],
+  ["LK", "LKA", "Sri Lanka", "asia", "LKR", 2.5, ["IN", "MV"], ["Ceylon"]],
+  ["LR", "LBR", "Liberia", "africa", "LRD", 3.5, ["SL", "GN", "CI"]],
+  ["LS", "LSO", "Lesotho", "africa", "LSL", 3, ["ZA"]],
+  ["LT", "LTU", "Lithuania", "europe", "EUR", 4.5, ["LV", "BY", "PL", "RU"]],
+  ["LU", "LUX", "Luxembourg", "europe", "EUR", 8, ["BE", "DE", "FR"]],
+  ["LV", "LVA", "Latvia", "europe", "EUR", 4.5, ["EE", "LT", "BY", "RU"]],
+  ["LY", "LBY", "Libya", "africa", "LYD", 3, ["EG", "SD", "TD", "NE", "DZ", "TN"]],
+  ["MA", "MAR", "Morocco", "africa", "MAD", 3, ["DZ", "EH", "ES", "PT"]],
+  ["MC", "MCO", "Monaco", "europe", "EUR", 9.5, ["FR", "IT"]],
+  ["MD", "MDA", "Moldova", "europe", "MDL", 2.5, ["RO", "UA"], ["Republic of Moldova"]],
+  ["ME", "MNE", "Montenegro", "europe", "EUR", 3.5, ["HR", "BA", "RS", "AL"]],
+  ["MF", "MAF", "Saint Martin", "north_america", "EUR", 7, ["SX", "AI", "BL"], ["St Martin (French part)"]],
+  ["MG", "MDG", "Madagascar", "africa", "MGA", 2.5, ["MU", "RE", "KM", "MZ"]],
+  ["MH", "MHL", "Marshall Islands", "oceania", "USD", 6, ["FM", "KI", "NR"]],
+  ["MK", "MKD", "North Macedonia", "europe", "MKD", 3, ["RS", "BG", "GR", "AL"], ["Macedonia"]],
+  ["ML", "MLI", "Mali", "africa", "XOF", 3, ["DZ", "NE", "BF", "CI", "GN", "SN", "MR"]],
+  ["MM", "MMR", "Myanmar", "asia", "MMK", 2.5, ["BD", "IN", "CN", "LA", "TH"], ["Burma", "Myanmar (Burma)"]],
+  ["MN", "MNG", "Mongolia", "asia", "MNT", 3, ["RU", "CN"]],
+  ["MO", "MAC", "Macao", "asia", "MOP", 6, ["CN", "HK"], ["Macau", "Macao SAR", "Macao SAR China"]],
+  ["MP", "MNP", "Northern Mariana Islands", "oceania", "USD", 6.5, ["GU", "FM", "JP"], ["Saipan"]],
+  ["MQ", "MTQ", "Martinique", "north_america", "EUR", 6.5, ["DM", "LC", "GP"]],
+  ["MR", "MRT", "Mauritania", "africa", "MRU", 3, ["EH", "DZ", "ML", "SN"]],
+  ["MS", "MSR", "Montserrat", "north_america", "XCD", 6, ["AG", "KN", "GP"]],
+  ["MT", "MLT", "Malta", "europe", "EUR", 5.5, ["IT", "TN"]],
+  ["MU", "MUS", "Mauritius", "africa", "MUR", 4.5, ["RE", "MG", "SC"]],
+  ["MV", "MDV", "Maldives", "asia", "MVR", 7, ["LK", "IN"]],
+  ["MW", "MWI", "Malawi", "africa", "MWK", 2.5, ["TZ", "MZ", "ZM"]],
+  ["MX", "MEX", "Mexico", "north_america", "MXN", 3.5, ["US", "GT", "BZ", "CU"], ["México"]],
+  ["MY", "MYS", "Malaysia", "asia", "MYR", 3, ["TH", "SG", "ID", "BN"]],
+  ["MZ", "MOZ", "Mozambique", "africa", "MZN", 3, ["ZA", "SZ", "ZW", "ZM", "MW", "TZ"]],
+  ["NA", "NAM", "Namibia", "africa", "NAD", 4, ["AO", "ZM", "BW", "ZA"]],
+  ["NC", "NCL", "New Caledonia", "oceania", "XPF", 7.5, ["VU", "FJ", "AU"]],
+  ["NE", "NER", "Niger", "africa", "XOF", 3, ["DZ", "LY", "TD", "NG", "BJ", "BF", "ML"]],
+  ["NF", "NFK", "Norfolk Island", "oceania", "AUD", 7, ["AU", "NZ", "NC"]],
+  ["NG", "NGA", "Nigeria", "africa", "NGN", 3, ["BJ", "NE", "TD", "CM"]],
+  ["NI", "NIC", "Nicaragua", "north_america", "NIO", 2.5, ["HN", "CR"]],
+  ["NL", "NLD", "Netherlands", "europe", "EUR", 6.5, ["BE", "DE", "GB"], ["The Netherlands", "Holland"]],
+  ["NO", "NOR", "Norway", "europe", "NOK", 8.5, ["SE", "FI", "RU", "DK"]],
+  ["NP", "NPL", "Nepal", "asia", "NPR", 2, ["IN", "CN", "BT"]],
+  ["NR", "NRU", "Nauru", "oceania", "AUD", 6, ["KI", "MH", "SB"]],
+  ["NU", "NIU", "Niue", "oceania", "NZD", 6, ["TO", "WS", "CK"]],
+  ["NZ", "NZL", "New Zealand", "oceania", "NZD", 7.5, ["AU", "FJ", "CK", "NC"], ["Aotearoa"]],
+  ["OM", "OMN", "Oman", "middle_east", "OMR", 5.5, ["AE", "SA", "YE"]],
+  ["PA", "PAN", "Panama", "north_america", "USD", 4.5, ["CR", "CO"]],
+  ["PE", "PER", "Peru", "south_america", "PEN", 3, ["EC", "CO", "BR", "BO", "CL"]],
+  ["PF", "PYF", "French Polynesia", "oceania", "XPF", 8, ["CK", "PN"], ["Tahiti"]],
+  ["PG", "PNG", "Papua New Guinea", "oceania", "PGK", 5, ["ID", "AU", "SB"]],
+  ["PH", "PHL", "Philippines", "asia", "PHP", 3, ["TW", "MY", "ID", "VN", "PW"]],
+  ["PK", "PAK", "Pakistan", "asia", "PKR", 2, ["IN", "AF", "IR", "CN"]],
+  ["PL", "POL", "Poland", "europe", "PLN", 4, ["DE", "CZ", "SK", "UA", "BY", "LT", "RU"], ["Polska"]],
+  ["PM", "SPM", "Saint Pierre and Miquelon", "north_america", "EUR", 6.5, ["CA"]],
+  ["PN", "PCN", "Pitcairn Islands", "oceania", "NZD", 7, ["PF"], ["Pitcairn"]],
+  ["PR", "PRI", "Puerto Rico", "north_america", "USD", 6, ["DO", "VI", "VG"]],
+  ["PS", "PSE", "Palestine", "middle_east", "ILS", 3.5, ["IL", "JO", "EG"], ["State of Palestine", "Palestinian Territories"]],
+  ["PT", "PRT", "Portugal", "europe", "EUR", 4.5, ["ES", "MA"]],
+  ["PW", "PLW", "Palau", "oceania", "USD", 7, ["FM", "GU", "PH"]],
+  ["PY", "PRY", "Paraguay", "south_america", "PYG", 2.5, ["AR", "BO", "BR"]],
+  ["QA", "QAT", "Qatar", "middle_east", "QAR", 7, ["SA", "BH", "AE"]],
+  ["RE", "REU", "Réunion", "africa", "EUR", 6.5, ["MU", "MG"], ["Reunion"]],
+  ["RO", "ROU", "Romania", "europe", "RON", 3.5, ["HU", "UA", "MD", "BG", "RS"]],
+  ["RS", "SRB", "Serbia", "europe", "RSD", 3, ["HU", "RO", "BG", "MK", "ME", "BA", "HR"]],
+  ["RU", "RUS", "Russia", "europe", "RUB", 3.5, ["NO", "FI", "EE", "LV", "LT", "PL", "BY", "UA", "GE", "AZ", "KZ", "CN", "MN", "KP"], ["Russian Federation"]],
+  ["RW", "RWA", "Rwanda", "africa", "RWF", 4, ["UG", "TZ", "BI", "CD"]],
+  ["SA", "SAU", "Saudi Arabia", "middle_east", "SAR", 6, ["JO", "IQ", "KW", "QA", "BH", "AE", "OM", "YE"], ["KSA"]],
+  ["SB", "SLB", "Solomon Islands", "oceania", "SBD", 5, ["PG", "VU", "NR"]],
+  ["SC", "SYC", "Seychelles", "africa", "SCR", 8, ["MU", "MG", "KE"]],
+  ["SD", "SDN", "Sudan", "africa", "SDG", 2.5, ["EG", "LY", "TD", "CF", "SS", "ET", "ER"]],
+  ["SE", "SWE", "Sweden", "europe", "SEK", 7, ["NO", "FI", "DK"], ["Sverige"]],
+  ["SG", "SGP", "Singapore", "asia", "SGD", 7.5, ["MY", "ID"]],
+  ["SH", "SHN", "Saint Helena", "africa", "SHP", 6, ["NA", "AO"], ["St Helena", "Saint Helena, Ascension and Tristan da Cunha"]],
+  ["SI", "SVN", "Slovenia", "europe", "EUR", 5, ["IT", "AT", "HU", "HR"]],
+  ["SJ", "SJM", "Svalbard and Jan Mayen", "europe", "NOK", 8, ["NO"], ["Svalbard"]],
+  ["SK", "SVK", "Slovakia", "europe", "EUR", 4.5, ["CZ", "PL", "UA", "HU", "AT"], ["Slovak Republic"]],
+  ["SL", "SLE", "Sierra Leone", "africa", "SLE", 3, ["GN", "LR"]],
+  ["SM", "SMR", "San Marino", "europe", "EUR", 5.5, ["IT"]],
+  ["SN", "SEN", "Senegal", "africa", "XOF", 4, ["MR", "ML", "GN", "GW", "GM"]],
+  ["SO", "SOM", "Somalia", "africa", "SOS", 3, ["ET", "KE", "DJ"]],
+  ["SR", "SUR", "Suriname", "south_america", "SRD", 3.5, ["GY", "BR", "GF"]],
+  ["SS", "SSD", "South Sudan", "africa", "SSP", 4, ["SD", "ET", "KE", "UG", "CD", "CF"]],
+  ["ST", "STP", "São Tomé and Príncipe", "africa", "STN", 4, ["GQ", "GA"], ["Sao Tome and Principe"]],
+  ["SV", "SLV", "El Salvador", "north_america", "USD", 3, ["GT", "HN"]],
+  ["SX", "SXM", "Sint Maarten", "north_america", "ANG", 7, ["MF", "AI", "BL"], ["St Maarten", "Sint Maarten (Dutch part)"]],
+  ["SY", "SYR", "Syria", "middle_east", "SYP", 2.5, ["TR", "IQ", "JO", "IL", "LB"], ["Syrian Arab Republic"]],
+  ["SZ", "SWZ", "Eswatini", "africa", "SZL", 3.5, ["ZA", "MZ"], ["Swaziland"]],
+  ["TC", "TCA", "Turks and Caicos Islands", "north_america", "USD", 8.5, ["BS", "DO", "HT"], ["Turks and Caicos"]],
+  ["TD", "TCD", "Chad", "africa", "XAF", 4, ["LY", "SD", "CF", "CM", "NG", "NE"]],
+  ["TF", "ATF", "French Southern Territories", "antarctica", "EUR", 10, ["HM", "MG", "RE"], ["French Southern and Antarctic Lands"]],
+  ["TG", "TGO", "Togo", "africa", "XOF", 3, ["GH", "BF", "BJ"]],
+  ["TH", "THA", "Thailand", "asia", "THB", 3, ["MM", "LA", "KH", "MY"]],
+  ["TJ", "TJK", "Tajikistan", "asia", "TJS", 2, ["UZ", "KG", "CN", "AF"]],
+  ["TK", "TKL", "Tokelau", "oceania", "NZD", 6, ["WS", "TV"]],
+  ["TL", "TLS", "Timor-Leste", "asia", "USD", 3.5, ["ID", "AU"], ["East Timor"]],
+  ["TM", "TKM", "Turkmenistan", "asia", "TMT", 3, ["KZ", "UZ", "AF", "IR"]],
+  ["TN", "TUN", "Tunisia", "africa", "TND", 3, ["DZ", "LY", "MT", "IT"]],
+  ["TO", "TON", "Tonga", "oceania", "TOP", 5, ["FJ", "WS", "NU"]],
+  ["TR", "TUR", "Turkey", "middle_east", "TRY", 3, ["GR", "BG", "GE", "AM", "AZ", "IR", "IQ", "SY", "CY"], ["Türkiye", "Turkiye"]],
+  ["TT", "TTO", "Trinidad and Tobago", "north_america", "TTD", 5, ["VE", "GD", "BB"], ["Trinidad"]],
+  ["TV", "TUV", "Tuvalu", "oceania", "AUD", 5, ["FJ", "KI", "TK"]],
+  ["TW", "TWN", "Taiwan", "asia", "TWD", 4.5, ["CN", "JP", "PH", "HK"], ["Republic of China", "Chinese Taipei"]],
+  ["TZ", "TZA", "Tanzania", "africa", "TZS", 4, ["KE", "UG", "RW", "BI", "CD", "ZM", "MW", "MZ"], ["United Republic of Tanzania", "Zanzibar"]],
+  ["UA", "UKR", "Ukraine", "europe", "UAH", 2.5, ["PL", "SK", "HU", "RO", "MD", "BY", "RU"]],
+  ["UG", "UGA", "Uganda", "africa", "UGX", 3, ["KE", "SS", "CD", "RW", "TZ"]],
+  ["UM", "UMI", "United States Minor Outlying Islands", "oceania", "USD", 6, ["US", "MH"], ["U.S. Outlying Islands"]],
+  ["US", "USA", "United States", "north_america", "USD", 8, ["CA", "MX", "BS", "CU"], ["United States of America", "USA", "U.S.A.", "U.S.", "America"]],
+  ["UY", "URY", "Uruguay", "south_america", "UYU", 5, ["AR", "BR"]],
+  ["UZ", "UZB", "Uzbekistan", "asia", "UZS", 2.5, ["KZ", "KG", "TJ", "AF", "TM"]],
+  ["VA", "VAT", "Vatican City", "europe", "EUR", 6, ["IT"], ["Holy See", "Vatican"]],
+  ["VC", "VCT", "Saint Vincent and the Grenadines", "north_america", "XCD", 5.5, ["LC", "GD", "BB"], ["St Vincent and Grenadines", "Saint Vincent"]],
+  ["VE", "VEN", "Venezuela", "south_america", "VES", 3, ["CO", "BR", "GY", "TT", "AW", "CW"], ["Bolivarian Republic of Venezuela"]],
+  ["VG", "VGB", "British Virgin Islands", "north_america", "USD", 8, ["VI", "PR", "AI"], ["BVI"]],
+  ["VI", "VIR", "U.S. Virgin Islands", "north_america", "USD", 7.5, ["VG", "PR"], ["US Virgin Islands", "United States Virgin Islands", "USVI"]],
+  ["VN", "VNM", "Vietnam", "asia", "VND", 2.5, ["CN", "LA", "KH"], ["Viet Nam"]],
+  ["VU", "VUT", "Vanuatu", "oceania", "VUV", 6, ["NC", "FJ", "SB"]],
+  ["WF", "WLF", "Wallis and Futuna", "oceania", "XPF", 7, ["FJ", "WS", "TO"]],
+  ["WS", "WSM", "Samoa", "oceania", "WST", 5, ["AS", "TO", "FJ"]],
+  ["YE", "YEM", "Yemen", "middle_east", "YER", 2.5, ["SA", "OM", "DJ", "ER"]],
+  ["YT", "MYT", "Mayotte", "africa", "EUR", 5, ["KM", "MG"]],
+  ["ZA", "ZAF", "South Africa", "africa", "ZAR", 3.5, ["NA", "BW", "ZW", "MZ", "SZ", "LS"], ["RSA"]],
+  ["ZM", "ZMB", "Zambia", "africa", "ZMW", 3.5, ["CD", "TZ", "MW", "MZ", "ZW", "BW", "NA", "AO"]],
+  ["ZW", "ZWE", "Zimbabwe", "africa", "USD", 4, ["ZA", "BW", "ZM", "MZ"]],
+];
+
+export const COUNTRIES: Country[] = COUNTRY_ROWS.map(
+  ([code, alpha3, name, region, currency, costIndex, neighbours, aliases = []]) => ({
+    code,
+    alpha3,
+    name,
+    aliases,
+    region,
+    currency,
+    costIndex,
+    neighbours,
+  }),
+);
+
+/** Folds case, accents, "&" and "St." so "St. Kitts & Nevis" finds "Saint Kitts and Nevis". */
+export function toLookupKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/^st\s/, "saint ")
+    .replace(/^the\s/, "")
+    .replace(/[^a-z0-9()]+/g, " ")
+    .trim();
+}
+
+const COUNTRY_BY_CODE = new Map(COUNTRIES.map((country) => [country.code, country]));
+const COUNTRY_BY_KEY = new Map<string, Country>();
+COUNTRIES.forEach((country) => {
+  [country.name, ...country.aliases].forEach((label) => {
+    COUNTRY_BY_KEY.set(toLookupKey(label), country);
+  });
+});
+
+export function getCountryByCode(code: string): Country | undefined {
+  return COUNTRY_BY_CODE.get(code.trim().toUpperCase());
+}
+
+/**
+ * Resolves a country name, alias or ISO code. Two-letter input is tried as an
+ * alpha-2 code first, so "US" and "UK"/"GB" both work.
+ */
+export function findCountry(query?: string): Country | undefined {
+  const trimmed = query?.trim();
+  if (!trimmed) return undefined;
+  if (/^[A-Za-z]{2}$/.test(trimmed)) {
+    const byCode = getCountryByCode(trimmed);
+    if (byCode) return byCode;
+  }
+  if (/^[A-Z]{3}$/.test(trimmed)) {
+    const byAlpha3 = COUNTRIES.find((country) => country.alpha3 === trimmed);
+    if (byAlpha3) return byAlpha3;
+  }
+  return COUNTRY_BY_KEY.get(toLookupKey(trimmed));
+}
+
+/** Canonical registry name for a country, or the trimmed input when unknown. */
+export function normalizeCountryName(country?: string): string | undefined {
+  const trimmed = country?.trim();
+  if (!trimmed) return undefined;
+  return findCountry(trimmed)?.name || trimmed;
+}
+
+/** Country of a "City, Region, Country" label (its last comma-separated part). */
+export function findCountryInLocation(location: string): Country | undefined {
+  const parts = location.split(",").map((part) => part.trim()).filter(Boolean);
+  return parts.length ? findCountry(parts[parts.length - 1]) : undefined;
+}
+
+export function getCountryFromLocation(location: string): string | undefined {
+  const parts = location.split(",").map((part) => part.trim()).filter(Boolean);
+  if (!parts.length) return undefined;
+  return normalizeCountryName(parts[parts.length - 1]);
+}
+
+/**
+ * Neighbouring countries that cost no more on the ground than the origin,
+ * cheapest first; falls back to all neighbours when none are cheaper.
+ */
+export function getNearbyValueCountries(country: Country, limit = 4): Country[] {
+  const neighbours = country.neighbours
+    .map((code) => COUNTRY_BY_CODE.get(code))
+    .filter((neighbour): neighbour is Country => !!neighbour && neighbour.region !== "antarctica");
+  const cheaper = neighbours.filter((neighbour) => neighbour.costIndex <= country.costIndex);
+  return (cheaper.length ? cheaper : neighbours)
+    .sort((a, b) => a.costIndex - b.costIndex)
+    .slice(0, limit);
+}
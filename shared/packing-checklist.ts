@@ -0,0 +1,56 @@
+import type {
+  PackingCategory,
+  PackingChecklist,
+  PackingChecklistItem,
+  PackingList,
+} from "./schema";
+
+export const PACKING_CATEGORIES: PackingCategory[] = ["clothes", "shoes", "accessories", "misc"];
+
+export const PACKING_CATEGORY_LABELS: Record<PackingCategory, string> = {
+  // Clothes quantities come from per-traveler counts
+  clothes: "Clothes (per person)",
+  shoes: "Shoes",
+  accessories: "Accessories",
+  misc: "Misc",
+};
+
+const MAX_LABEL_LENGTH = 100;
+
+function toItems(category: PackingCategory, labels: string[]): PackingChecklistItem[] {
+  return labels
+    .map((label) => label.trim().slice(0, MAX_LABEL_LENGTH))
+    .filter(Boolean)
+    .map((label, i) => ({ id: `${category}-${i}`, label, quantity: 1, checked: false }));
+}
+
+/** The unticked checklist a trip starts with, built from its suggested packing list. */
+export function createPackingChecklist(list: PackingList): PackingChecklist {
+  const clothes: Array<[string, number]> = [
+    ["Tops", list.clothes.tops],
+    ["Bottoms", list.clothes.bottoms],
+    ["Outerwear", list.clothes.outerwear],
+  ];
+  return {
+    clothes: clothes
+      .filter(([, quantity]) => quantity > 0)
+      .map(([label, quantity]) => ({
+        id: `clothes-${label.toLowerCase()}`,
+        label,
+        quantity: Math.min(99, Math.round(quantity)),
+        checked: false,
+      })),
+    shoes: toItems("shoes", list.shoes),
+    accessories: toItems("accessories", list.accessories),
+    misc: toItems("misc", list.misc),
+  };
+}
+
+/** "Tops × 4", or just the label for a single item. */
+export function formatPackingItem(item: PackingChecklistItem): string {
+  return item.quantity > 1 ? `${item.label} × ${item.quantity}` : item.label;
+}
+
+export function countPacked(items: PackingChecklistItem[]): { packed: number; total: number } {
+  return { packed: items.filter((item) => item.checked).length, total: items.length };
+}
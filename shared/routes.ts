@@ -1,8 +1,18 @@
 import { z } from 'zod';
 import {
+  budgetEstimateRequestSchema,
+  budgetEstimateSchema,
+  climateNormalsSchema,
+  climateQuerySchema,
+  currenciesResponseSchema,
+  dailyPlanSchema,
   destinationRecommendationResponseSchema,
+  locationSuggestionsResponseSchema,
+  packingChecklistSchema,
+  storedTripSchema,
+  tripExportSchema,
   tripRequestSchema,
-  tripResponseSchema,
+  tripStreamEventSchema,
 } from './schema';
 
 export const errorSchemas = {
@@ -10,9 +20,16 @@ export const errorSchemas = {
     message: z.string(),
     field: z.string().optional(),
   }),
+  notFound: z.object({
+    message: z.string(),
+  }),
   internal: z.object({
     message: z.string(),
   }),
+  upstream: z.object({
+    message: z.string(),
+    issues: z.array(z.string()).optional(),
+  }),
 };
 
 export const api = {
@@ -32,7 +49,164 @@ export const api = {
       path: '/api/generate-itinerary' as const,
       input: tripRequestSchema,
       responses: {
-        200: tripResponseSchema,
+        200: storedTripSchema,
+        400: errorSchemas.validation,
+        500: errorSchemas.internal,
+        502: errorSchemas.upstream,
+      },
+    },
+    generateStream: {
+      method: 'POST' as const,
+      path: '/api/generate-itinerary/stream' as const,
+      input: tripRequestSchema,
+      responses: {
+        // text/event-stream; each `data:` payload is one event
+        200: tripStreamEventSchema,
+        400: errorSchemas.validation,
+        500: errorSchemas.internal,
+      },
+    },
+    list: {
+      method: 'GET' as const,
+      path: '/api/trips' as const,
+      responses: {
+        200: z.array(storedTripSchema),
+        500: errorSchemas.internal,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/trips/:id' as const,
+      responses: {
+        200: storedTripSchema,
+        404: errorSchemas.notFound,
+      },
+    },
+    calendar: {
+      method: 'GET' as const,
+      path: '/api/trips/:id/calendar.ics' as const,
+      // text/calendar attachment
+      responses: {
+        200: z.string(),
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+    pdf: {
+      method: 'GET' as const,
+      path: '/api/trips/:id/plan.pdf' as const,
+      // application/pdf attachment
+      responses: {
+        200: z.unknown(),
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+    exportJson: {
+      method: 'GET' as const,
+      path: '/api/trips/:id/export.json' as const,
+      // application/json attachment
+      responses: {
+        200: tripExportSchema,
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+    exportMarkdown: {
+      method: 'GET' as const,
+      path: '/api/trips/:id/export.md' as const,
+      // text/markdown attachment
+      responses: {
+        200: z.string(),
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+    import: {
+      method: 'POST' as const,
+      path: '/api/trips/import' as const,
+      input: tripExportSchema,
+      responses: {
+        201: storedTripSchema,
+        400: errorSchemas.validation,
+        500: errorSchemas.internal,
+      },
+    },
+    updatePackingChecklist: {
+      method: 'PUT' as const,
+      path: '/api/trips/:id/packing-checklist' as const,
+      input: packingChecklistSchema,
+      responses: {
+        200: packingChecklistSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+    regenerateDay: {
+      method: 'POST' as const,
+      path: '/api/trips/:id/days/:day/regenerate' as const,
+      input: z.object({
+        guidance: z.string().trim().max(300, "Keep guidance under 300 characters").optional(),
+      }),
+      responses: {
+        200: dailyPlanSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+        502: errorSchemas.upstream,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/trips/:id' as const,
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+  },
+  currencies: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/currencies' as const,
+      responses: {
+        200: currenciesResponseSchema,
+      },
+    },
+  },
+  locations: {
+    suggest: {
+      method: 'GET' as const,
+      path: '/api/location-suggestions' as const,
+      // ?query=<at least two characters>
+      responses: {
+        200: locationSuggestionsResponseSchema,
+      },
+    },
+  },
+  climate: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/climate' as const,
+      // ?lat=<latitude>&lon=<longitude>&month=<1-12>
+      input: climateQuerySchema,
+      responses: {
+        200: climateNormalsSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      },
+    },
+  },
+  budget: {
+    estimate: {
+      method: 'POST' as const,
+      path: '/api/budget-estimate' as const,
+      input: budgetEstimateRequestSchema,
+      responses: {
+        200: budgetEstimateSchema,
         400: errorSchemas.validation,
         500: errorSchemas.internal,
       },
@@ -1,8 +1,32 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, varchar, integer, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
 import { z } from "zod";
+import { parseLegacyActivities, type DaySlot } from "./activities";
+import { isCurrencyCode } from "./currencies";
 
-// We don't need a DB for this MVP, but we'll define the schemas here for shared types
+export * from "./models/chat";
+
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .min(1, "Currency is required")
+  .refine(isCurrencyCode, "Unsupported currency");
+
+// A geocoded city, as offered by location suggestions and kept on trip requests
+export const placeSchema = z.object({
+  city: z.string(),
+  region: z.string().optional(),
+  country: z.string(),
+  country_code: z.string().length(2),
+  // "City, Region, Country"; the text the wizard puts in the location field
+  displayName: z.string(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  timezone: z.string().optional(),
+  population: z.number().int().nonnegative().optional(),
+});
 
 export const tripRequestSchema = z.object({
   trip_goal: z.enum(["need_recommendation", "know_destination"], {
@@ -18,7 +42,7 @@ export const tripRequestSchema = z.object({
   includes_flights: z.boolean(),
   max_flight_hours: z.number().min(1, "Max flight duration is required").max(24).optional(),
   budget_amount: z.number().positive("Budget amount is required"),
-  currency: z.string().min(1, "Currency is required"),
+  currency: currencyCodeSchema,
   emotional_goals: z.array(z.string()).min(1, "Select at least 1 emotional goal").max(2, "Select up to 2 emotional goals"),
   daily_pace: z.enum(["slow_spontaneous", "balanced", "packed_high_energy"], {
     required_error: "Please select your ideal daily pace",
@@ -45,7 +69,17 @@ export const tripRequestSchema = z.object({
   endDate: z.string().min(1, "End date is required"),
   location: z.string().trim().min(1, "Starting location is required"),
   destination_location: z.string().trim().optional(),
+  // Set when the location was picked from suggestions; absent for free text
+  origin_place: placeSchema.optional(),
+  destination_place: placeSchema.optional(),
   companions: z.string().min(1, "Travel setup is required"),
+  // Absent when the traveler will not do laundry during the trip
+  laundry_every_days: z
+    .number()
+    .int()
+    .min(2, "Laundry must be at least 2 days apart")
+    .max(14, "Laundry must be at most 14 days apart")
+    .optional(),
 }).superRefine((data, ctx) => {
   const { startDate, endDate } = data;
   const start = new Date(startDate);
@@ -94,13 +128,124 @@ export const tripRequestSchema = z.object({
   }
 });
 
+// Units of each currency per one unit of `base`; bump `version` when updating
+export const exchangeRatesSchema = z.object({
+  version: z.number().int().positive(),
+  as_of: z.string(),
+  base: z.string().length(3),
+  rates: z.record(z.number().positive()),
+});
+
+export const entryRequirementTypeSchema = z.enum([
+  "visa_free",
+  "e_visa",
+  "visa_on_arrival",
+  "visa_required",
+]);
+
+// `passport` and `destination` are ISO 3166 alpha-2 codes or names from `groups`
+export const entryRuleSchema = z.object({
+  passport: z.string().min(2),
+  destination: z.string().min(2),
+  requirement: entryRequirementTypeSchema,
+  max_stay_days: z.number().int().positive().optional(),
+  passport_validity_months: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+});
+
+// Bump `version` and `as_of` whenever a rule changes
+export const entryRulesSchema = z.object({
+  version: z.number().int().positive(),
+  as_of: z.string(),
+  groups: z.record(z.array(z.string().length(2))).default({}),
+  rules: z.array(entryRuleSchema),
+});
+
+export const currenciesResponseSchema = z.object({
+  version: z.number().int(),
+  as_of: z.string(),
+  base: z.string(),
+  currencies: z.array(
+    z.object({
+      code: z.string(),
+      name: z.string(),
+      decimals: z.number().int(),
+      rate: z.number().nullable(),
+      strength: z.enum(["weak", "medium", "strong"]),
+    }),
+  ),
+});
+
+export const locationSuggestionsResponseSchema = z.object({
+  suggestions: z.array(placeSchema),
+});
+
+// The subset of a trip request the budget estimator needs
+export const budgetEstimateRequestSchema = z.object({
+  trip_type: z.enum(["domestic", "international"], {
+    required_error: "Please select domestic or international travel",
+  }),
+  location: z.string().trim().min(1, "Starting location is required"),
+  destination_location: z.string().trim().optional(),
+  origin_place: placeSchema.optional(),
+  destination_place: placeSchema.optional(),
+  days: z.coerce.number().int().min(1, "Trip length must be at least 1 day"),
+  number_of_people: z.number().int().min(1, "Number of people is required"),
+  budget_amount: z.number().positive("Budget amount is required"),
+  currency: currencyCodeSchema,
+  includes_flights: z.boolean(),
+  max_flight_hours: z.number().min(1).max(24).optional(),
+  comfort_level: z.enum(["low", "medium", "premium"]).default("medium"),
+});
+
+// Amounts are whole-group totals in the request's currency
+export const budgetEstimateSchema = z.object({
+  currency: z.string(),
+  trip_type: z.enum(["domestic", "international"]),
+  recommended_range: z.object({
+    low: z.number().min(0),
+    high: z.number().min(0),
+  }),
+  budget_status: z.enum(["below_range", "within_range", "above_range"]),
+  // Comfort tier the stated budget actually buys
+  comfort_level: z.enum(["low", "medium", "premium"]),
+  can_proceed: z.boolean(),
+  guidance: z.string(),
+});
+
+export const activityCategorySchema = z.enum([
+  "sightseeing",
+  "food",
+  "culture",
+  "nature",
+  "adventure",
+  "shopping",
+  "nightlife",
+  "wellness",
+  "leisure",
+  "transport",
+  "other",
+]);
+
+export const activitySchema = z.object({
+  start_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Start time must be HH:MM (24-hour)"),
+  duration_minutes: z.number().int().min(0),
+  title: z.string(),
+  place_name: z.string(),
+  category: activityCategorySchema,
+  // Per person, in the trip's budget currency
+  estimated_cost: z.number().min(0),
+  booking_required: z.boolean(),
+  notes: z.string(),
+});
+
 export const dailyPlanSchema = z.object({
   day: z.number(),
   energy_level: z.enum(["low", "medium", "high"]),
   plan: z.object({
-    morning: z.string(), // Will contain timing info in the string
-    afternoon: z.string(),
-    evening: z.string(),
+    morning: z.array(activitySchema),
+    afternoon: z.array(activitySchema),
+    evening: z.array(activitySchema),
   }),
 });
 
@@ -115,13 +260,166 @@ export const packingListSchema = z.object({
   misc: z.array(z.string()),
 });
 
+export const packingCategorySchema = z.enum(["clothes", "shoes", "accessories", "misc"]);
+
+export const packingChecklistItemSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().trim().min(1, "Item name is required").max(100, "Keep item names under 100 characters"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").max(99, "Quantity must be 99 or less"),
+  checked: z.boolean(),
+});
+
+// The traveler's own copy of the packing list; starts from packing_list and is edited freely
+export const packingChecklistSchema = z.object({
+  clothes: z.array(packingChecklistItemSchema).max(100),
+  shoes: z.array(packingChecklistItemSchema).max(100),
+  accessories: z.array(packingChecklistItemSchema).max(100),
+  misc: z.array(packingChecklistItemSchema).max(100),
+});
+
+// Whole-group amounts in the trip's budget currency
+export const budgetBreakdownSchema = z.object({
+  currency: z.string(),
+  flights: z.number().min(0),
+  lodging_per_night: z.number().min(0),
+  nights: z.number().int().min(0),
+  food_per_day: z.number().min(0),
+  activities: z.number().min(0),
+  local_transport: z.number().min(0),
+  buffer: z.number().min(0),
+  // Computed server-side; never trusted from the model
+  total: z.number().min(0),
+  over_budget: z.boolean(),
+  over_budget_by: z.number().min(0),
+});
+
+export const tripConstraintSchema = z.enum([
+  "day_count",
+  "slot_times",
+  "trip_type",
+  "destination",
+  "senior_energy",
+]);
+
+// A request constraint the stored plan still breaks after the retries ran out
+export const tripWarningSchema = z.object({
+  constraint: tripConstraintSchema,
+  message: z.string(),
+});
+
+// What the entry rules say for this trip; `requirement` is null when no rule covers it
+export const entryRequirementsSchema = z.object({
+  passport_country: z.string(),
+  destination_country: z.string(),
+  requirement: entryRequirementTypeSchema.nullable(),
+  max_stay_days: z.number().int().positive().optional(),
+  passport_validity_months: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+  confidence: z.enum(["high", "medium", "low"]),
+  rules_version: z.number().int(),
+  rules_as_of: z.string(),
+});
+
+// Monthly climate normals from the station nearest a point; see server/data/climate.ts
+export const climateNormalsSchema = z.object({
+  station: z.string(),
+  country_code: z.string().length(2),
+  distance_km: z.number().min(0),
+  month: z.number().int().min(1).max(12),
+  avg_high_c: z.number(),
+  avg_low_c: z.number(),
+  rainfall_mm: z.number().min(0),
+  humidity_pct: z.number().min(0).max(100),
+  daylight_hours: z.number().min(0).max(24),
+  // Short description such as "Warm and humid, very wet"
+  summary: z.string(),
+});
+
+export const climateQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lon: z.coerce.number().min(-180).max(180),
+  month: z.coerce.number().int().min(1).max(12),
+});
+
+// no_snow flags a snowy_landscape request for a month the destination rarely sees snow
+export const seasonalRiskSchema = z.enum(["monsoon", "hurricane", "extreme_heat", "high_season", "no_snow"]);
+
+export const seasonalityWarningSchema = z.object({
+  risk: seasonalRiskSchema,
+  region: z.string(),
+  message: z.string(),
+});
+
 export const tripResponseSchema = z.object({
   trip_theme: z.string(),
   destination: z.string(),
   why_it_matches_you: z.array(z.string()),
   daily_itinerary: z.array(dailyPlanSchema),
   packing_list: packingListSchema,
+  // The model's own packing list before the baseline merge, so later merges start from it
+  suggested_packing_list: packingListSchema.optional(),
   documents: z.array(z.string()),
+  budget_breakdown: budgetBreakdownSchema.optional(),
+  // Computed server-side by the constraint checker
+  warnings: z.array(tripWarningSchema).optional(),
+  // Computed server-side from the entry rules; absent for domestic trips
+  entry_requirements: entryRequirementsSchema.optional(),
+  // Computed server-side for the destination and the month the trip starts
+  climate: climateNormalsSchema.optional(),
+  // Computed server-side for the destination and the trip dates
+  seasonality_warnings: z.array(seasonalityWarningSchema).optional(),
+});
+
+// Plans saved before schema version 2 stored each slot as "09:00 AM - Activity..." text
+const legacyActivitySlotSchema = (slot: DaySlot) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? parseLegacyActivities(value, slot) : value),
+    z.array(activitySchema),
+  );
+
+/** Reads a response saved before schema version 2; only for upgrading stored or exported trips. */
+export const legacyTripResponseSchema = tripResponseSchema.extend({
+  daily_itinerary: z.array(
+    dailyPlanSchema.extend({
+      plan: z.object({
+        morning: legacyActivitySlotSchema("morning"),
+        afternoon: legacyActivitySlotSchema("afternoon"),
+        evening: legacyActivitySlotSchema("evening"),
+      }),
+    }),
+  ),
+});
+
+const ratingSchema = z.number().min(0).max(10);
+
+/**
+ * How well a destination serves each answer in the questionnaire, rated 0-10.
+ * Free-text answers (emotional goals, excitement focus) are keyed by slug.
+ */
+export const destinationFeaturesSchema = z.object({
+  emotions: z.record(ratingSchema),
+  pace: z.record(ratingSchema),
+  interests: z.record(ratingSchema),
+  settings: z.record(ratingSchema),
+  comfort_risk: z.record(ratingSchema),
+  food: z.record(ratingSchema),
+  social: z.record(ratingSchema),
+  cost_level: z.number().min(1).max(10),
+  flight_hours: z.number().min(0),
+  past_trip_similarity: ratingSchema.optional(),
+});
+
+export const scoreBreakdownSchema = z.object({
+  emotion: z.number(),
+  pace: z.number(),
+  interest: z.number(),
+  comfort_risk: z.number(),
+  geography: z.number(),
+  food: z.number(),
+  social: z.number(),
+  budget_tier: z.number(),
+  // null when the traveler did not name a past trip
+  historical_fit: z.number().nullable(),
 });
 
 export const destinationOptionSchema = z.object({
@@ -140,14 +438,155 @@ export const destinationOptionSchema = z.object({
     safety_accessibility: z.number().min(1).max(10),
     total_score: z.number().min(1).max(10),
   }),
+  // One short sentence per metric explaining the number
+  metric_rationales: z.object({
+    vibe_fit: z.string(),
+    affordability: z.string(),
+    travel_convenience: z.string(),
+    safety_accessibility: z.string(),
+    total_score: z.string(),
+  }),
+  score_breakdown: scoreBreakdownSchema.optional(),
+  // Great-circle estimate from the traveler's origin; 0 when no flight is needed
+  estimated_flight_hours: z.number().min(0).optional(),
+  exceeds_flight_limit: z.boolean().optional(),
+  // Normals for the travel month; absent when no station is near the destination
+  climate: climateNormalsSchema.optional(),
+  seasonality_warnings: z.array(seasonalityWarningSchema).optional(),
+  // Points taken off total_score for the seasonality warnings
+  seasonality_penalty: z.number().min(0).optional(),
 });
 
 export const destinationRecommendationResponseSchema = z.object({
   options: z.array(destinationOptionSchema).min(3).max(3),
 });
 
+// Bump when tripResponseSchema changes shape so stored trips can be migrated on read
+export const TRIP_SCHEMA_VERSION = 2;
+
+export const trips = pgTable("trips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  request: jsonb("request").$type<z.infer<typeof tripRequestSchema>>().notNull(),
+  response: jsonb("response").$type<z.infer<typeof tripResponseSchema>>().notNull(),
+  version: integer("version").notNull().default(TRIP_SCHEMA_VERSION),
+  // null until the traveler first edits the checklist
+  packingChecklist: jsonb("packing_checklist").$type<z.infer<typeof packingChecklistSchema>>(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const insertTripSchema = createInsertSchema(trips, {
+  request: tripRequestSchema,
+  response: tripResponseSchema,
+  packingChecklist: packingChecklistSchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// API shape of a stored trip (timestamps travel as ISO strings)
+export const storedTripSchema = z.object({
+  id: z.string(),
+  request: tripRequestSchema,
+  response: tripResponseSchema,
+  version: z.number(),
+  packingChecklist: packingChecklistSchema.nullable().default(null),
+  createdAt: z.string(),
+});
+
+export const TRIP_EXPORT_FORMAT = "travel-taste-matcher/trip";
+
+// Exports made before schema version 2 carry the old text slots; upgrade them before validating
+function upgradeLegacyExport(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const data = value as Record<string, unknown>;
+  if (typeof data.schema_version !== "number" || data.schema_version >= 2) return value;
+  const response = legacyTripResponseSchema.safeParse(data.response);
+  return response.success ? { ...data, response: response.data } : value;
+}
+
+// Portable copy of a trip for sharing between people and tools; ids and timestamps stay behind
+export const tripExportSchema = z.preprocess(
+  upgradeLegacyExport,
+  z.object({
+    format: z.literal(TRIP_EXPORT_FORMAT, {
+      errorMap: () => ({ message: "This file is not a Travel Taste Matcher trip export" }),
+    }),
+    schema_version: z
+      .number()
+      .int()
+      .min(1)
+      .max(TRIP_SCHEMA_VERSION, "This trip was exported by a newer version of the app"),
+    exported_at: z.string(),
+    request: tripRequestSchema,
+    response: tripResponseSchema,
+    packing_checklist: packingChecklistSchema.optional(),
+  }),
+);
+
+export const tripStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("overview"),
+    trip_theme: z.string(),
+    destination: z.string(),
+    why_it_matches_you: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal("day"),
+    day: dailyPlanSchema,
+  }),
+  z.object({
+    type: z.literal("extras"),
+    packing_list: packingListSchema,
+    documents: z.array(z.string()),
+    budget_breakdown: budgetBreakdownSchema.optional(),
+  }),
+  // The streamed plan failed its checks and is being regenerated, so the days sent so far may change
+  z.object({
+    type: z.literal("revising"),
+    reasons: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal("done"),
+    trip: storedTripSchema,
+  }),
+  z.object({
+    type: z.literal("error"),
+    message: z.string(),
+    issues: z.array(z.string()).optional(),
+  }),
+]);
+
 export type TripRequest = z.infer<typeof tripRequestSchema>;
 export type TripResponse = z.infer<typeof tripResponseSchema>;
+export type DailyPlan = z.infer<typeof dailyPlanSchema>;
+export type Activity = z.infer<typeof activitySchema>;
+export type BudgetBreakdown = z.infer<typeof budgetBreakdownSchema>;
+export type PackingList = z.infer<typeof packingListSchema>;
+export type PackingCategory = z.infer<typeof packingCategorySchema>;
+export type PackingChecklistItem = z.infer<typeof packingChecklistItemSchema>;
+export type PackingChecklist = z.infer<typeof packingChecklistSchema>;
+export type TripConstraint = z.infer<typeof tripConstraintSchema>;
+export type TripWarning = z.infer<typeof tripWarningSchema>;
+export type BudgetEstimateRequest = z.infer<typeof budgetEstimateRequestSchema>;
+export type BudgetEstimate = z.infer<typeof budgetEstimateSchema>;
+export type ExchangeRates = z.infer<typeof exchangeRatesSchema>;
+export type EntryRule = z.infer<typeof entryRuleSchema>;
+export type EntryRules = z.infer<typeof entryRulesSchema>;
+export type EntryRequirements = z.infer<typeof entryRequirementsSchema>;
+export type ClimateNormals = z.infer<typeof climateNormalsSchema>;
+export type ClimateQuery = z.infer<typeof climateQuerySchema>;
+export type SeasonalRisk = z.infer<typeof seasonalRiskSchema>;
+export type SeasonalityWarning = z.infer<typeof seasonalityWarningSchema>;
+export type CurrenciesResponse = z.infer<typeof currenciesResponseSchema>;
+export type Place = z.infer<typeof placeSchema>;
+export type ActivityCategory = z.infer<typeof activityCategorySchema>;
+export type TripStreamEvent = z.infer<typeof tripStreamEventSchema>;
+export type Trip = typeof trips.$inferSelect;
+export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type StoredTrip = z.infer<typeof storedTripSchema>;
+export type TripExport = z.infer<typeof tripExportSchema>;
+export type DestinationFeatures = z.infer<typeof destinationFeaturesSchema>;
+export type ScoreBreakdown = z.infer<typeof scoreBreakdownSchema>;
 export type DestinationRecommendationResponse = z.infer<
   typeof destinationRecommendationResponseSchema
 >;
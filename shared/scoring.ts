@@ -0,0 +1,29 @@
+import type { ScoreBreakdown } from "./schema";
+
+/**
+ * V3 scoring model. Weights sum to 1; when an index does not apply to the
+ * traveler (no past trip given) its weight is spread over the others.
+ */
+export const V3_WEIGHTS: Record<keyof ScoreBreakdown, number> = {
+  emotion: 0.2,
+  pace: 0.15,
+  interest: 0.2,
+  comfort_risk: 0.1,
+  geography: 0.1,
+  food: 0.1,
+  social: 0.05,
+  budget_tier: 0.05,
+  historical_fit: 0.05,
+};
+
+export const V3_INDEX_LABELS: Record<keyof ScoreBreakdown, string> = {
+  emotion: "Emotion Index",
+  pace: "Pace Index",
+  interest: "Interest Vector",
+  comfort_risk: "Comfort/Risk Index",
+  geography: "Geography Bias",
+  food: "Food Index",
+  social: "Social Index",
+  budget_tier: "Budget Tier",
+  historical_fit: "Historical Behavior Fit",
+};